@@ -3,27 +3,42 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import DashboardPage from "@/pages/dashboard-page";
 import AvailableDeliveriesPage from "@/pages/available-deliveries-page";
 import CreateDeliveryPage from "@/pages/create-delivery-page";
 import DeliveryDetailsPage from "@/pages/delivery-details-page";
 import ProfilePage from "@/pages/profile-page";
+import WalletPage from "@/pages/wallet-page";
+import AdminPage from "@/pages/admin-page";
+import AdminDisputesPage from "@/pages/admin-disputes-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import Navbar from "./components/Navbar";
 import Footer from "./components/Footer";
+import EmailVerificationBanner from "./components/EmailVerificationBanner";
+import { useRealtimeUpdates } from "./hooks/use-realtime";
 
 function Router() {
+  useRealtimeUpdates();
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
+      <EmailVerificationBanner />
       <main className="flex-grow">
         <Switch>
           <Route path="/" component={HomePage} />
           <Route path="/auth" component={AuthPage} />
+          <Route path="/reset-password" component={ResetPasswordPage} />
+          <Route path="/verify-email" component={VerifyEmailPage} />
           <Route path="/available-deliveries" component={AvailableDeliveriesPage} />
           <ProtectedRoute path="/dashboard" component={DashboardPage} />
           <ProtectedRoute path="/create-delivery" component={CreateDeliveryPage} />
           <ProtectedRoute path="/profile" component={ProfilePage} />
+          <ProtectedRoute path="/wallet" component={WalletPage} />
+          <ProtectedRoute path="/admin" component={AdminPage} />
+          <ProtectedRoute path="/admin/disputes" component={AdminDisputesPage} />
           <Route path="/deliveries/:id" component={DeliveryDetailsPage} />
           <Route component={NotFound} />
         </Switch>
@@ -0,0 +1,75 @@
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+
+// Reminder under the navbar until the signed-in user has verified an email
+// address; deliveries can't be created before then
+const EmailVerificationBanner = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/email/verification");
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Verification email sent",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send the verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  return (
+    <div className="border-b border-amber-200 bg-amber-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-amber-800">
+        <MailWarning className="h-5 w-5 flex-shrink-0" />
+        {user.email ? (
+          <>
+            <p className="flex-grow">
+              Verify your email address to start sending packages. We sent a link to <strong>{user.email}</strong>.
+            </p>
+            <div className="flex items-center gap-3">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={resendMutation.isPending}
+                onClick={() => resendMutation.mutate()}
+              >
+                {resendMutation.isPending ? "Sending..." : "Resend link"}
+              </Button>
+              <Link href="/profile" className="font-medium underline">
+                Change address
+              </Link>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="flex-grow">Add an email address to start sending packages.</p>
+            <Link href="/profile" className="font-medium underline">
+              Add email
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
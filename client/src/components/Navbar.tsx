@@ -1,49 +1,31 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Package, Menu, User as UserIcon, LogOut } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Package, Menu, LogOut, Wallet, Shield } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/policy";
+import UnreadMessagesMenu from "@/components/messages/UnreadMessagesMenu";
+import NotificationsMenu from "@/components/notifications/NotificationsMenu";
+import UserAvatar from "@/components/profile/UserAvatar";
 
 const Navbar = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [, navigate] = useLocation();
-  const [user, setUser] = useState<{fullName: string} | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  // Shared with the rest of the app, so role changes show up straight away
+  const { user, logoutMutation } = useAuth();
 
-  // Fetch user data directly
-  useEffect(() => {
-    const fetchUser = async () => {
-      try {
-        setIsLoading(true);
-        const res = await fetch("/api/user");
-        if (res.ok) {
-          const userData = await res.json();
-          setUser(userData);
-        } else {
-          setUser(null);
-        }
-      } catch (error) {
-        setUser(null);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchUser();
-  }, []);
+  // Visitors see both sides of the marketplace; users only the roles they have
+  const showSending = !user || hasRole(user, "sender");
+  const showCarrying = !user || hasRole(user, "carrier");
 
   const toggleMobileMenu = () => {
     setIsMobileMenuOpen(!isMobileMenuOpen);
   };
   
-  const handleLogout = async () => {
-    try {
-      await apiRequest("POST", "/api/logout");
-      setUser(null);
-      navigate("/");
-    } catch (error) {
-      console.error("Logout failed:", error);
-    }
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => navigate("/"),
+    });
   };
 
   return (
@@ -61,9 +43,16 @@ const Navbar = () => {
               <Link href="/" className="border-primary text-gray-900 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium">
                 Home
               </Link>
-              <Link href="/available-deliveries" className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium">
-                Available Deliveries
-              </Link>
+              {showCarrying && (
+                <Link href="/available-deliveries" className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium">
+                  Available Deliveries
+                </Link>
+              )}
+              {showSending && (
+                <Link href="/create-delivery" className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium">
+                  Send a Package
+                </Link>
+              )}
               <Link href="/dashboard" className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium">
                 Dashboard
               </Link>
@@ -76,8 +65,20 @@ const Navbar = () => {
                 <div className="text-sm font-medium text-gray-700">
                   Welcome, {user.fullName}
                 </div>
+                <NotificationsMenu />
+                <UnreadMessagesMenu />
+                {user.isAdmin && (
+                  <Link href="/admin" className="text-gray-500 hover:text-gray-700 px-3 py-2 text-sm font-medium inline-flex items-center">
+                    <Shield className="w-4 h-4 mr-1" />
+                    Admin
+                  </Link>
+                )}
+                <Link href="/wallet" className="text-gray-500 hover:text-gray-700 px-3 py-2 text-sm font-medium inline-flex items-center">
+                  <Wallet className="w-4 h-4 mr-1" />
+                  Wallet
+                </Link>
                 <Link href="/profile" className="text-gray-500 hover:text-gray-700 px-3 py-2 text-sm font-medium inline-flex items-center">
-                  <UserIcon className="w-4 h-4 mr-1" />
+                  <UserAvatar user={user} className="w-6 h-6 mr-2" fallbackClassName="text-xs" />
                   Profile
                 </Link>
                 <Button 
@@ -104,6 +105,12 @@ const Navbar = () => {
           
           {/* Mobile menu button */}
           <div className="flex items-center sm:hidden">
+            {user && (
+              <>
+                <NotificationsMenu />
+                <UnreadMessagesMenu />
+              </>
+            )}
             <Button 
               variant="ghost" 
               size="sm" 
@@ -123,9 +130,16 @@ const Navbar = () => {
           <Link href="/" className="bg-primary-50 border-primary text-primary-700 block pl-3 pr-4 py-2 border-l-4 text-base font-medium">
             Home
           </Link>
-          <Link href="/available-deliveries" className="border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700 block pl-3 pr-4 py-2 border-l-4 text-base font-medium">
-            Available Deliveries
-          </Link>
+          {showCarrying && (
+            <Link href="/available-deliveries" className="border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700 block pl-3 pr-4 py-2 border-l-4 text-base font-medium">
+              Available Deliveries
+            </Link>
+          )}
+          {showSending && (
+            <Link href="/create-delivery" className="border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700 block pl-3 pr-4 py-2 border-l-4 text-base font-medium">
+              Send a Package
+            </Link>
+          )}
           <Link href="/dashboard" className="border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700 block pl-3 pr-4 py-2 border-l-4 text-base font-medium">
             Dashboard
           </Link>
@@ -136,8 +150,18 @@ const Navbar = () => {
               <div className="text-sm font-medium text-gray-700">
                 Welcome, {user.fullName}
               </div>
+              {user.isAdmin && (
+                <Link href="/admin" className="block px-4 py-2 text-base font-medium text-gray-500 hover:text-gray-800 flex items-center">
+                  <Shield className="w-4 h-4 mr-2" />
+                  Admin
+                </Link>
+              )}
+              <Link href="/wallet" className="block px-4 py-2 text-base font-medium text-gray-500 hover:text-gray-800 flex items-center">
+                <Wallet className="w-4 h-4 mr-2" />
+                Wallet
+              </Link>
               <Link href="/profile" className="block px-4 py-2 text-base font-medium text-gray-500 hover:text-gray-800 flex items-center">
-                <UserIcon className="w-4 h-4 mr-2" />
+                <UserAvatar user={user} className="w-6 h-6 mr-2" fallbackClassName="text-xs" />
                 Profile
               </Link>
               <button 
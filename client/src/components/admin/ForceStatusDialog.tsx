@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Delivery, ForceDeliveryStatusInput, forceDeliveryStatusSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateAdminQueries } from "./ReasonDialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+const statusLabels: Record<ForceDeliveryStatusInput["status"], string> = {
+  requested: "Requested (back on the market, refunds the sender)",
+  accepted: "Accepted",
+  picked: "Picked up",
+  delivered: "Delivered (pays the carrier)",
+  cancelled: "Cancelled (refunds the sender)",
+};
+
+interface ForceStatusDialogProps {
+  delivery: Delivery;
+}
+
+const ForceStatusDialog = ({ delivery }: ForceStatusDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<ForceDeliveryStatusInput>({
+    resolver: zodResolver(forceDeliveryStatusSchema),
+    defaultValues: {
+      status: delivery.status === "cancelled" ? "requested" : "cancelled",
+      reason: "",
+    },
+  });
+
+  const forceStatusMutation = useMutation({
+    mutationFn: async (data: ForceDeliveryStatusInput) => {
+      const res = await apiRequest("POST", `/api/admin/deliveries/${delivery.id}/status`, data);
+      return await res.json();
+    },
+    onSuccess: (_, data) => {
+      toast({
+        title: "Status changed",
+        description: `Delivery #${delivery.id} is now ${data.status}`,
+      });
+      setOpen(false);
+      form.reset();
+      invalidateAdminQueries("/api/admin/deliveries");
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${delivery.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${delivery.id}/events`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={delivery.status === "disputed"}>
+          Change Status
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change the status of delivery #{delivery.id}</DialogTitle>
+          <DialogDescription>
+            This skips the usual checks such as handoff codes. The reason is recorded in the
+            delivery's history and sent to the sender and carrier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => forceStatusMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New status</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a status" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(statusLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value} disabled={value === delivery.status}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} maxLength={500} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={forceStatusMutation.isPending}>
+                {forceStatusMutation.isPending ? "Saving..." : "Change Status"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ForceStatusDialog;
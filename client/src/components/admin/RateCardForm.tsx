@@ -0,0 +1,285 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RateCard, rateCardSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Trash2 } from "lucide-react";
+
+type NumberField = { value: number; onChange: (value: number) => void };
+
+// Rupee input for an amount stored in cents
+const RupeeInput = ({ value, onChange }: NumberField) => (
+  <Input
+    type="number"
+    min="0"
+    step="0.01"
+    value={value / 100}
+    onChange={(e) => onChange(Math.round(parseFloat(e.target.value) * 100))}
+  />
+);
+
+const DecimalInput = ({ value, onChange, step = "0.05" }: NumberField & { step?: string }) => (
+  <Input
+    type="number"
+    min="0"
+    step={step}
+    value={value}
+    onChange={(e) => onChange(parseFloat(e.target.value))}
+  />
+);
+
+const RateCardForm = () => {
+  const { toast } = useToast();
+
+  const { data: rateCard, isLoading } = useQuery<RateCard>({
+    queryKey: ["/api/admin/rate-card"],
+  });
+
+  const form = useForm<RateCard>({
+    resolver: zodResolver(rateCardSchema),
+  });
+  const urgency = useFieldArray({ control: form.control, name: "urgency" });
+
+  useEffect(() => {
+    if (rateCard) {
+      form.reset(rateCard);
+    }
+  }, [rateCard]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RateCard) => {
+      const res = await apiRequest("PUT", "/api/admin/rate-card", data);
+      return await res.json();
+    },
+    onSuccess: (saved: RateCard) => {
+      toast({
+        title: "Rate card saved",
+        description: "New deliveries are priced with it from now on",
+      });
+      queryClient.setQueryData(["/api/admin/rate-card"], saved);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the rate card",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !rateCard) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="baseFee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Base fee (₹)</FormLabel>
+                <FormControl><RupeeInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="perKm"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Per km (₹)</FormLabel>
+                <FormControl><RupeeInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="includedWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Included weight (kg)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={field.value / 1000}
+                    onChange={(e) => field.onChange(Math.round(parseFloat(e.target.value) * 1000))}
+                  />
+                </FormControl>
+                <FormDescription>Covered by the base fee</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="perKg"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Per extra kg (₹)</FormLabel>
+                <FormControl><RupeeInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Size multipliers</h4>
+          <div className="grid grid-cols-3 gap-4">
+            {(["small", "medium", "large"] as const).map((size) => (
+              <FormField
+                key={size}
+                control={form.control}
+                name={`sizeMultipliers.${size}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="capitalize">{size}</FormLabel>
+                    <FormControl><DecimalInput value={field.value} onChange={field.onChange} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-900">Short-notice surcharges</h4>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => urgency.append({ withinDays: 0, multiplier: 1.5 })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {urgency.fields.length === 0 ? (
+            <p className="text-sm text-gray-500">No surcharges</p>
+          ) : (
+            <div className="space-y-2">
+              {urgency.fields.map((item, index) => (
+                <div key={item.id} className="flex items-end gap-3">
+                  <FormField
+                    control={form.control}
+                    name={`urgency.${index}.withinDays`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>Within days</FormLabel>
+                        <FormControl><DecimalInput value={field.value} onChange={field.onChange} step="1" /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`urgency.${index}.multiplier`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>Multiplier</FormLabel>
+                        <FormControl><DecimalInput value={field.value} onChange={field.onChange} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => urgency.remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="rangeSpread"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Suggested range spread</FormLabel>
+                <FormControl><DecimalInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormDescription>0.2 shows the estimate ± 20%</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="floorRatio"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Floor ratio</FormLabel>
+                <FormControl><DecimalInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="ceilingRatio"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ceiling ratio</FormLabel>
+                <FormControl><DecimalInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="minFee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum fee (₹)</FormLabel>
+                <FormControl><RupeeInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxFee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Maximum fee (₹)</FormLabel>
+                <FormControl><RupeeInput value={field.value} onChange={field.onChange} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save Rate Card"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default RateCardForm;
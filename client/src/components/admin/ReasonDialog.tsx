@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+// Admin lists are keyed by their URL, search query included
+export const invalidateAdminQueries = (prefix: string) =>
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && key.startsWith(prefix);
+    },
+  });
+
+interface ReasonDialogProps {
+  triggerLabel: string;
+  title: string;
+  description: string;
+  url: string;
+  method?: "PATCH" | "POST";
+  // Request body for the given reason
+  body: (reason: string) => Record<string, unknown>;
+  successTitle: string;
+  // Admin queries to refresh afterwards, e.g. "/api/admin/users"
+  invalidatePrefix: string;
+}
+
+// Moderation action that needs a reason, such as suspending a user or hiding
+// a review. The reason is stored and shown to the affected user.
+const ReasonDialog = ({
+  triggerLabel,
+  title,
+  description,
+  url,
+  method = "PATCH",
+  body,
+  successTitle,
+  invalidatePrefix,
+}: ReasonDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const moderationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(method, url, body(reason.trim()));
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: successTitle });
+      setOpen(false);
+      setReason("");
+      invalidateAdminQueries(invalidatePrefix);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="moderation-reason">Reason</Label>
+          <Textarea
+            id="moderation-reason"
+            rows={3}
+            maxLength={500}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={reason.trim().length < 3 || moderationMutation.isPending}
+            onClick={() => moderationMutation.mutate()}
+          >
+            {moderationMutation.isPending ? "Saving..." : triggerLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReasonDialog;
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { VerificationRequest, VerificationRequestWithUser } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ReasonDialog, { invalidateAdminQueries } from "./ReasonDialog";
+import { documentTypeLabels } from "@/components/verification/VerificationCard";
+
+type QueueStatus = VerificationRequest["status"];
+
+const VerificationItem = ({ request }: { request: VerificationRequestWithUser }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/verifications/${request.id}/review`, { approved: true });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: `${request.user.fullName} is verified` });
+      invalidateAdminQueries("/api/admin/verifications");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to approve",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isOwnRequest = request.userId === user?.id;
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            {request.user.fullName} <span className="font-normal text-gray-500">@{request.user.username}</span>
+          </p>
+          <p className="text-sm text-gray-500">
+            {documentTypeLabels[request.documentType]} · submitted {format(new Date(request.createdAt), "d MMM yyyy, h:mm a")}
+          </p>
+          {request.reviewNote && (
+            <p className="mt-1 text-sm text-gray-600">Note: {request.reviewNote}</p>
+          )}
+        </div>
+        {request.status === "pending" ? (
+          !isOwnRequest && (
+            <div className="flex shrink-0 gap-2">
+              <Button size="sm" disabled={approveMutation.isPending} onClick={() => approveMutation.mutate()}>
+                Approve
+              </Button>
+              <ReasonDialog
+                triggerLabel="Reject"
+                title={`Reject ${request.user.fullName}'s documents?`}
+                description="Tell them what to fix, e.g. a blurry photo or a name that doesn't match. They can upload new photos."
+                url={`/api/admin/verifications/${request.id}/review`}
+                method="POST"
+                body={(note) => ({ approved: false, note })}
+                successTitle="Documents rejected"
+                invalidatePrefix="/api/admin/verifications"
+              />
+            </div>
+          )
+        ) : (
+          <Badge variant={request.status === "approved" ? "secondary" : "destructive"} className="capitalize">
+            {request.status}
+          </Badge>
+        )}
+      </div>
+
+      {/* The images are only served to admins and aren't cached */}
+      <div className="mt-3 grid grid-cols-2 gap-3 max-w-xl">
+        <a href={`/api/admin/verifications/${request.id}/document`} target="_blank" rel="noreferrer">
+          <img
+            src={`/api/admin/verifications/${request.id}/document`}
+            alt="ID document"
+            className="h-40 w-full rounded-md border object-contain bg-gray-50"
+          />
+        </a>
+        <a href={`/api/admin/verifications/${request.id}/selfie`} target="_blank" rel="noreferrer">
+          <img
+            src={`/api/admin/verifications/${request.id}/selfie`}
+            alt="Selfie"
+            className="h-40 w-full rounded-md border object-contain bg-gray-50"
+          />
+        </a>
+      </div>
+    </li>
+  );
+};
+
+// Identity documents waiting for an admin, oldest first
+const VerificationQueue = () => {
+  const [status, setStatus] = useState<QueueStatus>("pending");
+
+  const { data: requests, isLoading, error } = useQuery<VerificationRequestWithUser[]>({
+    queryKey: [`/api/admin/verifications?status=${status}`],
+  });
+
+  return (
+    <>
+      <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="pending">Pending</TabsTrigger>
+          <TabsTrigger value="approved">Approved</TabsTrigger>
+          <TabsTrigger value="rejected">Rejected</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : error ? (
+        <div className="text-red-500">Error loading verifications: {error.message}</div>
+      ) : !requests?.length ? (
+        <p className="py-10 text-center text-sm text-gray-500">
+          {status === "pending" ? "No documents are waiting for review." : `No ${status} requests.`}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {requests.map((request) => (
+            <VerificationItem key={request.id} request={request} />
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default VerificationQueue;
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Attachment } from "@shared/schema";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface AttachmentGalleryProps {
+  deliveryId: number;
+}
+
+const kindLabels: Record<string, string> = {
+  package_photo: "Package photos",
+  proof_of_delivery: "Proof of delivery",
+  dispute_evidence: "Dispute evidence",
+};
+
+const AttachmentGallery = ({ deliveryId }: AttachmentGalleryProps) => {
+  const [selected, setSelected] = useState<Attachment | null>(null);
+
+  const { data: attachments, isLoading, error } = useQuery<Attachment[]>({
+    queryKey: [`/api/deliveries/${deliveryId}/attachments`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-3 gap-4 sm:grid-cols-5">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="aspect-square w-full rounded-md" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-red-500">Error loading photos: {error.message}</div>;
+  }
+
+  if (!attachments || attachments.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500">No photos yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {Object.entries(kindLabels).map(([kind, label]) => {
+        const photos = attachments.filter((attachment) => attachment.kind === kind);
+        if (photos.length === 0) return null;
+        
+        return (
+          <div key={kind}>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">{label}</h4>
+            <div className="grid grid-cols-3 gap-4 sm:grid-cols-5">
+              {photos.map((photo) => (
+                <button
+                  key={photo.id}
+                  type="button"
+                  className="overflow-hidden rounded-md border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary"
+                  onClick={() => setSelected(photo)}
+                >
+                  <img
+                    src={`/api/attachments/${photo.id}/thumbnail`}
+                    alt={label}
+                    className="aspect-square w-full object-cover"
+                    loading="lazy"
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{kindLabels[selected.kind]}</DialogTitle>
+                <DialogDescription>
+                  Uploaded {new Date(selected.createdAt).toLocaleString()}
+                </DialogDescription>
+              </DialogHeader>
+              <img
+                src={`/api/attachments/${selected.id}/file`}
+                alt={kindLabels[selected.kind]}
+                className="max-h-[70vh] w-full object-contain"
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AttachmentGallery;
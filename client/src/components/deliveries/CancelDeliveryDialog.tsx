@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { cancelDeliverySchema, CancelDeliveryInput } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export const cancellationReasonLabels: Record<string, string> = {
+  no_longer_needed: "No longer needed",
+  found_alternative: "Found another way to send it",
+  schedule_changed: "Schedule changed",
+  carrier_unresponsive: "Other party is unresponsive",
+  other: "Other",
+};
+
+interface CancelDeliveryDialogProps {
+  deliveryId: number;
+  // "cancel" is used by the sender, "release" by the assigned carrier
+  mode: "cancel" | "release";
+}
+
+const CancelDeliveryDialog = ({ deliveryId, mode }: CancelDeliveryDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const isRelease = mode === "release";
+
+  const form = useForm<CancelDeliveryInput>({
+    resolver: zodResolver(cancelDeliverySchema),
+    defaultValues: {
+      reason: isRelease ? "schedule_changed" : "no_longer_needed",
+      note: "",
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (data: CancelDeliveryInput) => {
+      const res = await apiRequest("PATCH", `/api/deliveries/${deliveryId}/status`, {
+        ...data,
+        status: isRelease ? "requested" : "cancelled",
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: isRelease ? "Delivery released" : "Delivery cancelled",
+        description: isRelease
+          ? "The delivery is available to other carriers again"
+          : "Your delivery request has been cancelled",
+      });
+      setOpen(false);
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/events`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/sender"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/carrier"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel delivery",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: CancelDeliveryInput) => {
+    cancelMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="text-red-600 hover:text-red-700">
+          {isRelease ? "Release Delivery" : "Cancel Delivery"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isRelease ? "Release this delivery?" : "Cancel this delivery?"}</DialogTitle>
+          <DialogDescription>
+            {isRelease
+              ? "The delivery will go back to the list of available deliveries so another carrier can take it."
+              : "The delivery request will be closed and carriers will no longer see it."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(cancellationReasonLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Details</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Anything the other party should know (optional)"
+                      rows={3}
+                      value={field.value || ""}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      ref={field.ref}
+                      name={field.name}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Keep Delivery
+              </Button>
+              <Button type="submit" variant="destructive" disabled={cancelMutation.isPending}>
+                {cancelMutation.isPending
+                  ? "Submitting..."
+                  : isRelease ? "Release Delivery" : "Cancel Delivery"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelDeliveryDialog;
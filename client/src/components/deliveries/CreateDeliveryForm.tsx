@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { createDeliverySchema, CreateDeliveryInput } from "@shared/schema";
@@ -24,13 +25,18 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent } from "@/components/ui/card";
+import LocationCombobox from "./LocationCombobox";
+import FeeEstimateHint, { useFeeEstimate } from "./FeeEstimateHint";
+
+const MAX_PHOTOS = 5;
 
 const CreateDeliveryForm = () => {
   const { toast } = useToast();
   const [, navigate] = useLocation();
+  const [photos, setPhotos] = useState<File[]>([]);
 
-  const locations = ["Pune", "Mumbai", "Bangalore", "Delhi", "Chennai", "Hyderabad"];
   const packageSizes = [
     { value: "small", label: "Small (up to 2 kg)" },
     { value: "medium", label: "Medium (2-5 kg)" },
@@ -52,16 +58,48 @@ const CreateDeliveryForm = () => {
       packageWeight: 1000, // 1 kg in grams
       preferredDeliveryDate: new Date().toISOString().split("T")[0],
       preferredDeliveryTime: "Before 6:00 PM",
-      deliveryFee: 30000, // $300 in cents
+      deliveryFee: 30000, // ₹300 in cents, until the estimate arrives
       description: "",
       specialInstructions: "",
+      verifiedCarriersOnly: false,
     },
   });
 
+  const [pickupLocation, dropLocation, packageSize, packageWeight, preferredDeliveryDate, deliveryFee, recipient] = form.watch([
+    "pickupLocation", "dropLocation", "packageSize", "packageWeight", "preferredDeliveryDate", "deliveryFee", "recipient",
+  ]);
+  const estimate = useFeeEstimate({ pickupLocation, dropLocation, packageSize, packageWeight, preferredDeliveryDate });
+  
+  // Follow the suggestion until the sender picks a fee themselves
+  useEffect(() => {
+    if (estimate && !form.getFieldState("deliveryFee").isDirty) {
+      form.setValue("deliveryFee", estimate.suggested);
+    }
+  }, [estimate]);
+
   const createDeliveryMutation = useMutation({
     mutationFn: async (data: CreateDeliveryInput) => {
       const res = await apiRequest("POST", "/api/deliveries", data);
-      return await res.json();
+      const delivery = await res.json();
+      
+      // Attach package photos to the newly created delivery; a failed upload
+      // must not make the user submit (and create) the delivery again
+      if (photos.length > 0) {
+        const formData = new FormData();
+        formData.append("kind", "package_photo");
+        photos.forEach((photo) => formData.append("photos", photo));
+        try {
+          await apiRequest("POST", `/api/deliveries/${delivery.id}/attachments`, formData);
+        } catch (error) {
+          toast({
+            title: "Photos not uploaded",
+            description: error instanceof Error ? error.message : "Failed to upload package photos",
+            variant: "destructive",
+          });
+        }
+      }
+      
+      return delivery;
     },
     onSuccess: () => {
       toast({
@@ -107,23 +145,13 @@ const CreateDeliveryForm = () => {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Pickup Location</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select pickup location" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {locations.map((location) => (
-                          <SelectItem key={location} value={location}>
-                            {location}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormControl>
+                      <LocationCombobox
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Select pickup location"
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -136,23 +164,13 @@ const CreateDeliveryForm = () => {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Drop Location</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select drop location" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {locations.map((location) => (
-                          <SelectItem key={location} value={location}>
-                            {location}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormControl>
+                      <LocationCombobox
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Select drop location"
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -273,6 +291,13 @@ const CreateDeliveryForm = () => {
                     <FormDescription>
                       Enter amount in Rupees
                     </FormDescription>
+                    {estimate && (
+                      <FeeEstimateHint
+                        estimate={estimate}
+                        fee={deliveryFee}
+                        onUseSuggested={() => form.setValue("deliveryFee", estimate.suggested, { shouldValidate: true })}
+                      />
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -329,6 +354,91 @@ const CreateDeliveryForm = () => {
               )}
             />
 
+            {/* Verified carriers only */}
+            <FormField
+              control={form.control}
+              name="verifiedCarriersOnly"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel>Verified carriers only</FormLabel>
+                    <FormDescription>
+                      Only carriers whose ID our team has checked can make offers. You may get fewer offers.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {/* Recipient */}
+            <div className="space-y-4 rounded-md border p-4">
+              <FormItem className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <FormLabel>Email the recipient their drop-off code</FormLabel>
+                  <FormDescription>
+                    The carrier needs this code to complete the delivery. Otherwise, share it with the recipient yourself.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={!!recipient}
+                    onCheckedChange={(checked) => form.setValue("recipient", checked ? { name: "", email: "" } : undefined)}
+                  />
+                </FormControl>
+              </FormItem>
+
+              {recipient && (
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="recipient.name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Recipient Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="recipient.email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Recipient Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="name@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Package Photos */}
+            <FormItem>
+              <FormLabel>Package Photos</FormLabel>
+              <FormControl>
+                <Input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={(e) => setPhotos(Array.from(e.target.files ?? []).slice(0, MAX_PHOTOS))}
+                />
+              </FormControl>
+              <FormDescription>
+                Up to {MAX_PHOTOS} JPEG, PNG or WebP images, 5 MB each (optional). Only you and your carrier can see them.
+              </FormDescription>
+            </FormItem>
+
             <div className="flex justify-end space-x-3">
               <Button 
                 type="button" 
@@ -1,53 +1,41 @@
 import { Delivery, User } from "@shared/schema";
+import { distanceKm, Coordinates } from "@shared/gazetteer";
+import { canMakeOffer, hasRole } from "@shared/policy";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
-import { useToast } from "@/hooks/use-toast";
 import {
   Card,
   CardContent,
   CardFooter,
 } from "@/components/ui/card";
 import DeliveryStatusBadge from "./DeliveryStatusBadge";
+import MakeOfferDialog from "@/components/offers/MakeOfferDialog";
+import VerifiedBadge from "@/components/verification/VerifiedBadge";
+import UserAvatar from "@/components/profile/UserAvatar";
 import { 
   Package, Clock, DollarSign,
-  CheckCircle, LogIn
+  LogIn, MapPin, ShieldCheck
 } from "lucide-react";
 
+// A point to measure the pickup distance from, e.g. a searched city
+export interface DistanceOrigin extends Coordinates {
+  label: string;
+}
+
 interface DeliveryCardProps {
   delivery: Delivery & {
     sender?: User;
     carrier?: User;
   };
   showActions?: boolean;
+  origin?: DistanceOrigin;
 }
 
-const DeliveryCard = ({ delivery, showActions = true }: DeliveryCardProps) => {
+const formatDistance = (km: number) => km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+
+const DeliveryCard = ({ delivery, showActions = true, origin }: DeliveryCardProps) => {
   const { user } = useAuth();
-  const { toast } = useToast();
-  
-  const acceptDeliveryMutation = useMutation({
-    mutationFn: async (deliveryId: number) => {
-      const res = await apiRequest("PATCH", `/api/deliveries/${deliveryId}/status`, { status: "accepted" });
-      return await res.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Delivery accepted",
-        description: "You have successfully accepted this delivery",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/deliveries"] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to accept delivery",
-        variant: "destructive",
-      });
-    },
-  });
 
   // Format currency from cents to dollars/rupees
   const formatCurrency = (amount: number) => {
@@ -60,6 +48,16 @@ const DeliveryCard = ({ delivery, showActions = true }: DeliveryCardProps) => {
     return `${size.charAt(0).toUpperCase() + size.slice(1)} package (${weightInKg} kg)`;
   };
 
+  const pickupDistance = origin && delivery.pickupLat !== null && delivery.pickupLng !== null
+    ? distanceKm(origin, { lat: delivery.pickupLat, lng: delivery.pickupLng })
+    : null;
+
+  // Only carriers see offer actions; unverified ones are sent to their
+  // profile to get verified instead
+  const canOffer = !!user && delivery.status === "requested" && canMakeOffer(user, delivery).ok;
+  const needsVerification = !!user && delivery.status === "requested" && !canOffer &&
+    hasRole(user, "carrier") && user.id !== delivery.senderId && delivery.verifiedCarriersOnly;
+
   return (
     <Card className="h-full flex flex-col">
       <CardContent className="pt-6 flex-grow">
@@ -76,6 +74,16 @@ const DeliveryCard = ({ delivery, showActions = true }: DeliveryCardProps) => {
         </div>
         
         <div className="mt-4 space-y-3">
+          {(delivery.distanceKm !== null || pickupDistance !== null) && (
+            <div className="flex items-center text-sm">
+              <MapPin className="text-gray-400 mr-2 h-5 w-5" />
+              <p className="text-gray-500">
+                {delivery.distanceKm !== null && `${formatDistance(delivery.distanceKm)} trip`}
+                {delivery.distanceKm !== null && pickupDistance !== null && " · "}
+                {pickupDistance !== null && `pickup ${formatDistance(pickupDistance)} from ${origin!.label}`}
+              </p>
+            </div>
+          )}
           <div className="flex items-center text-sm">
             <Package className="text-gray-400 mr-2 h-5 w-5" />
             <p className="text-gray-500">
@@ -90,21 +98,42 @@ const DeliveryCard = ({ delivery, showActions = true }: DeliveryCardProps) => {
             <DollarSign className="text-gray-400 mr-2 h-5 w-5" />
             <p className="text-gray-500">{formatCurrency(delivery.deliveryFee)} delivery fee</p>
           </div>
+          {delivery.sender && (
+            <div className="flex items-center text-sm">
+              <UserAvatar user={delivery.sender} className="mr-2 h-5 w-5" fallbackClassName="text-xs" />
+              <p className="text-gray-500">{delivery.sender.fullName}</p>
+              <VerifiedBadge verifiedAt={delivery.sender.verifiedAt} className="ml-2" />
+            </div>
+          )}
+          {delivery.verifiedCarriersOnly && (
+            <div className="flex items-center text-sm">
+              <ShieldCheck className="text-blue-500 mr-2 h-5 w-5" />
+              <p className="text-gray-500">Verified carriers only</p>
+            </div>
+          )}
         </div>
       </CardContent>
       
       {showActions && (
         <CardFooter className="pt-0 border-t">
           {user ? (
-            delivery.status === "requested" && user.role !== "sender" ? (
-              <Button 
-                className="w-full" 
-                onClick={() => acceptDeliveryMutation.mutate(delivery.id)}
-                disabled={acceptDeliveryMutation.isPending}
-              >
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Accept Delivery
-              </Button>
+            canOffer || needsVerification ? (
+              <div className="w-full flex gap-2">
+                {needsVerification ? (
+                  <Link href="/profile" className="flex-1">
+                    <Button variant="secondary" className="w-full">Get Verified to Offer</Button>
+                  </Link>
+                ) : (
+                  <MakeOfferDialog 
+                    deliveryId={delivery.id} 
+                    defaultPrice={delivery.deliveryFee}
+                    triggerClassName="flex-1"
+                  />
+                )}
+                <Link href={`/deliveries/${delivery.id}`}>
+                  <Button variant="outline">Details</Button>
+                </Link>
+              </div>
             ) : (
               <Link href={`/deliveries/${delivery.id}`}>
                 <Button variant="outline" className="w-full">
@@ -116,7 +145,7 @@ const DeliveryCard = ({ delivery, showActions = true }: DeliveryCardProps) => {
             <Link href="/auth">
               <Button variant="secondary" className="w-full">
                 <LogIn className="h-4 w-4 mr-2" />
-                Login to Accept
+                Login to Make an Offer
               </Button>
             </Link>
           )}
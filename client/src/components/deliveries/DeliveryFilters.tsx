@@ -1,166 +1,380 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Search } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LocateFixed, Search, X } from "lucide-react";
+import LocationCombobox from "./LocationCombobox";
 
 interface DeliveryFiltersProps {
+  // Receives the API query parameters for the chosen filters
   onFilterChange: (filters: Record<string, string>) => void;
 }
 
-const DeliveryFilters = ({ onFilterChange }: DeliveryFiltersProps) => {
-  const [location, setLocation] = useLocation();
-  
-  // Parse query parameters from the URL
-  const getParamsFromUrl = () => {
-    if (typeof window !== 'undefined') {
-      const searchParams = new URLSearchParams(window.location.search);
-      return {
-        pickupLocation: searchParams.get("pickupLocation") || "any",
-        dropLocation: searchParams.get("dropLocation") || "any",
-        packageSize: searchParams.get("packageSize") || "any",
-      };
+// What the form edits; fees are in rupees and weights in kg, while the URL
+// and the API use cents and grams
+interface FilterForm {
+  q: string;
+  pickupLocations: string[];
+  dropLocations: string[];
+  packageSizes: string[];
+  minFee: string;
+  maxFee: string;
+  minWeight: string;
+  maxWeight: string;
+  dateFrom: string;
+  dateTo: string;
+  // Search around a gazetteer place or the user's own coordinates
+  near: string;
+  nearLat: string;
+  nearLng: string;
+  radiusKm: string;
+}
+
+const emptyForm: FilterForm = {
+  q: "",
+  pickupLocations: [],
+  dropLocations: [],
+  packageSizes: [],
+  minFee: "",
+  maxFee: "",
+  minWeight: "",
+  maxWeight: "",
+  dateFrom: "",
+  dateTo: "",
+  near: "",
+  nearLat: "",
+  nearLng: "",
+  radiusKm: "25",
+};
+
+const packageSizes = [
+  { value: "small", label: "Small" },
+  { value: "medium", label: "Medium" },
+  { value: "large", label: "Large" },
+];
+
+const toUnits = (value: string, factor: number) => String(Math.round(Number(value) * factor));
+const fromUnits = (value: string | null, factor: number) => value ? String(Number(value) / factor) : "";
+
+const formToParams = (form: FilterForm) => {
+  const params: Record<string, string> = {};
+
+  if (form.q.trim()) params.q = form.q.trim();
+  if (form.pickupLocations.length) params.pickupLocations = form.pickupLocations.join(",");
+  if (form.dropLocations.length) params.dropLocations = form.dropLocations.join(",");
+  if (form.packageSizes.length) params.packageSizes = form.packageSizes.join(",");
+  if (form.minFee) params.minFee = toUnits(form.minFee, 100);
+  if (form.maxFee) params.maxFee = toUnits(form.maxFee, 100);
+  if (form.minWeight) params.minWeight = toUnits(form.minWeight, 1000);
+  if (form.maxWeight) params.maxWeight = toUnits(form.maxWeight, 1000);
+  if (form.dateFrom) params.dateFrom = form.dateFrom;
+  if (form.dateTo) params.dateTo = form.dateTo;
+
+  if (form.radiusKm && (form.near || form.nearLat)) {
+    if (form.nearLat) {
+      params.nearLat = form.nearLat;
+      params.nearLng = form.nearLng;
+    } else {
+      params.near = form.near;
     }
-    return { pickupLocation: "any", dropLocation: "any", packageSize: "any" };
+    params.radiusKm = form.radiusKm;
+  }
+
+  return params;
+};
+
+const paramsToForm = (searchParams: URLSearchParams): FilterForm => {
+  const list = (key: string) => searchParams.get(key)?.split(",").filter(Boolean) ?? [];
+
+  return {
+    q: searchParams.get("q") || "",
+    pickupLocations: list("pickupLocations"),
+    dropLocations: list("dropLocations"),
+    packageSizes: list("packageSizes"),
+    minFee: fromUnits(searchParams.get("minFee"), 100),
+    maxFee: fromUnits(searchParams.get("maxFee"), 100),
+    minWeight: fromUnits(searchParams.get("minWeight"), 1000),
+    maxWeight: fromUnits(searchParams.get("maxWeight"), 1000),
+    dateFrom: searchParams.get("dateFrom") || "",
+    dateTo: searchParams.get("dateTo") || "",
+    near: searchParams.get("near") || "",
+    nearLat: searchParams.get("nearLat") || "",
+    nearLng: searchParams.get("nearLng") || "",
+    radiusKm: searchParams.get("radiusKm") || emptyForm.radiusKm,
   };
-  
-  const [filters, setFilters] = useState(getParamsFromUrl());
+};
+
+// The server rejects inverted ranges, so catch them before applying
+const validateForm = (form: FilterForm) => {
+  const inverted = (min: string, max: string) => min !== "" && max !== "" && Number(min) > Number(max);
+
+  if (inverted(form.minFee, form.maxFee)) return "Minimum fee can't be more than maximum fee";
+  if (inverted(form.minWeight, form.maxWeight)) return "Minimum weight can't be more than maximum weight";
+  if (form.dateFrom && form.dateTo && form.dateFrom > form.dateTo) return "Start date must be before end date";
+  if ((form.near || form.nearLat) && !(Number(form.radiusKm) > 0)) return "Enter a search radius in km";
+  return null;
+};
+
+const readUrlParams = () => new URLSearchParams(typeof window !== "undefined" ? window.location.search : "");
+
+const DeliveryFilters = ({ onFilterChange }: DeliveryFiltersProps) => {
+  const [location] = useLocation();
+  const [form, setForm] = useState<FilterForm>(() => paramsToForm(readUrlParams()));
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    // Apply initial filters from URL if present
-    if (Object.values(filters).some(value => value)) {
-      onFilterChange(filters);
+    // Apply filters from a shared or bookmarked URL
+    const initialParams = formToParams(form);
+    if (Object.keys(initialParams).length) {
+      onFilterChange(initialParams);
     }
+
+    // Back/forward restores the filters of that history entry
+    const handlePopState = () => {
+      const restored = paramsToForm(readUrlParams());
+      setForm(restored);
+      setError(null);
+      onFilterChange(formToParams(restored));
+    };
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
   }, []);
 
-  const locations = [
-    { value: "any", label: "Any location" },
-    { value: "Pune", label: "Pune" },
-    { value: "Mumbai", label: "Mumbai" },
-    { value: "Bangalore", label: "Bangalore" },
-    { value: "Delhi", label: "Delhi" },
-    { value: "Chennai", label: "Chennai" },
-    { value: "Hyderabad", label: "Hyderabad" }
-  ];
-  
-  const packageSizes = [
-    { value: "any", label: "Any size" },
-    { value: "small", label: "Small" },
-    { value: "medium", label: "Medium" },
-    { value: "large", label: "Large" },
-  ];
-
-  const handleFilterChange = (field: string, value: string) => {
-    setFilters(prev => ({ ...prev, [field]: value }));
+  const updateField = <K extends keyof FilterForm>(field: K, value: FilterForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
   };
 
-  const applyFilters = () => {
-    // Update the URL with the filter parameters
-    const newParams = new URLSearchParams();
-    Object.entries(filters).forEach(([key, value]) => {
-      // Only add non-"any" values to the URL
-      if (value && value !== "any") newParams.set(key, value);
-    });
-    
+  const togglePackageSize = (size: string, checked: boolean) => {
+    updateField(
+      "packageSizes",
+      checked ? [...form.packageSizes, size] : form.packageSizes.filter(s => s !== size),
+    );
+  };
+
+  const applyForm = (next: FilterForm) => {
+    const validationError = validateForm(next);
+    setError(validationError);
+    if (validationError) return;
+
+    const params = formToParams(next);
+    const search = new URLSearchParams(params).toString();
+    const path = location.split("?")[0];
+
     // Update the browser URL without navigation
-    const newUrl = newParams.toString() ? `${location.split('?')[0]}?${newParams.toString()}` : location.split('?')[0];
-    window.history.pushState({}, '', newUrl);
-    
-    // For backend filters, remove "any" values entirely
-    const backendFilters: Record<string, string> = {};
-    Object.entries(filters).forEach(([key, value]) => {
-      if (value !== "any") {
-        backendFilters[key] = value;
-      }
-    });
-    
-    // Notify parent component
-    onFilterChange(backendFilters);
+    window.history.pushState({}, "", search ? `${path}?${search}` : path);
+    onFilterChange(params);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyForm(form);
+  };
+
+  const locateMe = () => {
+    if (!("geolocation" in navigator)) {
+      setError("Your browser can't share its location");
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setError(null);
+        setForm(prev => ({
+          ...prev,
+          near: "",
+          nearLat: coords.latitude.toFixed(4),
+          nearLng: coords.longitude.toFixed(4),
+        }));
+      },
+      () => setError("Couldn't get your location. Pick a city instead"),
+    );
+  };
+
+  const selectNearPlace = (name: string) => {
+    setForm(prev => ({ ...prev, near: name, nearLat: "", nearLng: "" }));
+  };
+
+  const clearFilters = () => {
+    setForm(emptyForm);
+    applyForm(emptyForm);
   };
 
   return (
     <Card className="p-4 mb-6">
-      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        <div>
-          <label htmlFor="from-location" className="block text-sm font-medium text-gray-700">
-            From
-          </label>
-          <Select
-            value={filters.pickupLocation}
-            onValueChange={(value) => handleFilterChange("pickupLocation", value)}
-          >
-            <SelectTrigger id="from-location" className="mt-1">
-              <SelectValue placeholder="Any location" />
-            </SelectTrigger>
-            <SelectContent>
-              {locations.map((loc) => (
-                <SelectItem key={loc.value} value={loc.value}>
-                  {loc.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="search"
+            placeholder='Search descriptions, e.g. documents -fragile or "birthday gift"'
+            className="pl-9"
+            value={form.q}
+            onChange={(e) => updateField("q", e.target.value)}
+            maxLength={200}
+          />
         </div>
-        
-        <div>
-          <label htmlFor="to-location" className="block text-sm font-medium text-gray-700">
-            To
-          </label>
-          <Select
-            value={filters.dropLocation}
-            onValueChange={(value) => handleFilterChange("dropLocation", value)}
-          >
-            <SelectTrigger id="to-location" className="mt-1">
-              <SelectValue placeholder="Any location" />
-            </SelectTrigger>
-            <SelectContent>
-              {locations.map((loc) => (
-                <SelectItem key={loc.value} value={loc.value}>
-                  {loc.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        <div>
-          <label htmlFor="package-size" className="block text-sm font-medium text-gray-700">
-            Package Size
-          </label>
-          <Select
-            value={filters.packageSize}
-            onValueChange={(value) => handleFilterChange("packageSize", value)}
-          >
-            <SelectTrigger id="package-size" className="mt-1">
-              <SelectValue placeholder="Any size" />
-            </SelectTrigger>
-            <SelectContent>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <Label htmlFor="from-location">From</Label>
+            <LocationCombobox
+              id="from-location"
+              className="mt-1"
+              multiple
+              value={form.pickupLocations}
+              onChange={(value) => updateField("pickupLocations", value)}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="to-location">To</Label>
+            <LocationCombobox
+              id="to-location"
+              className="mt-1"
+              multiple
+              value={form.dropLocations}
+              onChange={(value) => updateField("dropLocations", value)}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="near-location">Pickup Near</Label>
+            <div className="mt-1 flex items-center gap-2">
+              <LocationCombobox
+                id="near-location"
+                value={form.near}
+                onChange={selectNearPlace}
+                placeholder={form.nearLat ? "Your location" : "Anywhere"}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                title="Use my location"
+                aria-label="Use my location"
+                onClick={locateMe}
+              >
+                <LocateFixed className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="radius">Within (km)</Label>
+            <Input
+              id="radius"
+              type="number"
+              min={1}
+              max={2000}
+              className="mt-1"
+              value={form.radiusKm}
+              onChange={(e) => updateField("radiusKm", e.target.value)}
+            />
+          </div>
+
+          <div>
+            <Label>Delivery Date</Label>
+            <div className="mt-1 flex items-center gap-2">
+              <Input
+                type="date"
+                aria-label="Earliest delivery date"
+                value={form.dateFrom}
+                onChange={(e) => updateField("dateFrom", e.target.value)}
+              />
+              <span className="text-gray-400">–</span>
+              <Input
+                type="date"
+                aria-label="Latest delivery date"
+                value={form.dateTo}
+                onChange={(e) => updateField("dateTo", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Package Size</Label>
+            <div className="mt-3 flex flex-wrap gap-4">
               {packageSizes.map((size) => (
-                <SelectItem key={size.value} value={size.value}>
+                <label key={size.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={form.packageSizes.includes(size.value)}
+                    onCheckedChange={(checked) => togglePackageSize(size.value, checked === true)}
+                  />
                   {size.label}
-                </SelectItem>
+                </label>
               ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        <div className="flex items-end">
-          <Button 
-            className="w-full flex items-center justify-center"
-            onClick={applyFilters}
-          >
-            <Search className="h-4 w-4 mr-2" />
-            Filter
-          </Button>
+            </div>
+          </div>
+
+          <div>
+            <Label>Delivery Fee (₹)</Label>
+            <div className="mt-1 flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="1"
+                placeholder="Min"
+                aria-label="Minimum fee"
+                value={form.minFee}
+                onChange={(e) => updateField("minFee", e.target.value)}
+              />
+              <span className="text-gray-400">–</span>
+              <Input
+                type="number"
+                min={0}
+                step="1"
+                placeholder="Max"
+                aria-label="Maximum fee"
+                value={form.maxFee}
+                onChange={(e) => updateField("maxFee", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Weight (kg)</Label>
+            <div className="mt-1 flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="0.1"
+                placeholder="Min"
+                aria-label="Minimum weight"
+                value={form.minWeight}
+                onChange={(e) => updateField("minWeight", e.target.value)}
+              />
+              <span className="text-gray-400">–</span>
+              <Input
+                type="number"
+                min={0}
+                step="0.1"
+                placeholder="Max"
+                aria-label="Maximum weight"
+                value={form.maxWeight}
+                onChange={(e) => updateField("maxWeight", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-2 sm:col-span-2 lg:col-span-4">
+            <Button type="submit" className="flex-1 flex items-center justify-center">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+            <Button type="button" variant="outline" onClick={clearFilters}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
         </div>
-      </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </form>
     </Card>
   );
 };
@@ -1,26 +1,91 @@
-import { useQuery } from "@tanstack/react-query";
-import DeliveryCard from "./DeliveryCard";
-import { Delivery, User } from "@shared/schema";
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import DeliveryCard, { DistanceOrigin } from "./DeliveryCard";
+import { DeliveryPage, DeliverySort } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Link } from "wouter";
 
+const PAGE_SIZE = 12;
+
+const sortLabels: Record<DeliverySort, string> = {
+  newest: "Newest first",
+  highest_fee: "Highest fee",
+  soonest_date: "Soonest delivery date",
+  lightest: "Lightest package",
+};
+
 interface DeliveryListProps {
+  // Listing endpoint, optionally with filter query parameters
   queryKey: string;
   emptyMessage?: string;
   showActions?: boolean;
+  // Show how far each pickup is from this point
+  origin?: DistanceOrigin;
 }
 
 const DeliveryList = ({
   queryKey,
   emptyMessage = "No deliveries found",
   showActions = true,
+  origin,
 }: DeliveryListProps) => {
-  const { data: deliveries, isLoading, error } = useQuery<
-    (Delivery & { sender?: User; carrier?: User })[]
-  >({
-    queryKey: [queryKey],
+  const [sort, setSort] = useState<DeliverySort>("newest");
+  // Cursors of the pages visited so far; the first page has none
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  // Start over when the filters or the sort order change. Resetting during
+  // render keeps a stale cursor from ever being sent with the new query.
+  const currentListKey = `${queryKey}|${sort}`;
+  const [listKey, setListKey] = useState(currentListKey);
+  if (listKey !== currentListKey) {
+    setListKey(currentListKey);
+    setCursors([undefined]);
+    setPageIndex(0);
+  }
+  const cursor = listKey === currentListKey ? cursors[pageIndex] : undefined;
+
+  const { data, isLoading, isPlaceholderData, error } = useQuery<DeliveryPage>({
+    queryKey: [queryKey, { sort, cursor }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+      if (cursor) params.set("cursor", cursor);
+      const separator = queryKey.includes("?") ? "&" : "?";
+      const res = await apiRequest("GET", `${queryKey}${separator}${params.toString()}`);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
   });
 
+  const deliveries = data?.items;
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  // While the next page loads the previous one is shown; its cursor is stale
+  const nextCursor = isPlaceholderData ? null : data?.nextCursor;
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    setCursors((previous) => [...previous.slice(0, pageIndex + 1), nextCursor]);
+    setPageIndex(pageIndex + 1);
+  };
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
@@ -66,14 +131,87 @@ const DeliveryList = ({
   }
 
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-      {deliveries.map((delivery) => (
-        <DeliveryCard 
-          key={delivery.id} 
-          delivery={delivery} 
-          showActions={showActions}
-        />
-      ))}
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {total} {total === 1 ? "delivery" : "deliveries"}
+        </p>
+        <Select value={sort} onValueChange={(value) => setSort(value as DeliverySort)}>
+          <SelectTrigger className="w-52">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(sortLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {deliveries.map((delivery) => (
+          <DeliveryCard 
+            key={delivery.id} 
+            delivery={delivery} 
+            showActions={showActions}
+            origin={origin}
+          />
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-6">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={pageIndex === 0}
+                className={pageIndex === 0 ? "pointer-events-none opacity-50" : undefined}
+                onClick={(e) => {
+                  e.preventDefault();
+                  setPageIndex(Math.max(0, pageIndex - 1));
+                }}
+              />
+            </PaginationItem>
+            {/* Cursors only allow jumping back to pages already visited */}
+            {cursors.map((_, index) => (
+              <PaginationItem key={index}>
+                <PaginationLink
+                  href="#"
+                  isActive={index === pageIndex}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPageIndex(index);
+                  }}
+                >
+                  {index + 1}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            {cursors.length < pageCount && (
+              <PaginationItem>
+                <PaginationEllipsis />
+              </PaginationItem>
+            )}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={!nextCursor}
+                className={!nextCursor ? "pointer-events-none opacity-50" : undefined}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToNextPage();
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+          <p className="ml-4 self-center text-sm text-gray-500">
+            Page {pageIndex + 1} of {pageCount}
+          </p>
+        </Pagination>
+      )}
     </div>
   );
 };
@@ -15,6 +15,10 @@ const DeliveryStatusBadge = ({ status }: DeliveryStatusBadgeProps) => {
         return "bg-green-100 text-green-800 hover:bg-green-100";
       case "delivered":
         return "bg-purple-100 text-purple-800 hover:bg-purple-100";
+      case "cancelled":
+        return "bg-red-100 text-red-800 hover:bg-red-100";
+      case "disputed":
+        return "bg-orange-100 text-orange-800 hover:bg-orange-100";
       default:
         return "bg-gray-100 text-gray-800 hover:bg-gray-100";
     }
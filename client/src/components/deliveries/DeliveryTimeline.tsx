@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { Delivery, DeliveryEventWithActor } from "@shared/schema";
+import { cancellationReasonLabels } from "./CancelDeliveryDialog";
+import { disputeReasonLabels } from "@/components/disputes/OpenDisputeDialog";
+import { disputeOutcomeLabels } from "@/components/disputes/DisputePanel";
+
+interface DeliveryTimelineProps {
+  delivery: Delivery;
+}
+
+const timelineSteps = [
+  { status: "requested", label: "Requested" },
+  { status: "accepted", label: "Accepted" },
+  { status: "picked", label: "Picked Up" },
+  { status: "delivered", label: "Delivered" },
+];
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const describeEvent = (event: DeliveryEventWithActor) => {
+  if (event.fromStatus === "disputed") {
+    return "Dispute resolved";
+  }
+
+  switch (event.toStatus) {
+    case "requested":
+      return event.fromStatus ? "Released by the carrier" : "Delivery requested";
+    case "accepted":
+      return "Offer accepted";
+    case "picked":
+      return "Package picked up";
+    case "delivered":
+      return "Package delivered";
+    case "cancelled":
+      return "Delivery cancelled";
+    case "disputed":
+      return "Dispute opened";
+    default:
+      return event.toStatus;
+  }
+};
+
+const DeliveryTimeline = ({ delivery }: DeliveryTimelineProps) => {
+  const { data: events = [] } = useQuery<DeliveryEventWithActor[]>({
+    queryKey: [`/api/deliveries/${delivery.id}/events`],
+  });
+
+  const isCancelled = delivery.status === "cancelled";
+  const isHalted = isCancelled || delivery.status === "disputed";
+
+  // A cancelled or disputed delivery keeps the steps it reached before
+  const haltEvent = events.filter((event) => event.toStatus === delivery.status).pop();
+  const lastActiveStatus = isHalted
+    ? haltEvent?.fromStatus ?? (delivery.carrierId ? "accepted" : "requested")
+    : delivery.status;
+  const reachedStepIndex = timelineSteps.findIndex((step) => step.status === lastActiveStatus);
+
+  // After a release the latest transition into a step is the one that counts
+  const latestEventFor = (status: string) =>
+    events.filter((event) => event.toStatus === status).pop();
+
+  return (
+    <div className="mt-6 relative">
+      {/* Status Timeline */}
+      <div className="mt-6 sm:mt-5 sm:grid sm:grid-cols-4 sm:gap-4">
+        {timelineSteps.map((step, index) => {
+          const isReached = index <= reachedStepIndex;
+          const event = isReached ? latestEventFor(step.status) : undefined;
+          const reachedAt = event?.createdAt ?? (step.status === "requested" ? delivery.createdAt : undefined);
+
+          return (
+            <div key={step.status} className="flex flex-col items-center">
+              <div className={`flex items-center justify-center h-12 w-12 rounded-full ${
+                isReached
+                  ? "bg-green-100 text-green-600"
+                  : "bg-gray-100 text-gray-400"
+              }`}>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  {isReached
+                    ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    : <circle cx="12" cy="12" r="10" strokeWidth={2} />
+                  }
+                </svg>
+              </div>
+              <div className="text-center mt-3">
+                <h4 className={`text-sm font-medium ${
+                  isReached ? "text-gray-900" : "text-gray-500"
+                }`}>{step.label}</h4>
+                <p className="text-xs text-gray-500">
+                  {isReached
+                    ? reachedAt ? formatTime(reachedAt) : "Completed"
+                    : isCancelled ? "Cancelled" : isHalted ? "On hold" : "Pending"}
+                </p>
+                {event?.actor?.fullName && (
+                  <p className="text-xs text-gray-500">by {event.actor.fullName}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Full history, including releases, cancellations and disputes */}
+      {events.length > 0 && (
+        <div className="mt-8">
+          <h4 className="text-sm font-medium text-gray-900">History</h4>
+          <ol className="mt-3 space-y-3 border-l border-gray-200 pl-4">
+            {events.map((event) => {
+              const reason = typeof event.metadata?.reason === "string" ? event.metadata.reason : undefined;
+              const reasonLabels = event.toStatus === "disputed" ? disputeReasonLabels : cancellationReasonLabels;
+              const outcome = typeof event.metadata?.outcome === "string" ? event.metadata.outcome : undefined;
+
+              return (
+                <li key={event.id} className="text-sm">
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="font-medium text-gray-900">{describeEvent(event)}</span>
+                    {event.actor?.fullName && (
+                      <span className="text-gray-500">by {event.actor.fullName}</span>
+                    )}
+                    <span className="text-xs text-gray-400">{formatTime(event.createdAt)}</span>
+                  </div>
+                  {reason && (
+                    <p className="text-gray-600">
+                      Reason: {reasonLabels[reason] || reason}
+                    </p>
+                  )}
+                  {outcome && (
+                    <p className="text-gray-600">
+                      Outcome: {disputeOutcomeLabels[outcome] || outcome}
+                    </p>
+                  )}
+                  {event.note && <p className="text-gray-600">{event.note}</p>}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryTimeline;
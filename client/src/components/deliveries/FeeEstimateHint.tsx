@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { FeeEstimate, FeeEstimateRequest } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Lightbulb } from "lucide-react";
+
+const DEBOUNCE_MS = 400;
+
+const formatRupees = (amount: number) => `₹${(amount / 100).toLocaleString("en-IN")}`;
+
+// Ask the server for a fee estimate once the inputs stop changing. Returns
+// nothing until the request describes a complete delivery.
+export function useFeeEstimate(request: Partial<FeeEstimateRequest>) {
+  const [debounced, setDebounced] = useState(request);
+  const requestKey = JSON.stringify(request);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(JSON.parse(requestKey)), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [requestKey]);
+
+  const isComplete = !!debounced.pickupLocation &&
+    !!debounced.dropLocation &&
+    !!debounced.packageSize &&
+    !!debounced.preferredDeliveryDate &&
+    Number(debounced.packageWeight) > 0;
+
+  const { data } = useQuery<FeeEstimate>({
+    queryKey: ["/api/pricing/estimate", debounced],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/pricing/estimate", debounced);
+      return await res.json();
+    },
+    enabled: isComplete,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  return isComplete ? data : undefined;
+}
+
+interface FeeEstimateHintProps {
+  estimate: FeeEstimate;
+  fee: number;
+  onUseSuggested: () => void;
+}
+
+const FeeEstimateHint = ({ estimate, fee, onUseSuggested }: FeeEstimateHintProps) => {
+  const isOutOfRange = fee < estimate.floor || fee > estimate.ceiling;
+
+  return (
+    <div className="rounded-md border border-blue-100 bg-blue-50 p-3 text-sm">
+      <div className="flex items-start gap-2">
+        <Lightbulb className="h-4 w-4 mt-0.5 text-blue-500 shrink-0" />
+        <div className="flex-1">
+          <p className="text-gray-700">
+            Suggested fee {formatRupees(estimate.low)} – {formatRupees(estimate.high)}
+            {estimate.distanceKm > 0 && ` for about ${Math.round(estimate.distanceKm)} km`}
+          </p>
+          <p className={isOutOfRange ? "text-red-600" : "text-gray-500"}>
+            Fees between {formatRupees(estimate.floor)} and {formatRupees(estimate.ceiling)} are accepted
+          </p>
+        </div>
+        {fee !== estimate.suggested && (
+          <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={onUseSuggested}>
+            Use {formatRupees(estimate.suggested)}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FeeEstimateHint;
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Attachment } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const CODE_LENGTH = 6;
+
+interface HandoffCodeDialogProps {
+  deliveryId: number;
+  status: "picked" | "delivered";
+}
+
+const HandoffCodeDialog = ({ deliveryId, status }: HandoffCodeDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [proofPhoto, setProofPhoto] = useState<File | null>(null);
+  const isPickup = status === "picked";
+
+  // Delivering requires a proof photo; one uploaded on an earlier attempt counts
+  const { data: attachments } = useQuery<Attachment[]>({
+    queryKey: [`/api/deliveries/${deliveryId}/attachments`],
+    enabled: !isPickup && open,
+  });
+  const hasProofPhoto = attachments?.some((attachment) => attachment.kind === "proof_of_delivery");
+  const needsProofPhoto = !isPickup && !hasProofPhoto;
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async () => {
+      if (!isPickup && proofPhoto) {
+        const formData = new FormData();
+        formData.append("kind", "proof_of_delivery");
+        formData.append("photos", proofPhoto);
+        await apiRequest("POST", `/api/deliveries/${deliveryId}/attachments`, formData);
+        setProofPhoto(null);
+        queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/attachments`] });
+      }
+      
+      const res = await apiRequest("PATCH", `/api/deliveries/${deliveryId}/status`, { status, code });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Status updated",
+        description: isPickup ? "Pickup confirmed" : "Delivery confirmed",
+      });
+      setOpen(false);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/events`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/sender"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/carrier"] });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update delivery status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>{isPickup ? "Mark as Picked" : "Mark as Delivered"}</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isPickup ? "Enter pickup code" : "Enter drop-off code"}</DialogTitle>
+          <DialogDescription>
+            {isPickup
+              ? "Ask the sender for the pickup code shown on their delivery page."
+              : "Ask the recipient for the drop-off code the sender shared with them."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {needsProofPhoto && (
+          <div className="space-y-2">
+            <Label htmlFor="proof-photo">Proof-of-delivery photo</Label>
+            <Input
+              id="proof-photo"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              capture="environment"
+              onChange={(e) => setProofPhoto(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-gray-500">
+              Take a photo of the package at the drop-off location.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-center py-2">
+          <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              {[...Array(CODE_LENGTH)].map((_, i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => updateStatusMutation.mutate()}
+            disabled={
+              code.length !== CODE_LENGTH ||
+              (needsProofPhoto && !proofPhoto) ||
+              updateStatusMutation.isPending
+            }
+          >
+            {updateStatusMutation.isPending ? "Verifying..." : "Confirm"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HandoffCodeDialog;
@@ -0,0 +1,113 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { HandoffCodeWithRecipient } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle, KeyRound, RefreshCw } from "lucide-react";
+
+interface HandoffCodesCardProps {
+  deliveryId: number;
+}
+
+const purposeLabels: Record<string, { title: string; hint: string }> = {
+  pickup: {
+    title: "Pickup Code",
+    hint: "Give this code to the carrier when they collect the package.",
+  },
+  dropoff: {
+    title: "Drop-off Code",
+    hint: "Share this code with the recipient. The carrier needs it to complete the delivery.",
+  },
+};
+
+const HandoffCodesCard = ({ deliveryId }: HandoffCodesCardProps) => {
+  const { toast } = useToast();
+  const queryKey = `/api/deliveries/${deliveryId}/handoff-codes`;
+
+  const { data: handoffCodes, isLoading, error } = useQuery<HandoffCodeWithRecipient[]>({
+    queryKey: [queryKey],
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (purpose: string) => {
+      const res = await apiRequest("POST", `${queryKey}/${purpose}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "New code generated",
+        description: "The previous code no longer works",
+      });
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate a new code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (error) {
+    return <div className="text-red-500">Error loading handoff codes: {error.message}</div>;
+  }
+
+  if (!handoffCodes || handoffCodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      {handoffCodes.map((handoffCode) => {
+        const label = purposeLabels[handoffCode.purpose];
+        
+        return (
+          <div key={handoffCode.id} className="border border-gray-200 rounded-md p-4">
+            <div className="flex items-center text-sm font-medium text-gray-900">
+              <KeyRound className="h-4 w-4 mr-2 text-gray-400" />
+              {label.title}
+            </div>
+            {handoffCode.usedAt ? (
+              <p className="mt-3 flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Verified {new Date(handoffCode.usedAt).toLocaleString()}
+              </p>
+            ) : (
+              <>
+                <p className="mt-3 font-mono text-3xl tracking-widest text-gray-900">
+                  {handoffCode.code}
+                </p>
+                <p className="mt-2 text-xs text-gray-500">
+                  {handoffCode.sentTo
+                    ? `We emailed this code to the recipient at ${handoffCode.sentTo}. The carrier needs it to complete the delivery.`
+                    : label.hint}
+                </p>
+                <p className="mt-1 text-xs text-gray-500">
+                  Expires {new Date(handoffCode.expiresAt).toLocaleString()}
+                </p>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="mt-2 px-0"
+                  onClick={() => regenerateMutation.mutate(handoffCode.purpose)}
+                  disabled={regenerateMutation.isPending}
+                >
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  Generate new code
+                </Button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HandoffCodesCard;
@@ -0,0 +1,100 @@
+import { forwardRef, useState, type ButtonHTMLAttributes } from "react";
+import { places, placeLabel } from "@shared/gazetteer";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Check, ChevronsUpDown } from "lucide-react";
+
+type LocationComboboxProps = Omit<ButtonHTMLAttributes<HTMLButtonElement>, "value" | "onChange"> & {
+  placeholder?: string;
+} & (
+  | { multiple?: false; value: string; onChange: (value: string) => void }
+  | { multiple: true; value: string[]; onChange: (value: string[]) => void }
+);
+
+// Searchable picker over the gazetteer's cities and localities. Extra props
+// such as id and aria attributes go to the trigger, so it works inside
+// FormControl.
+const LocationCombobox = forwardRef<HTMLButtonElement, LocationComboboxProps>(
+  ({ placeholder = "Any location", className, multiple, value, onChange, ...triggerProps }, ref) => {
+    const [open, setOpen] = useState(false);
+    const selected = multiple ? value as string[] : value ? [value as string] : [];
+
+    const handleSelect = (name: string) => {
+      if (multiple) {
+        (onChange as (value: string[]) => void)(
+          selected.includes(name) ? selected.filter(n => n !== name) : [...selected, name]
+        );
+      } else {
+        (onChange as (value: string) => void)(name);
+        setOpen(false);
+      }
+    };
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between font-normal", className)}
+            {...triggerProps}
+          >
+            <span className={cn("truncate", !selected.length && "text-muted-foreground")}>
+              {selected.length ? selected.join(", ") : placeholder}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search city or locality..." />
+            <CommandList>
+              <CommandEmpty>No matching place.</CommandEmpty>
+              <CommandGroup>
+                {places.map((place) => (
+                  <CommandItem
+                    key={place.name}
+                    value={placeLabel(place)}
+                    keywords={place.aliases}
+                    onSelect={() => handleSelect(place.name)}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        selected.includes(place.name) ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    {place.name}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      {place.city ?? place.state}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+
+LocationCombobox.displayName = "LocationCombobox";
+
+export default LocationCombobox;
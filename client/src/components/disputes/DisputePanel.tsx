@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Delivery,
+  Dispute,
+  DisputeMessageWithAuthor,
+  ResolveDisputeInput,
+  resolveDisputeSchema,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { disputeReasonLabels } from "./OpenDisputeDialog";
+import { ImagePlus, Scale, Send } from "lucide-react";
+
+export const disputeOutcomeLabels: Record<string, string> = {
+  refund_sender: "Full refund to the sender",
+  pay_carrier: "Full payment to the carrier",
+  split: "Split between both",
+};
+
+const formatRupees = (amount: number) => `₹${(amount / 100).toLocaleString("en-IN")}`;
+
+interface DisputeThreadProps {
+  dispute: Dispute;
+  isParty: boolean;
+}
+
+const DisputeThread = ({ dispute, isParty }: DisputeThreadProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const queryKey = `/api/disputes/${dispute.id}/messages`;
+  const isOpen = dispute.status === "open";
+
+  const { data: messages, isLoading } = useQuery<DisputeMessageWithAuthor[]>({
+    queryKey: [queryKey],
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest("POST", queryKey, { body: text });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const evidenceMutation = useMutation({
+    mutationFn: async (photos: File[]) => {
+      const formData = new FormData();
+      formData.append("kind", "dispute_evidence");
+      photos.forEach((photo) => formData.append("photos", photo));
+      const res = await apiRequest("POST", `/api/deliveries/${dispute.deliveryId}/attachments`, formData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Photos added" });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${dispute.deliveryId}/attachments`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload photos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (body.trim()) {
+      sendMutation.mutate(body.trim());
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="max-h-80 overflow-y-auto p-4 space-y-3">
+        {!messages || messages.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">
+            No messages yet. Explain your side to the mediator here.
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.authorId === user?.id;
+
+            return (
+              <div key={message.id} className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+                <div className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                  isOwn
+                    ? "bg-primary text-primary-foreground"
+                    : message.author?.isAdmin ? "bg-orange-50 text-gray-900" : "bg-gray-100 text-gray-900"
+                }`}>
+                  {!isOwn && (
+                    <p className="text-xs font-medium">
+                      {message.author?.fullName}
+                      {message.author?.isAdmin && " · Mediator"}
+                    </p>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className={`mt-1 text-right text-xs ${isOwn ? "text-primary-foreground/70" : "text-gray-500"}`}>
+                    {new Date(message.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 p-3 space-y-2">
+          <form onSubmit={onSubmit} className="flex items-end gap-2">
+            <Textarea
+              placeholder="Write a message..."
+              rows={2}
+              maxLength={2000}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <Button type="submit" disabled={!body.trim() || sendMutation.isPending}>
+              <Send className="h-4 w-4" />
+              <span className="sr-only">Send</span>
+            </Button>
+          </form>
+          {isParty && (
+            <label className="inline-flex cursor-pointer items-center text-sm text-primary hover:underline">
+              <ImagePlus className="h-4 w-4 mr-1" />
+              {evidenceMutation.isPending ? "Uploading..." : "Add photos"}
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                className="sr-only"
+                disabled={evidenceMutation.isPending}
+                onChange={(e) => {
+                  const photos = Array.from(e.target.files ?? []);
+                  if (photos.length > 0) {
+                    evidenceMutation.mutate(photos);
+                  }
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ResolveDisputeForm = ({ dispute, delivery }: { dispute: Dispute; delivery: Delivery }) => {
+  const { toast } = useToast();
+
+  const form = useForm<ResolveDisputeInput>({
+    resolver: zodResolver(resolveDisputeSchema),
+    defaultValues: {
+      outcome: "refund_sender",
+      note: "",
+    },
+  });
+  const outcome = form.watch("outcome");
+
+  const resolveMutation = useMutation({
+    mutationFn: async (data: ResolveDisputeInput) => {
+      const res = await apiRequest("POST", `/api/disputes/${dispute.id}/resolve`, {
+        ...data,
+        carrierAmount: data.outcome === "split" ? data.carrierAmount : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Dispute resolved",
+        description: "Both parties have been notified",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${delivery.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${delivery.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${delivery.id}/disputes`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve dispute",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => resolveMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="outcome"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Decision</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an outcome" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(disputeOutcomeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {outcome === "split" && (
+          <FormField
+            control={form.control}
+            name="carrierAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Carrier's share (₹)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={field.value === undefined ? "" : field.value / 100}
+                    onChange={(e) => field.onChange(e.target.value === ""
+                      ? undefined
+                      : Math.round(parseFloat(e.target.value) * 100))}
+                  />
+                </FormControl>
+                <FormDescription>
+                  The sender gets the rest of the {formatRupees(delivery.deliveryFee)} fee
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Explanation</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Both parties will see this"
+                  rows={3}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={resolveMutation.isPending}>
+          <Scale className="h-4 w-4 mr-2" />
+          {resolveMutation.isPending ? "Resolving..." : "Resolve Dispute"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+interface DisputePanelProps {
+  delivery: Delivery;
+}
+
+// The latest dispute on a delivery with its conversation, and the decision
+// form for mediators while it is open
+const DisputePanel = ({ delivery }: DisputePanelProps) => {
+  const { user } = useAuth();
+  const isParty = user?.id === delivery.senderId || user?.id === delivery.carrierId;
+
+  const { data: disputes, isLoading } = useQuery<Dispute[]>({
+    queryKey: [`/api/deliveries/${delivery.id}/disputes`],
+  });
+
+  const dispute = disputes?.[0];
+  if (isLoading || !dispute) {
+    return null;
+  }
+
+  const isOpen = dispute.status === "open";
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg leading-6 font-medium text-gray-900">Dispute</h3>
+      <div className="mt-4 space-y-4">
+        <div className={`rounded-md p-4 text-sm ${isOpen ? "bg-orange-50" : "bg-gray-50"}`}>
+          <div className="flex items-center justify-between">
+            <p className="font-medium text-gray-900">
+              {disputeReasonLabels[dispute.reason] || dispute.reason}
+            </p>
+            <Badge variant={isOpen ? "default" : "secondary"}>{isOpen ? "Open" : "Resolved"}</Badge>
+          </div>
+          <p className="mt-1 text-gray-600">
+            Opened by the {dispute.openedBy === delivery.senderId ? "sender" : "carrier"} on{" "}
+            {new Date(dispute.createdAt).toLocaleDateString()}
+          </p>
+          <p className="mt-2 whitespace-pre-wrap text-gray-700">{dispute.description}</p>
+          {dispute.outcome && (
+            <div className="mt-3 border-t border-gray-200 pt-3">
+              <p className="font-medium text-gray-900">
+                {disputeOutcomeLabels[dispute.outcome] || dispute.outcome}
+              </p>
+              <p className="text-gray-600">
+                Sender refunded {formatRupees(dispute.senderAmount ?? 0)}, carrier paid {formatRupees(dispute.carrierAmount ?? 0)}
+              </p>
+              {dispute.resolutionNote && <p className="mt-1 text-gray-700">{dispute.resolutionNote}</p>}
+            </div>
+          )}
+        </div>
+
+        <DisputeThread dispute={dispute} isParty={isParty} />
+
+        {isOpen && user?.isAdmin && (
+          <div className="border border-gray-200 rounded-md p-4">
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Resolve</h4>
+            <ResolveDisputeForm dispute={dispute} delivery={delivery} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DisputePanel;
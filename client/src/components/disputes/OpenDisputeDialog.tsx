@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { openDisputeSchema, OpenDisputeInput } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export const disputeReasonLabels: Record<string, string> = {
+  damaged: "Package arrived damaged",
+  not_delivered: "Package never arrived",
+  wrong_item: "Wrong package delivered",
+  not_picked_up: "Carrier didn't pick it up",
+  payment: "Payment problem",
+  other: "Other",
+};
+
+interface OpenDisputeDialogProps {
+  deliveryId: number;
+}
+
+const OpenDisputeDialog = ({ deliveryId }: OpenDisputeDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [evidence, setEvidence] = useState<File[]>([]);
+
+  const form = useForm<OpenDisputeInput>({
+    resolver: zodResolver(openDisputeSchema),
+    defaultValues: {
+      reason: "damaged",
+      description: "",
+    },
+  });
+
+  const openDisputeMutation = useMutation({
+    mutationFn: async (data: OpenDisputeInput) => {
+      const res = await apiRequest("POST", `/api/deliveries/${deliveryId}/disputes`, data);
+      const dispute = await res.json();
+
+      // Evidence can only be attached once the delivery is disputed
+      if (evidence.length > 0) {
+        const formData = new FormData();
+        formData.append("kind", "dispute_evidence");
+        evidence.forEach((photo) => formData.append("photos", photo));
+        await apiRequest("POST", `/api/deliveries/${deliveryId}/attachments`, formData);
+      }
+
+      return dispute;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Dispute opened",
+        description: "A mediator will review it. Payments are on hold until then.",
+      });
+      setOpen(false);
+      setEvidence([]);
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/disputes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/attachments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/sender"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/carrier"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open dispute",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/disputes`] });
+    },
+  });
+
+  const onSubmit = (data: OpenDisputeInput) => {
+    openDisputeMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="text-orange-600 hover:text-orange-700">
+          Open Dispute
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open a dispute?</DialogTitle>
+          <DialogDescription>
+            A mediator will look at what happened and decide how the delivery fee is paid out.
+            The delivery and its payment are on hold until then.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(disputeReasonLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What happened?</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Describe the problem for the mediator"
+                      rows={4}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-evidence">Photos (optional)</Label>
+              <Input
+                id="dispute-evidence"
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                onChange={(e) => setEvidence(Array.from(e.target.files ?? []))}
+              />
+              <p className="text-xs text-gray-500">
+                Add photos of the package or anything else that shows what went wrong.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Never Mind
+              </Button>
+              <Button type="submit" disabled={openDisputeMutation.isPending}>
+                {openDisputeMutation.isPending ? "Submitting..." : "Open Dispute"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpenDisputeDialog;
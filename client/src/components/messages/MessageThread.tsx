@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Message } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, CheckCheck, Lock, Send } from "lucide-react";
+
+interface MessageThreadProps {
+  deliveryId: number;
+  otherPartyName: string;
+  // Delivered and cancelled deliveries keep their thread read-only
+  isClosed: boolean;
+}
+
+const MessageThread = ({ deliveryId, otherPartyName, isClosed }: MessageThreadProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const queryKey = `/api/deliveries/${deliveryId}/messages`;
+
+  const { data: messages, isLoading, error } = useQuery<Message[]>({
+    queryKey: [queryKey],
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${queryKey}/read`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/unread"] });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest("POST", queryKey, { body: text });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasUnread = messages?.some((message) => message.authorId !== user?.id && !message.readAt);
+
+  // Opening the thread reads the other party's messages
+  useEffect(() => {
+    if (hasUnread && !markReadMutation.isPending) {
+      markReadMutation.mutate();
+    }
+  }, [hasUnread]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages?.length]);
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (body.trim()) {
+      sendMutation.mutate(body.trim());
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-2/3" />
+        <Skeleton className="h-10 w-1/2 ml-auto" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-red-500">Error loading messages: {error.message}</div>;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="max-h-96 overflow-y-auto p-4 space-y-3">
+        {!messages || messages.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">
+            No messages yet. Say hello to {otherPartyName} to coordinate the handoff.
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.authorId === user?.id;
+            
+            return (
+              <div key={message.id} className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+                <div className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                  isOwn ? "bg-primary text-primary-foreground" : "bg-gray-100 text-gray-900"
+                }`}>
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <div className={`mt-1 flex items-center justify-end text-xs ${
+                    isOwn ? "text-primary-foreground/70" : "text-gray-500"
+                  }`}>
+                    {new Date(message.createdAt).toLocaleString()}
+                    {isOwn && (message.readAt
+                      ? <CheckCheck className="h-3 w-3 ml-1" aria-label="Read" />
+                      : <Check className="h-3 w-3 ml-1" aria-label="Sent" />)}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="border-t border-gray-200 p-3">
+        {isClosed ? (
+          <p className="flex items-center justify-center text-sm text-gray-500">
+            <Lock className="h-4 w-4 mr-2" />
+            This conversation is closed
+          </p>
+        ) : (
+          <form onSubmit={onSubmit} className="flex items-end gap-2">
+            <Textarea
+              placeholder={`Message ${otherPartyName}...`}
+              rows={2}
+              maxLength={2000}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  onSubmit(e);
+                }
+              }}
+            />
+            <Button type="submit" disabled={!body.trim() || sendMutation.isPending}>
+              <Send className="h-4 w-4" />
+              <span className="sr-only">Send</span>
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageThread;
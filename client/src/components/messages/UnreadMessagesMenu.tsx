@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { UnreadMessageCounts } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { MessageSquare } from "lucide-react";
+
+const UnreadMessagesMenu = () => {
+  const { data: unread } = useQuery<UnreadMessageCounts>({
+    queryKey: ["/api/messages/unread"],
+  });
+
+  const total = unread?.total ?? 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <MessageSquare className="w-5 h-5 text-gray-500" />
+          {total > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1 text-xs text-primary-foreground">
+              {total > 99 ? "99+" : total}
+            </span>
+          )}
+          <span className="sr-only">Messages</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Messages</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {total === 0 ? (
+          <div className="px-2 py-3 text-sm text-gray-500">No unread messages</div>
+        ) : (
+          unread!.deliveries.map(({ deliveryId, count }) => (
+            <DropdownMenuItem key={deliveryId} asChild>
+              <Link href={`/deliveries/${deliveryId}`} className="flex justify-between">
+                <span>Delivery #{deliveryId}</span>
+                <span className="text-xs text-gray-500">
+                  {count} unread {count === 1 ? "message" : "messages"}
+                </span>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default UnreadMessagesMenu;
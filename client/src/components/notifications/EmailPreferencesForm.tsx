@@ -0,0 +1,145 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  emailNotificationTypes,
+  updateEmailPreferencesSchema,
+  UpdateEmailPreferencesInput,
+  User,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+
+const emailNotificationLabels: Record<(typeof emailNotificationTypes)[number], string> = {
+  offer_received: "New or revised offers on my deliveries",
+  offer_countered: "Counter-offers to my offers",
+  offer_accepted: "Accepted offers",
+  delivery_picked: "My package was picked up",
+  delivery_delivered: "My package was delivered",
+  delivery_cancelled: "A delivery I carry was cancelled",
+  delivery_released: "A carrier released my delivery",
+  review_received: "New reviews about me",
+  trip_match: "New deliveries along my trips",
+  dispute_opened: "A dispute was opened on my delivery",
+  dispute_resolved: "A dispute I'm part of was resolved",
+  verification_reviewed: "My ID documents were reviewed",
+};
+
+interface EmailPreferencesFormProps {
+  user: User;
+  onSaved: (user: User) => void;
+}
+
+const EmailPreferencesForm = ({ user, onSaved }: EmailPreferencesFormProps) => {
+  const { toast } = useToast();
+
+  const form = useForm<UpdateEmailPreferencesInput>({
+    resolver: zodResolver(updateEmailPreferencesSchema),
+    defaultValues: {
+      email: user.email,
+      emailPreferences: Object.fromEntries(
+        emailNotificationTypes.map((type) => [type, user.emailPreferences?.[type] !== false])
+      ),
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UpdateEmailPreferencesInput) => {
+      const res = await apiRequest("PUT", "/api/user/email-preferences", data);
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      toast({
+        title: "Preferences saved",
+        description: "Your email notification settings have been updated",
+      });
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      onSaved(updatedUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: UpdateEmailPreferencesInput) => {
+    saveMutation.mutate({ ...data, email: data.email || null });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem className="max-w-md">
+              <FormLabel>Email address</FormLabel>
+              <FormControl>
+                <Input
+                  type="email"
+                  placeholder="you@example.com"
+                  value={field.value || ""}
+                  onChange={(e) => field.onChange(e.target.value || null)}
+                  onBlur={field.onBlur}
+                  ref={field.ref}
+                  name={field.name}
+                />
+              </FormControl>
+              <FormDescription>
+                {user.email && field.value?.toLowerCase() === user.email.toLowerCase()
+                  ? user.emailVerifiedAt
+                    ? "Verified. Changing the address means verifying it again."
+                    : "Not verified yet. Notification emails start once you use the link we sent."
+                  : "We'll send a link to verify the new address. Leave empty to stop all notification emails."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <h5 className="text-sm font-medium text-gray-900">Email me about</h5>
+          {emailNotificationTypes.map((type) => (
+            <FormField
+              key={type}
+              control={form.control}
+              name={`emailPreferences.${type}`}
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border border-gray-200 px-4 py-3">
+                  <FormLabel className="font-normal text-gray-700">
+                    {emailNotificationLabels[type]}
+                  </FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value !== false} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default EmailPreferencesForm;
@@ -0,0 +1,108 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Notification, NotificationList } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+
+const NotificationsMenu = () => {
+  const [, navigate] = useLocation();
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      const res = await apiRequest("POST", "/api/notifications/read", { ids });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.deliveryId) {
+      navigate(`/deliveries/${notification.deliveryId}`);
+    } else if (notification.type === "verification_reviewed") {
+      navigate("/profile");
+    } else if (notification.type === "account_locked") {
+      navigate("/reset-password");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <Bell className="w-5 h-5 text-gray-500" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-500 px-1 text-xs text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-2 text-xs"
+              disabled={markReadMutation.isPending}
+              onClick={() => markReadMutation.mutate(undefined)}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-3 text-sm text-gray-500">No notifications yet</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-1 cursor-pointer"
+                onSelect={() => openNotification(notification)}
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span className={`text-sm ${notification.readAt ? "text-gray-700" : "font-semibold text-gray-900"}`}>
+                    {notification.title}
+                  </span>
+                  {!notification.readAt && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                </div>
+                <span className="text-xs text-gray-500">{notification.body}</span>
+                <span className="text-xs text-gray-400">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationsMenu;
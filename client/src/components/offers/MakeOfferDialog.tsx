@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { HandCoins } from "lucide-react";
+
+// The form keeps the pickup time as the raw datetime-local string
+const offerFormSchema = z.object({
+  price: z.number().int().min(1, "Price must be at least 1 cent"),
+  proposedPickupTime: z.string().min(1, "Pickup time is required"),
+  note: z.string().max(500, "Note must be at most 500 characters").optional(),
+});
+
+type OfferFormValues = z.infer<typeof offerFormSchema>;
+
+interface MakeOfferDialogProps {
+  deliveryId: number;
+  defaultPrice: number;
+  // Revising an existing offer only changes the labels
+  isRevision?: boolean;
+  triggerClassName?: string;
+}
+
+const MakeOfferDialog = ({
+  deliveryId,
+  defaultPrice,
+  isRevision = false,
+  triggerClassName,
+}: MakeOfferDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<OfferFormValues>({
+    resolver: zodResolver(offerFormSchema),
+    defaultValues: {
+      price: defaultPrice,
+      proposedPickupTime: "",
+      note: "",
+    },
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: async (data: OfferFormValues) => {
+      const res = await apiRequest("POST", `/api/deliveries/${deliveryId}/offers`, {
+        ...data,
+        proposedPickupTime: new Date(data.proposedPickupTime).toISOString(),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: isRevision ? "Offer updated" : "Offer sent",
+        description: "The sender will be able to review your offer",
+      });
+      setOpen(false);
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/offers`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: OfferFormValues) => {
+    offerMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className={triggerClassName} variant={isRevision ? "outline" : "default"}>
+          <HandCoins className="h-4 w-4 mr-2" />
+          {isRevision ? "Revise Offer" : "Make an Offer"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isRevision ? "Revise your offer" : "Make an offer"}</DialogTitle>
+          <DialogDescription>
+            Propose your price and when you can pick up the package. The sender chooses between offers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Your Price (₹)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      {...field}
+                      value={field.value / 100}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) * 100)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    The sender asked for ₹{(defaultPrice / 100).toFixed(2)}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="proposedPickupTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Proposed Pickup Time</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Anything the sender should know (optional)"
+                      rows={3}
+                      value={field.value || ""}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      ref={field.ref}
+                      name={field.name}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={offerMutation.isPending}>
+                {offerMutation.isPending ? "Sending..." : isRevision ? "Update Offer" : "Send Offer"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MakeOfferDialog;
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { OfferWithCarrier } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Star, Clock } from "lucide-react";
+import MakeOfferDialog from "./MakeOfferDialog";
+import VerifiedBadge from "@/components/verification/VerifiedBadge";
+import UserAvatar from "@/components/profile/UserAvatar";
+
+interface OfferItemProps {
+  offer: OfferWithCarrier;
+  // "sender" sees accept/counter actions, "carrier" sees their own offer's actions
+  viewer: "sender" | "carrier";
+  canRespond: boolean;
+}
+
+const OfferItem = ({ offer, viewer, canRespond }: OfferItemProps) => {
+  const { toast } = useToast();
+  const [isCountering, setIsCountering] = useState(false);
+  const [counterPrice, setCounterPrice] = useState(offer.price);
+
+  const invalidateOffers = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${offer.deliveryId}/offers`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${offer.deliveryId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${offer.deliveryId}/events`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/sender"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/carrier"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update offer",
+      variant: "destructive",
+    });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/offers/${offer.id}/accept`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Offer accepted",
+        description: "The carrier has been assigned to this delivery",
+      });
+      invalidateOffers();
+    },
+    onError,
+  });
+
+  const counterMutation = useMutation({
+    mutationFn: async (price: number) => {
+      const res = await apiRequest("POST", `/api/offers/${offer.id}/counter`, { price });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Counter-offer sent",
+        description: "The carrier can accept your price or revise their offer",
+      });
+      setIsCountering(false);
+      invalidateOffers();
+    },
+    onError,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/offers/${offer.id}/withdraw`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Offer withdrawn",
+        description: "Your offer has been withdrawn",
+      });
+      invalidateOffers();
+    },
+    onError,
+  });
+
+  // Format currency from cents to dollars/rupees
+  const formatCurrency = (amount: number) => {
+    return `₹${(amount / 100).toFixed(2)}`;
+  };
+
+  const getStatusColor = () => {
+    switch (offer.status) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-800 hover:bg-yellow-100";
+      case "countered":
+        return "bg-blue-100 text-blue-800 hover:bg-blue-100";
+      case "accepted":
+        return "bg-green-100 text-green-800 hover:bg-green-100";
+      default:
+        return "bg-gray-100 text-gray-800 hover:bg-gray-100";
+    }
+  };
+
+  const isOpen = offer.status === "pending" || offer.status === "countered";
+  const isPending = acceptMutation.isPending || counterMutation.isPending || withdrawMutation.isPending;
+
+  return (
+    <li className="bg-gray-50 p-4 rounded-md">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          <UserAvatar user={offer.carrier} />
+          <div className="ml-3">
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+              {offer.carrier.fullName || offer.carrier.username}
+              <VerifiedBadge verifiedAt={offer.carrier.verifiedAt} />
+            </div>
+            <div className="flex items-center text-xs text-gray-500">
+              <Star className="h-3 w-3 mr-1 text-yellow-400 fill-yellow-400" />
+              {offer.carrier.rating
+                ? `${offer.carrier.rating} (${offer.carrier.totalReviews} reviews)`
+                : "No ratings yet"}
+            </div>
+            <div className="mt-2 text-lg font-semibold text-gray-900">
+              {formatCurrency(offer.price)}
+            </div>
+            <div className="flex items-center text-sm text-gray-500">
+              <Clock className="h-4 w-4 mr-1" />
+              Pickup {new Date(offer.proposedPickupTime).toLocaleString()}
+            </div>
+            {offer.note && (
+              <p className="mt-1 text-sm text-gray-700">{offer.note}</p>
+            )}
+            {offer.counterPrice && (
+              <p className="mt-2 text-sm text-blue-700">
+                Sender countered with {formatCurrency(offer.counterPrice)}
+                {offer.counterNote && ` — ${offer.counterNote}`}
+              </p>
+            )}
+          </div>
+        </div>
+        <Badge variant="outline" className={`${getStatusColor()} font-medium`}>
+          {offer.status.charAt(0).toUpperCase() + offer.status.slice(1)}
+        </Badge>
+      </div>
+
+      {canRespond && isOpen && viewer === "sender" && offer.status === "pending" && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={() => acceptMutation.mutate()} disabled={isPending}>
+            Accept {formatCurrency(offer.price)}
+          </Button>
+          {isCountering ? (
+            <>
+              <Input
+                type="number"
+                min="1"
+                className="w-32 h-9"
+                value={counterPrice / 100}
+                onChange={(e) => setCounterPrice(parseInt(e.target.value) * 100)}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => counterMutation.mutate(counterPrice)}
+                disabled={isPending || !(counterPrice > 0)}
+              >
+                Send Counter
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setIsCountering(false)}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => setIsCountering(true)}>
+              Counter
+            </Button>
+          )}
+        </div>
+      )}
+
+      {canRespond && isOpen && viewer === "carrier" && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          {offer.status === "countered" && offer.counterPrice && (
+            <Button size="sm" onClick={() => acceptMutation.mutate()} disabled={isPending}>
+              Accept {formatCurrency(offer.counterPrice)}
+            </Button>
+          )}
+          <MakeOfferDialog
+            deliveryId={offer.deliveryId}
+            defaultPrice={offer.counterPrice ?? offer.price}
+            isRevision
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => withdrawMutation.mutate()}
+            disabled={isPending}
+          >
+            Withdraw
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default OfferItem;
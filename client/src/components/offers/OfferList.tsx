@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import OfferItem from "./OfferItem";
+import { OfferWithCarrier } from "@shared/schema";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface OfferListProps {
+  deliveryId: number;
+  viewer: "sender" | "carrier";
+  canRespond: boolean;
+  emptyMessage?: string;
+}
+
+const OfferList = ({
+  deliveryId,
+  viewer,
+  canRespond,
+  emptyMessage = "No offers yet",
+}: OfferListProps) => {
+  const { data: offers, isLoading, error } = useQuery<OfferWithCarrier[]>({
+    queryKey: [`/api/deliveries/${deliveryId}/offers`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(2)].map((_, i) => (
+          <div key={i} className="bg-gray-50 p-4 rounded-md">
+            <div className="flex items-start">
+              <Skeleton className="h-10 w-10 rounded-full" />
+              <div className="ml-3">
+                <Skeleton className="h-4 w-32 mb-2" />
+                <Skeleton className="h-3 w-20 mb-3" />
+                <Skeleton className="h-5 w-24 mb-2" />
+                <Skeleton className="h-4 w-40" />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-red-500">Error loading offers: {error.message}</div>;
+  }
+
+  if (!offers || offers.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {offers.map((offer) => (
+        <OfferItem key={offer.id} offer={offer} viewer={viewer} canRespond={canRespond} />
+      ))}
+    </ul>
+  );
+};
+
+export default OfferList;
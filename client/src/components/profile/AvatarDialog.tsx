@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+
+// Side of the square sent to the server, which shrinks it to its own size
+const OUTPUT_SIZE = 512;
+const PREVIEW_SIZE = 192;
+const MAX_ZOOM = 3;
+
+// Zoom into the image and move the square around it; pan runs from -1 (left
+// or top edge) to 1 (right or bottom edge)
+interface Crop {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+const initialCrop: Crop = { zoom: 1, panX: 0, panY: 0 };
+
+function drawCrop(canvas: HTMLCanvasElement, image: HTMLImageElement, { zoom, panX, panY }: Crop) {
+  const side = Math.min(image.naturalWidth, image.naturalHeight) / zoom;
+  const x = (image.naturalWidth - side) / 2 * (1 + panX);
+  const y = (image.naturalHeight - side) / 2 * (1 + panY);
+
+  const context = canvas.getContext("2d")!;
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, x, y, side, side, 0, 0, canvas.width, canvas.height);
+}
+
+function cropToBlob(image: HTMLImageElement, crop: Crop) {
+  const canvas = document.createElement("canvas");
+  canvas.width = OUTPUT_SIZE;
+  canvas.height = OUTPUT_SIZE;
+  drawCrop(canvas, image, crop);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Couldn't read this image")),
+      "image/jpeg",
+      0.9,
+    );
+  });
+}
+
+interface AvatarDialogProps {
+  user: User;
+  onSaved: (user: User) => void;
+}
+
+// Pick a profile picture and crop it to a square before it is uploaded
+const AvatarDialog = ({ user, onSaved }: AvatarDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<Crop>(initialCrop);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (image && previewRef.current) {
+      drawCrop(previewRef.current, image, crop);
+    }
+  }, [image, crop]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setImage(null);
+      setCrop(initialCrop);
+    }
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    const loaded = new Image();
+    loaded.onload = () => {
+      URL.revokeObjectURL(url);
+      setImage(loaded);
+      setCrop(initialCrop);
+    };
+    loaded.onerror = () => {
+      URL.revokeObjectURL(url);
+      toast({
+        title: "Error",
+        description: "Couldn't read this image. Choose a JPEG, PNG or WebP file.",
+        variant: "destructive",
+      });
+    };
+    loaded.src = url;
+  };
+
+  const onSuccess = (updatedUser: User) => {
+    queryClient.setQueryData(["/api/user"], updatedUser);
+    onSaved(updatedUser);
+    handleOpenChange(false);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update your profile picture",
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("avatar", await cropToBlob(image!, crop), "avatar.jpg");
+      const res = await apiRequest("POST", "/api/user/avatar", formData);
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      toast({ title: "Profile picture updated" });
+      onSuccess(updatedUser);
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/avatar");
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      toast({ title: "Profile picture removed" });
+      onSuccess(updatedUser);
+    },
+    onError,
+  });
+
+  const isPending = uploadMutation.isPending || removeMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          {user.avatarUpdatedAt ? "Change Picture" : "Add Picture"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Profile picture</DialogTitle>
+          <DialogDescription>
+            Shown next to your name on deliveries, offers and reviews.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="avatar-file">Image</Label>
+            <Input
+              id="avatar-file"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          {image && (
+            <>
+              <div className="flex justify-center">
+                <canvas
+                  ref={previewRef}
+                  width={PREVIEW_SIZE}
+                  height={PREVIEW_SIZE}
+                  className="rounded-full border border-gray-200"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Zoom</Label>
+                <Slider
+                  min={1}
+                  max={MAX_ZOOM}
+                  step={0.05}
+                  value={[crop.zoom]}
+                  onValueChange={([zoom]) => setCrop({ ...crop, zoom })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Left to right</Label>
+                <Slider
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  value={[crop.panX]}
+                  onValueChange={([panX]) => setCrop({ ...crop, panX })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Top to bottom</Label>
+                <Slider
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  value={[crop.panY]}
+                  onValueChange={([panY]) => setCrop({ ...crop, panY })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {user.avatarUpdatedAt && (
+            <Button
+              type="button"
+              variant="outline"
+              className="text-red-600 hover:text-red-700 sm:mr-auto"
+              disabled={isPending}
+              onClick={() => removeMutation.mutate()}
+            >
+              {removeMutation.isPending ? "Removing..." : "Remove Picture"}
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!image || isPending} onClick={() => uploadMutation.mutate()}>
+            {uploadMutation.isPending ? "Uploading..." : "Save Picture"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AvatarDialog;
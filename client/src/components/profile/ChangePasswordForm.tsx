@@ -0,0 +1,111 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { changePasswordSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const changePasswordFormSchema = changePasswordSchema
+  .extend({ confirmPassword: z.string() })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ChangePasswordFormValues = z.infer<typeof changePasswordFormSchema>;
+
+const emptyValues: ChangePasswordFormValues = { currentPassword: "", newPassword: "", confirmPassword: "" };
+
+const ChangePasswordForm = () => {
+  const { toast } = useToast();
+
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Password changed",
+        description: `${result.message}. Your other devices have been signed out.`,
+      });
+      form.reset(emptyValues);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+    },
+    onError: (error: Error) => {
+      form.setValue("currentPassword", "");
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change your password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => changeMutation.mutate(data))} className="space-y-6 max-w-md">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="••••••••" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={changeMutation.isPending}>
+          {changeMutation.isPending ? "Saving..." : "Change Password"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ChangePasswordForm;
@@ -0,0 +1,150 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { updateProfileSchema, UpdateProfileInput, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import LocationCombobox from "@/components/deliveries/LocationCombobox";
+
+interface ProfileFormProps {
+  user: User;
+  onSaved: (user: User) => void;
+}
+
+// Name, bio, phone and the cities the user usually sends to or travels between
+const ProfileForm = ({ user, onSaved }: ProfileFormProps) => {
+  const { toast } = useToast();
+
+  const form = useForm<UpdateProfileInput>({
+    resolver: zodResolver(updateProfileSchema),
+    defaultValues: {
+      fullName: user.fullName,
+      bio: user.bio,
+      phone: user.phone,
+      preferredCities: user.preferredCities,
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UpdateProfileInput) => {
+      const res = await apiRequest("PATCH", "/api/user", data);
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      toast({
+        title: "Profile saved",
+        description: "Your profile has been updated",
+      });
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      form.reset({
+        fullName: updatedUser.fullName,
+        bio: updatedUser.bio,
+        phone: updatedUser.phone,
+        preferredCities: updatedUser.preferredCities,
+      });
+      onSaved(updatedUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save your profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6 max-w-md">
+        <FormField
+          control={form.control}
+          name="fullName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="bio"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Bio</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={3}
+                  placeholder="A few words about you, e.g. how often you travel"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormDescription>Shown on your public profile</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone number</FormLabel>
+              <FormControl>
+                <Input type="tel" placeholder="+91 98765 43210" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormDescription>Private; never shown to other users</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="preferredCities"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Preferred cities</FormLabel>
+              <FormControl>
+                <LocationCombobox
+                  multiple
+                  placeholder="Choose cities"
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  ref={field.ref}
+                />
+              </FormControl>
+              <FormDescription>Where you usually send packages or travel</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={!form.formState.isDirty || saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save Profile"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileForm;
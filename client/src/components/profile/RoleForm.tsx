@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { User, UserRole } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+const roleOptions: { value: UserRole; label: string; description: string }[] = [
+  { value: "sender", label: "Sender", description: "Create delivery requests for your packages" },
+  { value: "carrier", label: "Carrier", description: "Carry other people's packages on your trips" },
+  { value: "both", label: "Sender & Carrier", description: "Send packages and carry them" },
+];
+
+interface RoleFormProps {
+  user: User;
+  onSaved: (user: User) => void;
+}
+
+// Switch between sending, carrying or both
+const RoleForm = ({ user, onSaved }: RoleFormProps) => {
+  const { toast } = useToast();
+  const [role, setRole] = useState<UserRole>(user.role);
+
+  const saveMutation = useMutation({
+    mutationFn: async (newRole: UserRole) => {
+      const res = await apiRequest("PATCH", "/api/user", { role: newRole });
+      return await res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      toast({
+        title: "Role updated",
+        description: `You're now signed up as ${roleOptions.find((option) => option.value === updatedUser.role)?.label}`,
+      });
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      onSaved(updatedUser);
+    },
+    onError: (error: Error) => {
+      setRole(user.role);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update your role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup value={role} onValueChange={(value) => setRole(value as UserRole)} className="space-y-2">
+        {roleOptions.map((option) => (
+          <div key={option.value} className="flex items-start space-x-3">
+            <RadioGroupItem value={option.value} id={`role-${option.value}`} className="mt-1" />
+            <Label htmlFor={`role-${option.value}`} className="font-normal">
+              <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+              <span className="block text-sm text-gray-500">{option.description}</span>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+      <Button
+        size="sm"
+        disabled={role === user.role || saveMutation.isPending}
+        onClick={() => saveMutation.mutate(role)}
+      >
+        {saveMutation.isPending ? "Saving..." : "Change Role"}
+      </Button>
+    </div>
+  );
+};
+
+export default RoleForm;
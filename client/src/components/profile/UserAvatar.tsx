@@ -0,0 +1,32 @@
+import { User } from "@shared/schema";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+type AvatarUser = Partial<Pick<User, "id" | "fullName" | "username" | "avatarUpdatedAt">>;
+
+// The picture changes URL with every upload, so browsers can cache it
+export function avatarUrl(user: AvatarUser) {
+  if (!user.id || !user.avatarUpdatedAt) return undefined;
+  return `/api/users/${user.id}/avatar?v=${new Date(user.avatarUpdatedAt).getTime()}`;
+}
+
+interface UserAvatarProps {
+  user: AvatarUser;
+  className?: string;
+  fallbackClassName?: string;
+}
+
+// Profile picture, or the first letter of the name until one is uploaded
+const UserAvatar = ({ user, className, fallbackClassName }: UserAvatarProps) => {
+  const initial = user.fullName?.charAt(0) || user.username?.charAt(0) || "U";
+  const src = avatarUrl(user);
+
+  return (
+    <Avatar className={cn("h-10 w-10", className)}>
+      {src && <AvatarImage src={src} alt={user.fullName ?? user.username} className="object-cover" />}
+      <AvatarFallback className={fallbackClassName}>{initial}</AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default UserAvatar;
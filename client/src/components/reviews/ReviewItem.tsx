@@ -1,5 +1,5 @@
 import { Review, User } from "@shared/schema";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import UserAvatar from "@/components/profile/UserAvatar";
 import { Star } from "lucide-react";
 
 interface ReviewItemProps {
@@ -36,11 +36,7 @@ const ReviewItem = ({ review }: ReviewItemProps) => {
   return (
     <li className="bg-gray-50 p-4 rounded-md">
       <div className="flex items-start">
-        <Avatar className="h-10 w-10">
-          <AvatarFallback>
-            {review.reviewer.fullName?.charAt(0) || review.reviewer.username?.charAt(0) || "U"}
-          </AvatarFallback>
-        </Avatar>
+        <UserAvatar user={review.reviewer} />
         <div className="ml-3">
           <div className="text-sm font-medium text-gray-900">
             {review.reviewer.fullName || review.reviewer.username}
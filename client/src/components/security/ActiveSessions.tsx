@@ -0,0 +1,114 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ActiveSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Monitor } from "lucide-react";
+
+const refreshSessions = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+};
+
+// Devices the user is signed in on, with a way to sign out the others
+const ActiveSessions = () => {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/user/sessions/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Session signed out" });
+      refreshSessions();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out the session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/sessions");
+      return await res.json();
+    },
+    onSuccess: (result: { revoked: number }) => {
+      toast({
+        title: "Signed out other sessions",
+        description: `${result.revoked} ${result.revoked === 1 ? "session was" : "sessions were"} signed out`,
+      });
+      refreshSessions();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out other sessions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !sessions) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="flex items-center min-w-0">
+              <Monitor className="h-5 w-5 mr-3 flex-shrink-0 text-gray-400" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  {session.device}
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </p>
+                <p className="text-sm text-gray-500 truncate">
+                  {session.ip ?? "Unknown IP"}
+                  {session.lastSeenAt && (
+                    <> · Last seen {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}</>
+                  )}
+                </p>
+              </div>
+            </div>
+            {!session.current && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={revokeMutation.isPending}
+                onClick={() => revokeMutation.mutate(session.id)}
+              >
+                Sign Out
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {hasOthers && (
+        <Button
+          variant="outline"
+          className="text-red-600 hover:text-red-700"
+          disabled={revokeOthersMutation.isPending}
+          onClick={() => revokeOthersMutation.mutate()}
+        >
+          {revokeOthersMutation.isPending ? "Signing out..." : "Sign Out All Other Sessions"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { LoginHistoryEntry, LoginOutcome } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const outcomeLabels: Record<LoginOutcome, { label: string; className: string }> = {
+  success: { label: "Signed in", className: "text-green-700" },
+  wrong_password: { label: "Wrong password", className: "text-red-600" },
+  wrong_code: { label: "Wrong 2FA code", className: "text-red-600" },
+  blocked: { label: "Blocked", className: "text-amber-600" },
+};
+
+// Recent sign-ins and failed attempts, to spot someone else using the account
+const LoginHistory = () => {
+  const { data: history, isLoading } = useQuery<LoginHistoryEntry[]>({
+    queryKey: ["/api/user/login-history"],
+  });
+
+  if (isLoading || !history) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No sign-ins recorded yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Result</TableHead>
+          <TableHead>Device</TableHead>
+          <TableHead>IP address</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {history.map((entry) => (
+          <TableRow key={entry.id}>
+            <TableCell>{format(new Date(entry.createdAt), "d MMM yyyy, HH:mm")}</TableCell>
+            <TableCell className={outcomeLabels[entry.outcome].className}>
+              {outcomeLabels[entry.outcome].label}
+            </TableCell>
+            <TableCell>{entry.device}</TableCell>
+            <TableCell>{entry.ip ?? "Unknown"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default LoginHistory;
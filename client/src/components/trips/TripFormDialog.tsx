@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Trip, TripFormInput, tripFormSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import LocationCombobox from "@/components/deliveries/LocationCombobox";
+import { Pencil, Plus } from "lucide-react";
+
+const packageSizes = [
+  { value: "small", label: "Small (up to 2 kg)" },
+  { value: "medium", label: "Medium (2-5 kg)" },
+  { value: "large", label: "Large (5-10 kg)" },
+];
+
+interface TripFormDialogProps {
+  // Edit this trip; without it the dialog posts a new one
+  trip?: Trip;
+}
+
+const TripFormDialog = ({ trip }: TripFormDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const isEdit = !!trip;
+  const today = new Date().toISOString().split("T")[0];
+
+  const form = useForm<TripFormInput>({
+    resolver: zodResolver(tripFormSchema),
+    defaultValues: {
+      origin: trip?.origin ?? "",
+      destination: trip?.destination ?? "",
+      departureFrom: trip?.departureFrom ?? today,
+      departureTo: trip?.departureTo ?? today,
+      maxPackageSize: trip?.maxPackageSize ?? "medium",
+      maxWeight: trip?.maxWeight ?? 5000, // 5 kg in grams
+      notes: trip?.notes ?? "",
+    },
+  });
+
+  const tripMutation = useMutation({
+    mutationFn: async (data: TripFormInput) => {
+      const res = isEdit
+        ? await apiRequest("PUT", `/api/trips/${trip.id}`, data)
+        : await apiRequest("POST", "/api/trips", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: isEdit ? "Trip updated" : "Trip posted",
+        description: "Matching deliveries are listed under the trip",
+      });
+      setOpen(false);
+      if (!isEdit) form.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      if (isEdit) {
+        queryClient.invalidateQueries({ queryKey: [`/api/trips/${trip.id}/matches`] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save trip",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: TripFormInput) => {
+    tripMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {isEdit ? (
+          <Button variant="outline" size="sm">
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        ) : (
+          <Button className="flex items-center">
+            <Plus className="h-4 w-4 mr-2" />
+            Post a Trip
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit trip" : "Post a trip"}</DialogTitle>
+          <DialogDescription>
+            Tell senders where you're travelling and how much room you have. Deliveries along
+            your route show up under the trip.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="origin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <LocationCombobox
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Select origin"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="destination"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                      <LocationCombobox
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Select destination"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="departureFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Leaving from</FormLabel>
+                    <FormControl>
+                      <Input type="date" min={today} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="departureTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Leaving by</FormLabel>
+                    <FormControl>
+                      <Input type="date" min={today} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxPackageSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Largest package</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a size" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {packageSizes.map((size) => (
+                          <SelectItem key={size.value} value={size.value}>
+                            {size.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxWeight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max weight (kg)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        {...field}
+                        value={field.value / 1000}
+                        onChange={(e) => field.onChange(Math.round(parseFloat(e.target.value) * 1000))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="e.g. Travelling by car, can pick up near the highway"
+                      rows={2}
+                      value={field.value || ""}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      ref={field.ref}
+                      name={field.name}
+                    />
+                  </FormControl>
+                  <FormDescription>Optional</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={tripMutation.isPending}>
+                {tripMutation.isPending ? "Saving..." : isEdit ? "Save Trip" : "Post Trip"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TripFormDialog;
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { TripWithMatches } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import DeliveryList from "@/components/deliveries/DeliveryList";
+import TripFormDialog from "./TripFormDialog";
+import { CalendarDays, ChevronDown, ChevronUp, Package, Trash2 } from "lucide-react";
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy");
+
+const formatWindow = (from: string, to: string) =>
+  from === to ? formatDate(from) : `${formatDate(from)} – ${formatDate(to)}`;
+
+const TripCard = ({ trip }: { trip: TripWithMatches }) => {
+  const { toast } = useToast();
+  const [showMatches, setShowMatches] = useState(false);
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/trips/${trip.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Trip deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete trip",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h4 className="text-lg font-medium text-gray-900">
+              {trip.origin} → {trip.destination}
+            </h4>
+            <div className="mt-2 space-y-1 text-sm text-gray-500">
+              <p className="flex items-center">
+                <CalendarDays className="mr-2 h-4 w-4 text-gray-400" />
+                {formatWindow(trip.departureFrom, trip.departureTo)}
+              </p>
+              <p className="flex items-center">
+                <Package className="mr-2 h-4 w-4 text-gray-400" />
+                Up to {trip.maxPackageSize} packages, {trip.maxWeight / 1000} kg
+              </p>
+              {trip.notes && <p className="italic">{trip.notes}</p>}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <TripFormDialog trip={trip} />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete this trip?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    You will stop getting notified about deliveries along this route.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep Trip</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => deleteMutation.mutate()}
+                    disabled={deleteMutation.isPending}
+                  >
+                    Delete Trip
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <Button
+          variant="ghost"
+          className="mt-4 -ml-3"
+          onClick={() => setShowMatches(!showMatches)}
+        >
+          {showMatches ? <ChevronUp className="h-4 w-4 mr-2" /> : <ChevronDown className="h-4 w-4 mr-2" />}
+          Matching deliveries
+          <Badge variant={trip.matchCount > 0 ? "default" : "secondary"} className="ml-2">
+            {trip.matchCount}
+          </Badge>
+        </Button>
+
+        {showMatches && (
+          <div className="mt-4">
+            <DeliveryList
+              queryKey={`/api/trips/${trip.id}/matches`}
+              emptyMessage="No requested deliveries fit this trip yet. We'll notify you when one does."
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const TripList = () => {
+  const { data: trips, isLoading } = useQuery<TripWithMatches[]>({
+    queryKey: ["/api/trips"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-36 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!trips?.length) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center text-sm text-gray-500">
+          You haven't posted any trips. Post one to see deliveries along your route and get
+          notified when new ones appear.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {trips.map((trip) => (
+        <TripCard key={trip.id} trip={trip} />
+      ))}
+    </div>
+  );
+};
+
+export default TripList;
@@ -0,0 +1,58 @@
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Copy, Download } from "lucide-react";
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Freshly generated recovery codes. They can't be shown again, so the user
+// is asked to keep a copy before moving on.
+const RecoveryCodes = ({ codes, onDone }: RecoveryCodesProps) => {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([`CarryConnect recovery codes\n\n${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "carryconnect-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose access to
+        your authenticator app. They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border border-gray-200 bg-gray-50 p-4 font-mono text-sm text-gray-900 max-w-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes}>
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+        <Button type="button" size="sm" onClick={onDone}>
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShieldCheck } from "lucide-react";
+import TwoFactorCodeInput from "./TwoFactorCodeInput";
+import RecoveryCodes from "./RecoveryCodes";
+
+const refreshTwoFactor = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+};
+
+interface CodeConfirmDialogProps {
+  triggerLabel: string;
+  title: string;
+  description: string;
+  url: string;
+  destructive?: boolean;
+  onConfirmed: (result: { recoveryCodes?: string[] }) => void;
+}
+
+// Changes to 2FA need a current code, from the app or a recovery code
+const CodeConfirmDialog = ({ triggerLabel, title, description, url, destructive, onConfirmed }: CodeConfirmDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", url, { code: code.trim() });
+      return await res.json();
+    },
+    onSuccess: (result: { recoveryCodes?: string[] }) => {
+      setOpen(false);
+      setCode("");
+      onConfirmed(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className={destructive ? "text-red-600 hover:text-red-700" : undefined}>
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-confirm-code">Authentication or recovery code</Label>
+          <Input
+            id="two-factor-confirm-code"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={destructive ? "destructive" : "default"}
+            disabled={code.trim().length < 6 || confirmMutation.isPending}
+            onClick={() => confirmMutation.mutate()}
+          >
+            {confirmMutation.isPending ? "Checking..." : triggerLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Two-factor authentication on the profile: enrollment with a QR code,
+// recovery codes and turning it off again
+const TwoFactorCard = () => {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json();
+    },
+    onSuccess: (result: TwoFactorSetup) => {
+      setSetup(result);
+      setCode("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start the setup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (enteredCode: string) => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code: enteredCode });
+      return await res.json();
+    },
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      toast({
+        title: "Two-factor authentication is on",
+        description: "You'll be asked for a code each time you sign in",
+      });
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      refreshTwoFactor();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message || "Failed to turn on two-factor authentication",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (isLoading || !status) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (status.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="flex items-center text-sm text-gray-700">
+          <ShieldCheck className="h-5 w-5 mr-2 text-green-600" />
+          On since {format(new Date(status.enabledAt!), "d MMM yyyy")}. You have{" "}
+          {status.recoveryCodesLeft} recovery {status.recoveryCodesLeft === 1 ? "code" : "codes"} left.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <CodeConfirmDialog
+            triggerLabel="New Recovery Codes"
+            title="Get new recovery codes"
+            description="Your current recovery codes will stop working."
+            url="/api/user/two-factor/recovery-codes"
+            onConfirmed={(result) => {
+              setRecoveryCodes(result.recoveryCodes ?? null);
+              refreshTwoFactor();
+            }}
+          />
+          <CodeConfirmDialog
+            triggerLabel="Turn Off"
+            title="Turn off two-factor authentication"
+            description="Signing in will only need your password. Your recovery codes will stop working."
+            url="/api/user/two-factor/disable"
+            destructive
+            onConfirmed={() => {
+              toast({ title: "Two-factor authentication is off" });
+              refreshTwoFactor();
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          Scan this QR code with an authenticator app such as Google Authenticator, Authy or
+          1Password, then enter the 6-digit code it shows.
+        </p>
+        <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md border border-gray-200" />
+        <p className="text-sm text-gray-500">
+          Can't scan it? Enter this key instead:{" "}
+          <code className="font-mono text-gray-900 break-all">{setup.secret}</code>
+        </p>
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => enableMutation.mutate(value)}
+          disabled={enableMutation.isPending}
+        />
+        <div className="flex gap-2">
+          <Button
+            disabled={code.length !== 6 || enableMutation.isPending}
+            onClick={() => enableMutation.mutate(code)}
+          >
+            {enableMutation.isPending ? "Checking..." : "Turn On"}
+          </Button>
+          <Button variant="outline" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Protect your wallet and addresses with a code from your phone each time you sign in.
+      </p>
+      <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+        {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor Authentication"}
+      </Button>
+    </div>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,37 @@
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all six digits are in, e.g. to submit straight away
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six-digit code from an authenticator app
+const TwoFactorCodeInput = ({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) => (
+  <InputOTP
+    maxLength={6}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+  >
+    <InputOTPGroup>
+      <InputOTPSlot index={0} />
+      <InputOTPSlot index={1} />
+      <InputOTPSlot index={2} />
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      <InputOTPSlot index={3} />
+      <InputOTPSlot index={4} />
+      <InputOTPSlot index={5} />
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+export default TwoFactorCodeInput;
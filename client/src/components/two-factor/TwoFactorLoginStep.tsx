@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import TwoFactorCodeInput from "./TwoFactorCodeInput";
+
+interface TwoFactorLoginStepProps {
+  onSuccess: (user: User) => void;
+  // Back to the password form, e.g. after the step timed out
+  onCancel: () => void;
+}
+
+// Second sign-in step after a correct password
+const TwoFactorLoginStep = ({ onSuccess, onCancel }: TwoFactorLoginStepProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (enteredCode: string) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", { code: enteredCode.trim() });
+      return await res.json();
+    },
+    onSuccess,
+    onError: (error: Error) => {
+      setCode("");
+      const { status, message } = parseApiError(error);
+      toast({
+        title: status === 429 ? "Too many attempts" : "Login failed",
+        description: message || "That code didn't work",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+      ) : (
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => verifyMutation.mutate(value)}
+          disabled={verifyMutation.isPending}
+        />
+      )}
+
+      <Button
+        className="w-full"
+        disabled={code.trim().length < 6 || verifyMutation.isPending}
+        onClick={() => verifyMutation.mutate(code)}
+      >
+        {verifyMutation.isPending ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="font-medium text-primary hover:text-primary-600"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button type="button" className="text-gray-500 hover:text-gray-700" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { OwnVerificationRequest, User, VerificationDocumentType } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BadgeCheck, Clock } from "lucide-react";
+
+export const documentTypeLabels: Record<VerificationDocumentType, string> = {
+  aadhaar: "Aadhaar card",
+  pan: "PAN card",
+  passport: "Passport",
+  driving_licence: "Driving licence",
+  voter_id: "Voter ID",
+};
+
+interface VerificationCardProps {
+  user: User;
+}
+
+// Verification status on the profile, with the upload form when the user
+// isn't verified and has nothing waiting for review
+const VerificationCard = ({ user }: VerificationCardProps) => {
+  const { toast } = useToast();
+  const [documentType, setDocumentType] = useState<VerificationDocumentType>("aadhaar");
+  const [document, setDocument] = useState<File | null>(null);
+  const [selfie, setSelfie] = useState<File | null>(null);
+
+  const { data: request, isLoading } = useQuery<OwnVerificationRequest | null>({
+    queryKey: ["/api/verification"],
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("documentType", documentType);
+      formData.append("document", document!);
+      formData.append("selfie", selfie!);
+      const res = await apiRequest("POST", "/api/verification", formData);
+      return await res.json();
+    },
+    onSuccess: (submitted: OwnVerificationRequest) => {
+      toast({
+        title: "Documents submitted",
+        description: "We'll let you know once they have been reviewed",
+      });
+      setDocument(null);
+      setSelfie(null);
+      queryClient.setQueryData(["/api/verification"], submitted);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to submit documents",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user.verifiedAt || request?.status === "approved") {
+    return (
+      <p className="flex items-center text-sm text-gray-700">
+        <BadgeCheck className="h-5 w-5 mr-2 text-blue-600" />
+        Your identity is verified. Senders see a badge next to your name.
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (request?.status === "pending") {
+    return (
+      <p className="flex items-center text-sm text-gray-700">
+        <Clock className="h-5 w-5 mr-2 text-gray-400" />
+        Your {documentTypeLabels[request.documentType]} was submitted on{" "}
+        {format(new Date(request.createdAt), "d MMM yyyy")} and is waiting for review.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {request?.status === "rejected" && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+          Your last documents were not accepted: {request.reviewNote}
+        </div>
+      )}
+      <p className="text-sm text-gray-500">
+        Upload a photo of a government ID and a selfie. Only our support team sees them.
+        Some senders only accept verified carriers.
+      </p>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Document</Label>
+          <Select value={documentType} onValueChange={(value) => setDocumentType(value as VerificationDocumentType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(documentTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="verification-document">Photo of the document</Label>
+          <Input
+            id="verification-document"
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            onChange={(e) => setDocument(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="verification-selfie">Selfie</Label>
+          <Input
+            id="verification-selfie"
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            capture="user"
+            onChange={(e) => setSelfie(e.target.files?.[0] ?? null)}
+          />
+        </div>
+      </div>
+
+      <Button
+        disabled={!document || !selfie || submitMutation.isPending}
+        onClick={() => submitMutation.mutate()}
+      >
+        {submitMutation.isPending ? "Uploading..." : "Submit for Review"}
+      </Button>
+    </div>
+  );
+};
+
+export default VerificationCard;
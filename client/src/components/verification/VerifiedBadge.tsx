@@ -0,0 +1,24 @@
+import { BadgeCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface VerifiedBadgeProps {
+  verifiedAt?: Date | string | null;
+  className?: string;
+}
+
+// Shown next to the name of a user whose ID documents an admin has approved
+const VerifiedBadge = ({ verifiedAt, className }: VerifiedBadgeProps) => {
+  if (!verifiedAt) return null;
+
+  return (
+    <span
+      className={cn("inline-flex items-center text-xs font-medium text-blue-600", className)}
+      title={`ID verified on ${new Date(verifiedAt).toLocaleDateString()}`}
+    >
+      <BadgeCheck className="h-4 w-4 mr-0.5" />
+      Verified
+    </span>
+  );
+};
+
+export default VerifiedBadge;
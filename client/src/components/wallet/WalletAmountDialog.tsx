@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { payoutRequestSchema, walletTopUpSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDownToLine, Plus } from "lucide-react";
+
+const formatRupees = (amount: number) => `₹${(amount / 100).toLocaleString("en-IN")}`;
+
+const modes = {
+  topUp: {
+    schema: walletTopUpSchema,
+    url: "/api/wallet/top-ups",
+    title: "Add money",
+    description: "Money in your wallet pays for deliveries when you accept an offer.",
+    submitLabel: "Add Money",
+    successTitle: "Money added",
+  },
+  payout: {
+    schema: payoutRequestSchema,
+    url: "/api/wallet/payouts",
+    title: "Withdraw",
+    description: "Send money from your wallet to your bank account.",
+    submitLabel: "Withdraw",
+    successTitle: "Withdrawal sent",
+  },
+};
+
+interface WalletAmountDialogProps {
+  mode: keyof typeof modes;
+  // Withdrawals can't exceed this, in cents
+  balance?: number;
+}
+
+const WalletAmountDialog = ({ mode, balance }: WalletAmountDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const config = modes[mode];
+  // ₹500 for top-ups, everything available for withdrawals
+  const defaultAmount = mode === "topUp" ? 50000 : balance ?? 0;
+
+  const form = useForm<{ amount: number }>({
+    resolver: zodResolver(config.schema),
+    defaultValues: { amount: defaultAmount },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      form.reset({ amount: defaultAmount });
+    }
+    setOpen(isOpen);
+  };
+
+  const amountMutation = useMutation({
+    mutationFn: async (data: { amount: number }) => {
+      const res = await apiRequest("POST", config.url, data);
+      return await res.json();
+    },
+    onSuccess: (_, data) => {
+      toast({
+        title: config.successTitle,
+        description: formatRupees(data.amount),
+      });
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/payouts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/payouts"] });
+    },
+  });
+
+  const onSubmit = (data: { amount: number }) => {
+    if (balance !== undefined && data.amount > balance) {
+      form.setError("amount", { message: `You can withdraw up to ${formatRupees(balance)}` });
+      return;
+    }
+    amountMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {mode === "topUp" ? (
+          <Button className="flex items-center">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Money
+          </Button>
+        ) : (
+          <Button variant="outline" className="flex items-center" disabled={!balance}>
+            <ArrowDownToLine className="h-4 w-4 mr-2" />
+            Withdraw
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{config.title}</DialogTitle>
+          <DialogDescription>{config.description}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount (₹)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="100"
+                      step="1"
+                      {...field}
+                      value={field.value / 100}
+                      onChange={(e) => field.onChange(Math.round(parseFloat(e.target.value) * 100))}
+                    />
+                  </FormControl>
+                  {balance !== undefined && (
+                    <FormDescription>Available: {formatRupees(balance)}</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={amountMutation.isPending}>
+                {amountMutation.isPending ? "Processing..." : config.submitLabel}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WalletAmountDialog;
@@ -4,8 +4,8 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { registerUserSchema, TwoFactorChallenge, User } from "@shared/schema";
+import { getQueryFn, apiRequest, parseApiError, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
@@ -13,7 +13,8 @@ type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<User, Error, LoginData>;
+  // Resolves with a challenge when the account needs a 2FA code next
+  loginMutation: UseMutationResult<User | TwoFactorChallenge, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<User, Error, RegisterData>;
 };
@@ -24,13 +25,8 @@ const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
-// Register schema extends insertUserSchema
-const registerSchema = insertUserSchema.extend({
-  password: z.string().min(6, "Password must be at least 6 characters"),
-});
-
 type LoginData = z.infer<typeof loginSchema>;
-type RegisterData = z.infer<typeof registerSchema>;
+type RegisterData = z.infer<typeof registerUserSchema>;
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
@@ -50,7 +46,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: User) => {
+    onSuccess: (result: User | TwoFactorChallenge) => {
+      if ("twoFactorRequired" in result) return;
+      const user = result;
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Login successful",
@@ -58,9 +56,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
     },
     onError: (error: Error) => {
+      // 429s carry when to try again in the message
+      const { status, message } = parseApiError(error);
       toast({
-        title: "Login failed",
-        description: error.message || "Invalid username or password",
+        title: status === 429 ? "Too many attempts" : "Login failed",
+        description: message || "Invalid username or password",
         variant: "destructive",
       });
     },
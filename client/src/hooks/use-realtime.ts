@@ -0,0 +1,139 @@
+import { useEffect } from "react";
+import { Query } from "@tanstack/react-query";
+import { RealtimeEvent } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// The available deliveries list is keyed by its URL, query string included
+const isDeliveryListQuery = (query: Query) => {
+  const key = query.queryKey[0];
+  return typeof key === "string" && (key === "/api/deliveries" || key.startsWith("/api/deliveries?"));
+};
+
+// Trips and their match lists change whenever requested deliveries do
+const isTripQuery = (query: Query) => {
+  const key = query.queryKey[0];
+  return typeof key === "string" && key.startsWith("/api/trips");
+};
+
+// The mediators' dispute queue is keyed by its URL, status filter included
+const isDisputeQueueQuery = (query: Query) => {
+  const key = query.queryKey[0];
+  return typeof key === "string" && key.startsWith("/api/disputes");
+};
+
+// The admins' verification queue is keyed by its URL, status filter included
+const isVerificationQueueQuery = (query: Query) => {
+  const key = query.queryKey[0];
+  return typeof key === "string" && key.startsWith("/api/admin/verifications");
+};
+
+function handleEvent(event: RealtimeEvent) {
+  if (event.type === "notifications.updated") {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    return;
+  }
+  if (event.type === "verification.updated") {
+    queryClient.invalidateQueries({ queryKey: ["/api/verification"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    queryClient.invalidateQueries({ predicate: isVerificationQueueQuery });
+    return;
+  }
+  if (event.type === "user.updated") {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    return;
+  }
+  if (event.type === "wallet.updated") {
+    queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/wallet/payouts"] });
+    return;
+  }
+
+  const { deliveryId } = event;
+
+  switch (event.type) {
+    case "delivery.created":
+      queryClient.invalidateQueries({ predicate: isDeliveryListQuery });
+      queryClient.invalidateQueries({ predicate: isTripQuery });
+      break;
+    case "delivery.updated":
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/handoff-codes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/attachments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/sender"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/carrier"] });
+      queryClient.invalidateQueries({ predicate: isDeliveryListQuery });
+      queryClient.invalidateQueries({ predicate: isTripQuery });
+      break;
+    case "offers.updated":
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/offers`] });
+      break;
+    case "messages.updated":
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/messages`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/unread"] });
+      break;
+    case "disputes.updated":
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/disputes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}/attachments`] });
+      queryClient.invalidateQueries({ predicate: isDisputeQueueQuery });
+      break;
+  }
+}
+
+// Keep React Query caches fresh from server pushes while the user is signed in
+export function useRealtimeUpdates() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retries = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        // Anything could have changed while we were disconnected
+        if (retries > 0) {
+          queryClient.invalidateQueries();
+        }
+        retries = 0;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as RealtimeEvent);
+        } catch (error) {
+          console.error("Invalid realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+
+        // Exponential backoff with jitter so tabs don't reconnect in lockstep
+        const delay = Math.min(INITIAL_RETRY_DELAY_MS * 2 ** retries, MAX_RETRY_DELAY_MS);
+        retries++;
+        retryTimer = setTimeout(connect, delay / 2 + Math.random() * (delay / 2));
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [userId]);
+}
@@ -7,15 +7,33 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Split an apiRequest error ("429: {...}") into the status and the server's
+// message, for errors that are shown to the user as they are
+export function parseApiError(error: Error): { status: number | null; message: string } {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) {
+    return { status: null, message: error.message };
+  }
+
+  try {
+    const body = JSON.parse(match[2]);
+    return { status: parseInt(match[1]), message: body.message || match[2] };
+  } catch {
+    return { status: parseInt(match[1]), message: match[2] };
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // Multipart uploads let the browser set the Content-Type boundary itself
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { DisputeWithDelivery } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { disputeReasonLabels } from "@/components/disputes/OpenDisputeDialog";
+import { disputeOutcomeLabels } from "@/components/disputes/DisputePanel";
+
+const DisputeQueue = ({ status }: { status: "open" | "resolved" }) => {
+  const { data: disputes, isLoading, error } = useQuery<DisputeWithDelivery[]>({
+    queryKey: [`/api/disputes?status=${status}`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (error) {
+    return <div className="text-red-500">Error loading disputes: {error.message}</div>;
+  }
+
+  if (!disputes?.length) {
+    return (
+      <p className="py-10 text-center text-sm text-gray-500">
+        {status === "open" ? "No open disputes. Nothing needs a decision right now." : "No disputes resolved yet."}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {disputes.map((dispute) => (
+        <li key={dispute.id}>
+          <Link href={`/deliveries/${dispute.deliveryId}`} className="flex items-start justify-between gap-4 py-4 hover:bg-gray-50">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">
+                {disputeReasonLabels[dispute.reason] || dispute.reason}
+              </p>
+              <p className="text-sm text-gray-500">
+                #{dispute.delivery.id} · {dispute.delivery.pickupLocation} → {dispute.delivery.dropLocation}
+              </p>
+              <p className="mt-1 truncate text-sm text-gray-600">{dispute.description}</p>
+            </div>
+            <div className="shrink-0 text-right">
+              {dispute.outcome ? (
+                <Badge variant="secondary">{disputeOutcomeLabels[dispute.outcome] || dispute.outcome}</Badge>
+              ) : (
+                <Badge>Open</Badge>
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                {format(new Date(dispute.resolvedAt ?? dispute.createdAt), "d MMM yyyy, h:mm a")}
+              </p>
+            </div>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const AdminDisputesPage = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<"open" | "resolved">("open");
+
+  if (user && !user.isAdmin) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4 text-center">
+        <h2 className="text-xl font-semibold text-gray-900">Mediators only</h2>
+        <p className="mt-2 text-gray-500">You don't have access to the dispute queue.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+      <div className="pb-5 border-b border-gray-200 mb-6">
+        <h2 className="text-2xl font-bold leading-tight text-gray-900">Disputes</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Open disputes are listed oldest first. Decide each one from its delivery page.
+        </p>
+      </div>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as "open" | "resolved")}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="pt-2">
+          <DisputeQueue status={status} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminDisputesPage;
@@ -0,0 +1,431 @@
+import { FormEvent, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { AdminUser, DeliveryPage, ReviewWithUsers } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DeliveryStatusBadge from "@/components/deliveries/DeliveryStatusBadge";
+import VerifiedBadge from "@/components/verification/VerifiedBadge";
+import ReasonDialog, { invalidateAdminQueries } from "@/components/admin/ReasonDialog";
+import ForceStatusDialog from "@/components/admin/ForceStatusDialog";
+import RateCardForm from "@/components/admin/RateCardForm";
+import VerificationQueue from "@/components/admin/VerificationQueue";
+import { Scale, Search, Star } from "lucide-react";
+
+const formatRupees = (amount: number) => `₹${(amount / 100).toLocaleString("en-IN")}`;
+
+// Search box that only queries on submit, so each keystroke doesn't hit the server
+const SearchForm = ({ placeholder, onSearch }: { placeholder: string; onSearch: (q: string) => void }) => {
+  const [value, setValue] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSearch(value.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+      <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder={placeholder} />
+      <Button type="submit" variant="outline">
+        <Search className="h-4 w-4 mr-1" />
+        Search
+      </Button>
+    </form>
+  );
+};
+
+// Undo actions (unsuspend, unhide) and admin access don't need a reason
+const useAdminPatch = (invalidatePrefix: string) => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ url, body }: { url: string; body: Record<string, unknown>; successTitle: string }) => {
+      const res = await apiRequest("PATCH", url, body);
+      return await res.json();
+    },
+    onSuccess: (_, { successTitle }) => {
+      toast({ title: successTitle });
+      invalidateAdminQueries(invalidatePrefix);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+const encodeQuery = (q: string) => (q ? encodeURIComponent(q) : "");
+
+const UsersTab = () => {
+  const { user: currentUser } = useAuth();
+  const [q, setQ] = useState("");
+  const patchMutation = useAdminPatch("/api/admin/users");
+
+  const { data: users, isLoading, error } = useQuery<AdminUser[]>({
+    queryKey: [`/api/admin/users?q=${encodeQuery(q)}`],
+  });
+
+  return (
+    <>
+      <SearchForm placeholder="Username, name or email" onSearch={setQ} />
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : error ? (
+        <div className="text-red-500">Error loading users: {error.message}</div>
+      ) : !users?.length ? (
+        <p className="py-10 text-center text-sm text-gray-500">No users found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <p className="flex items-center gap-2 font-medium text-gray-900">
+                    {user.fullName}
+                    <VerifiedBadge verifiedAt={user.verifiedAt} />
+                  </p>
+                  <p className="text-xs text-gray-500">@{user.username}{user.email ? ` · ${user.email}` : ""}</p>
+                </TableCell>
+                <TableCell className="capitalize">
+                  {user.role}
+                  {user.isAdmin && <Badge variant="secondary" className="ml-2">Admin</Badge>}
+                </TableCell>
+                <TableCell>
+                  {user.suspendedAt ? (
+                    <>
+                      <Badge variant="destructive">Suspended</Badge>
+                      <p className="mt-1 text-xs text-gray-500">{user.suspensionReason}</p>
+                    </>
+                  ) : (
+                    <span className="text-sm text-gray-500">Active</span>
+                  )}
+                  {user.twoFactorEnabledAt && (
+                    <p className="mt-1 text-xs text-gray-500">2FA on</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {user.id !== currentUser?.id && (
+                    <div className="flex justify-end gap-2">
+                      {user.suspendedAt ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={patchMutation.isPending}
+                          onClick={() => patchMutation.mutate({
+                            url: `/api/admin/users/${user.id}/suspension`,
+                            body: { suspended: false },
+                            successTitle: `${user.fullName} can sign in again`,
+                          })}
+                        >
+                          Unsuspend
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={patchMutation.isPending}
+                            onClick={() => patchMutation.mutate({
+                              url: `/api/admin/users/${user.id}/admin`,
+                              body: { isAdmin: !user.isAdmin },
+                              successTitle: user.isAdmin ? "Admin access removed" : "Admin access granted",
+                            })}
+                          >
+                            {user.isAdmin ? "Remove Admin" : "Make Admin"}
+                          </Button>
+                          {!user.isAdmin && (
+                            <ReasonDialog
+                              triggerLabel="Suspend"
+                              title={`Suspend ${user.fullName}?`}
+                              description="They are signed out and can't sign in until the suspension is lifted."
+                              url={`/api/admin/users/${user.id}/suspension`}
+                              body={(reason) => ({ suspended: true, reason })}
+                              successTitle={`${user.fullName} was suspended`}
+                              invalidatePrefix="/api/admin/users"
+                            />
+                          )}
+                          {user.twoFactorEnabledAt && (
+                            <ReasonDialog
+                              triggerLabel="Reset 2FA"
+                              title={`Turn off two-factor authentication for ${user.fullName}?`}
+                              description="Only do this once you're sure the request comes from them. They can sign in with just their password and are told by email, with your reason."
+                              url={`/api/admin/users/${user.id}/two-factor/reset`}
+                              method="POST"
+                              body={(reason) => ({ reason })}
+                              successTitle="Two-factor authentication turned off"
+                              invalidatePrefix="/api/admin/users"
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+};
+
+const DeliveriesTab = () => {
+  const [q, setQ] = useState("");
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const patchMutation = useAdminPatch("/api/admin/deliveries");
+
+  const params = new URLSearchParams();
+  if (q) params.set("q", q);
+  if (hiddenOnly) params.set("hidden", "true");
+
+  const { data, isLoading, error } = useQuery<DeliveryPage>({
+    queryKey: [`/api/admin/deliveries?${params.toString()}`],
+  });
+
+  return (
+    <>
+      <SearchForm placeholder="Description or location" onSearch={setQ} />
+      <div className="mb-4">
+        <Button size="sm" variant={hiddenOnly ? "default" : "outline"} onClick={() => setHiddenOnly(!hiddenOnly)}>
+          Hidden only
+        </Button>
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : error ? (
+        <div className="text-red-500">Error loading deliveries: {error.message}</div>
+      ) : !data?.items.length ? (
+        <p className="py-10 text-center text-sm text-gray-500">No deliveries found.</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Delivery</TableHead>
+                <TableHead>Sender</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>
+                    <Link href={`/deliveries/${delivery.id}`} className="font-medium text-primary hover:underline">
+                      #{delivery.id} · {delivery.pickupLocation} → {delivery.dropLocation}
+                    </Link>
+                    <p className="text-xs text-gray-500">{formatRupees(delivery.deliveryFee)}</p>
+                    {delivery.hiddenAt && (
+                      <p className="mt-1 text-xs text-red-600">Hidden: {delivery.hiddenReason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{delivery.sender.fullName}</TableCell>
+                  <TableCell>
+                    <DeliveryStatusBadge status={delivery.status} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <ForceStatusDialog delivery={delivery} />
+                      {delivery.hiddenAt ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={patchMutation.isPending}
+                          onClick={() => patchMutation.mutate({
+                            url: `/api/admin/deliveries/${delivery.id}/visibility`,
+                            body: { hidden: false },
+                            successTitle: "Delivery is visible again",
+                          })}
+                        >
+                          Unhide
+                        </Button>
+                      ) : (
+                        <ReasonDialog
+                          triggerLabel="Hide"
+                          title={`Hide delivery #${delivery.id}?`}
+                          description="It disappears from search and carriers can't make offers on it. The sender is told why."
+                          url={`/api/admin/deliveries/${delivery.id}/visibility`}
+                          body={(reason) => ({ hidden: true, reason })}
+                          successTitle="Delivery hidden"
+                          invalidatePrefix="/api/admin/deliveries"
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {data.total > data.items.length && (
+            <p className="mt-3 text-xs text-gray-500">
+              Showing {data.items.length} of {data.total}. Narrow the search to find others.
+            </p>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+const ReviewsTab = () => {
+  const [q, setQ] = useState("");
+  const patchMutation = useAdminPatch("/api/admin/reviews");
+
+  const { data: reviews, isLoading, error } = useQuery<ReviewWithUsers[]>({
+    queryKey: [`/api/admin/reviews?q=${encodeQuery(q)}`],
+  });
+
+  return (
+    <>
+      <SearchForm placeholder="Comment or name" onSearch={setQ} />
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : error ? (
+        <div className="text-red-500">Error loading reviews: {error.message}</div>
+      ) : !reviews?.length ? (
+        <p className="py-10 text-center text-sm text-gray-500">No reviews found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Review</TableHead>
+              <TableHead>Between</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reviews.map((review) => (
+              <TableRow key={review.id}>
+                <TableCell className="max-w-sm">
+                  <p className="flex items-center text-sm font-medium text-gray-900">
+                    <Star className="h-4 w-4 mr-1 text-yellow-400" />
+                    {review.rating}
+                  </p>
+                  <p className="text-sm text-gray-600">{review.comment || "No comment"}</p>
+                  {review.hiddenAt && (
+                    <p className="mt-1 text-xs text-red-600">Hidden: {review.hiddenReason}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {review.reviewer?.fullName ?? "Unknown"} → {review.reviewee?.fullName ?? "Unknown"}
+                </TableCell>
+                <TableCell className="text-sm text-gray-500">
+                  {format(new Date(review.createdAt), "d MMM yyyy")}
+                </TableCell>
+                <TableCell className="text-right">
+                  {review.hiddenAt ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={patchMutation.isPending}
+                      onClick={() => patchMutation.mutate({
+                        url: `/api/admin/reviews/${review.id}/visibility`,
+                        body: { hidden: false },
+                        successTitle: "Review is visible again",
+                      })}
+                    >
+                      Unhide
+                    </Button>
+                  ) : (
+                    <ReasonDialog
+                      triggerLabel="Hide"
+                      title="Hide this review?"
+                      description="It no longer appears on the profile or counts towards the rating."
+                      url={`/api/admin/reviews/${review.id}/visibility`}
+                      body={(reason) => ({ hidden: true, reason })}
+                      successTitle="Review hidden"
+                      invalidatePrefix="/api/admin/reviews"
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+};
+
+const AdminPage = () => {
+  const { user } = useAuth();
+
+  if (user && !user.isAdmin) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4 text-center">
+        <h2 className="text-xl font-semibold text-gray-900">Admins only</h2>
+        <p className="mt-2 text-gray-500">You don't have access to the admin console.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+      <div className="pb-5 border-b border-gray-200 mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold leading-tight text-gray-900">Admin</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Every action is recorded and the affected users are told the reason.
+          </p>
+        </div>
+        <Link href="/admin/disputes">
+          <Button variant="outline">
+            <Scale className="h-4 w-4 mr-2" />
+            Disputes
+          </Button>
+        </Link>
+      </div>
+
+      <Tabs defaultValue="users">
+        <TabsList className="mb-4">
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="deliveries">Deliveries</TabsTrigger>
+          <TabsTrigger value="reviews">Reviews</TabsTrigger>
+          <TabsTrigger value="verifications">Verifications</TabsTrigger>
+          <TabsTrigger value="pricing">Pricing</TabsTrigger>
+        </TabsList>
+
+        <Card>
+          <CardContent className="pt-6">
+            <TabsContent value="users" className="mt-0"><UsersTab /></TabsContent>
+            <TabsContent value="deliveries" className="mt-0"><DeliveriesTab /></TabsContent>
+            <TabsContent value="reviews" className="mt-0"><ReviewsTab /></TabsContent>
+            <TabsContent value="verifications" className="mt-0"><VerificationQueue /></TabsContent>
+            <TabsContent value="pricing" className="mt-0"><RateCardForm /></TabsContent>
+          </CardContent>
+        </Card>
+      </Tabs>
+    </div>
+  );
+};
+
+export default AdminPage;
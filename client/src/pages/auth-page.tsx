@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { 
   Tabs, TabsContent, TabsList, TabsTrigger 
 } from "@/components/ui/tabs";
@@ -33,6 +33,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { TruckIcon, Package } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import TwoFactorLoginStep from "@/components/two-factor/TwoFactorLoginStep";
+import { User } from "@shared/schema";
 
 // Login form schema
 const loginSchema = z.object({
@@ -46,6 +48,7 @@ const registerSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   fullName: z.string().min(1, "Full name is required"),
+  email: z.string().trim().email("Enter a valid email address"),
   role: z.enum(["sender", "carrier", "both"]),
   // Allow either true or false for terms during development
   terms: z.boolean(),
@@ -60,6 +63,8 @@ const AuthPage = () => {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<string>("login");
   const [isPending, setIsPending] = useState(false);
+  // Set once the password is accepted for an account with 2FA
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
 
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -76,11 +81,21 @@ const AuthPage = () => {
       username: "",
       password: "",
       fullName: "",
+      email: "",
       role: "both",
       terms: false,
     },
   });
 
+  const onLoginSuccess = (user: User) => {
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${user.fullName}!`,
+    });
+    
+    setLocation("/dashboard");
+  };
+
   const onLoginSubmit = async (data: LoginFormValues) => {
     try {
       setIsPending(true);
@@ -93,18 +108,22 @@ const AuthPage = () => {
       });
       
       if (!response.ok) {
-        const errorMessage = await response.text();
-        throw new Error(errorMessage || "Login failed");
+        const { message } = await response.json().catch(() => ({ message: "" }));
+        toast({
+          title: response.status === 429 ? "Too many attempts" : "Login failed",
+          description: message || "Invalid username or password",
+          variant: "destructive",
+        });
+        return;
       }
       
-      const user = await response.json();
-      
-      toast({
-        title: "Login successful",
-        description: `Welcome back, ${user.fullName}!`,
-      });
+      const result = await response.json();
+      if (result.twoFactorRequired) {
+        setTwoFactorRequired(true);
+        return;
+      }
       
-      setLocation("/dashboard");
+      onLoginSuccess(result);
     } catch (error) {
       console.error("Login error:", error);
       toast({
@@ -137,7 +156,7 @@ const AuthPage = () => {
       
       toast({
         title: "Registration successful",
-        description: `Welcome to CarryConnect, ${user.fullName}!`,
+        description: `Welcome to CarryConnect, ${user.fullName}! Check ${user.email} for a link to verify your address.`,
       });
       
       setLocation("/dashboard");
@@ -181,73 +200,83 @@ const AuthPage = () => {
                 </TabsList>
                 
                 <TabsContent value="login">
-                  <Form {...loginForm}>
-                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-6">
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input placeholder="username" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="••••••••" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                  {twoFactorRequired ? (
+                    <TwoFactorLoginStep
+                      onSuccess={onLoginSuccess}
+                      onCancel={() => {
+                        setTwoFactorRequired(false);
+                        loginForm.resetField("password");
+                      }}
+                    />
+                  ) : (
+                    <Form {...loginForm}>
+                      <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-6">
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input placeholder="username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <div className="flex items-center justify-between">
                         <FormField
                           control={loginForm.control}
-                          name="rememberMe"
+                          name="password"
                           render={({ field }) => (
-                            <div className="flex items-center space-x-2">
-                              <Checkbox
-                                id="remember-me"
-                                checked={field.value}
-                                onCheckedChange={field.onChange}
-                              />
-                              <label
-                                htmlFor="remember-me"
-                                className="text-sm font-medium text-gray-700"
-                              >
-                                Remember me
-                              </label>
-                            </div>
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="••••••••" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
                           )}
                         />
 
-                        <div className="text-sm">
-                          <a href="#" className="font-medium text-primary hover:text-primary-600">
-                            Forgot your password?
-                          </a>
+                        <div className="flex items-center justify-between">
+                          <FormField
+                            control={loginForm.control}
+                            name="rememberMe"
+                            render={({ field }) => (
+                              <div className="flex items-center space-x-2">
+                                <Checkbox
+                                  id="remember-me"
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                                <label
+                                  htmlFor="remember-me"
+                                  className="text-sm font-medium text-gray-700"
+                                >
+                                  Remember me
+                                </label>
+                              </div>
+                            )}
+                          />
+
+                          <div className="text-sm">
+                            <Link href="/reset-password" className="font-medium text-primary hover:text-primary-600">
+                              Forgot your password?
+                            </Link>
+                          </div>
                         </div>
-                      </div>
 
-                      <Button 
-                        type="submit" 
-                        className="w-full" 
-                        disabled={isPending}
-                      >
-                        {isPending ? "Signing in..." : "Sign in"}
-                      </Button>
-                    </form>
-                  </Form>
+                        <Button 
+                          type="submit" 
+                          className="w-full" 
+                          disabled={isPending}
+                        >
+                          {isPending ? "Signing in..." : "Sign in"}
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
                 </TabsContent>
                 
                 <TabsContent value="register">
@@ -267,6 +296,20 @@ const AuthPage = () => {
                         )}
                       />
 
+                      <FormField
+                        control={registerForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input type="email" placeholder="you@example.com" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={registerForm.control}
                         name="username"
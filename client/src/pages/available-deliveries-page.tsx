@@ -1,8 +1,8 @@
 import { useState } from "react";
 import DeliveryList from "@/components/deliveries/DeliveryList";
 import DeliveryFilters from "@/components/deliveries/DeliveryFilters";
-import { useQuery } from "@tanstack/react-query";
-import { Delivery, User } from "@shared/schema";
+import { DistanceOrigin } from "@/components/deliveries/DeliveryCard";
+import { findPlace } from "@shared/gazetteer";
 
 const AvailableDeliveriesPage = () => {
   const [filters, setFilters] = useState<Record<string, string>>({});
@@ -14,9 +14,9 @@ const AvailableDeliveriesPage = () => {
     // Add status=requested filter by default
     queryParams.append("status", "requested");
     
-    // Add any additional filters
+    // Add the search filters, already in API units
     Object.entries(filters).forEach(([key, value]) => {
-      if (value) queryParams.append(key, value);
+      queryParams.append(key, value);
     });
     
     return `/api/deliveries?${queryParams.toString()}`;
@@ -25,6 +25,15 @@ const AvailableDeliveriesPage = () => {
   // Custom query key that changes when filters change
   const queryKey = buildQueryString();
   
+  // The centre of a radius search, to show how far each pickup is
+  const getOrigin = (): DistanceOrigin | undefined => {
+    if (filters.nearLat && filters.nearLng) {
+      return { lat: Number(filters.nearLat), lng: Number(filters.nearLng), label: "you" };
+    }
+    const place = filters.near ? findPlace(filters.near) : undefined;
+    return place && { lat: place.lat, lng: place.lng, label: place.name };
+  };
+  
   const handleFilterChange = (newFilters: Record<string, string>) => {
     setFilters(newFilters);
   };
@@ -39,16 +48,12 @@ const AvailableDeliveriesPage = () => {
       {/* Filters */}
       <DeliveryFilters onFilterChange={handleFilterChange} />
 
-      {/* Delivery listings */}
+      {/* Delivery listings with sorting and pagination */}
       <DeliveryList 
         queryKey={queryKey} 
+        origin={getOrigin()}
         emptyMessage="No deliveries match your filters. Try adjusting your search criteria."
       />
-
-      {/* Pagination - To be implemented in future versions */}
-      {/* <div className="mt-6 flex justify-center">
-        <Pagination />
-      </div> */}
     </div>
   );
 };
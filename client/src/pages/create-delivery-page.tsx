@@ -1,8 +1,10 @@
 import CreateDeliveryForm from "@/components/deliveries/CreateDeliveryForm";
 import { useEffect } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { User } from "@shared/schema";
+import { canCreateDelivery, hasRole } from "@shared/policy";
+import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 
 const CreateDeliveryPage = () => {
@@ -36,7 +38,29 @@ const CreateDeliveryPage = () => {
         <p className="mt-1 text-sm text-gray-500">Provide details about your package and delivery requirements</p>
       </div>
 
-      <CreateDeliveryForm />
+      {user && canCreateDelivery(user).ok ? (
+        <CreateDeliveryForm />
+      ) : user && !hasRole(user, "sender") ? (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-5 text-sm text-amber-800">
+          <p>
+            Your account is set up for carrying packages. Add the sender role on your profile to
+            create delivery requests.
+          </p>
+          <Button asChild variant="outline" size="sm" className="mt-4">
+            <Link href="/profile">Go to Profile</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-5 text-sm text-amber-800">
+          <p>
+            Verify your email address before creating a delivery, so carriers and support can reach
+            you about your package. Use the link we emailed you, or check your address on your profile.
+          </p>
+          <Button asChild variant="outline" size="sm" className="mt-4">
+            <Link href="/profile">Go to Profile</Link>
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
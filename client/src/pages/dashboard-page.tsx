@@ -4,8 +4,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Plus, Search } from "lucide-react";
 import DeliveryList from "@/components/deliveries/DeliveryList";
+import TripList from "@/components/trips/TripList";
+import TripFormDialog from "@/components/trips/TripFormDialog";
 import { useQuery } from "@tanstack/react-query";
 import { User } from "@shared/schema";
+import { hasRole } from "@shared/policy";
 
 const DashboardPage = () => {
   // Query user data from the backend
@@ -13,11 +16,14 @@ const DashboardPage = () => {
     queryKey: ["/api/user"],
   });
   
-  const [activeTab, setActiveTab] = useState("carrier");
+  const [selectedTab, setSelectedTab] = useState<string>();
 
   // These settings work whether user is logged in or not
-  const isSender = user?.role === "sender" || user?.role === "both" || !user;
-  const isCarrier = user?.role === "carrier" || user?.role === "both" || !user;
+  const isSender = !user || hasRole(user, "sender");
+  const isCarrier = !user || hasRole(user, "carrier");
+  
+  // Senders only have their own requests to show
+  const activeTab = selectedTab ?? (isCarrier ? "carrier" : "sender");
 
   return (
     <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
@@ -47,15 +53,16 @@ const DashboardPage = () => {
         </div>
       </div>
 
-      {user?.role === "both" && (
+      {user && isCarrier && (
         <Tabs 
-          defaultValue={activeTab} 
-          onValueChange={setActiveTab}
+          value={activeTab} 
+          onValueChange={setSelectedTab}
           className="mb-6"
         >
           <TabsList>
-            <TabsTrigger value="sender">As Sender</TabsTrigger>
+            {isSender && <TabsTrigger value="sender">As Sender</TabsTrigger>}
             <TabsTrigger value="carrier">As Carrier</TabsTrigger>
+            <TabsTrigger value="trips">My Trips</TabsTrigger>
           </TabsList>
         </Tabs>
       )}
@@ -79,6 +86,16 @@ const DashboardPage = () => {
           />
         </div>
       )}
+
+      {(activeTab === "trips" && isCarrier) && (
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">My Trips</h3>
+            <TripFormDialog />
+          </div>
+          <TripList />
+        </div>
+      )}
     </div>
   );
 };
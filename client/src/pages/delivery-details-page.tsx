@@ -1,9 +1,10 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Delivery, User, insertReviewSchema } from "@shared/schema";
+import { Delivery, User, OfferWithCarrier, insertReviewSchema, disputableStatuses } from "@shared/schema";
+import { canMakeOffer, hasRole } from "@shared/policy";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -22,14 +23,26 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { 
   Textarea 
 } from "@/components/ui/textarea";
 import DeliveryStatusBadge from "@/components/deliveries/DeliveryStatusBadge";
+import CancelDeliveryDialog, { cancellationReasonLabels } from "@/components/deliveries/CancelDeliveryDialog";
+import HandoffCodeDialog from "@/components/deliveries/HandoffCodeDialog";
+import HandoffCodesCard from "@/components/deliveries/HandoffCodesCard";
+import DeliveryTimeline from "@/components/deliveries/DeliveryTimeline";
 import { Separator } from "@/components/ui/separator";
 import ReviewList from "@/components/reviews/ReviewList";
-import { Loader2, MapPin, Package, Clock, DollarSign, Map } from "lucide-react";
+import OfferList from "@/components/offers/OfferList";
+import AttachmentGallery from "@/components/attachments/AttachmentGallery";
+import MessageThread from "@/components/messages/MessageThread";
+import MakeOfferDialog from "@/components/offers/MakeOfferDialog";
+import OpenDisputeDialog from "@/components/disputes/OpenDisputeDialog";
+import ForceStatusDialog from "@/components/admin/ForceStatusDialog";
+import DisputePanel from "@/components/disputes/DisputePanel";
+import VerifiedBadge from "@/components/verification/VerifiedBadge";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { Loader2, MapPin, Package, Clock, DollarSign, Map, XCircle } from "lucide-react";
 import { 
   Select,
   SelectContent,
@@ -69,6 +82,17 @@ const DeliveryDetailsPage = () => {
   const isSender = user?.id === delivery?.senderId;
   const isCarrier = user?.id === delivery?.carrierId;
   const isInvolved = isSender || isCarrier;
+  // Mediators see everything a dispute needs, but can't act as a party
+  const canSeeDispute = isInvolved || !!user?.isAdmin;
+
+  // Fetch offers (the server only returns the user's own offers unless they are the sender)
+  const { data: offers } = useQuery<OfferWithCarrier[]>({
+    queryKey: [`/api/deliveries/${deliveryId}/offers`],
+    enabled: !!user && !isNaN(deliveryId),
+  });
+  const hasOpenOffer = offers?.some(
+    (offer) => offer.carrierId === user?.id && (offer.status === "pending" || offer.status === "countered")
+  );
 
   // Review form
   const reviewForm = useForm<ReviewFormValues>({
@@ -82,30 +106,6 @@ const DeliveryDetailsPage = () => {
   // Determine who to review
   const revieweeId = isSender ? delivery?.carrierId : delivery?.senderId;
 
-  // Update delivery status mutation
-  const updateStatusMutation = useMutation({
-    mutationFn: async (status: string) => {
-      const res = await apiRequest("PATCH", `/api/deliveries/${deliveryId}/status`, { status });
-      return await res.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Status updated",
-        description: "Delivery status has been updated successfully",
-      });
-      queryClient.invalidateQueries({ queryKey: [`/api/deliveries/${deliveryId}`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/sender"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user/deliveries/carrier"] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to update delivery status",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Create review mutation
   const createReviewMutation = useMutation({
     mutationFn: async (data: ReviewFormValues) => {
@@ -183,7 +183,7 @@ const DeliveryDetailsPage = () => {
   }
 
   // Get next status based on current status
-  const getNextStatus = () => {
+  const getNextStatus = (): "picked" | "delivered" | null => {
     switch (delivery.status) {
       case "accepted":
         return "picked";
@@ -195,7 +195,15 @@ const DeliveryDetailsPage = () => {
   };
 
   const nextStatus = getNextStatus();
-  const nextStatusLabel = nextStatus ? `Mark as ${nextStatus.charAt(0).toUpperCase() + nextStatus.slice(1)}` : null;
+
+  // Senders can cancel and carriers can release only before pickup
+  const isCancelled = delivery.status === "cancelled";
+  const canCancel = isSender && (delivery.status === "requested" || delivery.status === "accepted");
+  const canRelease = isCarrier && delivery.status === "accepted";
+  const canDispute = isInvolved && disputableStatuses.some((status) => status === delivery.status);
+  // Offers are for carriers; unverified ones are sent to their profile instead
+  const canOffer = !!user && canMakeOffer(user, delivery).ok;
+  const needsVerification = !!user && !canOffer && !isSender && hasRole(user, "carrier") && delivery.verifiedCarriersOnly;
 
   return (
     <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
@@ -204,11 +212,18 @@ const DeliveryDetailsPage = () => {
           <h2 className="text-2xl font-bold leading-tight text-gray-900">Delivery Details</h2>
           <p className="mt-1 text-sm text-gray-500">Tracking ID: #{delivery.id}</p>
         </div>
-        <div className="mt-4 md:mt-0">
+        <div className="mt-4 md:mt-0 flex items-center gap-3">
+          {user?.isAdmin && <ForceStatusDialog delivery={delivery} />}
           <DeliveryStatusBadge status={delivery.status} />
         </div>
       </div>
 
+      {delivery.hiddenAt && (
+        <div className="mb-6 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          Hidden from search by support: {delivery.hiddenReason}
+        </div>
+      )}
+
       <div className="bg-white shadow overflow-hidden sm:rounded-lg">
         <div className="px-4 py-5 sm:p-6">
           <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
@@ -235,6 +250,12 @@ const DeliveryDetailsPage = () => {
                   <dt className="font-medium text-gray-500">Delivery Fee</dt>
                   <dd className="mt-1 text-gray-900">{formatCurrency(delivery.deliveryFee)}</dd>
                 </div>
+                {delivery.verifiedCarriersOnly && (
+                  <div className="mt-3">
+                    <dt className="font-medium text-gray-500">Carriers</dt>
+                    <dd className="mt-1 text-gray-900">Only carriers with a verified ID can make offers</dd>
+                  </div>
+                )}
                 {delivery.description && (
                   <div className="mt-3">
                     <dt className="font-medium text-gray-500">Description</dt>
@@ -259,11 +280,12 @@ const DeliveryDetailsPage = () => {
                   <div className="mt-3 flex items-center">
                     <dt className="sr-only">Sender name</dt>
                     <dd className="flex items-center">
-                      <Avatar className="h-8 w-8 mr-2">
-                        <AvatarFallback>{delivery.sender.fullName.charAt(0)}</AvatarFallback>
-                      </Avatar>
+                      <UserAvatar user={delivery.sender} className="h-8 w-8 mr-2" />
                       <div>
-                        <p className="text-gray-900 font-medium">{delivery.sender.fullName}</p>
+                        <p className="text-gray-900 font-medium flex items-center gap-2">
+                          {delivery.sender.fullName}
+                          <VerifiedBadge verifiedAt={delivery.sender.verifiedAt} />
+                        </p>
                         {delivery.sender.rating && (
                           <div className="flex items-center">
                             {[...Array(5)].map((_, i) => (
@@ -290,11 +312,12 @@ const DeliveryDetailsPage = () => {
                   <div className="mt-3 flex items-center">
                     <dt className="sr-only">Carrier name</dt>
                     <dd className="flex items-center">
-                      <Avatar className="h-8 w-8 mr-2">
-                        <AvatarFallback>{delivery.carrier.fullName.charAt(0)}</AvatarFallback>
-                      </Avatar>
+                      <UserAvatar user={delivery.carrier} className="h-8 w-8 mr-2" />
                       <div>
-                        <p className="text-gray-900 font-medium">{delivery.carrier.fullName}</p>
+                        <p className="text-gray-900 font-medium flex items-center gap-2">
+                          {delivery.carrier.fullName}
+                          <VerifiedBadge verifiedAt={delivery.carrier.verifiedAt} />
+                        </p>
                         {delivery.carrier.rating && (
                           <div className="flex items-center">
                             {[...Array(5)].map((_, i) => (
@@ -331,150 +354,112 @@ const DeliveryDetailsPage = () => {
                 )}
               </dl>
               
-              {/* Actions for carrier */}
-              {isCarrier && nextStatus && (
-                <div className="mt-6">
-                  <Button 
-                    onClick={() => updateStatusMutation.mutate(nextStatus)}
-                    disabled={updateStatusMutation.isPending}
-                  >
-                    {updateStatusMutation.isPending ? "Updating..." : nextStatusLabel}
-                  </Button>
+              {/* Actions for carrier and sender */}
+              {((isCarrier && nextStatus) || canCancel || canRelease || canDispute) && (
+                <div className="mt-6 flex flex-wrap gap-3">
+                  {isCarrier && nextStatus && (
+                    <HandoffCodeDialog deliveryId={delivery.id} status={nextStatus} />
+                  )}
+                  {canRelease && <CancelDeliveryDialog deliveryId={delivery.id} mode="release" />}
+                  {canCancel && <CancelDeliveryDialog deliveryId={delivery.id} mode="cancel" />}
+                  {canDispute && <OpenDisputeDialog deliveryId={delivery.id} />}
                 </div>
               )}
             </div>
           </div>
 
+          {/* Offers section - the sender compares offers, other users manage their own */}
+          {user && !isCarrier && (delivery.status === "requested" || !!offers?.length) &&
+            (isSender || canOffer || needsVerification || !!offers?.length) && (
+            <div className="mt-8">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  {isSender ? "Offers from Carriers" : "Your Offer"}
+                </h3>
+                {delivery.status === "requested" && !hasOpenOffer && (canOffer || needsVerification) && (
+                  needsVerification ? (
+                    <Link href="/profile">
+                      <Button variant="secondary">Get Verified to Offer</Button>
+                    </Link>
+                  ) : (
+                    <MakeOfferDialog deliveryId={delivery.id} defaultPrice={delivery.deliveryFee} />
+                  )
+                )}
+              </div>
+              <div className="mt-4">
+                <OfferList
+                  deliveryId={delivery.id}
+                  viewer={isSender ? "sender" : "carrier"}
+                  canRespond={delivery.status === "requested"}
+                  emptyMessage={isSender
+                    ? "No carrier has made an offer yet"
+                    : "You haven't made an offer on this delivery yet"}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Handoff codes - the sender hands them to the carrier and the recipient */}
+          {isSender && ["accepted", "picked", "delivered"].includes(delivery.status) && (
+            <div className="mt-8">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Handoff Codes</h3>
+              <div className="mt-4">
+                <HandoffCodesCard deliveryId={delivery.id} />
+              </div>
+            </div>
+          )}
+
           <div className="mt-8">
             <h3 className="text-lg leading-6 font-medium text-gray-900">Delivery Status</h3>
-            <div className="mt-6 relative">
-              {/* Status Timeline */}
-              <div className="mt-6 sm:mt-5 sm:grid sm:grid-cols-4 sm:gap-4">
-                <div className="flex flex-col items-center">
-                  <div className={`flex items-center justify-center h-12 w-12 rounded-full ${
-                    delivery.status === "requested" || delivery.status === "accepted" || delivery.status === "picked" || delivery.status === "delivered"
-                      ? "bg-green-100 text-green-600"
-                      : "bg-gray-100 text-gray-400"
-                  }`}>
-                    <svg 
-                      xmlns="http://www.w3.org/2000/svg" 
-                      className="h-6 w-6" 
-                      fill="none" 
-                      viewBox="0 0 24 24" 
-                      stroke="currentColor"
-                    >
-                      {delivery.status === "requested" || delivery.status === "accepted" || delivery.status === "picked" || delivery.status === "delivered"
-                        ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        : <circle cx="12" cy="12" r="10" strokeWidth={2} />
-                      }
-                    </svg>
-                  </div>
-                  <div className="text-center mt-3">
-                    <h4 className="text-sm font-medium text-gray-900">Requested</h4>
-                    <p className="text-xs text-gray-500">
-                      {new Date(delivery.createdAt).toLocaleDateString()}
-                    </p>
-                  </div>
-                </div>
-                
-                <div className="flex flex-col items-center">
-                  <div className={`flex items-center justify-center h-12 w-12 rounded-full ${
-                    delivery.status === "accepted" || delivery.status === "picked" || delivery.status === "delivered"
-                      ? "bg-green-100 text-green-600"
-                      : "bg-gray-100 text-gray-400"
-                  }`}>
-                    <svg 
-                      xmlns="http://www.w3.org/2000/svg" 
-                      className="h-6 w-6" 
-                      fill="none" 
-                      viewBox="0 0 24 24" 
-                      stroke="currentColor"
-                    >
-                      {delivery.status === "accepted" || delivery.status === "picked" || delivery.status === "delivered"
-                        ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        : <circle cx="12" cy="12" r="10" strokeWidth={2} />
-                      }
-                    </svg>
-                  </div>
-                  <div className="text-center mt-3">
-                    <h4 className={`text-sm font-medium ${
-                      delivery.status === "accepted" || delivery.status === "picked" || delivery.status === "delivered"
-                        ? "text-gray-900"
-                        : "text-gray-500"
-                    }`}>Accepted</h4>
-                    <p className="text-xs text-gray-500">
-                      {delivery.status === "requested" ? "Pending" : "Completed"}
-                    </p>
-                  </div>
-                </div>
-                
-                <div className="flex flex-col items-center">
-                  <div className={`flex items-center justify-center h-12 w-12 rounded-full ${
-                    delivery.status === "picked" || delivery.status === "delivered"
-                      ? "bg-green-100 text-green-600"
-                      : "bg-gray-100 text-gray-400"
-                  }`}>
-                    <svg 
-                      xmlns="http://www.w3.org/2000/svg" 
-                      className="h-6 w-6" 
-                      fill="none" 
-                      viewBox="0 0 24 24" 
-                      stroke="currentColor"
-                    >
-                      {delivery.status === "picked" || delivery.status === "delivered"
-                        ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        : <circle cx="12" cy="12" r="10" strokeWidth={2} />
-                      }
-                    </svg>
-                  </div>
-                  <div className="text-center mt-3">
-                    <h4 className={`text-sm font-medium ${
-                      delivery.status === "picked" || delivery.status === "delivered"
-                        ? "text-gray-900"
-                        : "text-gray-500"
-                    }`}>Picked Up</h4>
-                    <p className="text-xs text-gray-500">
-                      {delivery.status === "requested" || delivery.status === "accepted" 
-                        ? "Pending" 
-                        : "Completed"}
-                    </p>
-                  </div>
-                </div>
-                
-                <div className="flex flex-col items-center">
-                  <div className={`flex items-center justify-center h-12 w-12 rounded-full ${
-                    delivery.status === "delivered"
-                      ? "bg-green-100 text-green-600"
-                      : "bg-gray-100 text-gray-400"
-                  }`}>
-                    <svg 
-                      xmlns="http://www.w3.org/2000/svg" 
-                      className="h-6 w-6" 
-                      fill="none" 
-                      viewBox="0 0 24 24" 
-                      stroke="currentColor"
-                    >
-                      {delivery.status === "delivered"
-                        ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        : <circle cx="12" cy="12" r="10" strokeWidth={2} />
-                      }
-                    </svg>
-                  </div>
-                  <div className="text-center mt-3">
-                    <h4 className={`text-sm font-medium ${
-                      delivery.status === "delivered"
-                        ? "text-gray-900"
-                        : "text-gray-500"
-                    }`}>Delivered</h4>
-                    <p className="text-xs text-gray-500">
-                      {delivery.status === "delivered" ? "Completed" : "Pending"}
-                    </p>
-                  </div>
+            {isCancelled && (
+              <div className="mt-4 rounded-md bg-red-50 p-4 text-sm">
+                <div className="flex items-center font-medium text-red-800">
+                  <XCircle className="h-5 w-5 mr-2" />
+                  Cancelled by the {delivery.cancelledBy === delivery.senderId ? "sender" : "carrier"}
+                  {delivery.cancelledAt && ` on ${new Date(delivery.cancelledAt).toLocaleDateString()}`}
                 </div>
+                {delivery.cancellationReason && (
+                  <p className="mt-2 text-red-700">
+                    Reason: {cancellationReasonLabels[delivery.cancellationReason] || delivery.cancellationReason}
+                  </p>
+                )}
+                {delivery.cancellationNote && (
+                  <p className="mt-1 text-red-700">{delivery.cancellationNote}</p>
+                )}
               </div>
-            </div>
+            )}
+            <DeliveryTimeline delivery={delivery} />
           </div>
 
+          {/* Dispute - the parties and the mediators only */}
+          {canSeeDispute && delivery.carrierId && <DisputePanel delivery={delivery} />}
+
+          {/* Messages - private thread between the sender and the assigned carrier */}
+          {isInvolved && delivery.carrierId && (
+            <div className="mt-8">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Messages</h3>
+              <div className="mt-4">
+                <MessageThread
+                  deliveryId={delivery.id}
+                  otherPartyName={isSender
+                    ? delivery.carrier?.fullName || "the carrier"
+                    : delivery.sender?.fullName || "the sender"}
+                  isClosed={delivery.status === "delivered" || delivery.status === "cancelled"}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Photos - only the sender, the assigned carrier and mediators can see them */}
+          {canSeeDispute && (
+            <div className="mt-8">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Photos</h3>
+              <div className="mt-4">
+                <AttachmentGallery deliveryId={delivery.id} />
+              </div>
+            </div>
+          )}
+
           {/* Map preview section */}
           <div className="mt-8">
             <div className="border border-gray-200 rounded-md">
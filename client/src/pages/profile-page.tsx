@@ -1,15 +1,26 @@
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import ReviewList from "@/components/reviews/ReviewList";
 import DeliveryList from "@/components/deliveries/DeliveryList";
+import EmailPreferencesForm from "@/components/notifications/EmailPreferencesForm";
+import VerificationCard from "@/components/verification/VerificationCard";
+import VerifiedBadge from "@/components/verification/VerifiedBadge";
+import TwoFactorCard from "@/components/two-factor/TwoFactorCard";
+import RoleForm from "@/components/profile/RoleForm";
+import ProfileForm from "@/components/profile/ProfileForm";
+import ChangePasswordForm from "@/components/profile/ChangePasswordForm";
+import AvatarDialog from "@/components/profile/AvatarDialog";
+import UserAvatar from "@/components/profile/UserAvatar";
+import ActiveSessions from "@/components/security/ActiveSessions";
+import LoginHistory from "@/components/security/LoginHistory";
 import { Loader2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { User } from "@shared/schema";
+import { hasRole } from "@shared/policy";
 
 const ProfilePage = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -63,8 +74,8 @@ const ProfilePage = () => {
   };
   
   // Determine if user is a sender, carrier, or both
-  const isSender = user.role === "sender" || user.role === "both";
-  const isCarrier = user.role === "carrier" || user.role === "both";
+  const isSender = hasRole(user, "sender");
+  const isCarrier = hasRole(user, "carrier");
 
   return (
     <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
@@ -76,11 +87,15 @@ const ProfilePage = () => {
       <Card>
         <CardContent className="pt-6">
           <div className="flex items-center">
-            <Avatar className="h-16 w-16">
-              <AvatarFallback>{user.fullName.charAt(0)}</AvatarFallback>
-            </Avatar>
+            <div className="flex flex-col items-center gap-2">
+              <UserAvatar user={user} className="h-16 w-16" />
+              <AvatarDialog user={user} onSaved={setUser} />
+            </div>
             <div className="ml-4">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">{user.fullName}</h3>
+              <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center gap-2">
+                {user.fullName}
+                <VerifiedBadge verifiedAt={user.verifiedAt} />
+              </h3>
               <p className="text-sm text-gray-500">
                 Username: {user.username}
               </p>
@@ -103,6 +118,9 @@ const ProfilePage = () => {
                   </span>
                 </div>
               )}
+              {user.bio && (
+                <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">{user.bio}</p>
+              )}
             </div>
           </div>
           
@@ -115,8 +133,66 @@ const ProfilePage = () => {
                     <dt className="font-medium text-gray-500">User Role</dt>
                     <dd className="mt-1 text-gray-900">{formatRole(user.role)}</dd>
                   </div>
+                  <div className="mt-3">
+                    <dt className="font-medium text-gray-500">Preferred Cities</dt>
+                    <dd className="mt-1 text-gray-900">
+                      {user.preferredCities.length ? user.preferredCities.join(", ") : "None yet"}
+                    </dd>
+                  </div>
                 </dl>
+                <div className="mt-4">
+                  <RoleForm user={user} onSaved={setUser} />
+                </div>
               </div>
+              <div className="sm:col-span-3">
+                <h4 className="text-lg font-medium text-gray-900">Edit Profile</h4>
+                <div className="mt-4">
+                  <ProfileForm user={user} onSaved={setUser} />
+                </div>
+              </div>
+            </div>
+          </div>
+          
+          <div className="mt-8 border-t border-gray-200 pt-8">
+            <h4 className="text-lg font-medium text-gray-900">Identity Verification</h4>
+            <div className="mt-4">
+              <VerificationCard user={user} />
+            </div>
+          </div>
+          
+          <div className="mt-8 border-t border-gray-200 pt-8">
+            <h4 className="text-lg font-medium text-gray-900">Two-Factor Authentication</h4>
+            <div className="mt-4">
+              <TwoFactorCard />
+            </div>
+          </div>
+          
+          <div className="mt-8 border-t border-gray-200 pt-8">
+            <h4 className="text-lg font-medium text-gray-900">Security</h4>
+            <p className="mt-1 text-sm text-gray-500">
+              Your password, where you're signed in, and recent sign-in attempts
+            </p>
+            <h5 className="mt-6 text-sm font-medium text-gray-900">Change Password</h5>
+            <div className="mt-2">
+              <ChangePasswordForm />
+            </div>
+            <h5 className="mt-6 text-sm font-medium text-gray-900">Active Sessions</h5>
+            <div className="mt-2">
+              <ActiveSessions />
+            </div>
+            <h5 className="mt-6 text-sm font-medium text-gray-900">Login History</h5>
+            <div className="mt-2">
+              <LoginHistory />
+            </div>
+          </div>
+          
+          <div className="mt-8 border-t border-gray-200 pt-8">
+            <h4 className="text-lg font-medium text-gray-900">Email Notifications</h4>
+            <p className="mt-1 text-sm text-gray-500">
+              Choose which delivery updates are also sent to your inbox
+            </p>
+            <div className="mt-4">
+              <EmailPreferencesForm user={user} onSaved={setUser} />
             </div>
           </div>
         </CardContent>
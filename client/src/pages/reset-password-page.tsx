@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { passwordResetConfirmSchema, passwordResetRequestSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Package } from "lucide-react";
+
+type RequestFormValues = z.infer<typeof passwordResetRequestSchema>;
+
+// The token comes from the link, so only the passwords are filled in
+const newPasswordSchema = passwordResetConfirmSchema
+  .omit({ token: true })
+  .extend({ confirmPassword: z.string() })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type NewPasswordFormValues = z.infer<typeof newPasswordSchema>;
+
+const RequestResetForm = () => {
+  const { toast } = useToast();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<RequestFormValues>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: RequestFormValues) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", data);
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      setSentMessage(result.message);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send the reset link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (sentMessage) {
+    return (
+      <div className="space-y-4 text-sm text-gray-700">
+        <p>{sentMessage}.</p>
+        <p>The link expires in an hour. Check your spam folder if it doesn't arrive.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-6">
+        <p className="text-sm text-gray-600">
+          Enter the email address on your account and we'll send you a link to choose a new password.
+        </p>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="you@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+          {requestMutation.isPending ? "Sending..." : "Send reset link"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const NewPasswordForm = ({ token }: { token: string }) => {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ password }: NewPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Password changed",
+        description: result.message,
+      });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset your password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => confirmMutation.mutate(data))} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <p className="text-sm text-gray-500">
+          You'll be signed out on every device and can sign in again with the new password.
+        </p>
+        <Button type="submit" className="w-full" disabled={confirmMutation.isPending}>
+          {confirmMutation.isPending ? "Saving..." : "Change password"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const ResetPasswordPage = () => {
+  // Emailed links carry the token in the query string
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col py-12">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <Package className="h-12 w-12 text-primary" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          {token ? "Choose a new password" : "Reset your password"}
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md px-4">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+
+          <div className="mt-6 text-center text-sm">
+            <Link href="/auth" className="font-medium text-primary hover:text-primary-600">
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
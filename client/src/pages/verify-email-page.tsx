@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+const VerifyEmailPage = () => {
+  // Emailed links carry the token in the query string
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email-verification/confirm", { token });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      verifyMutation.mutate();
+    }
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col py-12">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md px-4">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10 text-center">
+          {failed ? (
+            <>
+              <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+              <h2 className="mt-4 text-2xl font-bold text-gray-900">Verification failed</h2>
+              <p className="mt-2 text-sm text-gray-600">
+                This link is invalid or has expired. Sign in and use the banner at the top of the
+                page to get a new one.
+              </p>
+              <Button asChild className="mt-6">
+                <Link href="/dashboard">Go to Dashboard</Link>
+              </Button>
+            </>
+          ) : verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+              <h2 className="mt-4 text-2xl font-bold text-gray-900">Email verified</h2>
+              <p className="mt-2 text-sm text-gray-600">{verifyMutation.data.message}. You can now create deliveries.</p>
+              <Button asChild className="mt-6">
+                <Link href="/create-delivery">Create a Delivery</Link>
+              </Button>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto" />
+              <h2 className="mt-4 text-2xl font-bold text-gray-900">Verifying your email...</h2>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
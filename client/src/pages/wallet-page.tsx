@@ -0,0 +1,177 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { LedgerTransactionKind, Payout, WalletSummary } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import WalletAmountDialog from "@/components/wallet/WalletAmountDialog";
+import { Wallet } from "lucide-react";
+
+const formatRupees = (amount: number) => `₹${(amount / 100).toLocaleString("en-IN")}`;
+
+const formatDateTime = (date: Date | string) => format(new Date(date), "d MMM yyyy, h:mm a");
+
+const kindLabels: Record<LedgerTransactionKind, string> = {
+  top_up: "Top-up",
+  escrow_hold: "Held in escrow",
+  escrow_release: "Delivery payment",
+  escrow_refund: "Refund",
+  payout: "Withdrawal",
+  payout_reversal: "Withdrawal returned",
+  dispute_hold: "Held for a dispute",
+  dispute_settlement: "Dispute settlement",
+};
+
+const payoutStatusVariants: Record<Payout["status"], "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  paid: "default",
+  failed: "destructive",
+};
+
+const TransactionHistory = ({ summary }: { summary: WalletSummary }) => {
+  if (summary.transactions.length === 0) {
+    return (
+      <p className="py-10 text-center text-sm text-gray-500">
+        No transactions yet. Money you add, pay for deliveries or earn shows up here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {summary.transactions.map((transaction) => (
+        <li key={transaction.id} className="flex items-center justify-between py-3">
+          <div>
+            <p className="text-sm font-medium text-gray-900">{kindLabels[transaction.kind]}</p>
+            <p className="text-sm text-gray-500">
+              {transaction.deliveryId ? (
+                <Link href={`/deliveries/${transaction.deliveryId}`} className="hover:underline">
+                  {transaction.description}
+                </Link>
+              ) : (
+                transaction.description
+              )}
+            </p>
+            <p className="text-xs text-gray-400">{formatDateTime(transaction.createdAt)}</p>
+          </div>
+          <span className={`text-sm font-semibold ${transaction.amount > 0 ? "text-green-600" : "text-gray-900"}`}>
+            {transaction.amount > 0 ? "+" : "−"}{formatRupees(Math.abs(transaction.amount))}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const PayoutHistory = () => {
+  const { data: payouts, isLoading } = useQuery<Payout[]>({
+    queryKey: ["/api/wallet/payouts"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!payouts?.length) {
+    return (
+      <p className="py-10 text-center text-sm text-gray-500">
+        You haven't withdrawn any money yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {payouts.map((payout) => (
+        <li key={payout.id} className="flex items-center justify-between py-3">
+          <div>
+            <p className="text-sm font-medium text-gray-900">{formatRupees(payout.amount)}</p>
+            <p className="text-xs text-gray-400">{formatDateTime(payout.createdAt)}</p>
+            {payout.failureReason && (
+              <p className="text-sm text-red-600">{payout.failureReason}</p>
+            )}
+          </div>
+          <Badge variant={payoutStatusVariants[payout.status]} className="capitalize">
+            {payout.status}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const WalletPage = () => {
+  const { data: summary, isLoading } = useQuery<WalletSummary>({
+    queryKey: ["/api/wallet"],
+  });
+
+  return (
+    <div className="max-w-3xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+      <div className="pb-5 border-b border-gray-200 mb-6">
+        <h2 className="text-2xl font-bold leading-tight text-gray-900">Wallet</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Delivery fees are held in escrow when an offer is accepted and paid to the carrier on delivery
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center">
+              <Wallet className="h-10 w-10 text-primary mr-4" />
+              <div>
+                <p className="text-sm text-gray-500">Available balance</p>
+                {isLoading || !summary ? (
+                  <Skeleton className="h-8 w-32" />
+                ) : (
+                  <p className="text-3xl font-bold text-gray-900">{formatRupees(summary.balance)}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <WalletAmountDialog mode="topUp" />
+              <WalletAmountDialog mode="payout" balance={summary?.balance} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="transactions">
+        <TabsList className="mb-4">
+          <TabsTrigger value="transactions">Transactions</TabsTrigger>
+          <TabsTrigger value="payouts">Withdrawals</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="transactions">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Recent transactions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading || !summary ? (
+                <Skeleton className="h-48 w-full" />
+              ) : (
+                <TransactionHistory summary={summary} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="payouts">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Withdrawals</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PayoutHistory />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default WalletPage;
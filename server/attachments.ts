@@ -0,0 +1,150 @@
+import type { Request, Response, NextFunction } from "express";
+import { randomBytes } from "crypto";
+import multer from "multer";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { fileStorage } from "./file-storage";
+import { Attachment, AttachmentKind, User } from "@shared/schema";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_FILES = 5;
+const ALLOWED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const ALLOWED_FORMATS = ["jpeg", "png", "webp"];
+
+const MAX_DIMENSION = 2000;
+const THUMBNAIL_SIZE = 320;
+const AVATAR_SIZE = 256;
+
+export class InvalidImageError extends Error {}
+
+const imageMulter = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES },
+  fileFilter: (_req, file, cb) => {
+    if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      return cb(new InvalidImageError("Only JPEG, PNG and WebP images are allowed"));
+    }
+    cb(null, true);
+  },
+});
+
+type UploadHandler = (req: Request, res: Response, callback: (err: unknown) => void) => void;
+
+// Run a multer handler, turning upload errors into 400 responses
+const withUploadErrors = (upload: UploadHandler, tooManyMessage: string) => (req: Request, res: Response, next: NextFunction) => {
+  upload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const message = err.code === "LIMIT_FILE_SIZE"
+        ? `Images must be smaller than ${MAX_FILE_SIZE / 1024 / 1024} MB`
+        : err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_UNEXPECTED_FILE"
+          ? tooManyMessage
+          : err.message;
+      return res.status(400).json({ message });
+    }
+    if (err instanceof InvalidImageError) {
+      return res.status(400).json({ message: err.message });
+    }
+    if (err) return next(err);
+    next();
+  });
+};
+
+// Parse multipart "photos" fields
+export const imageUpload = withUploadErrors(
+  imageMulter.array("photos", MAX_FILES),
+  `Upload at most ${MAX_FILES} images at a time`,
+);
+
+// Parse the "document" and "selfie" fields of an identity verification
+export const identityUpload = withUploadErrors(
+  imageMulter.fields([
+    { name: "document", maxCount: 1 },
+    { name: "selfie", maxCount: 1 },
+  ]),
+  "Upload one photo of your ID document and one selfie",
+);
+
+// Parse the "avatar" field of a profile picture upload
+export const avatarUpload = withUploadErrors(
+  imageMulter.single("avatar"),
+  "Upload one image as your profile picture",
+);
+
+// Check that an upload really is an image and re-encode it as WebP.
+// Re-encoding drops EXIF metadata such as the GPS location of the photo.
+export async function normaliseImage(file: Express.Multer.File) {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(file.buffer).metadata());
+  } catch {
+    throw new InvalidImageError(`${file.originalname} is not a valid image`);
+  }
+
+  // The declared MIME type is only a hint; check what the bytes really are
+  if (!format || !ALLOWED_FORMATS.includes(format)) {
+    throw new InvalidImageError(`${file.originalname} is not a JPEG, PNG or WebP image`);
+  }
+
+  return await sharp(file.buffer)
+    .rotate()
+    .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+}
+
+// Validate, normalise and store an uploaded image with its thumbnail
+export async function saveDeliveryPhoto(
+  file: Express.Multer.File,
+  deliveryId: number,
+  uploaderId: number,
+  kind: AttachmentKind,
+): Promise<Attachment> {
+  const { data: image, info } = await normaliseImage(file);
+
+  const thumbnail = await sharp(image)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    .webp({ quality: 70 })
+    .toBuffer();
+
+  const name = randomBytes(16).toString("hex");
+  const storageKey = `deliveries/${deliveryId}/${name}.webp`;
+  const thumbnailKey = `deliveries/${deliveryId}/${name}.thumb.webp`;
+
+  await fileStorage.save(storageKey, image);
+  await fileStorage.save(thumbnailKey, thumbnail);
+
+  return await storage.createAttachment({
+    deliveryId,
+    uploaderId,
+    kind,
+    storageKey,
+    thumbnailKey,
+    contentType: "image/webp",
+    size: image.length,
+    width: info.width,
+    height: info.height,
+  });
+}
+
+// One avatar per user, replaced in place; avatarUpdatedAt tells browsers
+// when to fetch it again
+export const avatarKey = (userId: number) => `avatars/${userId}.webp`;
+
+// Store a profile picture. The browser sends it cropped to a square; it is
+// resized here so every avatar has the same size whatever was uploaded.
+export async function saveAvatar(file: Express.Multer.File, userId: number): Promise<User | undefined> {
+  const { data } = await normaliseImage(file);
+
+  const avatar = await sharp(data)
+    .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover" })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  await fileStorage.save(avatarKey(userId), avatar);
+  return await storage.updateUser(userId, { avatarUpdatedAt: new Date() });
+}
+
+export async function removeAvatar(userId: number): Promise<User | undefined> {
+  await fileStorage.delete(avatarKey(userId));
+  return await storage.updateUser(userId, { avatarUpdatedAt: null });
+}
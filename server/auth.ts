@@ -1,34 +1,68 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import { queueVerificationEmail } from "./email-verification";
+import { checkTwoFactorCode } from "./two-factor";
+import { rateLimit, sendTooManyRequests } from "./rate-limit";
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+import { getSessionUser, recordLoginEvent, touchSession, startSession } from "./sessions";
+import { disconnectUser } from "./realtime";
+import { User as SelectUser, registerUserSchema, twoFactorChallengeSchema } from "@shared/schema";
+import { ZodError } from "zod";
 
 declare global {
   namespace Express {
-    interface User extends User {}
+    interface User extends SelectUser {}
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // When the user signed in, compared with the last password change
+    authenticatedAt: number;
+    // Shown in the list of active sessions on the profile
+    userAgent: string;
+    ip: string;
+    lastSeenAt: number;
+    // Password checked, waiting for the second step of a 2FA sign-in
+    pendingTwoFactor: { userId: number; expiresAt: number; attempts: number };
+  }
+}
+
+// Time and tries allowed for the code after a correct password
+const TWO_FACTOR_STEP_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Sign-ups per IP, enough for a shared office or family connection
+const registerLimit = rateLimit({
+  name: "register",
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  message: "Too many accounts were created from your network.",
+});
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Returns the session middleware so the WebSocket server can authenticate
+// upgrade requests with the same cookie
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "carryconnect-secret-key",
     resave: false,
@@ -40,17 +74,22 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const sessionParser = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(touchSession);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
-          return done(null, false);
+          return done(null, false, { message: "Invalid username or password" });
+        } else if (user.suspendedAt) {
+          return done(null, false, { message: "This account has been suspended" });
         } else {
           return done(null, user);
         }
@@ -61,49 +100,160 @@ export function setupAuth(app: Express) {
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
-  passport.deserializeUser(async (id: number, done) => {
+  passport.deserializeUser(async (req: Request, id: number, done: (err: unknown, user?: SelectUser | false) => void) => {
     try {
-      const user = await storage.getUser(id);
-      done(null, user);
+      done(null, (await getSessionUser(req.session, id)) ?? false);
     } catch (err) {
       done(err);
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", registerLimit, async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      // Staff accounts are never created through sign-up; the schema
+      // leaves out isAdmin
+      const signUp = registerUserSchema.parse(req.body);
+      const existingUser = await storage.getUserByUsername(signUp.username);
       if (existingUser) {
         return res.status(400).send("Username already exists");
       }
 
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...signUp,
+        password: await hashPassword(signUp.password),
       });
+      queueVerificationEmail(user);
+      await recordLoginEvent(req, user.id, "success");
 
       req.login(user, (err) => {
         if (err) return next(err);
+        startSession(req);
         // Remove password from response
         const { password, ...userWithoutPassword } = user;
         res.status(201).json(userWithoutPassword);
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
       next(error);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    if (req.user) {
-      // Remove password from response
-      const { password, ...userWithoutPassword } = req.user;
-      res.status(200).json(userWithoutPassword);
+  app.post("/api/login", async (req, res, next) => {
+    const ip = req.ip || "unknown";
+    const username = typeof req.body.username === "string" ? req.body.username : "";
+    
+    try {
+      const check = await checkLoginAllowed(ip, username);
+      if (!check.ok) {
+        const existingUser = username && await storage.getUserByUsername(username);
+        if (existingUser) {
+          await recordLoginEvent(req, existingUser.id, "blocked");
+        }
+        return sendTooManyRequests(res, check.retryAfterMs, check.message);
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
+    passport.authenticate("local", async (err: Error | null, user: SelectUser | false, info?: { message: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        try {
+          await recordLoginFailure(ip, username);
+          // Only wrong passwords for real accounts go in their history
+          const existingUser = username && await storage.getUserByUsername(username);
+          if (existingUser) {
+            await recordLoginEvent(req, existingUser.id, "wrong_password");
+          }
+        } catch (error) {
+          return next(error);
+        }
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+      
+      // The session only becomes signed in once the code is checked, so
+      // earlier failures keep counting until then
+      if (user.twoFactorEnabledAt) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_STEP_TTL_MS,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      try {
+        await recordLoginSuccess(username);
+        await recordLoginEvent(req, user.id, "success");
+      } catch (error) {
+        return next(error);
+      }
+      
+      req.login(user, (err) => {
+        if (err) return next(err);
+        startSession(req);
+        // Remove password from response
+        const { password, ...userWithoutPassword } = user;
+        res.status(200).json(userWithoutPassword);
+      });
+    })(req, res, next);
+  });
+
+  // Second sign-in step for users with 2FA: a code from the authenticator
+  // app or a recovery code
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now() || pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in timed out. Enter your password again." });
+      }
+      
+      const { code } = twoFactorChallengeSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.suspendedAt || !user.twoFactorEnabledAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in timed out. Enter your password again." });
+      }
+      
+      // Wrong codes count towards the same lockout as wrong passwords
+      const ip = req.ip || "unknown";
+      const check = await checkLoginAllowed(ip, user.username);
+      if (!check.ok) {
+        return sendTooManyRequests(res, check.retryAfterMs, check.message);
+      }
+      
+      if (!(await checkTwoFactorCode(user, code))) {
+        pending.attempts += 1;
+        await recordLoginFailure(ip, user.username);
+        await recordLoginEvent(req, user.id, "wrong_code");
+        return res.status(401).json({ message: "That code didn't work. Try the current one from your app." });
+      }
+      
+      await recordLoginSuccess(user.username);
+      await recordLoginEvent(req, user.id, "success");
+      req.login(user, (err) => {
+        if (err) return next(err);
+        // Logging in starts a new session, which drops the pending step
+        startSession(req);
+        const { password, ...userWithoutPassword } = user;
+        res.status(200).json(userWithoutPassword);
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      next(error);
     }
   });
 
   app.post("/api/logout", (req, res, next) => {
+    const userId = req.user?.id;
     req.logout((err) => {
       if (err) return next(err);
+      if (userId) disconnectUser(userId);
       res.sendStatus(200);
     });
   });
@@ -114,4 +264,6 @@ export function setupAuth(app: Express) {
     const { password, ...userWithoutPassword } = req.user;
     res.json(userWithoutPassword);
   });
+
+  return sessionParser;
 }
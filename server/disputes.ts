@@ -0,0 +1,160 @@
+import { differenceInCalendarDays } from "date-fns";
+import { storage } from "./storage";
+import { publishToAll, publishToUsers } from "./realtime";
+import { notify, describeDelivery } from "./notifications";
+import { escrowAccount } from "./ledger";
+import { holdDisputedPayment, publishWalletUpdate, settleDisputedEscrow } from "./wallet";
+import {
+  Delivery,
+  Dispute,
+  DisputeOutcome,
+  OpenDisputeInput,
+  ResolveDisputeInput,
+  User,
+  disputableStatuses,
+} from "@shared/schema";
+import { isDeliveryParty } from "@shared/policy";
+
+// How long after delivery a package can still be disputed
+const DISPUTE_WINDOW_DAYS = 14;
+
+export type DisputeCheck =
+  | { ok: true }
+  | { ok: false; status: number; message: string };
+
+// Everyone who follows a dispute: both parties and the mediators
+async function getDisputeParticipantIds(delivery: Delivery) {
+  const admins = await storage.getAdminUsers();
+  const ids = [delivery.senderId, delivery.carrierId, ...admins.map(admin => admin.id)];
+  return ids.filter((id, index): id is number => id !== null && ids.indexOf(id) === index);
+}
+
+export async function publishDisputeUpdate(delivery: Delivery) {
+  publishToUsers(await getDisputeParticipantIds(delivery), { type: "disputes.updated", deliveryId: delivery.id });
+}
+
+export async function canOpenDispute(user: User, delivery: Delivery): Promise<DisputeCheck> {
+  if (!isDeliveryParty(user, delivery)) {
+    return { ok: false, status: 403, message: "Only the sender or the carrier can open a dispute" };
+  }
+
+  if (delivery.status === "disputed") {
+    return { ok: false, status: 409, message: "This delivery is already disputed" };
+  }
+
+  if (!disputableStatuses.some(status => status === delivery.status)) {
+    return { ok: false, status: 400, message: "Only a delivery with an assigned carrier can be disputed" };
+  }
+
+  // One dispute per delivery; the mediator's decision is final
+  const earlierDisputes = await storage.getDeliveryDisputes(delivery.id);
+  if (earlierDisputes.length > 0) {
+    return { ok: false, status: 409, message: "A dispute on this delivery has already been resolved" };
+  }
+
+  if (delivery.status === "delivered") {
+    const events = await storage.getDeliveryEvents(delivery.id);
+    const deliveredEvent = events.filter(event => event.toStatus === "delivered").pop();
+    if (deliveredEvent && differenceInCalendarDays(new Date(), new Date(deliveredEvent.createdAt)) > DISPUTE_WINDOW_DAYS) {
+      return {
+        ok: false,
+        status: 400,
+        message: `Deliveries can only be disputed within ${DISPUTE_WINDOW_DAYS} days of delivery`,
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+// Freeze the delivery, hold back any payment the carrier already received
+// and let the other party and the mediators know
+export async function openDispute(user: User, delivery: Delivery, input: OpenDisputeInput) {
+  const dispute = await storage.openDispute({
+    deliveryId: delivery.id,
+    openedBy: user.id,
+    reason: input.reason,
+    description: input.description,
+  }, holdDisputedPayment);
+  if (!dispute) return undefined;
+
+  if (delivery.carrierId) {
+    publishWalletUpdate([delivery.carrierId]);
+  }
+
+  publishToAll({ type: "delivery.updated", deliveryId: delivery.id });
+  await publishDisputeUpdate(delivery);
+
+  const participantIds = await getDisputeParticipantIds(delivery);
+  await Promise.all(participantIds
+    .filter(id => id !== user.id)
+    .map(userId => notify({
+      userId,
+      type: 'dispute_opened',
+      deliveryId: delivery.id,
+      title: "Dispute opened",
+      body: `${user.fullName} opened a dispute on ${describeDelivery(delivery)}. Payments are on hold until it is resolved.`,
+    })));
+
+  return dispute;
+}
+
+// The carrier's share of the held money for each outcome
+function carrierShare(outcome: DisputeOutcome, held: number, requested?: number) {
+  switch (outcome) {
+    case "refund_sender":
+      return 0;
+    case "pay_carrier":
+      return held;
+    case "split":
+      return requested ?? 0;
+  }
+}
+
+export type DisputeResolutionResult =
+  | { ok: true; dispute: Dispute }
+  | { ok: false; status: number; message: string };
+
+// Close the dispute, move the delivery out of the disputed state and pay out
+// the held money. A delivery that arrived, or whose carrier gets paid, ends
+// delivered; otherwise it ends cancelled.
+export async function resolveDispute(
+  admin: User,
+  dispute: Dispute,
+  delivery: Delivery,
+  input: ResolveDisputeInput,
+): Promise<DisputeResolutionResult> {
+  const held = await storage.getLedgerBalance(escrowAccount(delivery.id));
+  const carrierAmount = carrierShare(input.outcome, held, input.carrierAmount);
+  if (carrierAmount > held) {
+    return { ok: false, status: 400, message: "The carrier's share can't be more than the amount held" };
+  }
+
+  const deliveryStatus = dispute.previousStatus === "delivered" || carrierAmount > 0 ? "delivered" : "cancelled";
+  const resolvedDispute = await storage.resolveDispute(dispute.id, {
+    outcome: input.outcome,
+    senderAmount: held - carrierAmount,
+    carrierAmount,
+    note: input.note,
+    resolvedBy: admin.id,
+  }, deliveryStatus, settleDisputedEscrow(carrierAmount));
+  if (!resolvedDispute) {
+    return { ok: false, status: 409, message: "This dispute has already been resolved" };
+  }
+
+  publishWalletUpdate(delivery.carrierId ? [delivery.senderId, delivery.carrierId] : [delivery.senderId]);
+
+  publishToAll({ type: "delivery.updated", deliveryId: delivery.id });
+  await publishDisputeUpdate(delivery);
+
+  const partyIds = delivery.carrierId ? [delivery.senderId, delivery.carrierId] : [delivery.senderId];
+  await Promise.all(partyIds.map(userId => notify({
+    userId,
+    type: 'dispute_resolved',
+    deliveryId: delivery.id,
+    title: "Dispute resolved",
+    body: `The dispute on ${describeDelivery(delivery)} was resolved: ${input.note}`,
+  })));
+
+  return { ok: true, dispute: resolvedDispute };
+}
@@ -0,0 +1,165 @@
+import { Delivery, DeliveryRecipient, HandoffCode, Notification, NotificationType, User } from "@shared/schema";
+import type { MailMessage } from "./mailer";
+
+const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+// Call to action for each notification type that is sent by email
+const actionLabels: Partial<Record<NotificationType, string>> = {
+  offer_received: "Review offers",
+  offer_countered: "View counter-offer",
+  offer_accepted: "View delivery",
+  delivery_picked: "Track delivery",
+  delivery_delivered: "Leave a review",
+  delivery_cancelled: "View delivery",
+  delivery_released: "View delivery",
+  review_received: "View delivery",
+  trip_match: "View delivery",
+  dispute_opened: "View dispute",
+  dispute_resolved: "View outcome",
+  verification_reviewed: "View profile",
+  account_locked: "Reset password",
+};
+
+// Page for notifications that aren't about a delivery; the dashboard otherwise
+const pagePaths: Partial<Record<NotificationType, string>> = {
+  verification_reviewed: "/profile",
+  account_locked: "/reset-password",
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const preferencesFooter = `You can choose which emails you receive on your <a href="${APP_URL}/profile" style="color:#2563eb;">profile page</a>.`;
+
+// Account emails are always sent, so they say why instead
+const accountFooter = "You are receiving this email because of a request made on your CarryConnect account.";
+
+// Recipients may not have an account, so tell them who gave us their address
+const recipientFooter = "You are receiving this email because a CarryConnect sender named you as the recipient of a package.";
+
+function renderLayout(
+  title: string,
+  paragraphs: string[],
+  action?: { label: string; url: string },
+  footer = preferencesFooter,
+) {
+  const body = paragraphs
+    .map((paragraph) => `<p style="margin:0 0 16px;color:#374151;">${escapeHtml(paragraph)}</p>`)
+    .join("");
+  const button = action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;display:inline-block;">${escapeHtml(action.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;font-size:15px;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="margin:0 0 24px;font-size:20px;color:#111827;">${escapeHtml(title)}</h1>
+      ${body}
+      ${button}
+      <p style="margin:32px 0 0;font-size:12px;color:#6b7280;">
+        ${footer}
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+export function hasEmailTemplate(type: NotificationType) {
+  return type in actionLabels;
+}
+
+// Render the email version of an in-app notification
+export function renderNotificationEmail(notification: Notification, recipient: User): Omit<MailMessage, "to"> {
+  const label = actionLabels[notification.type] || "Open CarryConnect";
+  const url = notification.deliveryId
+    ? `${APP_URL}/deliveries/${notification.deliveryId}`
+    : `${APP_URL}${pagePaths[notification.type] || "/dashboard"}`;
+  const paragraphs = [`Hi ${recipient.fullName},`, notification.body];
+
+  return {
+    subject: `${notification.title} - CarryConnect`,
+    text: [
+      ...paragraphs,
+      `${label}: ${url}`,
+      `You can choose which emails you receive at ${APP_URL}/profile`,
+    ].join("\n\n"),
+    html: renderLayout(notification.title, paragraphs, { label, url }),
+  };
+}
+
+// Render the email with a password reset link
+export function renderPasswordResetEmail(recipient: User, token: string, validForMinutes: number): Omit<MailMessage, "to"> {
+  const url = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  const paragraphs = [
+    `Hi ${recipient.fullName},`,
+    `Someone asked to reset the password for your CarryConnect account (${recipient.username}). The link works once and expires in ${validForMinutes} minutes.`,
+    "If you didn't ask for this, you can ignore this email and your password stays the same.",
+  ];
+
+  return {
+    subject: "Reset your password - CarryConnect",
+    text: [...paragraphs, `Reset password: ${url}`].join("\n\n"),
+    html: renderLayout("Reset your password", paragraphs, { label: "Reset password", url }, accountFooter),
+  };
+}
+
+// Render the email with a link that confirms the address
+export function renderEmailVerificationEmail(recipient: User, token: string, validForHours: number): Omit<MailMessage, "to"> {
+  const url = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  const paragraphs = [
+    `Hi ${recipient.fullName},`,
+    `Confirm that this is the email address for your CarryConnect account (${recipient.username}). You need a verified address to create deliveries. The link expires in ${validForHours} hours.`,
+    "If you didn't sign up for CarryConnect, you can ignore this email.",
+  ];
+
+  return {
+    subject: "Verify your email address - CarryConnect",
+    text: [...paragraphs, `Verify email: ${url}`].join("\n\n"),
+    html: renderLayout("Verify your email address", paragraphs, { label: "Verify email", url }, accountFooter),
+  };
+}
+
+// Tell a user that support turned off their two-factor authentication
+export function renderTwoFactorResetEmail(recipient: User, reason: string): Omit<MailMessage, "to"> {
+  const url = `${APP_URL}/profile`;
+  const paragraphs = [
+    `Hi ${recipient.fullName},`,
+    `CarryConnect support turned off two-factor authentication for your account (${recipient.username}). Reason: ${reason}`,
+    "You can sign in with just your password now. We recommend setting up two-factor authentication again on your profile page. If you didn't ask for this, reset your password and contact support.",
+  ];
+
+  return {
+    subject: "Two-factor authentication was turned off - CarryConnect",
+    text: [...paragraphs, `Security settings: ${url}`].join("\n\n"),
+    html: renderLayout("Two-factor authentication was turned off", paragraphs, { label: "Security settings", url }, accountFooter),
+  };
+}
+
+// Give the person receiving a package the code the carrier needs at drop-off
+export function renderDropoffCodeEmail(
+  recipient: DeliveryRecipient,
+  sender: User,
+  delivery: Delivery,
+  handoffCode: HandoffCode,
+): Omit<MailMessage, "to"> {
+  const expiresAt = new Date(handoffCode.expiresAt).toUTCString();
+  const paragraphs = [
+    `Hi ${recipient.name},`,
+    `${sender.fullName} is sending you a package from ${delivery.pickupLocation} to ${delivery.dropLocation}, and a carrier is now on the way.`,
+    `Your drop-off code is ${handoffCode.code}. Only give it to the carrier once you have the package in hand; it confirms the delivery. The code expires on ${expiresAt}.`,
+    "If the code expires or is locked, the sender can generate a new one and we will email it to you.",
+  ];
+
+  return {
+    subject: "Your drop-off code - CarryConnect",
+    text: paragraphs.join("\n\n"),
+    html: renderLayout("Your drop-off code", paragraphs, undefined, recipientFooter),
+  };
+}
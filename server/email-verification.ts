@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { sendMail } from "./mailer";
+import { renderEmailVerificationEmail } from "./email-templates";
+import { publishToUsers } from "./realtime";
+import { createToken, hashToken } from "./tokens";
+import { User } from "@shared/schema";
+
+// How long an emailed verification link works
+const VERIFICATION_TOKEN_TTL_HOURS = 24;
+
+export type EmailVerificationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; message: string };
+
+export const sameAddress = (a: string | null, b: string | null) => (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+
+async function sendVerificationLink(user: User & { email: string }) {
+  const { token, tokenHash } = createToken();
+  await storage.createEmailVerificationToken({
+    userId: user.id,
+    email: user.email,
+    tokenHash,
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+  });
+
+  await sendMail({
+    to: user.email,
+    ...renderEmailVerificationEmail(user, token, VERIFICATION_TOKEN_TTL_HOURS),
+  });
+}
+
+// Send a link for a new address without holding up the response
+export function queueVerificationEmail(user: User) {
+  if (!user.email) return;
+
+  sendVerificationLink({ ...user, email: user.email }).catch((error) => {
+    console.error("Error sending verification email:", error);
+  });
+}
+
+// Send a fresh link, e.g. when the first one expired or got lost
+export async function resendEmailVerification(user: User): Promise<EmailVerificationResult<null>> {
+  if (!user.email) {
+    return { ok: false, status: 400, message: "Add an email address first" };
+  }
+  if (user.emailVerifiedAt) {
+    return { ok: false, status: 409, message: "Your email address is already verified" };
+  }
+
+  await sendVerificationLink({ ...user, email: user.email });
+  return { ok: true, value: null };
+}
+
+// Redeem the token from an emailed link. Links sent to an earlier address
+// don't verify the current one.
+export async function verifyEmail(token: string): Promise<EmailVerificationResult<User>> {
+  const verificationToken = await storage.redeemEmailVerificationToken(hashToken(token));
+  const user = verificationToken && await storage.getUser(verificationToken.userId);
+  if (!verificationToken || !user || !sameAddress(user.email, verificationToken.email)) {
+    return { ok: false, status: 400, message: "This verification link is invalid or has expired" };
+  }
+
+  const updatedUser = user.emailVerifiedAt
+    ? user
+    : await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+  publishToUsers([user.id], { type: "user.updated" });
+
+  return { ok: true, value: updatedUser ?? user };
+}
+
+// Save the address from the profile page. A new address has to be verified
+// again; changing only its capitalisation keeps the verification.
+export async function changeEmail(
+  user: User,
+  email: string | null,
+  emailPreferences: User["emailPreferences"],
+): Promise<User | undefined> {
+  const addressChanged = !sameAddress(user.email, email);
+  const updatedUser = await storage.updateUser(user.id, {
+    email,
+    emailPreferences,
+    ...(addressChanged ? { emailVerifiedAt: null } : {}),
+  });
+
+  if (updatedUser && addressChanged) {
+    queueVerificationEmail(updatedUser);
+  }
+  return updatedUser;
+}
@@ -0,0 +1,46 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// ENCRYPTION_KEY protects secrets stored in the database, such as TOTP
+// secrets. Changing it makes existing ones unreadable. The fallback is
+// published with the code, so it is only good enough for development.
+function createKey() {
+  const secret = process.env.ENCRYPTION_KEY;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("ENCRYPTION_KEY is not set");
+  }
+
+  return createHash("sha256")
+    .update(secret || process.env.SESSION_SECRET || "carryconnect-secret-key")
+    .digest();
+}
+
+let key: Buffer | undefined;
+
+// Derive the key at startup, so a missing setting stops the server instead
+// of failing the first two-factor sign-in
+export function initEncryptionKey() {
+  key = createKey();
+}
+
+function getKey() {
+  if (!key) {
+    key = createKey();
+  }
+
+  return key;
+}
+
+// AES-256-GCM; the result is "iv.tag.ciphertext" in base64
+export function encryptSecret(plaintext: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+export function decryptSecret(encrypted: string) {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,47 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Storage backend for uploaded files. Keys are relative paths such as
+// "deliveries/12/photo.webp"; an object store driver can implement the
+// same interface later.
+export interface FileStorageDriver {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskDriver implements FileStorageDriver {
+  constructor(private rootDir: string) {}
+
+  // Resolve a key inside the root directory, refusing path traversal
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const fileStorage: FileStorageDriver = new LocalDiskDriver(
+  process.env.UPLOADS_DIR || path.resolve(process.cwd(), "uploads"),
+);
@@ -0,0 +1,43 @@
+import { findPlace, distanceKm } from "@shared/gazetteer";
+import { InsertDelivery, InsertTrip, TripFormInput } from "@shared/schema";
+
+type DeliveryRoute = Pick<InsertDelivery, "pickupLocation" | "dropLocation">;
+type GeocodedRoute = Pick<
+  InsertDelivery,
+  "pickupLocation" | "dropLocation" | "pickupLat" | "pickupLng" | "dropLat" | "dropLng" | "distanceKm"
+>;
+
+// Resolve both ends of a delivery with the offline gazetteer, storing the
+// canonical place names. Unknown names keep empty coordinates.
+export function geocodeDelivery<T extends DeliveryRoute>(delivery: T): T & GeocodedRoute {
+  const pickup = findPlace(delivery.pickupLocation);
+  const drop = findPlace(delivery.dropLocation);
+
+  return {
+    ...delivery,
+    pickupLocation: pickup?.name ?? delivery.pickupLocation,
+    dropLocation: drop?.name ?? delivery.dropLocation,
+    pickupLat: pickup?.lat ?? null,
+    pickupLng: pickup?.lng ?? null,
+    dropLat: drop?.lat ?? null,
+    dropLng: drop?.lng ?? null,
+    distanceKm: pickup && drop ? Math.round(distanceKm(pickup, drop) * 10) / 10 : null,
+  };
+}
+
+// Trip places are validated against the gazetteer, so both ends resolve
+export function geocodeTrip(trip: TripFormInput): Omit<InsertTrip, "carrierId"> {
+  const origin = findPlace(trip.origin)!;
+  const destination = findPlace(trip.destination)!;
+
+  return {
+    ...trip,
+    origin: origin.name,
+    destination: destination.name,
+    originLat: origin.lat,
+    originLng: origin.lng,
+    destinationLat: destination.lat,
+    destinationLng: destination.lng,
+    notes: trip.notes || null,
+  };
+}
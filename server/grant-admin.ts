@@ -0,0 +1,38 @@
+// Give an existing account admin access, e.g. the first admin of a fresh
+// install, who can then grant access to others from the console:
+//
+//   npm run admin:grant -- <username>
+//
+// Only registered accounts are promoted, so nobody can sign up under a
+// name that is waiting to become an admin.
+import { storage } from "./storage";
+
+async function grantAdmin(username: string) {
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    throw new Error(`No account with the username "${username}". Register it first.`);
+  }
+  if (user.suspendedAt) {
+    throw new Error(`"${username}" is suspended. Lift the suspension before granting admin access.`);
+  }
+  if (user.isAdmin) {
+    console.log(`"${username}" is already an admin`);
+    return;
+  }
+
+  await storage.updateUser(user.id, { isAdmin: true });
+  console.log(`"${username}" is now an admin`);
+}
+
+const username = process.argv[2]?.trim();
+if (!username) {
+  console.error("Usage: npm run admin:grant -- <username>");
+  process.exit(1);
+}
+
+grantAdmin(username)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
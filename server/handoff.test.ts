@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storage, MemStorage } from "./storage";
+import { getOrIssueHandoffCode, issueHandoffCode, verifyHandoffCode } from "./handoff";
+
+vi.mock("./storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./storage")>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+
+// Seeded: delivery 2 is accepted by carrier 2 and has no recipient, so no
+// drop-off email goes out
+const DELIVERY_ID = 2;
+const CARRIER_ID = 2;
+
+const wrongCode = (code: string) => code === "000000" ? "111111" : "000000";
+
+async function issuePickupCode() {
+  const delivery = await storage.getDeliveryById(DELIVERY_ID);
+  return await issueHandoffCode(delivery!, "pickup");
+}
+
+beforeEach(() => {
+  Object.assign(storage, new MemStorage());
+});
+
+describe("verifyHandoffCode", () => {
+  it("accepts the right code once", async () => {
+    const { code } = await issuePickupCode();
+
+    const first = await verifyHandoffCode(DELIVERY_ID, "pickup", code, CARRIER_ID);
+    expect(first.ok).toBe(true);
+
+    const second = await verifyHandoffCode(DELIVERY_ID, "pickup", code, CARRIER_ID);
+    expect(second.ok).toBe(false);
+  });
+
+  it("locks the code after too many wrong attempts", async () => {
+    const { code } = await issuePickupCode();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      const result = await verifyHandoffCode(DELIVERY_ID, "pickup", wrongCode(code), CARRIER_ID);
+      expect(result).toMatchObject({ ok: false, status: 400 });
+    }
+    const last = await verifyHandoffCode(DELIVERY_ID, "pickup", wrongCode(code), CARRIER_ID);
+    expect(last).toMatchObject({ ok: false, status: 429 });
+
+    const correct = await verifyHandoffCode(DELIVERY_ID, "pickup", code, CARRIER_ID);
+    expect(correct).toMatchObject({ ok: false, status: 429 });
+  });
+
+  it("rejects codes that aren't digits", async () => {
+    await issuePickupCode();
+
+    const result = await verifyHandoffCode(DELIVERY_ID, "pickup", "abc", CARRIER_ID);
+    expect(result).toMatchObject({ ok: false, status: 400 });
+  });
+
+  it("lets a restored code be used again, e.g. after the status change it proved failed", async () => {
+    const { code } = await issuePickupCode();
+
+    const first = await verifyHandoffCode(DELIVERY_ID, "pickup", code, CARRIER_ID);
+    expect(first.ok).toBe(true);
+    if (first.ok) {
+      await storage.restoreHandoffCode(first.handoffCode.id);
+    }
+
+    const retry = await verifyHandoffCode(DELIVERY_ID, "pickup", code, CARRIER_ID);
+    expect(retry.ok).toBe(true);
+  });
+});
+
+describe("getOrIssueHandoffCode", () => {
+  it("keeps the active code and replaces a used one", async () => {
+    const delivery = await storage.getDeliveryById(DELIVERY_ID);
+    const issued = await getOrIssueHandoffCode(delivery!, "pickup");
+    expect((await getOrIssueHandoffCode(delivery!, "pickup")).id).toBe(issued.id);
+
+    await verifyHandoffCode(DELIVERY_ID, "pickup", issued.code, CARRIER_ID);
+    expect((await getOrIssueHandoffCode(delivery!, "pickup")).id).not.toBe(issued.id);
+  });
+});
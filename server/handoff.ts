@@ -0,0 +1,135 @@
+import { randomInt, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { sendMail } from "./mailer";
+import { renderDropoffCodeEmail } from "./email-templates";
+import { Delivery, HandoffCode, HandoffPurpose } from "@shared/schema";
+
+const CODE_LENGTH = 6;
+const MAX_ATTEMPTS = 5;
+
+// Pickup happens soon after the carrier arrives; the drop-off code has to
+// survive the journey, so it lives longer
+const CODE_TTL_MS: Record<HandoffPurpose, number> = {
+  pickup: 1000 * 60 * 60 * 2, // 2 hours
+  dropoff: 1000 * 60 * 60 * 48, // 48 hours
+};
+
+export type HandoffVerification =
+  | { ok: true; handoffCode: HandoffCode }
+  | { ok: false; status: number; message: string };
+
+function generateCode() {
+  return randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, "0");
+}
+
+function isActive(handoffCode: HandoffCode) {
+  return !handoffCode.usedAt &&
+    handoffCode.attempts < MAX_ATTEMPTS &&
+    new Date(handoffCode.expiresAt).getTime() > Date.now();
+}
+
+// Codes are needed once a carrier is assigned and until each handoff happens
+export function isHandoffCodeNeeded(delivery: Delivery, purpose: HandoffPurpose) {
+  return purpose === "pickup"
+    ? delivery.status === "accepted"
+    : delivery.status === "accepted" || delivery.status === "picked";
+}
+
+async function sendDropoffCode(delivery: Delivery, handoffCode: HandoffCode) {
+  const recipient = await storage.getDeliveryRecipient(delivery.id);
+  if (!recipient) return;
+
+  const sender = await storage.getUser(delivery.senderId);
+  if (!sender) return;
+
+  await sendMail({ to: recipient.email, ...renderDropoffCodeEmail(recipient, sender, delivery, handoffCode) });
+}
+
+// Create a fresh code, replacing any earlier one for the same purpose. The
+// drop-off code is emailed to the recipient, if the sender named one, since
+// they are the one who hands it to the carrier.
+export async function issueHandoffCode(delivery: Delivery, purpose: HandoffPurpose) {
+  const handoffCode = await storage.createHandoffCode({
+    deliveryId: delivery.id,
+    purpose,
+    code: generateCode(),
+    expiresAt: new Date(Date.now() + CODE_TTL_MS[purpose]),
+  });
+
+  if (purpose === "dropoff") {
+    sendDropoffCode(delivery, handoffCode).catch((error) => {
+      console.error("Error sending drop-off code:", error);
+    });
+  }
+
+  return handoffCode;
+}
+
+// Return the active code for a purpose, issuing a new one if the last expired
+export async function getOrIssueHandoffCode(delivery: Delivery, purpose: HandoffPurpose) {
+  const latest = await storage.getLatestHandoffCode(delivery.id, purpose);
+  if (latest && isActive(latest)) {
+    return latest;
+  }
+
+  return await issueHandoffCode(delivery, purpose);
+}
+
+export async function verifyHandoffCode(
+  deliveryId: number,
+  purpose: HandoffPurpose,
+  suppliedCode: unknown,
+  carrierId: number,
+): Promise<HandoffVerification> {
+  if (typeof suppliedCode !== "string" || !/^\d+$/.test(suppliedCode)) {
+    return { ok: false, status: 400, message: `A ${purpose} code is required` };
+  }
+
+  const handoffCode = await storage.getLatestHandoffCode(deliveryId, purpose);
+  if (!handoffCode || handoffCode.usedAt) {
+    return { ok: false, status: 400, message: `Ask the sender for the ${purpose} code` };
+  }
+
+  if (handoffCode.attempts >= MAX_ATTEMPTS) {
+    return {
+      ok: false,
+      status: 429,
+      message: "Too many incorrect attempts. Ask the sender to generate a new code"
+    };
+  }
+
+  if (new Date(handoffCode.expiresAt).getTime() <= Date.now()) {
+    return { ok: false, status: 400, message: "This code has expired. Ask the sender for a new one" };
+  }
+
+  // The updates below only apply while the code is still usable, so a
+  // concurrent submission that got there first makes them return undefined
+  const expected = Buffer.from(handoffCode.code);
+  const supplied = Buffer.from(suppliedCode);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    const failedCode = await storage.recordFailedHandoffAttempt(handoffCode.id, MAX_ATTEMPTS);
+    if (!failedCode) {
+      return codeNoLongerUsable(purpose);
+    }
+
+    const remaining = MAX_ATTEMPTS - failedCode.attempts;
+    return {
+      ok: false,
+      status: remaining > 0 ? 400 : 429,
+      message: remaining > 0
+        ? `Incorrect code, ${remaining} ${remaining === 1 ? "attempt" : "attempts"} left`
+        : "Too many incorrect attempts. Ask the sender to generate a new code",
+    };
+  }
+
+  const usedCode = await storage.redeemHandoffCode(handoffCode.id, carrierId, MAX_ATTEMPTS);
+  if (!usedCode) {
+    return codeNoLongerUsable(purpose);
+  }
+
+  return { ok: true, handoffCode: usedCode };
+}
+
+function codeNoLongerUsable(purpose: HandoffPurpose): HandoffVerification {
+  return { ok: false, status: 409, message: `This ${purpose} code can no longer be used. Reload and try again` };
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { initMailTransport } from "./mailer";
+import { initPaymentGateway } from "./payment-gateway";
+import { initEncryptionKey } from "./encryption";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +40,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  initMailTransport();
+  initPaymentGateway();
+  initEncryptionKey();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
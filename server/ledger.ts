@@ -0,0 +1,82 @@
+import { Delivery, InsertLedgerTransaction, LedgerAccount, LedgerAccountType, WalletTransaction } from "@shared/schema";
+
+// An account named by what it belongs to; storage creates the row the
+// first time money moves through it
+export type LedgerAccountRef =
+  | { type: "wallet"; userId: number }
+  | { type: "escrow"; deliveryId: number }
+  | { type: "gateway" }
+  | { type: "payouts" };
+
+// One side of a ledger transaction; the amounts of a transaction sum to zero
+export type LedgerPosting = {
+  account: LedgerAccountRef;
+  amount: number;
+};
+
+// A ledger transaction for storage to post together with other changes, so
+// the money and the record it pays for are committed at once
+export type LedgerTransfer = {
+  transaction: InsertLedgerTransaction;
+  postings: LedgerPosting[];
+};
+
+// Balances and history as seen by the storage transaction that posts a
+// settlement, with the accounts it reads locked until it commits
+export interface LedgerReader {
+  getLedgerBalance(account: LedgerAccountRef): Promise<number>;
+  getLedgerActivity(account: LedgerAccountRef, limit: number): Promise<WalletTransaction[]>;
+}
+
+// Money that moves because a delivery changes status, worked out from the
+// balances at that moment and posted in the same transaction as the change.
+// Gets the delivery as it was before the change; undefined if nothing moves.
+export type LedgerSettlement = (ledger: LedgerReader, delivery: Delivery) => Promise<LedgerTransfer | undefined>;
+
+export const walletAccount = (userId: number): LedgerAccountRef => ({ type: "wallet", userId });
+export const escrowAccount = (deliveryId: number): LedgerAccountRef => ({ type: "escrow", deliveryId });
+export const gatewayAccount: LedgerAccountRef = { type: "gateway" };
+export const payoutsAccount: LedgerAccountRef = { type: "payouts" };
+
+export function ledgerAccountKey(account: LedgerAccountRef) {
+  switch (account.type) {
+    case "wallet":
+      return `wallet:${account.userId}`;
+    case "escrow":
+      return `escrow:${account.deliveryId}`;
+    default:
+      return account.type;
+  }
+}
+
+// Column values for a new account row
+export function ledgerAccountValues(account: LedgerAccountRef): Omit<LedgerAccount, "id" | "createdAt"> {
+  return {
+    key: ledgerAccountKey(account),
+    type: account.type,
+    userId: account.type === "wallet" ? account.userId : null,
+    deliveryId: account.type === "escrow" ? account.deliveryId : null,
+  };
+}
+
+// Money held for users can't go below zero; the gateway and payouts
+// accounts mirror money outside the platform and can
+export function mustStayPositive(type: LedgerAccountType) {
+  return type === "wallet" || type === "escrow";
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(public shortfall: number) {
+    super("Insufficient funds");
+  }
+}
+
+export class UnbalancedTransactionError extends Error {}
+
+// Check the postings before anything is written
+export function assertBalanced(postings: LedgerPosting[]) {
+  const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+  if (postings.length < 2 || total !== 0 || postings.some(posting => !Number.isInteger(posting.amount))) {
+    throw new UnbalancedTransactionError("Ledger entries must sum to zero");
+  }
+}
@@ -0,0 +1,35 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { SMTPServer } from "smtp-server";
+
+// A minimal SMTP server for development and tests. It accepts any message
+// without authentication and stores it as an .eml file instead of relaying.
+export function startLocalSmtpServer(port: number, mailDir: string) {
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ["STARTTLS"],
+    logger: false,
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("end", async () => {
+        try {
+          const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}.eml`;
+          await fs.mkdir(mailDir, { recursive: true });
+          await fs.writeFile(path.join(mailDir, name), Buffer.concat(chunks));
+
+          const recipients = session.envelope.rcptTo.map(({ address }) => address).join(", ");
+          console.log(`[local-smtp] Stored mail for ${recipients} in ${name}`);
+          callback();
+        } catch (error) {
+          callback(error as Error);
+        }
+      });
+    },
+  });
+
+  server.on("error", (error) => console.error("Local SMTP server error:", error));
+  server.listen(port, "127.0.0.1");
+  return server;
+}
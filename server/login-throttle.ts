@@ -0,0 +1,86 @@
+import { storage } from "./storage";
+import { notify } from "./notifications";
+import { formatWait, getRateLimitStore } from "./rate-limit";
+
+// Failed sign-ins are forgotten after this long without a lockout
+const FAILURE_WINDOW_MS = 30 * 60 * 1000;
+// Failures allowed before each attempt has to wait, doubling every time
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_MS = 60 * 1000;
+// Failures that lock the account, and for how long
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Failures from one IP across all usernames, e.g. password spraying
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const IP_MAX_FAILURES = 50;
+
+export type LoginCheck =
+  | { ok: true }
+  | { ok: false; retryAfterMs: number; message: string };
+
+// Usernames are matched exactly at sign-in, but counting them
+// case-insensitively stops "Alice" and "alice" from getting separate tries
+const userKey = (username: string) => username.trim().toLowerCase();
+
+// Whether a sign-in attempt may go ahead, checked before the password so a
+// locked account can't be used to test passwords
+export async function checkLoginAllowed(ip: string, username: string): Promise<LoginCheck> {
+  const store = getRateLimitStore();
+  const now = Date.now();
+
+  const lock = await store.get(`login-lock:${userKey(username)}`);
+  if (lock) {
+    return {
+      ok: false,
+      retryAfterMs: lock.expiresAt - now,
+      message: "This account is temporarily locked after too many failed sign-ins.",
+    };
+  }
+
+  const ipFailures = await store.get(`login-ip:${ip}`);
+  if (ipFailures && ipFailures.count >= IP_MAX_FAILURES) {
+    return {
+      ok: false,
+      retryAfterMs: ipFailures.expiresAt - now,
+      message: "Too many failed sign-ins from your network.",
+    };
+  }
+
+  const failures = await store.get(`login-user:${userKey(username)}`);
+  if (failures && failures.count >= FREE_ATTEMPTS) {
+    const delay = Math.min(1000 * 2 ** (failures.count - FREE_ATTEMPTS), MAX_DELAY_MS);
+    const retryAfterMs = failures.lastAt + delay - now;
+    if (retryAfterMs > 0) {
+      return { ok: false, retryAfterMs, message: "Too many failed sign-ins." };
+    }
+  }
+
+  return { ok: true };
+}
+
+// Count a wrong password or 2FA code. Enough of them lock the account and
+// tell its owner, who may want to change their password.
+export async function recordLoginFailure(ip: string, username: string) {
+  const store = getRateLimitStore();
+  await store.increment(`login-ip:${ip}`, IP_WINDOW_MS);
+
+  const failures = await store.increment(`login-user:${userKey(username)}`, FAILURE_WINDOW_MS);
+  if (failures.count < LOCKOUT_THRESHOLD) return;
+
+  await store.increment(`login-lock:${userKey(username)}`, LOCKOUT_MS);
+  await store.reset(`login-user:${userKey(username)}`);
+
+  const user = await storage.getUserByUsername(username);
+  if (user) {
+    await notify({
+      userId: user.id,
+      type: 'account_locked',
+      title: "Sign-in to your account was paused",
+      body: `Someone entered the wrong password or code for your account ${LOCKOUT_THRESHOLD} times, so signing in is paused for ${formatWait(LOCKOUT_MS)}. If this wasn't you, reset your password.`,
+    });
+  }
+}
+
+export async function recordLoginSuccess(username: string) {
+  await getRateLimitStore().reset(`login-user:${userKey(username)}`);
+}
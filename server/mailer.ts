@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import { startLocalSmtpServer } from "./local-smtp";
+
+const MAIL_FROM = process.env.MAIL_FROM || "CarryConnect <no-reply@carryconnect.local>";
+const MAIL_DIR = process.env.MAIL_DIR || path.resolve(process.cwd(), "mail");
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Delivery backend for outgoing email
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(options: SMTPTransport.Options) {
+    this.transporter = nodemailer.createTransport(options);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Writes every email to an .eml file that any mail client can open
+export class FileTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private mailDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}.eml`;
+    await fs.mkdir(this.mailDir, { recursive: true });
+    await fs.writeFile(path.join(this.mailDir, name), info.message as Buffer);
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// MAIL_TRANSPORT picks the backend: "smtp" for production, "file" or
+// "console" for development, and "local-smtp" to exercise the SMTP code path
+// against an in-process server. Defaults to SMTP when SMTP_HOST is set, and
+// to the console in development only: in production a missing setting would
+// otherwise drop every password reset and verification email unnoticed.
+function createMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : undefined);
+  if (!kind && process.env.NODE_ENV === "production") {
+    throw new Error("No mail transport configured; set SMTP_HOST or MAIL_TRANSPORT");
+  }
+
+  switch (kind ?? "console") {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("MAIL_TRANSPORT is smtp but SMTP_HOST is not set");
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || "587"),
+        secure: process.env.SMTP_SECURE === "true",
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+          : undefined,
+      });
+    case "file":
+      return new FileTransport(MAIL_DIR);
+    case "local-smtp": {
+      const port = parseInt(process.env.LOCAL_SMTP_PORT || "1025");
+      startLocalSmtpServer(port, MAIL_DIR);
+      return new SmtpTransport({ host: "127.0.0.1", port, secure: false, ignoreTLS: true });
+    }
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+let mailTransport: MailTransport | undefined;
+
+// Set up the transport from the environment at startup, so a missing or wrong
+// setting stops the server instead of failing the first email
+export function initMailTransport() {
+  mailTransport = createMailTransport();
+}
+
+// Replace the transport, e.g. with an in-memory one in tests
+export function setMailTransport(transport: MailTransport) {
+  mailTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+
+  await mailTransport.send(message);
+}
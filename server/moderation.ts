@@ -0,0 +1,123 @@
+import { storage } from "./storage";
+import { disconnectUser, publishToAll } from "./realtime";
+import { notify, describeDelivery } from "./notifications";
+import { publishWalletUpdate, refundEscrow, releaseEscrow } from "./wallet";
+import { notifyTripMatches } from "./trip-matching";
+import { Delivery, ForceDeliveryStatusInput, User } from "@shared/schema";
+
+export type ModerationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; message: string };
+
+// Let the sender and the carrier know what an admin did to their delivery
+async function notifyParties(delivery: Delivery, title: string, body: string) {
+  const partyIds = delivery.carrierId ? [delivery.senderId, delivery.carrierId] : [delivery.senderId];
+  await Promise.all(partyIds.map(userId => notify({
+    userId,
+    type: 'moderation_notice',
+    deliveryId: delivery.id,
+    title,
+    body,
+  })));
+}
+
+// Move a delivery to any status, bypassing the usual transition rules. The
+// escrow follows the new status: cancelled and back-on-the-market deliveries
+// are refunded and delivered ones are paid out to the carrier. A delivered
+// one stays put, since its carrier has been paid; a dispute can undo that.
+export async function forceDeliveryStatus(
+  admin: User,
+  delivery: Delivery,
+  input: ForceDeliveryStatusInput,
+): Promise<ModerationResult<Delivery>> {
+  if (delivery.status === "disputed") {
+    return { ok: false, status: 409, message: "Resolve the dispute on this delivery instead" };
+  }
+
+  if (delivery.status === "delivered") {
+    return { ok: false, status: 409, message: "The carrier has been paid for this delivery; open a dispute instead" };
+  }
+
+  if (delivery.status === input.status) {
+    return { ok: false, status: 400, message: `The delivery is already ${input.status}` };
+  }
+
+  const needsCarrier = input.status === "accepted" || input.status === "picked" || input.status === "delivered";
+  if (needsCarrier && !delivery.carrierId) {
+    return { ok: false, status: 400, message: "This delivery has no carrier" };
+  }
+
+  const transition = {
+    actorId: admin.id,
+    note: input.reason,
+    metadata: { forced: true },
+  };
+  const settlement = input.status === "requested" || input.status === "cancelled"
+    ? refundEscrow
+    : input.status === "delivered" ? releaseEscrow : undefined;
+  const updatedDelivery = input.status === "requested"
+    ? await storage.releaseDelivery(delivery.id, delivery.status, transition, settlement)
+    : await storage.updateDeliveryStatus(delivery.id, delivery.status, input.status, transition, settlement);
+  if (!updatedDelivery) {
+    return { ok: false, status: 409, message: "This delivery has just changed; reload it and try again" };
+  }
+
+  if (settlement) {
+    publishWalletUpdate(delivery.carrierId ? [delivery.senderId, delivery.carrierId] : [delivery.senderId]);
+  }
+
+  publishToAll({ type: "delivery.updated", deliveryId: delivery.id });
+  if (input.status === "requested") {
+    await notifyTripMatches(updatedDelivery);
+  }
+  await notifyParties(
+    delivery,
+    "Delivery status changed by support",
+    `${describeDelivery(delivery)} is now ${input.status}: ${input.reason}`,
+  );
+
+  return { ok: true, value: updatedDelivery };
+}
+
+// Take a listing out of the public search, or put it back
+export async function setDeliveryHidden(delivery: Delivery, reason: string | null) {
+  const updatedDelivery = await storage.hideDelivery(delivery.id, reason);
+  if (!updatedDelivery) return undefined;
+
+  publishToAll({ type: "delivery.updated", deliveryId: delivery.id });
+  if (reason !== null) {
+    await notify({
+      userId: delivery.senderId,
+      type: 'moderation_notice',
+      deliveryId: delivery.id,
+      title: "Your delivery was hidden",
+      body: `${describeDelivery(delivery)} no longer appears in search: ${reason}`,
+    });
+  }
+
+  return updatedDelivery;
+}
+
+// Suspended users are signed out and can't sign in until it is lifted
+export async function setUserSuspended(admin: User, user: User, reason: string | null): Promise<ModerationResult<User>> {
+  if (user.id === admin.id) {
+    return { ok: false, status: 400, message: "You can't suspend your own account" };
+  }
+
+  if (reason !== null && user.isAdmin) {
+    return { ok: false, status: 400, message: "Remove this user's admin access before suspending them" };
+  }
+
+  const updatedUser = await storage.updateUser(user.id, {
+    suspendedAt: reason === null ? null : new Date(),
+    suspensionReason: reason,
+  });
+  if (!updatedUser) {
+    return { ok: false, status: 404, message: "User not found" };
+  }
+  if (updatedUser.suspendedAt) {
+    disconnectUser(updatedUser.id);
+  }
+
+  return { ok: true, value: updatedUser };
+}
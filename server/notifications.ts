@@ -0,0 +1,43 @@
+import { storage } from "./storage";
+import { publishToUsers } from "./realtime";
+import { sendMail } from "./mailer";
+import { hasEmailTemplate, renderNotificationEmail } from "./email-templates";
+import { Delivery, InsertNotification, Notification } from "@shared/schema";
+
+// Short description of a delivery used in notification texts
+export function describeDelivery(delivery: Delivery) {
+  return `${delivery.pickupLocation} to ${delivery.dropLocation}`;
+}
+
+// Email the notification unless the user has no verified address or opted out
+async function sendNotificationEmail(notification: Notification) {
+  if (!hasEmailTemplate(notification.type)) return;
+
+  const user = await storage.getUser(notification.userId);
+  if (!user?.email || !user.emailVerifiedAt || user.emailPreferences[notification.type] === false) return;
+
+  await sendMail({
+    to: user.email,
+    ...renderNotificationEmail(notification, user),
+  });
+}
+
+// Create an in-app notification, refresh the user's open tabs and send the
+// matching email. Errors are logged instead of thrown so a failed
+// notification never fails the action that triggered it.
+export async function notify(notification: InsertNotification): Promise<Notification | undefined> {
+  try {
+    const createdNotification = await storage.createNotification(notification);
+    publishToUsers([notification.userId], { type: "notifications.updated" });
+
+    // Mail servers can be slow; don't hold up the request for them
+    sendNotificationEmail(createdNotification).catch((error) => {
+      console.error("Error sending notification email:", error);
+    });
+
+    return createdNotification;
+  } catch (error) {
+    console.error("Error creating notification:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,41 @@
+import { Delivery, DeliverySort } from "@shared/schema";
+
+export class InvalidCursorError extends Error {}
+
+type SortableDeliveryKey = "id" | "deliveryFee" | "preferredDeliveryDate" | "packageWeight";
+
+// Column and direction for each sort option; ties are broken by id in the
+// same direction. "newest" sorts by id, which follows creation order and
+// avoids timestamp precision issues in cursors.
+export const deliverySorts: Record<DeliverySort, { key: SortableDeliveryKey; direction: "asc" | "desc" }> = {
+  newest: { key: "id", direction: "desc" },
+  highest_fee: { key: "deliveryFee", direction: "desc" },
+  soonest_date: { key: "preferredDeliveryDate", direction: "asc" },
+  lightest: { key: "packageWeight", direction: "asc" },
+};
+
+export type DeliveryCursor = {
+  value: string | number;
+  id: number;
+};
+
+// Cursors are opaque to clients: the sort value and id of the last item seen
+export function encodeCursor(delivery: Delivery, sort: DeliverySort) {
+  const value = delivery[deliverySorts[sort].key];
+  return Buffer.from(JSON.stringify([value, delivery.id])).toString("base64url");
+}
+
+// Decode a cursor, rejecting one that was issued for a different sort
+export function decodeCursor(cursor: string, sort: DeliverySort): DeliveryCursor {
+  const expectedType = deliverySorts[sort].key === "preferredDeliveryDate" ? "string" : "number";
+
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof value === expectedType && Number.isInteger(id)) {
+      return { value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError("Invalid cursor");
+}
@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import { sendMail } from "./mailer";
+import { renderPasswordResetEmail } from "./email-templates";
+import { hashPassword } from "./auth";
+import { createToken, hashToken } from "./tokens";
+import { User } from "@shared/schema";
+
+// How long an emailed reset link works
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+export type PasswordResetResult =
+  | { ok: true; value: User }
+  | { ok: false; status: number; message: string };
+
+async function sendResetLink(user: User & { email: string }) {
+  const { token, tokenHash } = createToken();
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+  });
+
+  await sendMail({
+    to: user.email,
+    ...renderPasswordResetEmail(user, token, RESET_TOKEN_TTL_MINUTES),
+  });
+}
+
+// Email a reset link to every active account that verified the address, so
+// registering with someone else's address doesn't hand them the account.
+// Nothing is reported back, so the response can't tell whether an address
+// is registered.
+export async function requestPasswordReset(email: string) {
+  const users = await storage.getUsersByEmail(email);
+  const activeUsers = users.filter((user): user is User & { email: string } =>
+    !!user.email && !!user.emailVerifiedAt && !user.suspendedAt);
+
+  // Mail servers can be slow and the response shouldn't depend on them
+  Promise.all(activeUsers.map(sendResetLink)).catch((error) => {
+    console.error("Error sending password reset email:", error);
+  });
+}
+
+// Set a new password with the token from the emailed link. Bumping
+// passwordChangedAt signs the user out of every existing session.
+export async function resetPassword(token: string, password: string): Promise<PasswordResetResult> {
+  const resetToken = await storage.redeemPasswordResetToken(hashToken(token));
+  if (!resetToken) {
+    return { ok: false, status: 400, message: "This reset link is invalid or has expired" };
+  }
+
+  const user = await storage.getUser(resetToken.userId);
+  if (!user || user.suspendedAt) {
+    return { ok: false, status: 400, message: "This reset link is invalid or has expired" };
+  }
+
+  const updatedUser = await storage.updateUser(user.id, {
+    password: await hashPassword(password),
+    passwordChangedAt: new Date(),
+  });
+
+  return { ok: true, value: updatedUser ?? user };
+}
@@ -0,0 +1,93 @@
+import { randomBytes } from "crypto";
+
+export interface ChargeRequest {
+  userId: number;
+  amount: number; // amount in cents
+  description: string;
+}
+
+export interface PayoutRequest {
+  userId: number;
+  payoutId: number;
+  amount: number; // amount in cents
+}
+
+export type GatewayResult =
+  | { ok: true; reference: string }
+  | { ok: false; reason: string };
+
+// Payment provider that moves money into and out of the platform. Declines
+// are results rather than errors; errors mean the provider couldn't be reached.
+export interface PaymentGateway {
+  charge(request: ChargeRequest): Promise<GatewayResult>;
+  payout(request: PayoutRequest): Promise<GatewayResult>;
+}
+
+// Local provider for development and tests: approves everything unless told
+// to fail the next call, and remembers what it was asked to do
+export class FakePaymentGateway implements PaymentGateway {
+  charges: ChargeRequest[] = [];
+  payouts: PayoutRequest[] = [];
+  private nextFailure: string | undefined;
+
+  failNext(reason = "Declined by the test gateway") {
+    this.nextFailure = reason;
+  }
+
+  async charge(request: ChargeRequest): Promise<GatewayResult> {
+    this.charges.push(request);
+    return this.respond("ch");
+  }
+
+  async payout(request: PayoutRequest): Promise<GatewayResult> {
+    this.payouts.push(request);
+    return this.respond("po");
+  }
+
+  private respond(prefix: string): GatewayResult {
+    const reason = this.nextFailure;
+    this.nextFailure = undefined;
+    if (reason) {
+      return { ok: false, reason };
+    }
+    return { ok: true, reference: `fake_${prefix}_${randomBytes(8).toString("hex")}` };
+  }
+}
+
+// PAYMENT_GATEWAY picks the provider. Only the fake one exists so far; a
+// real provider is added here next to it. The fake one approves every charge
+// and payout, so production refuses it rather than pay out invented money.
+function createPaymentGateway(): PaymentGateway {
+  const kind = process.env.PAYMENT_GATEWAY || "fake";
+  if (kind === "fake" && process.env.NODE_ENV === "production") {
+    throw new Error("No payment gateway configured; set PAYMENT_GATEWAY to a real provider");
+  }
+
+  switch (kind) {
+    case "fake":
+      return new FakePaymentGateway();
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY "${kind}"`);
+  }
+}
+
+let paymentGateway: PaymentGateway | undefined;
+
+// Set up the gateway from the environment at startup, so a missing or wrong
+// setting stops the server instead of failing the first payment
+export function initPaymentGateway() {
+  paymentGateway = createPaymentGateway();
+}
+
+// Replace the gateway, e.g. with a FakePaymentGateway a test can inspect
+export function setPaymentGateway(gateway: PaymentGateway) {
+  paymentGateway = gateway;
+}
+
+export function getPaymentGateway(): PaymentGateway {
+  if (!paymentGateway) {
+    paymentGateway = createPaymentGateway();
+  }
+
+  return paymentGateway;
+}
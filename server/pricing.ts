@@ -0,0 +1,87 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { findPlace, distanceKm } from "@shared/gazetteer";
+import { FeeEstimate, FeeEstimateRequest, Offer, RateCard, rateCardSchema } from "@shared/schema";
+
+const RATE_CARD_KEY = "rate_card";
+
+// Used until an admin saves a rate card of their own
+export const defaultRateCard: RateCard = {
+  baseFee: 5000, // ₹50
+  perKm: 300, // ₹3 per km
+  includedWeight: 1000, // 1 kg
+  perKg: 2000, // ₹20 per extra kg
+  sizeMultipliers: { small: 1, medium: 1.25, large: 1.6 },
+  urgency: [
+    { withinDays: 1, multiplier: 1.5 },
+    { withinDays: 3, multiplier: 1.2 },
+  ],
+  rangeSpread: 0.15,
+  floorRatio: 0.5,
+  ceilingRatio: 3,
+  minFee: 2000, // ₹20
+  maxFee: 5000000, // ₹50,000
+};
+
+export async function getRateCard(): Promise<RateCard> {
+  const stored = await storage.getSetting(RATE_CARD_KEY);
+  if (stored === undefined) return defaultRateCard;
+
+  // A broken stored card must not stop deliveries from being created
+  const result = rateCardSchema.safeParse(stored);
+  if (!result.success) {
+    console.error("Invalid rate card in settings, using the default:", result.error.message);
+    return defaultRateCard;
+  }
+  return result.data;
+}
+
+export async function saveRateCard(rateCard: RateCard) {
+  await storage.setSetting(RATE_CARD_KEY, rateCard);
+}
+
+const roundToRupee = (amount: number) => Math.round(amount / 100) * 100;
+
+export function formatRupees(amount: number) {
+  return `₹${(amount / 100).toLocaleString("en-IN")}`;
+}
+
+// What accepting the offer would cost: the sender's counter-offer once the
+// carrier is asked to accept it, otherwise the carrier's price
+export function agreedPrice(offer: Pick<Offer, "status" | "price" | "counterPrice">) {
+  return offer.status === "countered" && offer.counterPrice ? offer.counterPrice : offer.price;
+}
+
+// Suggested fee from the straight-line distance, size, weight over the
+// included allowance and how soon the package is wanted
+export function estimateFee(request: FeeEstimateRequest, rateCard: RateCard, today = new Date()): FeeEstimate {
+  const pickup = findPlace(request.pickupLocation);
+  const drop = findPlace(request.dropLocation);
+  const distance = pickup && drop ? distanceKm(pickup, drop) : 0;
+
+  const extraKg = Math.max(request.packageWeight - rateCard.includedWeight, 0) / 1000;
+  const leadDays = Math.max(differenceInCalendarDays(parseISO(request.preferredDeliveryDate), today), 0);
+  const urgency = rateCard.urgency
+    .slice()
+    .sort((a, b) => a.withinDays - b.withinDays)
+    .find((tier) => leadDays <= tier.withinDays);
+
+  const suggested = roundToRupee(
+    (rateCard.baseFee + distance * rateCard.perKm + extraKg * rateCard.perKg) *
+    rateCard.sizeMultipliers[request.packageSize] *
+    (urgency?.multiplier ?? 1)
+  );
+
+  const floor = Math.max(rateCard.minFee, roundToRupee(suggested * rateCard.floorRatio));
+  const ceiling = Math.max(floor, Math.min(rateCard.maxFee, roundToRupee(suggested * rateCard.ceilingRatio)));
+  const clamp = (amount: number) => Math.min(Math.max(amount, floor), ceiling);
+
+  return {
+    suggested: clamp(suggested),
+    low: clamp(roundToRupee(suggested * (1 - rateCard.rangeSpread))),
+    high: clamp(roundToRupee(suggested * (1 + rateCard.rangeSpread))),
+    floor,
+    ceiling,
+    distanceKm: Math.round(distance * 10) / 10,
+  };
+}
@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { publishToUsers } from "./realtime";
+import { comparePasswords, hashPassword } from "./auth";
+import { changeRole } from "./roles";
+import { UpdateProfileInput, User } from "@shared/schema";
+
+export type ProfileResult =
+  | { ok: true; value: User }
+  | { ok: false; status: number; message: string };
+
+// Save the edited profile fields. A role change goes through changeRole
+// first, so nothing is saved when the role can't be dropped yet.
+export async function updateProfile(user: User, { role, ...fields }: UpdateProfileInput): Promise<ProfileResult> {
+  let updatedUser: User | undefined = user;
+
+  if (role !== undefined && role !== user.role) {
+    const roleChange = await changeRole(user, role);
+    if (!roleChange.ok) {
+      return roleChange;
+    }
+    updatedUser = roleChange.value;
+  }
+
+  if (Object.keys(fields).length > 0) {
+    updatedUser = await storage.updateUser(user.id, fields);
+    if (!updatedUser) {
+      return { ok: false, status: 404, message: "User not found" };
+    }
+    publishToUsers([user.id], { type: "user.updated" });
+  }
+
+  return { ok: true, value: updatedUser };
+}
+
+// Set a new password after confirming the current one. Bumping
+// passwordChangedAt signs out every other session; the route then restarts
+// the current one so it stays signed in.
+export async function changePassword(user: User, currentPassword: string, newPassword: string): Promise<ProfileResult> {
+  if (!(await comparePasswords(currentPassword, user.password))) {
+    return { ok: false, status: 400, message: "Your current password is incorrect" };
+  }
+
+  const updatedUser = await storage.updateUser(user.id, {
+    password: await hashPassword(newPassword),
+    passwordChangedAt: new Date(),
+  });
+  if (!updatedUser) {
+    return { ok: false, status: 404, message: "User not found" };
+  }
+
+  return { ok: true, value: updatedUser };
+}
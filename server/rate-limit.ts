@@ -0,0 +1,114 @@
+import type { Request, RequestHandler, Response } from "express";
+
+export interface RateLimitEntry {
+  count: number;
+  lastAt: number; // time of the latest hit, in ms
+  expiresAt: number; // the count starts over after this
+}
+
+// Counters behind rate limits and login throttling. The in-memory store
+// works for a single server; a shared store (e.g. Redis) can be plugged in
+// with setRateLimitStore when running several.
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | undefined>;
+  // Count a hit, starting a new window of windowMs if none is running
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor() {
+    // Drop finished windows so the map doesn't grow with every IP seen
+    setInterval(() => {
+      const now = Date.now();
+      Array.from(this.entries.entries())
+        .filter(([, entry]) => entry.expiresAt <= now)
+        .forEach(([key]) => this.entries.delete(key));
+    }, 60 * 1000).unref();
+  }
+
+  async get(key: string): Promise<RateLimitEntry | undefined> {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : undefined;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now();
+    const existing = await this.get(key);
+    const entry = existing
+      ? { ...existing, count: existing.count + 1, lastAt: now }
+      : { count: 1, lastAt: now, expiresAt: now + windowMs };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+// Replace the store, e.g. with a shared one or a fresh one in tests
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore = store;
+}
+
+export function getRateLimitStore() {
+  return rateLimitStore;
+}
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+// "45 seconds", "15 minutes" or "1 hour"
+export function formatWait(ms: number) {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) {
+    return plural(seconds, "second");
+  }
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) {
+    return plural(minutes, "minute");
+  }
+  return plural(Math.ceil(minutes / 60), "hour");
+}
+
+// Every limit answers the same way, so the client can show the message and
+// when to try again
+export function sendTooManyRequests(res: Response, retryAfterMs: number, message: string) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({ message: `${message} Try again in ${formatWait(retryAfterMs)}.`, retryAfter });
+}
+
+interface RateLimitOptions {
+  // Prefix that keeps the counters of different limits apart
+  name: string;
+  windowMs: number;
+  max: number;
+  message: string;
+  // Defaults to the client IP
+  key?: (req: Request) => string;
+  // Requests that don't count towards the limit
+  skip?: (req: Request) => boolean;
+}
+
+// Allow at most `max` requests per key in each window
+export function rateLimit({ name, windowMs, max, message, key = (req) => req.ip || "unknown", skip }: RateLimitOptions): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      if (skip?.(req)) {
+        return next();
+      }
+      const entry = await rateLimitStore.increment(`${name}:${key(req)}`, windowMs);
+      if (entry.count > max) {
+        return sendTooManyRequests(res, entry.expiresAt - Date.now(), message);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,109 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import type { SessionData } from "express-session";
+import { getSessionUser } from "./sessions";
+import { RealtimeEvent } from "@shared/schema";
+
+const WS_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Open sockets per user; a user can have several tabs or devices connected
+const connections = new Map<number, Set<WebSocket>>();
+const aliveSockets = new WeakSet<WebSocket>();
+
+// Close code telling the client its session was signed out
+const SIGNED_OUT_CODE = 4001;
+
+// Run the express-session middleware against the upgrade request and load
+// the user passport stored in the session, with the same checks as a
+// normal request
+async function getSessionUserId(req: IncomingMessage, sessionParser: RequestHandler) {
+  const session = await new Promise<(Partial<SessionData> & { passport?: { user?: unknown } }) | undefined>((resolve) => {
+    sessionParser(req as Request, {} as Response, () => resolve((req as Request).session));
+  });
+  const userId = session?.passport?.user;
+  if (!session || typeof userId !== "number") return undefined;
+
+  const user = await getSessionUser(session, userId);
+  return user?.id;
+}
+
+function addConnection(userId: number, socket: WebSocket) {
+  const sockets = connections.get(userId) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  connections.set(userId, sockets);
+
+  aliveSockets.add(socket);
+  socket.on("pong", () => aliveSockets.add(socket));
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      connections.delete(userId);
+    }
+  });
+}
+
+export function setupRealtime(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Other upgrade requests (e.g. Vite HMR in development) are not ours
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== WS_PATH) return;
+
+    const userId = await getSessionUserId(req, sessionParser).catch((error) => {
+      console.error("Error loading realtime session:", error);
+      return undefined;
+    });
+    if (!userId) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => addConnection(userId, ws));
+  });
+
+  // Drop sockets that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!aliveSockets.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      aliveSockets.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+// Close a user's sockets when they sign out, are signed out elsewhere or
+// are suspended. Tabs whose session is still valid reconnect on their own.
+export function disconnectUser(userId: number) {
+  connections.get(userId)?.forEach((socket) => socket.close(SIGNED_OUT_CODE, "Signed out"));
+  connections.delete(userId);
+}
+
+function send(socket: WebSocket, payload: string) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(payload);
+  }
+}
+
+// Push an event to specific users, e.g. the sender and carrier of a delivery
+export function publishToUsers(userIds: (number | null | undefined)[], event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+  new Set(userIds).forEach((userId) => {
+    if (userId == null) return;
+    connections.get(userId)?.forEach((socket) => send(socket, payload));
+  });
+}
+
+// Push an event to everyone connected; only used for public delivery data
+export function publishToAll(event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+  connections.forEach((sockets) => sockets.forEach((socket) => send(socket, payload)));
+}
@@ -0,0 +1,50 @@
+import { storage } from "./storage";
+import { publishToUsers } from "./realtime";
+import { hasRole } from "@shared/policy";
+import { DeliveryQuery, DeliveryStatus, User, UserRole } from "@shared/schema";
+
+// Deliveries a user still has to see through in each role
+const openSenderStatuses: DeliveryStatus[] = ["requested", "accepted", "picked", "disputed"];
+const openCarrierStatuses: DeliveryStatus[] = ["accepted", "picked", "disputed"];
+
+export type RoleChangeResult =
+  | { ok: true; value: User }
+  | { ok: false; status: number; message: string };
+
+async function countDeliveries(query: DeliveryQuery, statuses: DeliveryStatus[]) {
+  const pages = await Promise.all(statuses.map(status =>
+    storage.getDeliveriesWithFilters({ ...query, status }, { limit: 1, sort: "newest" })
+  ));
+  return pages.reduce((total, page) => total + page.total, 0);
+}
+
+// Switch between sending, carrying or both. A role can only be dropped once
+// its deliveries are finished; open offers are withdrawn when the user stops
+// carrying, so no sender accepts an offer the carrier can't take on.
+export async function changeRole(user: User, role: UserRole): Promise<RoleChangeResult> {
+  const dropsSending = hasRole(user, "sender") && !hasRole({ role }, "sender");
+  const dropsCarrying = hasRole(user, "carrier") && !hasRole({ role }, "carrier");
+
+  if (dropsSending && await countDeliveries({ senderId: user.id }, openSenderStatuses) > 0) {
+    return { ok: false, status: 409, message: "Finish or cancel your open delivery requests before you stop sending" };
+  }
+  if (dropsCarrying && await countDeliveries({ carrierId: user.id }, openCarrierStatuses) > 0) {
+    return { ok: false, status: 409, message: "Finish or release your accepted deliveries before you stop carrying" };
+  }
+
+  const updatedUser = await storage.updateUser(user.id, { role });
+  if (!updatedUser) {
+    return { ok: false, status: 404, message: "User not found" };
+  }
+
+  if (dropsCarrying) {
+    const withdrawnOffers = await storage.withdrawOpenOffers(user.id);
+    for (const offer of withdrawnOffers) {
+      const delivery = await storage.getDeliveryById(offer.deliveryId);
+      publishToUsers([delivery?.senderId, user.id], { type: "offers.updated", deliveryId: offer.deliveryId });
+    }
+  }
+
+  publishToUsers([user.id], { type: "user.updated" });
+  return { ok: true, value: updatedUser };
+}
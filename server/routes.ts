@@ -2,13 +2,173 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
+import { 
+  getOrIssueHandoffCode, 
+  isHandoffCodeNeeded, 
+  issueHandoffCode, 
+  verifyHandoffCode 
+} from "./handoff";
+import {
+  avatarKey,
+  avatarUpload,
+  imageUpload,
+  identityUpload,
+  removeAvatar,
+  saveAvatar,
+  saveDeliveryPhoto,
+  InvalidImageError,
+} from "./attachments";
+import { fileStorage } from "./file-storage";
+import { setupRealtime, publishToAll, publishToUsers, disconnectUser } from "./realtime";
+import { notify, describeDelivery } from "./notifications";
+import { InvalidCursorError } from "./pagination";
+import { geocodeDelivery, geocodeTrip } from "./geocoding";
+import { getTripMatches, notifyTripMatches } from "./trip-matching";
+import { estimateFee, formatRupees, getRateCard, saveRateCard } from "./pricing";
+import { InsufficientFundsError } from "./ledger";
+import {
+  getWalletSummary,
+  acceptOfferWithEscrow,
+  publishWalletUpdate,
+  refundEscrow,
+  releaseEscrow,
+  requestPayout,
+  topUpWallet,
+  PaymentFailedError,
+  PayoutsFrozenError,
+} from "./wallet";
+import { canOpenDispute, openDispute, publishDisputeUpdate, resolveDispute } from "./disputes";
+import { forceDeliveryStatus, setDeliveryHidden, setUserSuspended } from "./moderation";
+import { reviewVerification, submitVerification } from "./verification";
+import { requestPasswordReset, resetPassword } from "./password-reset";
+import { rateLimit } from "./rate-limit";
+import { changeEmail, resendEmailVerification, sameAddress, verifyEmail } from "./email-verification";
+import {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  resetTwoFactor,
+} from "./two-factor";
+import { getLoginHistory, listSessions, revokeOtherSessions, revokeSession, startSession } from "./sessions";
+import { changePassword, updateProfile } from "./profile";
 import { 
   createDeliverySchema, 
   insertReviewSchema,
-  deliveryStatusEnum
+  cancelDeliverySchema,
+  createOfferSchema,
+  counterOfferSchema,
+  createMessageSchema,
+  markNotificationsReadSchema,
+  updateEmailPreferencesSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  deliveryPageQuerySchema,
+  deliveryFiltersSchema,
+  tripFormSchema,
+  feeEstimateRequestSchema,
+  walletTopUpSchema,
+  payoutRequestSchema,
+  openDisputeSchema,
+  resolveDisputeSchema,
+  adminSearchSchema,
+  adminDeliveryFiltersSchema,
+  suspendUserSchema,
+  hideContentSchema,
+  forceDeliveryStatusSchema,
+  updateAdminAccessSchema,
+  rateCardSchema,
+  submitVerificationSchema,
+  reviewVerificationSchema,
+  verificationQueueQuerySchema,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+  twoFactorChallengeSchema,
+  resetTwoFactorSchema,
+  disputeStatusEnum,
+  deliveryStatusEnum,
+  handoffPurposeEnum,
+  attachmentKindEnum,
+  type Delivery,
+  type HandoffCodeWithRecipient,
+  type VerificationRequest,
+  type OwnVerificationRequest
 } from "@shared/schema";
+import {
+  canAcceptOffer,
+  canAddAttachment,
+  canCarry,
+  canCounterOffer,
+  canCreateDelivery,
+  canFollowDelivery,
+  canMakeOffer,
+  canManageHandoffCodes,
+  canManageTrip,
+  canMessage,
+  canModerate,
+  canPostTrip,
+  canReview,
+  canSetDeliveryStatus,
+  canWithdrawOffer,
+  isDeliveryParty,
+} from "@shared/policy";
 import { ZodError } from "zod";
 
+// Rows per admin user and review search; narrow the search to find more
+const ADMIN_LIST_LIMIT = 50;
+
+// Reset emails per IP, so the form can't be used to flood an inbox
+const passwordResetLimit = rateLimit({
+  name: "password-reset",
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  message: "Too many password reset requests.",
+});
+
+// Verification emails per user, so resending one or changing the address
+// can't be used to flood an inbox
+const emailVerificationLimitOptions = {
+  name: "email-verification",
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  message: "Too many verification emails requested.",
+  key: (req: Request) => String(req.user!.id),
+};
+const emailVerificationLimit = rateLimit(emailVerificationLimitOptions);
+
+// Same counter; saving the preferences without a new address sends nothing
+const emailChangeLimit = rateLimit({
+  ...emailVerificationLimitOptions,
+  skip: (req) => typeof req.body?.email !== "string" || sameAddress(req.user!.email, req.body.email.trim()),
+});
+
+// Password changes per user, so a signed-in browser left open can't be used
+// to guess the current password
+const passwordChangeLimit = rateLimit({
+  name: "password-change",
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: "Too many password change attempts.",
+  key: (req) => String(req.user!.id),
+});
+
+// Two-factor changes per user, so a signed-in browser can't be used to guess
+// the authenticator or recovery codes they check
+const twoFactorLimit = rateLimit({
+  name: "two-factor",
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: "Too many two-factor authentication attempts.",
+  key: (req) => String(req.user!.id),
+});
+
+function toOwnVerification({ documentKey, selfieKey, ...request }: VerificationRequest): OwnVerificationRequest {
+  return request;
+}
+
 // Middleware to check if user is authenticated
 const isAuthenticated = (req: Request, res: Response, next: Function) => {
   if (req.isAuthenticated()) {
@@ -17,6 +177,14 @@ const isAuthenticated = (req: Request, res: Response, next: Function) => {
   res.status(401).json({ message: "Unauthorized" });
 };
 
+// Middleware to check if user is marketplace staff; use after isAuthenticated
+const isAdmin = (req: Request, res: Response, next: Function) => {
+  if (req.user && canModerate(req.user)) {
+    return next();
+  }
+  res.status(403).json({ message: "Forbidden: Admins only" });
+};
+
 // Helper to format zod errors
 const formatZodError = (error: ZodError) => {
   return error.errors.map(err => ({
@@ -27,24 +195,73 @@ const formatZodError = (error: ZodError) => {
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes (/api/register, /api/login, /api/logout, /api/user)
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
+
+  // Password reset routes
+  // Email a reset link. The answer is the same whether or not the address
+  // belongs to an account.
+  app.post("/api/password-reset/request", passwordResetLimit, async (req, res) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      await requestPasswordReset(email);
+      res.json({ message: "If an account has verified that email address, we've sent it a link to reset the password" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to request a password reset" });
+    }
+  });
+
+  // Choose a new password with the token from the emailed link
+  app.post("/api/password-reset/confirm", async (req, res) => {
+    try {
+      const { token, password } = passwordResetConfirmSchema.parse(req.body);
+      
+      const result = await resetPassword(token, password);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      disconnectUser(result.value.id);
+      res.json({ message: "Your password has been changed. Sign in with the new password." });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
 
   // Deliveries routes
   // Get all deliveries (public route for available deliveries)
   app.get("/api/deliveries", async (req, res) => {
     try {
-      const { status, pickupLocation, dropLocation, packageSize } = req.query;
+      const filters = deliveryFiltersSchema.parse(req.query);
+      const page = deliveryPageQuerySchema.parse(req.query);
       
-      const filters: Record<string, any> = {};
-      
-      if (status) filters.status = status;
-      if (pickupLocation) filters.pickupLocation = pickupLocation;
-      if (dropLocation) filters.dropLocation = dropLocation;
-      if (packageSize) filters.packageSize = packageSize;
-      
-      const deliveries = await storage.getDeliveriesWithFilters(filters);
+      const deliveries = await storage.getDeliveriesWithFilters({ ...filters, hidden: false }, page);
       res.json(deliveries);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
       console.error("Error fetching deliveries:", error);
       res.status(500).json({ message: "Failed to fetch deliveries" });
     }
@@ -59,11 +276,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const delivery = await storage.getDeliveryById(deliveryId);
-      if (!delivery) {
+      // Hidden listings stay visible to their sender, carrier and admins
+      if (!delivery || (delivery.hiddenAt && !(req.user && canFollowDelivery(req.user, delivery)))) {
         return res.status(404).json({ message: "Delivery not found" });
       }
       
-      res.json(delivery);
+      // Public profiles, so viewers can see who they would deal with
+      const [sender, carrier] = await Promise.all([
+        storage.getUserProfile(delivery.senderId),
+        delivery.carrierId ? storage.getUserProfile(delivery.carrierId) : undefined,
+      ]);
+      
+      res.json({ ...delivery, sender, carrier });
     } catch (error) {
       console.error("Error fetching delivery:", error);
       res.status(500).json({ message: "Failed to fetch delivery" });
@@ -73,12 +297,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create a new delivery
   app.post("/api/deliveries", isAuthenticated, async (req, res) => {
     try {
-      const deliveryData = createDeliverySchema.parse({
+      const permission = canCreateDelivery(req.user!);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const { recipient, ...deliveryData } = createDeliverySchema.parse({
         ...req.body,
         senderId: req.user!.id,
       });
       
-      const delivery = await storage.createDelivery(deliveryData);
+      // Keep fees within the rate card's floor and ceiling for this delivery
+      const estimate = estimateFee(deliveryData, await getRateCard());
+      if (deliveryData.deliveryFee < estimate.floor || deliveryData.deliveryFee > estimate.ceiling) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: [{
+            path: "deliveryFee",
+            message: `Delivery fee must be between ${formatRupees(estimate.floor)} and ${formatRupees(estimate.ceiling)} for this delivery`,
+          }],
+        });
+      }
+      
+      const delivery = await storage.createDelivery(geocodeDelivery(deliveryData), recipient);
+      publishToAll({ type: "delivery.created", deliveryId: delivery.id });
+      await notifyTripMatches(delivery);
       res.status(201).json(delivery);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -93,6 +336,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Suggest a fee for a delivery being created
+  app.post("/api/pricing/estimate", async (req, res) => {
+    try {
+      const request = feeEstimateRequestSchema.parse(req.body);
+      res.json(estimateFee(request, await getRateCard()));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error estimating fee:", error);
+      res.status(500).json({ message: "Failed to estimate fee" });
+    }
+  });
+
   // Update delivery status
   app.patch("/api/deliveries/:id/status", isAuthenticated, async (req, res) => {
     try {
@@ -111,112 +372,347 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Delivery not found" });
       }
       
-      // Check permissions based on user role and delivery state
-      const isCarrier = req.user!.id === delivery.carrierId;
-      const isSender = req.user!.id === delivery.senderId;
+      // Which party may make this change; the rules below check the delivery's state
+      const permission = canSetDeliveryStatus(req.user!, delivery, status);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
       
-      if (!isCarrier && !isSender) {
-        return res.status(403).json({ message: "Forbidden: Not associated with this delivery" });
+      if (delivery.status === 'disputed') {
+        return res.status(409).json({ message: "This delivery is on hold until the dispute is resolved" });
       }
       
+      // Extra details recorded with the delivery event
+      let metadata: Record<string, unknown> | undefined;
+      // The pickup or drop-off code redeemed for this change
+      let handoffCodeId: number | undefined;
+      
       // Status transition rules
       if (status === 'accepted') {
-        if (delivery.status !== 'requested') {
-          return res.status(400).json({ message: "Can only accept deliveries with 'requested' status" });
-        }
-        if (!isCarrier) {
-          return res.status(403).json({ message: "Only carriers can accept deliveries" });
-        }
+        // Carriers are assigned by accepting an offer, never directly
+        return res.status(400).json({ message: "Deliveries are accepted through offers" });
       } else if (status === 'picked') {
         if (delivery.status !== 'accepted') {
           return res.status(400).json({ message: "Can only mark as picked when delivery is accepted" });
         }
-        if (!isCarrier) {
-          return res.status(403).json({ message: "Only carriers can mark as picked" });
+        
+        // The sender's pickup code proves the package changed hands
+        const verification = await verifyHandoffCode(deliveryId, 'pickup', req.body.code, req.user!.id);
+        if (!verification.ok) {
+          return res.status(verification.status).json({ message: verification.message });
         }
+        handoffCodeId = verification.handoffCode.id;
+        metadata = { handoffCodeId };
       } else if (status === 'delivered') {
         if (delivery.status !== 'picked') {
           return res.status(400).json({ message: "Can only mark as delivered when package is picked" });
         }
-        if (!isCarrier) {
-          return res.status(403).json({ message: "Only carriers can mark as delivered" });
+        
+        const attachments = await storage.getDeliveryAttachments(deliveryId);
+        const proofPhoto = attachments.find(
+          attachment => attachment.kind === 'proof_of_delivery' && attachment.uploaderId === req.user!.id
+        );
+        if (!proofPhoto) {
+          return res.status(400).json({ message: "Upload a proof-of-delivery photo first" });
+        }
+        
+        // The recipient's drop-off code proves the package arrived
+        const verification = await verifyHandoffCode(deliveryId, 'dropoff', req.body.code, req.user!.id);
+        if (!verification.ok) {
+          return res.status(verification.status).json({ message: verification.message });
+        }
+        handoffCodeId = verification.handoffCode.id;
+        metadata = { handoffCodeId, proofAttachmentId: proofPhoto.id };
+      } else if (status === 'requested') {
+        // A carrier releasing an accepted job puts it back on the market
+        if (delivery.status !== 'accepted') {
+          return res.status(400).json({ 
+            message: "Can only release a delivery before pickup; open a dispute instead" 
+          });
+        }
+        
+        const { reason, note } = cancelDeliverySchema.parse(req.body);
+        
+        // The sender gets back what was held, in the same transaction
+        const releasedDelivery = await storage.releaseDelivery(deliveryId, delivery.status, {
+          actorId: req.user!.id,
+          note,
+          metadata: { reason },
+        }, refundEscrow);
+        if (!releasedDelivery) {
+          return res.status(409).json({ message: "This delivery has just changed; reload it and try again" });
+        }
+        
+        publishWalletUpdate([delivery.senderId]);
+        publishToAll({ type: "delivery.updated", deliveryId });
+        await notify({
+          userId: delivery.senderId,
+          type: 'delivery_released',
+          deliveryId,
+          title: "Carrier released your delivery",
+          body: `${req.user!.fullName} can no longer carry ${describeDelivery(delivery)}. It is open for offers again.`,
+        });
+        await notifyTripMatches(releasedDelivery);
+        return res.json(releasedDelivery);
+      } else if (status === 'cancelled') {
+        if (delivery.status !== 'requested' && delivery.status !== 'accepted') {
+          return res.status(400).json({ 
+            message: "Can only cancel a delivery before pickup; open a dispute instead" 
+          });
+        }
+        
+        const { reason, note } = cancelDeliverySchema.parse(req.body);
+        
+        const cancelledDelivery = await storage.cancelDelivery(deliveryId, delivery.status, {
+          cancelledBy: req.user!.id,
+          reason,
+          note,
+        }, refundEscrow);
+        if (!cancelledDelivery) {
+          return res.status(409).json({ message: "This delivery has just changed; reload it and try again" });
+        }
+        
+        publishWalletUpdate([delivery.senderId]);
+        publishToAll({ type: "delivery.updated", deliveryId });
+        if (delivery.carrierId) {
+          await notify({
+            userId: delivery.carrierId,
+            type: 'delivery_cancelled',
+            deliveryId,
+            title: "Delivery cancelled",
+            body: `${req.user!.fullName} cancelled ${describeDelivery(delivery)}.`,
+          });
+        }
+        return res.json(cancelledDelivery);
+      }
+      
+      // A delivered package pays the carrier in the same transaction
+      let updatedDelivery: Delivery | undefined;
+      try {
+        updatedDelivery = await storage.updateDeliveryStatus(deliveryId, delivery.status, status, {
+          actorId: req.user!.id,
+          metadata,
+        }, status === 'delivered' ? releaseEscrow : undefined);
+      } finally {
+        // The handoff didn't go through, so its code has to keep working
+        if (!updatedDelivery && handoffCodeId) {
+          await storage.restoreHandoffCode(handoffCodeId);
         }
       }
+      if (!updatedDelivery) {
+        return res.status(409).json({ message: "This delivery has just changed; reload it and try again" });
+      }
       
-      const updatedDelivery = await storage.updateDeliveryStatus(deliveryId, status, 
-        status === 'accepted' ? req.user!.id : undefined);
+      if (status === 'delivered' && updatedDelivery.carrierId) {
+        publishWalletUpdate([updatedDelivery.carrierId]);
+      }
+      publishToAll({ type: "delivery.updated", deliveryId });
+      await notify(status === 'picked'
+        ? {
+          userId: delivery.senderId,
+          type: 'delivery_picked',
+          deliveryId,
+          title: "Package picked up",
+          body: `${req.user!.fullName} picked up your package for ${describeDelivery(delivery)}.`,
+        }
+        : {
+          userId: delivery.senderId,
+          type: 'delivery_delivered',
+          deliveryId,
+          title: "Package delivered",
+          body: `${req.user!.fullName} delivered your package for ${describeDelivery(delivery)}.`,
+        });
       res.json(updatedDelivery);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
       console.error("Error updating delivery status:", error);
       res.status(500).json({ message: "Failed to update delivery status" });
     }
   });
 
-  // Get user deliveries (as sender)
-  app.get("/api/user/deliveries/sender", isAuthenticated, async (req, res) => {
+  // Get the status history of a delivery
+  app.get("/api/deliveries/:id/events", async (req, res) => {
     try {
-      const deliveries = await storage.getSenderDeliveries(req.user!.id);
-      res.json(deliveries);
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      // Same visibility as the delivery itself
+      if (!delivery || (delivery.hiddenAt && !(req.user && canFollowDelivery(req.user, delivery)))) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const events = await storage.getDeliveryEvents(deliveryId);
+      
+      // Notes and metadata (reasons, code and offer ids) stay between the parties involved
+      const user = req.user;
+      const isParty = (actorId: number | null) =>
+        !!user && (isDeliveryParty(user, delivery) || user.id === actorId);
+      
+      res.json(events.map(event => isParty(event.actorId) 
+        ? event 
+        : { ...event, note: null, metadata: null }
+      ));
     } catch (error) {
-      console.error("Error fetching sender deliveries:", error);
-      res.status(500).json({ message: "Failed to fetch sender deliveries" });
+      console.error("Error fetching delivery events:", error);
+      res.status(500).json({ message: "Failed to fetch delivery events" });
     }
   });
 
-  // Get user deliveries (as carrier)
-  app.get("/api/user/deliveries/carrier", isAuthenticated, async (req, res) => {
+  // Offers routes
+  // Get offers for a delivery (sender sees all, carriers see their own)
+  app.get("/api/deliveries/:id/offers", isAuthenticated, async (req, res) => {
     try {
-      const deliveries = await storage.getCarrierDeliveries(req.user!.id);
-      res.json(deliveries);
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      // Same visibility as the delivery itself
+      if (!delivery || (delivery.hiddenAt && !canFollowDelivery(req.user!, delivery))) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const offers = await storage.getDeliveryOffers(deliveryId);
+      if (delivery.senderId === req.user!.id) {
+        return res.json(offers);
+      }
+      
+      res.json(offers.filter(offer => offer.carrierId === req.user!.id));
     } catch (error) {
-      console.error("Error fetching carrier deliveries:", error);
-      res.status(500).json({ message: "Failed to fetch carrier deliveries" });
+      console.error("Error fetching offers:", error);
+      res.status(500).json({ message: "Failed to fetch offers" });
     }
   });
 
-  // Reviews routes
-  // Create a review
-  app.post("/api/reviews", isAuthenticated, async (req, res) => {
+  // Submit an offer, or revise the carrier's open offer
+  app.post("/api/deliveries/:id/offers", isAuthenticated, async (req, res) => {
     try {
-      const reviewData = insertReviewSchema.parse({
-        ...req.body,
-        reviewerId: req.user!.id,
-      });
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
       
-      // Check if the delivery exists and is delivered
-      const delivery = await storage.getDeliveryById(reviewData.deliveryId);
+      const offerData = createOfferSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
       if (!delivery) {
         return res.status(404).json({ message: "Delivery not found" });
       }
       
-      if (delivery.status !== 'delivered') {
-        return res.status(400).json({ message: "Can only review completed deliveries" });
+      if (delivery.status !== 'requested') {
+        return res.status(400).json({ message: "Can only make offers on deliveries with 'requested' status" });
       }
       
-      // Check if user is associated with the delivery
-      const isCarrier = req.user!.id === delivery.carrierId;
-      const isSender = req.user!.id === delivery.senderId;
+      if (delivery.hiddenAt) {
+        return res.status(400).json({ message: "This delivery is no longer available" });
+      }
       
-      if (!isCarrier && !isSender) {
-        return res.status(403).json({ message: "Only participants in the delivery can leave reviews" });
+      const permission = canMakeOffer(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
       }
       
-      // Check if the reviewee is the other party in the delivery
-      if (reviewData.revieweeId !== (isSender ? delivery.carrierId : delivery.senderId)) {
-        return res.status(400).json({ message: "Invalid reviewee" });
+      // A revised offer replaces any counter-offer from the sender
+      const existingOffer = await storage.getOpenOfferByCarrier(deliveryId, req.user!.id);
+      if (existingOffer) {
+        const updatedOffer = await storage.updateOffer(existingOffer.id, {
+          ...offerData,
+          note: offerData.note ?? null,
+          status: 'pending',
+          counterPrice: null,
+          counterNote: null,
+        });
+        publishToUsers([delivery.senderId, req.user!.id], { type: "offers.updated", deliveryId });
+        await notify({
+          userId: delivery.senderId,
+          type: 'offer_received',
+          deliveryId,
+          title: "Offer updated",
+          body: `${req.user!.fullName} revised their offer for ${describeDelivery(delivery)}.`,
+        });
+        return res.json(updatedOffer);
       }
       
-      // Check if already reviewed
-      const existingReview = await storage.getReviewByDeliveryAndReviewer(
-        reviewData.deliveryId, req.user!.id
-      );
+      const offer = await storage.createOffer({
+        ...offerData,
+        deliveryId,
+        carrierId: req.user!.id,
+      });
+      publishToUsers([delivery.senderId, req.user!.id], { type: "offers.updated", deliveryId });
+      await notify({
+        userId: delivery.senderId,
+        type: 'offer_received',
+        deliveryId,
+        title: "New offer",
+        body: `${req.user!.fullName} made an offer for ${describeDelivery(delivery)}.`,
+      });
+      res.status(201).json(offer);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
       
-      if (existingReview) {
-        return res.status(400).json({ message: "You have already reviewed this delivery" });
+      console.error("Error creating offer:", error);
+      res.status(500).json({ message: "Failed to create offer" });
+    }
+  });
+
+  // Counter an offer (sender only)
+  app.post("/api/offers/:id/counter", isAuthenticated, async (req, res) => {
+    try {
+      const offerId = parseInt(req.params.id);
+      if (isNaN(offerId)) {
+        return res.status(400).json({ message: "Invalid offer ID" });
       }
       
-      const review = await storage.createReview(reviewData);
-      res.status(201).json(review);
+      const counterData = counterOfferSchema.parse(req.body);
+      
+      const offer = await storage.getOfferById(offerId);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      const delivery = await storage.getDeliveryById(offer.deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canCounterOffer(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      if (delivery.status !== 'requested' || offer.status !== 'pending') {
+        return res.status(400).json({ message: "Can only counter pending offers" });
+      }
+      
+      const updatedOffer = await storage.updateOffer(offerId, {
+        status: 'countered',
+        counterPrice: counterData.price,
+        counterNote: counterData.note ?? null,
+      });
+      publishToUsers([delivery.senderId, offer.carrierId], { type: "offers.updated", deliveryId: delivery.id });
+      await notify({
+        userId: offer.carrierId,
+        type: 'offer_countered',
+        deliveryId: delivery.id,
+        title: "Counter-offer received",
+        body: `${req.user!.fullName} sent a counter-offer for ${describeDelivery(delivery)}.`,
+      });
+      res.json(updatedOffer);
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ 
@@ -225,47 +721,1794 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      console.error("Error creating review:", error);
-      res.status(500).json({ message: "Failed to create review" });
+      console.error("Error countering offer:", error);
+      res.status(500).json({ message: "Failed to counter offer" });
     }
   });
 
-  // Get reviews for a user
-  app.get("/api/users/:id/reviews", async (req, res) => {
+  // Accept an offer: the sender accepts a pending offer, the carrier accepts a counter-offer
+  app.post("/api/offers/:id/accept", isAuthenticated, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
+      const offerId = parseInt(req.params.id);
+      if (isNaN(offerId)) {
+        return res.status(400).json({ message: "Invalid offer ID" });
       }
       
-      const reviews = await storage.getUserReviews(userId);
-      res.json(reviews);
+      const offer = await storage.getOfferById(offerId);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      const delivery = await storage.getDeliveryById(offer.deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const isSender = req.user!.id === delivery.senderId;
+      const permission = canAcceptOffer(req.user!, delivery, offer);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      if (offer.status !== 'pending' && offer.status !== 'countered') {
+        return res.status(400).json({ message: "This offer can no longer be accepted" });
+      }
+      
+      if (delivery.status !== 'requested') {
+        return res.status(409).json({ message: "This delivery has already been assigned" });
+      }
+      
+      const carrier = await storage.getUser(offer.carrierId);
+      // The carrier may have switched roles since making the offer
+      if (!carrier || !canCarry(carrier, delivery)) {
+        return res.status(403).json({ 
+          message: delivery.verifiedCarriersOnly 
+            ? "This delivery is limited to verified carriers" 
+            : "This carrier is no longer taking deliveries" 
+        });
+      }
+      
+      // The carrier is assigned together with holding the agreed price in escrow
+      const acceptedDelivery = await acceptOfferWithEscrow(delivery, offer, req.user!.id);
+      if (!acceptedDelivery) {
+        // Another offer won the race, the sender cancelled, or the offer was
+        // withdrawn or changed
+        return res.status(409).json({ message: "This offer or delivery has just changed; reload it and try again" });
+      }
+      
+      // Every carrier who made an offer learns whether theirs was taken
+      const offers = await storage.getDeliveryOffers(delivery.id);
+      publishToAll({ type: "delivery.updated", deliveryId: delivery.id });
+      publishToUsers(
+        [delivery.senderId, ...offers.map(({ carrierId }) => carrierId)],
+        { type: "offers.updated", deliveryId: delivery.id },
+      );
+      
+      await notify(isSender
+        ? {
+          userId: offer.carrierId,
+          type: 'offer_accepted',
+          deliveryId: delivery.id,
+          title: "Offer accepted",
+          body: `${req.user!.fullName} accepted your offer for ${describeDelivery(delivery)}.`,
+        }
+        : {
+          userId: delivery.senderId,
+          type: 'offer_accepted',
+          deliveryId: delivery.id,
+          title: "Counter-offer accepted",
+          body: `${req.user!.fullName} accepted your counter-offer for ${describeDelivery(delivery)}.`,
+        });
+      
+      const rejectedCarrierIds = new Set(offers
+        .filter(({ id, status }) => id !== offerId && status === 'rejected')
+        .map(({ carrierId }) => carrierId));
+      for (const carrierId of Array.from(rejectedCarrierIds)) {
+        await notify({
+          userId: carrierId,
+          type: 'offer_rejected',
+          deliveryId: delivery.id,
+          title: "Offer not selected",
+          body: `Another carrier was chosen for ${describeDelivery(delivery)}.`,
+        });
+      }
+      
+      // The recipient gets their drop-off code as soon as a carrier is on the
+      // way; the offer is accepted either way, so a failure here is only logged
+      getOrIssueHandoffCode(acceptedDelivery, 'dropoff').catch((error) => {
+        console.error("Error issuing drop-off code:", error);
+      });
+      
+      res.json(acceptedDelivery);
     } catch (error) {
-      console.error("Error fetching user reviews:", error);
-      res.status(500).json({ message: "Failed to fetch user reviews" });
+      if (error instanceof PaymentFailedError) {
+        return res.status(402).json({ message: error.message });
+      }
+      if (error instanceof InsufficientFundsError) {
+        return res.status(402).json({ message: "The sender's wallet doesn't cover this price" });
+      }
+      
+      console.error("Error accepting offer:", error);
+      res.status(500).json({ message: "Failed to accept offer" });
     }
   });
 
-  // Get user profile (public)
-  app.get("/api/users/:id/profile", async (req, res) => {
+  // Withdraw an offer (carrier only)
+  app.post("/api/offers/:id/withdraw", isAuthenticated, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
+      const offerId = parseInt(req.params.id);
+      if (isNaN(offerId)) {
+        return res.status(400).json({ message: "Invalid offer ID" });
       }
       
-      const user = await storage.getUserProfile(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const offer = await storage.getOfferById(offerId);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
       }
       
-      res.json(user);
+      const permission = canWithdrawOffer(req.user!, offer);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      if (offer.status !== 'pending' && offer.status !== 'countered') {
+        return res.status(400).json({ message: "This offer can no longer be withdrawn" });
+      }
+      
+      const updatedOffer = await storage.updateOffer(offerId, { status: 'withdrawn' });
+      
+      const delivery = await storage.getDeliveryById(offer.deliveryId);
+      publishToUsers([delivery?.senderId, offer.carrierId], { type: "offers.updated", deliveryId: offer.deliveryId });
+      
+      res.json(updatedOffer);
     } catch (error) {
-      console.error("Error fetching user profile:", error);
-      res.status(500).json({ message: "Failed to fetch user profile" });
+      console.error("Error withdrawing offer:", error);
+      res.status(500).json({ message: "Failed to withdraw offer" });
+    }
+  });
+
+  // Handoff codes routes
+  // Get the pickup and drop-off codes for a delivery (sender only)
+  app.get("/api/deliveries/:id/handoff-codes", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canManageHandoffCodes(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const recipient = await storage.getDeliveryRecipient(deliveryId);
+      const handoffCodes: HandoffCodeWithRecipient[] = [];
+      
+      for (const purpose of handoffPurposeEnum.enumValues) {
+        // Codes already used stay visible as a record of the handoff
+        const latest = await storage.getLatestHandoffCode(deliveryId, purpose);
+        const handoffCode = latest?.usedAt
+          ? latest
+          : isHandoffCodeNeeded(delivery, purpose) ? await getOrIssueHandoffCode(delivery, purpose) : undefined;
+        if (handoffCode) {
+          handoffCodes.push({ ...handoffCode, sentTo: purpose === "dropoff" ? recipient?.email ?? null : null });
+        }
+      }
+      
+      res.json(handoffCodes);
+    } catch (error) {
+      console.error("Error fetching handoff codes:", error);
+      res.status(500).json({ message: "Failed to fetch handoff codes" });
+    }
+  });
+
+  // Replace a handoff code, e.g. after it expired or was locked (sender only)
+  app.post("/api/deliveries/:id/handoff-codes/:purpose", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const purpose = handoffPurposeEnum.enumValues.find(value => value === req.params.purpose);
+      if (!purpose) {
+        return res.status(400).json({ message: "Invalid handoff code purpose" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canManageHandoffCodes(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      if (!isHandoffCodeNeeded(delivery, purpose)) {
+        return res.status(400).json({ message: `A ${purpose} code is not needed for this delivery` });
+      }
+      
+      const handoffCode = await issueHandoffCode(delivery, purpose);
+      res.status(201).json(handoffCode);
+    } catch (error) {
+      console.error("Error generating handoff code:", error);
+      res.status(500).json({ message: "Failed to generate handoff code" });
+    }
+  });
+
+  // Attachments routes
+  // Upload photos: package photos by the sender, proof of delivery by the carrier
+  app.post("/api/deliveries/:id/attachments", isAuthenticated, imageUpload, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const kind = attachmentKindEnum.enumValues.find(value => value === req.body.kind);
+      if (!kind) {
+        return res.status(400).json({ message: "Invalid attachment kind" });
+      }
+      
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No photos uploaded" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canAddAttachment(req.user!, delivery, kind);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      if (kind === 'package_photo') {
+        if (delivery.status !== 'requested' && delivery.status !== 'accepted') {
+          return res.status(400).json({ message: "Can only add package photos before pickup" });
+        }
+      } else if (kind === 'dispute_evidence') {
+        if (delivery.status !== 'disputed') {
+          return res.status(400).json({ message: "Evidence can only be added while a dispute is open" });
+        }
+      } else {
+        if (delivery.status !== 'picked') {
+          return res.status(400).json({ message: "Can only add proof of delivery while the package is in transit" });
+        }
+      }
+      
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await saveDeliveryPhoto(file, deliveryId, req.user!.id, kind));
+      }
+      
+      if (kind === 'dispute_evidence') {
+        await publishDisputeUpdate(delivery);
+      }
+      res.status(201).json(attachments);
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error uploading attachments:", error);
+      res.status(500).json({ message: "Failed to upload attachments" });
+    }
+  });
+
+  // List photos of a delivery (sender, carrier and mediators only)
+  app.get("/api/deliveries/:id/attachments", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      if (!canFollowDelivery(req.user!, delivery)) {
+        return res.status(403).json({ message: "Forbidden: Not associated with this delivery" });
+      }
+      
+      const attachments = await storage.getDeliveryAttachments(deliveryId);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Serve a photo or its thumbnail (sender, carrier and mediators only)
+  app.get("/api/attachments/:id/:variant(file|thumbnail)", isAuthenticated, async (req, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid attachment ID" });
+      }
+      
+      const attachment = await storage.getAttachmentById(attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const delivery = await storage.getDeliveryById(attachment.deliveryId);
+      if (!delivery || !canFollowDelivery(req.user!, delivery)) {
+        return res.status(403).json({ message: "Forbidden: Not associated with this delivery" });
+      }
+      
+      const key = req.params.variant === 'thumbnail' ? attachment.thumbnailKey : attachment.storageKey;
+      const data = await fileStorage.read(key);
+      if (!data) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      res.set("Cache-Control", "private, max-age=86400");
+      res.type(attachment.contentType).send(data);
+    } catch (error) {
+      console.error("Error serving attachment:", error);
+      res.status(500).json({ message: "Failed to serve attachment" });
+    }
+  });
+
+  // Disputes routes
+  // Open a dispute on a delivery (sender or carrier)
+  app.post("/api/deliveries/:id/disputes", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const input = openDisputeSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const check = await canOpenDispute(req.user!, delivery);
+      if (!check.ok) {
+        return res.status(check.status).json({ message: check.message });
+      }
+      
+      const dispute = await openDispute(req.user!, delivery, input);
+      if (!dispute) {
+        return res.status(409).json({ message: "This delivery can no longer be disputed" });
+      }
+      res.status(201).json(dispute);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error opening dispute:", error);
+      res.status(500).json({ message: "Failed to open dispute" });
+    }
+  });
+
+  // Get the disputes of a delivery, newest first (parties and mediators only)
+  app.get("/api/deliveries/:id/disputes", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      if (!canFollowDelivery(req.user!, delivery)) {
+        return res.status(403).json({ message: "Forbidden: Not associated with this delivery" });
+      }
+      
+      const disputes = await storage.getDeliveryDisputes(deliveryId);
+      res.json(disputes);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
+  // List disputes for the mediators; open ones come oldest first
+  app.get("/api/disputes", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const status = disputeStatusEnum.enumValues.find(value => value === req.query.status);
+      
+      const disputes = await storage.getDisputes(status);
+      res.json(disputes);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
+  // Get the conversation of a dispute (parties and mediators only)
+  app.get("/api/disputes/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const disputeId = parseInt(req.params.id);
+      if (isNaN(disputeId)) {
+        return res.status(400).json({ message: "Invalid dispute ID" });
+      }
+      
+      const dispute = await storage.getDisputeById(disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const delivery = await storage.getDeliveryById(dispute.deliveryId);
+      if (!delivery || !canFollowDelivery(req.user!, delivery)) {
+        return res.status(403).json({ message: "Forbidden: Not associated with this dispute" });
+      }
+      
+      const messages = await storage.getDisputeMessages(disputeId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching dispute messages:", error);
+      res.status(500).json({ message: "Failed to fetch dispute messages" });
+    }
+  });
+
+  // Post to the conversation of an open dispute
+  app.post("/api/disputes/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const disputeId = parseInt(req.params.id);
+      if (isNaN(disputeId)) {
+        return res.status(400).json({ message: "Invalid dispute ID" });
+      }
+      
+      const { body } = createMessageSchema.parse(req.body);
+      
+      const dispute = await storage.getDisputeById(disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const delivery = await storage.getDeliveryById(dispute.deliveryId);
+      if (!delivery || !canFollowDelivery(req.user!, delivery)) {
+        return res.status(403).json({ message: "Forbidden: Not associated with this dispute" });
+      }
+      
+      if (dispute.status !== 'open') {
+        return res.status(400).json({ message: "This dispute is closed" });
+      }
+      
+      const message = await storage.createDisputeMessage({
+        disputeId,
+        authorId: req.user!.id,
+        body,
+      });
+      await publishDisputeUpdate(delivery);
+      
+      // The mediators watch the dispute queue; the parties get a notification
+      const recipientIds = [delivery.senderId, delivery.carrierId]
+        .filter((id): id is number => id !== null && id !== req.user!.id);
+      for (const userId of recipientIds) {
+        await notify({
+          userId,
+          type: 'dispute_message',
+          deliveryId: delivery.id,
+          title: req.user!.isAdmin ? "Message from the mediator" : "New message in your dispute",
+          body: `${req.user!.fullName}: ${body.length > 140 ? `${body.slice(0, 140)}…` : body}`,
+        });
+      }
+      
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error posting dispute message:", error);
+      res.status(500).json({ message: "Failed to post dispute message" });
+    }
+  });
+
+  // Close a dispute and divide the held money (mediators only)
+  app.post("/api/disputes/:id/resolve", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const disputeId = parseInt(req.params.id);
+      if (isNaN(disputeId)) {
+        return res.status(400).json({ message: "Invalid dispute ID" });
+      }
+      
+      const input = resolveDisputeSchema.parse(req.body);
+      
+      const dispute = await storage.getDisputeById(disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const delivery = await storage.getDeliveryById(dispute.deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const result = await resolveDispute(req.user!, dispute, delivery, input);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.dispute);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error resolving dispute:", error);
+      res.status(500).json({ message: "Failed to resolve dispute" });
+    }
+  });
+
+  // Messages routes
+  // Get the message thread of a delivery (sender and assigned carrier only)
+  app.get("/api/deliveries/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canMessage(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const messages = await storage.getDeliveryMessages(deliveryId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Post a message (only while the delivery is in progress)
+  app.post("/api/deliveries/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const { body } = createMessageSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canMessage(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      // The thread is read-only once the delivery is finished
+      if (delivery.status !== 'accepted' && delivery.status !== 'picked') {
+        return res.status(400).json({ message: "This conversation is closed" });
+      }
+      
+      const message = await storage.createMessage({
+        deliveryId,
+        authorId: req.user!.id,
+        body,
+      });
+      publishToUsers([delivery.senderId, delivery.carrierId], { type: "messages.updated", deliveryId });
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error creating message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Mark the other party's messages as read
+  app.post("/api/deliveries/:id/messages/read", isAuthenticated, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const permission = canMessage(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const count = await storage.markMessagesRead(deliveryId, req.user!.id);
+      if (count > 0) {
+        // Lets the author's client show read receipts
+        publishToUsers([delivery.senderId, delivery.carrierId], { type: "messages.updated", deliveryId });
+      }
+      res.json({ count });
+    } catch (error) {
+      console.error("Error marking messages as read:", error);
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
+  // Get unread message counts across the user's deliveries
+  app.get("/api/messages/unread", isAuthenticated, async (req, res) => {
+    try {
+      const counts = await storage.getUnreadMessageCounts(req.user!.id);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching unread messages:", error);
+      res.status(500).json({ message: "Failed to fetch unread messages" });
+    }
+  });
+
+  // Notifications routes
+  // Get the user's latest notifications with the unread count
+  app.get("/api/notifications", isAuthenticated, async (req, res) => {
+    try {
+      const notifications = await storage.getUserNotifications(req.user!.id, 50);
+      const unreadCount = await storage.getUnreadNotificationCount(req.user!.id);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Mark notifications as read (all of them when no ids are given)
+  app.post("/api/notifications/read", isAuthenticated, async (req, res) => {
+    try {
+      const { ids } = markNotificationsReadSchema.parse(req.body);
+      
+      const count = await storage.markNotificationsRead(req.user!.id, ids);
+      if (count > 0) {
+        publishToUsers([req.user!.id], { type: "notifications.updated" });
+      }
+      res.json({ count });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  // Wallet routes
+  // Get the wallet balance and recent transactions
+  app.get("/api/wallet", isAuthenticated, async (req, res) => {
+    try {
+      const summary = await getWalletSummary(req.user!.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching wallet:", error);
+      res.status(500).json({ message: "Failed to fetch wallet" });
+    }
+  });
+
+  // Add money to the wallet through the payment gateway
+  app.post("/api/wallet/top-ups", isAuthenticated, async (req, res) => {
+    try {
+      const { amount } = walletTopUpSchema.parse(req.body);
+      
+      const transaction = await topUpWallet(req.user!.id, amount);
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof PaymentFailedError) {
+        return res.status(402).json({ message: error.message });
+      }
+      
+      console.error("Error topping up wallet:", error);
+      res.status(500).json({ message: "Failed to top up wallet" });
+    }
+  });
+
+  // Get the user's withdrawals
+  app.get("/api/wallet/payouts", isAuthenticated, async (req, res) => {
+    try {
+      const payouts = await storage.getUserPayouts(req.user!.id, 50);
+      res.json(payouts);
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  // Withdraw wallet money to the user's bank account
+  app.post("/api/wallet/payouts", isAuthenticated, async (req, res) => {
+    try {
+      const { amount } = payoutRequestSchema.parse(req.body);
+      
+      const payout = await requestPayout(req.user!.id, amount);
+      res.status(201).json(payout);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InsufficientFundsError) {
+        return res.status(400).json({ message: "Your wallet balance is too low for this withdrawal" });
+      }
+      if (error instanceof PayoutsFrozenError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentFailedError) {
+        return res.status(402).json({ message: error.message });
+      }
+      
+      console.error("Error requesting payout:", error);
+      res.status(500).json({ message: "Failed to request payout" });
+    }
+  });
+
+  // Update the email address and per-type opt-outs for notification emails
+  app.put("/api/user/email-preferences", isAuthenticated, emailChangeLimit, async (req, res) => {
+    try {
+      const { email, emailPreferences } = updateEmailPreferencesSchema.parse(req.body);
+      
+      const updatedUser = await changeEmail(req.user!, email, emailPreferences);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Remove password from response
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating email preferences:", error);
+      res.status(500).json({ message: "Failed to update email preferences" });
+    }
+  });
+
+  // Edit name, bio, phone, preferred cities and role
+  app.patch("/api/user", isAuthenticated, async (req, res) => {
+    try {
+      const input = updateProfileSchema.parse(req.body);
+      
+      const result = await updateProfile(req.user!, input);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      // Remove password from response
+      const { password, ...userWithoutPassword } = result.value;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  // Change the password; other devices are signed out, this one stays in
+  app.post("/api/user/password", isAuthenticated, passwordChangeLimit, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      
+      const result = await changePassword(req.user!, currentPassword, newPassword);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      startSession(req);
+      await revokeOtherSessions(result.value, req.sessionID);
+      disconnectUser(result.value.id);
+      res.json({ message: "Your password has been changed" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Upload a profile picture, cropped to a square by the browser
+  app.post("/api/user/avatar", isAuthenticated, avatarUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image uploaded" });
+      }
+      
+      const updatedUser = await saveAvatar(req.file, req.user!.id);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      publishToUsers([updatedUser.id], { type: "user.updated" });
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error uploading avatar:", error);
+      res.status(500).json({ message: "Failed to upload profile picture" });
+    }
+  });
+
+  // Remove the profile picture, back to the initial
+  app.delete("/api/user/avatar", isAuthenticated, async (req, res) => {
+    try {
+      const updatedUser = await removeAvatar(req.user!.id);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      publishToUsers([updatedUser.id], { type: "user.updated" });
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Error removing avatar:", error);
+      res.status(500).json({ message: "Failed to remove profile picture" });
+    }
+  });
+
+  // Send another email verification link
+  app.post("/api/user/email/verification", isAuthenticated, emailVerificationLimit, async (req, res) => {
+    try {
+      const result = await resendEmailVerification(req.user!);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ message: `We've sent a verification link to ${req.user!.email}` });
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ message: "Failed to send the verification email" });
+    }
+  });
+
+  // Redeem an email verification link. Works without signing in, since the
+  // link may be opened on another device.
+  app.post("/api/email-verification/confirm", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      
+      const result = await verifyEmail(token);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ message: `${result.value.email} is verified` });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // Two-factor authentication routes
+  // Whether 2FA is on and how many recovery codes are left
+  app.get("/api/user/two-factor", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!));
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Start enrollment: a new secret as a QR code
+  app.post("/api/user/two-factor/setup", isAuthenticated, async (req, res) => {
+    try {
+      const result = await beginTwoFactorSetup(req.user!);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error setting up two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to set up two-factor authentication" });
+    }
+  });
+
+  // Finish enrollment with a code from the app
+  app.post("/api/user/two-factor/enable", isAuthenticated, twoFactorLimit, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      
+      const result = await enableTwoFactor(req.user!, code);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ recoveryCodes: result.value });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/user/two-factor/disable", isAuthenticated, twoFactorLimit, async (req, res) => {
+    try {
+      const { code } = twoFactorChallengeSchema.parse(req.body);
+      
+      const result = await disableTwoFactor(req.user!, code);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ message: "Two-factor authentication is off" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Replace the recovery codes; the old ones stop working
+  app.post("/api/user/two-factor/recovery-codes", isAuthenticated, twoFactorLimit, async (req, res) => {
+    try {
+      const { code } = twoFactorChallengeSchema.parse(req.body);
+      
+      const result = await regenerateRecoveryCodes(req.user!, code);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ recoveryCodes: result.value });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Session routes
+  // Devices the user is signed in on
+  app.get("/api/user/sessions", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await listSessions(req.user!, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out every other device
+  app.delete("/api/user/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await revokeOtherSessions(req.user!, req.sessionID);
+      disconnectUser(req.user!.id);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to sign out other sessions" });
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const result = await revokeSession(req.user!, req.params.id, req.sessionID);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      disconnectUser(req.user!.id);
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // Recent sign-ins and failed attempts
+  app.get("/api/user/login-history", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await getLoginHistory(req.user!));
+    } catch (error) {
+      console.error("Error fetching login history:", error);
+      res.status(500).json({ message: "Failed to fetch login history" });
+    }
+  });
+
+  // Get the user's latest identity verification request, if any
+  app.get("/api/verification", isAuthenticated, async (req, res) => {
+    try {
+      const request = await storage.getLatestVerificationRequest(req.user!.id);
+      res.json(request ? toOwnVerification(request) : null);
+    } catch (error) {
+      console.error("Error fetching verification:", error);
+      res.status(500).json({ message: "Failed to fetch verification" });
+    }
+  });
+
+  // Submit an ID document and a selfie for review
+  app.post("/api/verification", isAuthenticated, identityUpload, async (req, res) => {
+    try {
+      const { documentType } = submitVerificationSchema.parse(req.body);
+      
+      const files = (req.files as Record<string, Express.Multer.File[]> | undefined) ?? {};
+      const document = files.document?.[0];
+      const selfie = files.selfie?.[0];
+      if (!document || !selfie) {
+        return res.status(400).json({ message: "Upload a photo of your ID document and a selfie" });
+      }
+      
+      const result = await submitVerification(req.user!, documentType, document, selfie);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.status(201).json(toOwnVerification(result.value));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error submitting verification:", error);
+      res.status(500).json({ message: "Failed to submit verification" });
+    }
+  });
+
+  // Get user deliveries (as sender)
+  app.get("/api/user/deliveries/sender", isAuthenticated, async (req, res) => {
+    try {
+      const page = deliveryPageQuerySchema.parse(req.query);
+      const deliveries = await storage.getDeliveriesWithFilters({ senderId: req.user!.id }, page);
+      res.json(deliveries);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error fetching sender deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch sender deliveries" });
+    }
+  });
+
+  // Get user deliveries (as carrier)
+  app.get("/api/user/deliveries/carrier", isAuthenticated, async (req, res) => {
+    try {
+      const page = deliveryPageQuerySchema.parse(req.query);
+      const deliveries = await storage.getDeliveriesWithFilters({ carrierId: req.user!.id }, page);
+      res.json(deliveries);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error fetching carrier deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch carrier deliveries" });
+    }
+  });
+
+  // Trips routes
+  // Get the user's trips with how many requested deliveries each could carry
+  app.get("/api/trips", isAuthenticated, async (req, res) => {
+    try {
+      const trips = await storage.getCarrierTrips(req.user!.id);
+      
+      const tripsWithMatches = await Promise.all(trips.map(async (trip) => {
+        const { total } = await getTripMatches(trip, { limit: 1, sort: 'newest' });
+        return { ...trip, matchCount: total };
+      }));
+      
+      res.json(tripsWithMatches);
+    } catch (error) {
+      console.error("Error fetching trips:", error);
+      res.status(500).json({ message: "Failed to fetch trips" });
+    }
+  });
+
+  // Post a trip (carriers only)
+  app.post("/api/trips", isAuthenticated, async (req, res) => {
+    try {
+      const permission = canPostTrip(req.user!);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const tripData = tripFormSchema.parse(req.body);
+      
+      const trip = await storage.createTrip({
+        ...geocodeTrip(tripData),
+        carrierId: req.user!.id,
+      });
+      res.status(201).json(trip);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error creating trip:", error);
+      res.status(500).json({ message: "Failed to create trip" });
+    }
+  });
+
+  // Edit a trip (owner only)
+  app.put("/api/trips/:id", isAuthenticated, async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      if (isNaN(tripId)) {
+        return res.status(400).json({ message: "Invalid trip ID" });
+      }
+      
+      const trip = await storage.getTripById(tripId);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      
+      const permission = canManageTrip(req.user!, trip);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const tripData = tripFormSchema.parse(req.body);
+      
+      const updatedTrip = await storage.updateTrip(tripId, geocodeTrip(tripData));
+      res.json(updatedTrip);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating trip:", error);
+      res.status(500).json({ message: "Failed to update trip" });
+    }
+  });
+
+  // Delete a trip (owner only)
+  app.delete("/api/trips/:id", isAuthenticated, async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      if (isNaN(tripId)) {
+        return res.status(400).json({ message: "Invalid trip ID" });
+      }
+      
+      const trip = await storage.getTripById(tripId);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      
+      const permission = canManageTrip(req.user!, trip);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      await storage.deleteTrip(tripId);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting trip:", error);
+      res.status(500).json({ message: "Failed to delete trip" });
+    }
+  });
+
+  // Get the requested deliveries a trip could carry
+  app.get("/api/trips/:id/matches", isAuthenticated, async (req, res) => {
+    try {
+      const tripId = parseInt(req.params.id);
+      if (isNaN(tripId)) {
+        return res.status(400).json({ message: "Invalid trip ID" });
+      }
+      
+      const trip = await storage.getTripById(tripId);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      
+      const permission = canManageTrip(req.user!, trip);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      const page = deliveryPageQuerySchema.parse(req.query);
+      const matches = await getTripMatches(trip, page);
+      res.json(matches);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error fetching trip matches:", error);
+      res.status(500).json({ message: "Failed to fetch trip matches" });
+    }
+  });
+
+  // Reviews routes
+  // Create a review
+  app.post("/api/reviews", isAuthenticated, async (req, res) => {
+    try {
+      const reviewData = insertReviewSchema.parse({
+        ...req.body,
+        reviewerId: req.user!.id,
+      });
+      
+      // Check if the delivery exists and is delivered
+      const delivery = await storage.getDeliveryById(reviewData.deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      if (delivery.status !== 'delivered') {
+        return res.status(400).json({ message: "Can only review completed deliveries" });
+      }
+      
+      const permission = canReview(req.user!, delivery);
+      if (!permission.ok) {
+        return res.status(403).json({ message: permission.message });
+      }
+      
+      // Check if the reviewee is the other party in the delivery
+      const isSender = req.user!.id === delivery.senderId;
+      if (reviewData.revieweeId !== (isSender ? delivery.carrierId : delivery.senderId)) {
+        return res.status(400).json({ message: "Invalid reviewee" });
+      }
+      
+      // Check if already reviewed
+      const existingReview = await storage.getReviewByDeliveryAndReviewer(
+        reviewData.deliveryId, req.user!.id
+      );
+      
+      if (existingReview) {
+        return res.status(400).json({ message: "You have already reviewed this delivery" });
+      }
+      
+      const review = await storage.createReview(reviewData);
+      await notify({
+        userId: review.revieweeId,
+        type: 'review_received',
+        deliveryId: review.deliveryId,
+        title: "New review",
+        body: `${req.user!.fullName} left you a ${review.rating}-star review.`,
+      });
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error creating review:", error);
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  // Get reviews for a user
+  app.get("/api/users/:id/reviews", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const reviews = await storage.getUserReviews(userId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching user reviews:", error);
+      res.status(500).json({ message: "Failed to fetch user reviews" });
+    }
+  });
+
+  // Get user profile (public)
+  app.get("/api/users/:id/profile", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const user = await storage.getUserProfile(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(user);
+    } catch (error) {
+      console.error("Error fetching user profile:", error);
+      res.status(500).json({ message: "Failed to fetch user profile" });
+    }
+  });
+
+  // Serve a profile picture (public). Links carry ?v=<avatarUpdatedAt>, so a
+  // new picture gets a new URL and the old one can be cached for long.
+  app.get("/api/users/:id/avatar", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const data = await fileStorage.read(avatarKey(userId));
+      if (!data) {
+        return res.status(404).json({ message: "Profile picture not found" });
+      }
+      
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      res.type("image/webp").send(data);
+    } catch (error) {
+      console.error("Error serving avatar:", error);
+      res.status(500).json({ message: "Failed to serve profile picture" });
+    }
+  });
+
+  // Admin routes
+  // Search users by username, name or email
+  app.get("/api/admin/users", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { q } = adminSearchSchema.parse(req.query);
+      
+      const users = await storage.searchUsers(q || undefined, ADMIN_LIST_LIMIT);
+      res.json(users);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error searching users:", error);
+      res.status(500).json({ message: "Failed to search users" });
+    }
+  });
+
+  // Suspend a user or lift the suspension
+  app.patch("/api/admin/users/:id/suspension", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const { suspended, reason } = suspendUserSchema.parse(req.body);
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const result = await setUserSuspended(req.user!, user, suspended ? reason! : null);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      const { password, ...userWithoutPassword } = result.value;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating suspension:", error);
+      res.status(500).json({ message: "Failed to update suspension" });
+    }
+  });
+
+  // Grant or revoke admin access
+  app.patch("/api/admin/users/:id/admin", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const { isAdmin: grantAdmin } = updateAdminAccessSchema.parse(req.body);
+      
+      // Keeps at least one admin able to undo mistakes
+      if (userId === req.user!.id && !grantAdmin) {
+        return res.status(400).json({ message: "You can't remove your own admin access" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (grantAdmin && user.suspendedAt) {
+        return res.status(400).json({ message: "Lift the suspension before granting admin access" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { isAdmin: grantAdmin });
+      const { password, ...userWithoutPassword } = updatedUser!;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating admin access:", error);
+      res.status(500).json({ message: "Failed to update admin access" });
+    }
+  });
+
+  // Turn off a user's 2FA when they can't sign in without it
+  app.post("/api/admin/users/:id/two-factor/reset", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const { reason } = resetTwoFactorSchema.parse(req.body);
+      
+      const result = await resetTwoFactor(userId, reason);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      const { password, ...userWithoutPassword } = result.value;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // List deliveries with the public filters, hidden listings included
+  app.get("/api/admin/deliveries", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const filters = adminDeliveryFiltersSchema.parse(req.query);
+      const page = deliveryPageQuerySchema.parse(req.query);
+      
+      const deliveries = await storage.getDeliveriesWithFilters(filters, page);
+      res.json(deliveries);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      console.error("Error fetching deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch deliveries" });
+    }
+  });
+
+  // Hide a listing from search and offers, or show it again
+  app.patch("/api/admin/deliveries/:id/visibility", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const { hidden, reason } = hideContentSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const updatedDelivery = await setDeliveryHidden(delivery, hidden ? reason! : null);
+      res.json(updatedDelivery);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating delivery visibility:", error);
+      res.status(500).json({ message: "Failed to update delivery visibility" });
+    }
+  });
+
+  // Override a delivery's status, recording the reason in its history
+  app.post("/api/admin/deliveries/:id/status", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const deliveryId = parseInt(req.params.id);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: "Invalid delivery ID" });
+      }
+      
+      const input = forceDeliveryStatusSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      
+      const result = await forceDeliveryStatus(req.user!, delivery, input);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.value);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error forcing delivery status:", error);
+      res.status(500).json({ message: "Failed to change delivery status" });
+    }
+  });
+
+  // Search reviews by comment or by either party's name
+  app.get("/api/admin/reviews", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { q } = adminSearchSchema.parse(req.query);
+      
+      const reviews = await storage.searchReviews(q || undefined, ADMIN_LIST_LIMIT);
+      res.json(reviews);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error searching reviews:", error);
+      res.status(500).json({ message: "Failed to search reviews" });
+    }
+  });
+
+  // Hide a review from profiles and ratings, or show it again
+  app.patch("/api/admin/reviews/:id/visibility", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      if (isNaN(reviewId)) {
+        return res.status(400).json({ message: "Invalid review ID" });
+      }
+      
+      const { hidden, reason } = hideContentSchema.parse(req.body);
+      
+      const review = await storage.getReviewById(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      const updatedReview = await storage.hideReview(reviewId, hidden ? reason! : null);
+      res.json(updatedReview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error updating review visibility:", error);
+      res.status(500).json({ message: "Failed to update review visibility" });
+    }
+  });
+
+  // List verification requests, pending ones oldest first
+  app.get("/api/admin/verifications", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { status } = verificationQueueQuerySchema.parse(req.query);
+      
+      const requests = await storage.getVerificationRequests(status);
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error fetching verifications:", error);
+      res.status(500).json({ message: "Failed to fetch verifications" });
+    }
+  });
+
+  // Serve the ID document or selfie of a verification request
+  app.get("/api/admin/verifications/:id/:variant(document|selfie)", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        return res.status(400).json({ message: "Invalid verification ID" });
+      }
+      
+      const request = await storage.getVerificationRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Verification not found" });
+      }
+      
+      const key = req.params.variant === 'selfie' ? request.selfieKey : request.documentKey;
+      const data = await fileStorage.read(key);
+      if (!data) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // Identity documents must not linger in shared caches
+      res.set("Cache-Control", "private, no-store");
+      res.type("image/webp").send(data);
+    } catch (error) {
+      console.error("Error serving verification file:", error);
+      res.status(500).json({ message: "Failed to serve verification file" });
+    }
+  });
+
+  // Approve or reject a verification request
+  app.post("/api/admin/verifications/:id/review", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        return res.status(400).json({ message: "Invalid verification ID" });
+      }
+      
+      const input = reviewVerificationSchema.parse(req.body);
+      
+      const request = await storage.getVerificationRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Verification not found" });
+      }
+      
+      const result = await reviewVerification(req.user!, request, input);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.value);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error reviewing verification:", error);
+      res.status(500).json({ message: "Failed to review verification" });
+    }
+  });
+
+  // Get the pricing rate card
+  app.get("/api/admin/rate-card", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await getRateCard());
+    } catch (error) {
+      console.error("Error fetching rate card:", error);
+      res.status(500).json({ message: "Failed to fetch rate card" });
+    }
+  });
+
+  // Replace the pricing rate card; new deliveries are priced with it
+  app.put("/api/admin/rate-card", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const rateCard = rateCardSchema.parse(req.body);
+      
+      await saveRateCard(rateCard);
+      res.json(rateCard);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: formatZodError(error) 
+        });
+      }
+      
+      console.error("Error saving rate card:", error);
+      res.status(500).json({ message: "Failed to save rate card" });
     }
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionParser);
   return httpServer;
 }
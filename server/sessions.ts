@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { SessionData } from "express-session";
+import { storage } from "./storage";
+import { ActiveSession, LoginHistoryEntry, LoginOutcome, StoredSession, User } from "@shared/schema";
+
+// How often a request refreshes the session's "last seen" time, so not
+// every request writes to the session store
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+// Entries shown in the login history on the profile
+const LOGIN_HISTORY_LIMIT = 20;
+
+export type SessionResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; message: string };
+
+// Browser and OS from a user agent, good enough to recognise a device
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\/|CriOS\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+}
+
+// Session IDs sign the cookie, so the browser only ever sees a hash of them
+const publicSessionId = (sid: string) => createHash("sha256").update(sid).digest("hex").slice(0, 24);
+
+// Record who signed in from where, right after req.login
+export function startSession(req: Request) {
+  const now = Date.now();
+  req.session.authenticatedAt = now;
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent") ?? "";
+  req.session.ip = req.ip ?? "";
+}
+
+// The user a session belongs to, or undefined once it no longer counts:
+// suspending a user or changing their password signs them out everywhere
+// else
+export async function getSessionUser(session: Partial<SessionData>, userId: number): Promise<User | undefined> {
+  const user = await storage.getUser(userId);
+  const signedInBeforePasswordChange = !!user?.passwordChangedAt &&
+    (session.authenticatedAt ?? 0) < user.passwordChangedAt.getTime();
+  return user && !user.suspendedAt && !signedInBeforePasswordChange ? user : undefined;
+}
+
+// Keeps "last seen" and the IP of signed-in sessions up to date
+export function touchSession(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    const stale = (req.session.lastSeenAt ?? 0) < Date.now() - LAST_SEEN_INTERVAL_MS;
+    if (stale || (req.ip && req.session.ip !== req.ip)) {
+      req.session.lastSeenAt = Date.now();
+      req.session.ip = req.ip ?? "";
+    }
+  }
+  next();
+}
+
+export async function recordLoginEvent(req: Request, userId: number, outcome: LoginOutcome) {
+  await storage.createLoginEvent({
+    userId,
+    outcome,
+    ip: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+  });
+}
+
+function toActiveSession(session: StoredSession, currentSid: string): ActiveSession {
+  return {
+    id: publicSessionId(session.sid),
+    device: describeDevice(session.userAgent),
+    ip: session.ip,
+    signedInAt: session.authenticatedAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.sid === currentSid,
+  };
+}
+
+// The user's signed-in sessions, the current one and then the most recent
+export async function listSessions(user: User, currentSid: string): Promise<ActiveSession[]> {
+  const sessions = await storage.getUserSessions(user.id);
+  return sessions
+    .map((session) => toActiveSession(session, currentSid))
+    .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt ?? 0) - (a.lastSeenAt ?? 0));
+}
+
+// Sign out one other device. The current session is signed out with
+// /api/logout instead.
+export async function revokeSession(user: User, id: string, currentSid: string): Promise<SessionResult<null>> {
+  const sessions = await storage.getUserSessions(user.id);
+  const session = sessions.find((s) => publicSessionId(s.sid) === id);
+  if (!session) {
+    return { ok: false, status: 404, message: "Session not found" };
+  }
+  if (session.sid === currentSid) {
+    return { ok: false, status: 400, message: "Use Log out to end your current session" };
+  }
+
+  await storage.deleteUserSessions(user.id, [session.sid]);
+  return { ok: true, value: null };
+}
+
+// Sign out everywhere except here, e.g. after using a shared computer
+export async function revokeOtherSessions(user: User, currentSid: string): Promise<number> {
+  const sessions = await storage.getUserSessions(user.id);
+  const others = sessions.filter((s) => s.sid !== currentSid).map((s) => s.sid);
+  return await storage.deleteUserSessions(user.id, others);
+}
+
+export async function getLoginHistory(user: User): Promise<LoginHistoryEntry[]> {
+  const events = await storage.getLoginEvents(user.id, LOGIN_HISTORY_LIMIT);
+  return events.map(({ userAgent, ...event }) => ({ ...event, device: describeDevice(userAgent) }));
+}
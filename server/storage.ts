@@ -1,11 +1,122 @@
-import { users, deliveries, reviews, type User, type InsertUser, type Delivery, 
-  type InsertDelivery, type Review, type InsertReview, type DeliveryWithUser } from "@shared/schema";
+import { users, deliveries, reviews, offers, handoffCodes, deliveryRecipients, attachments, messages, deliveryEvents, notifications, trips, settings,
+  ledgerAccounts, ledgerTransactions, ledgerEntries, payouts, disputes, disputeMessages, verificationRequests, passwordResetTokens, emailVerificationTokens,
+  twoFactorSecrets, twoFactorRecoveryCodes, sessions, loginEvents, type User, type InsertUser, type Delivery, 
+  type InsertDelivery, type DeliveryStatus, type Review, type InsertReview, type DeliveryWithUser,
+  type DeliveryCancellation, type Offer, type InsertOffer, type OfferWithCarrier,
+  type HandoffCode, type InsertHandoffCode, type HandoffPurpose,
+  type DeliveryRecipient, type InsertDeliveryRecipient,
+  type Attachment, type InsertAttachment, type Message, type InsertMessage,
+  type UnreadMessageCounts, type DeliveryEvent, type DeliveryEventWithActor,
+  type DeliveryTransition, type Notification, type InsertNotification,
+  type DeliveryPage, type DeliveryPageQuery, disputableStatuses, type DeliveryQuery, type Trip, type InsertTrip,
+  type Setting, type LedgerAccount, type LedgerTransaction, type LedgerEntry,
+  type InsertLedgerTransaction, type WalletTransaction, type Payout, type InsertPayout,
+  type Dispute, type InsertDispute, type DisputeWithDelivery, type DisputeResolution,
+  type DisputeMessage, type InsertDisputeMessage, type DisputeMessageWithAuthor,
+  type AdminUser, type ReviewWithUsers, type VerificationRequest, type InsertVerificationRequest,
+  type VerificationRequestWithUser, type PasswordResetToken, type InsertPasswordResetToken,
+  type EmailVerificationToken, type InsertEmailVerificationToken,
+  type TwoFactorSecret, type TwoFactorRecoveryCode, type LoginEvent, type InsertLoginEvent,
+  type StoredSession } from "@shared/schema";
+import { findPlace, distanceKm, type Coordinates } from "@shared/gazetteer";
 import { db } from "./db";
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { eq, and, or, ne, lt, gt, lte, gte, inArray, isNull, isNotNull, ilike, asc, desc, sql, getTableColumns } from "drizzle-orm";
+import { alias, type PgColumn } from "drizzle-orm/pg-core";
+import { deliverySorts, encodeCursor, decodeCursor } from "./pagination";
+import { geocodeDelivery } from "./geocoding";
+import { agreedPrice } from "./pricing";
+import {
+  assertBalanced,
+  ledgerAccountKey,
+  ledgerAccountValues,
+  mustStayPositive,
+  InsufficientFundsError,
+  type LedgerAccountRef,
+  type LedgerPosting,
+  type LedgerReader,
+  type LedgerSettlement,
+  type LedgerTransfer,
+} from "./ledger";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import session from "express-session";
+import { pool } from "./db";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Session data as stored, including the passport login
+type SessionRecord = Partial<session.SessionData> & { passport?: { user?: number } };
+
+function toStoredSession(sid: string, sess: SessionRecord): StoredSession {
+  return {
+    sid,
+    userAgent: sess.userAgent ?? null,
+    ip: sess.ip ?? null,
+    authenticatedAt: sess.authenticatedAt ?? null,
+    lastSeenAt: sess.lastSeenAt ?? null,
+  };
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Searchable text of a delivery; matches the deliveries_search_idx index
+const deliverySearchDocument = sql`to_tsvector('english', coalesce(${deliveries.description}, '') || ' ' || coalesce(${deliveries.specialInstructions}, ''))`;
+
+// In-memory stand-in for websearch_to_tsquery: every word has to start a
+// word of the text and "-word" excludes matches. Prefix matching roughly
+// covers what stemming does in Postgres.
+function matchesSearchQuery(text: string, query: string) {
+  const words = text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/);
+  
+  return query.toLowerCase().split(/\s+/).every(term => {
+    const isExcluded = term.startsWith("-");
+    const searchWord = term.replace(/[^a-z0-9\u00c0-\uffff]/g, "");
+    if (!searchWord) return true;
+    
+    const found = words.some(word => word.startsWith(searchWord));
+    return isExcluded ? !found : found;
+  });
+}
+
+type SearchArea = Coordinates & { radiusKm: number };
+
+// Centre and radius of a "near" search; coordinates take precedence over
+// a place name
+function searchOrigin(filters: DeliveryQuery): SearchArea | undefined {
+  if (filters.radiusKm === undefined) return undefined;
+  
+  if (filters.nearLat !== undefined && filters.nearLng !== undefined) {
+    return { lat: filters.nearLat, lng: filters.nearLng, radiusKm: filters.radiusKm };
+  }
+  
+  const place = filters.near ? findPlace(filters.near) : undefined;
+  return place && { lat: place.lat, lng: place.lng, radiusKm: filters.radiusKm };
+}
+
+// Conditions for a point column pair lying within the area. A bounding box
+// narrows the rows using the coordinates index before the exact haversine
+// distance is checked.
+function withinArea(latColumn: PgColumn, lngColumn: PgColumn, area: SearchArea) {
+  const latDelta = area.radiusKm / 111.32;
+  const lngDelta = area.radiusKm / (111.32 * Math.max(Math.cos(area.lat * Math.PI / 180), 0.01));
+  
+  return [
+    gte(latColumn, area.lat - latDelta),
+    lte(latColumn, area.lat + latDelta),
+    gte(lngColumn, area.lng - lngDelta),
+    lte(lngColumn, area.lng + lngDelta),
+    sql`2 * 6371 * asin(sqrt(
+      power(sin(radians(${latColumn} - ${area.lat}) / 2), 2) +
+      cos(radians(${area.lat})) * cos(radians(${latColumn})) *
+      power(sin(radians(${lngColumn} - ${area.lng}) / 2), 2)
+    )) <= ${area.radiusKm}`,
+  ];
+}
+
+function isWithinArea(lat: number | null, lng: number | null, area: SearchArea) {
+  return lat !== null && lng !== null && distanceKm(area, { lat, lng }) <= area.radiusKm;
+}
 
 // Define storage interface
 export interface IStorage {
@@ -13,31 +124,151 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
   getUserProfile(userId: number): Promise<Partial<User> | undefined>;
+  getAdminUsers(): Promise<User[]>;
+  searchUsers(query: string | undefined, limit: number): Promise<AdminUser[]>;
+  getUsersByEmail(email: string): Promise<User[]>;
+  
+  // Password reset methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  redeemPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  
+  // Email verification methods
+  createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken>;
+  redeemEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+  
+  // Two-factor authentication methods
+  getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined>;
+  saveTwoFactorSecret(userId: number, encryptedSecret: string): Promise<TwoFactorSecret>;
+  recordTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTwoFactor(userId: number): Promise<User | undefined>;
+  replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void>;
+  redeemRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
   
   // Delivery methods
-  getDeliveriesWithFilters(filters: Record<string, any>): Promise<DeliveryWithUser[]>;
+  getDeliveriesWithFilters(filters: DeliveryQuery, page: DeliveryPageQuery): Promise<DeliveryPage>;
   getDeliveryById(id: number): Promise<Delivery | undefined>;
-  createDelivery(delivery: InsertDelivery): Promise<Delivery>;
-  updateDeliveryStatus(id: number, status: string, carrierId?: number): Promise<Delivery | undefined>;
-  getSenderDeliveries(userId: number): Promise<DeliveryWithUser[]>;
-  getCarrierDeliveries(userId: number): Promise<DeliveryWithUser[]>;
+  createDelivery(delivery: InsertDelivery, recipient?: Omit<InsertDeliveryRecipient, "deliveryId">): Promise<Delivery>;
+  getDeliveryRecipient(deliveryId: number): Promise<DeliveryRecipient | undefined>;
+  // Status changes only apply while the delivery still has fromStatus, the
+  // status the caller checked; otherwise nothing changes and they return
+  // undefined. The settlement is posted in the same transaction.
+  updateDeliveryStatus(id: number, fromStatus: DeliveryStatus, status: DeliveryStatus, transition: DeliveryTransition, settlement?: LedgerSettlement): Promise<Delivery | undefined>;
+  cancelDelivery(id: number, fromStatus: DeliveryStatus, cancellation: DeliveryCancellation, settlement?: LedgerSettlement): Promise<Delivery | undefined>;
+  releaseDelivery(id: number, fromStatus: DeliveryStatus, transition: DeliveryTransition, settlement?: LedgerSettlement): Promise<Delivery | undefined>;
+  hideDelivery(id: number, reason: string | null): Promise<Delivery | undefined>;
+  
+  // Offer methods
+  createOffer(offer: InsertOffer): Promise<Offer>;
+  getOfferById(id: number): Promise<Offer | undefined>;
+  getDeliveryOffers(deliveryId: number): Promise<OfferWithCarrier[]>;
+  getOpenOfferByCarrier(deliveryId: number, carrierId: number): Promise<Offer | undefined>;
+  updateOffer(id: number, updates: Partial<Offer>): Promise<Offer | undefined>;
+  withdrawOpenOffers(carrierId: number): Promise<Offer[]>;
+  // Assigns the carrier and posts the escrow hold, built for the price of the
+  // offer as it is when accepted, together; undefined when the offer is no
+  // longer open or the delivery no longer requested
+  acceptOffer(offerId: number, actorId: number, escrowHold: (price: number) => LedgerTransfer): Promise<Delivery | undefined>;
+  
+  // Delivery event methods
+  getDeliveryEvents(deliveryId: number): Promise<DeliveryEventWithActor[]>;
+  
+  // Handoff code methods
+  createHandoffCode(handoffCode: InsertHandoffCode): Promise<HandoffCode>;
+  getLatestHandoffCode(deliveryId: number, purpose: HandoffPurpose): Promise<HandoffCode | undefined>;
+  // Both only change a code that is still unused, unexpired and below
+  // maxAttempts failures, so concurrent submissions can't both get through;
+  // otherwise they return undefined
+  redeemHandoffCode(id: number, usedBy: number, maxAttempts: number): Promise<HandoffCode | undefined>;
+  recordFailedHandoffAttempt(id: number, maxAttempts: number): Promise<HandoffCode | undefined>;
+  // Make a redeemed code usable again, e.g. when the handoff it proved didn't happen
+  restoreHandoffCode(id: number): Promise<HandoffCode | undefined>;
+  
+  // Attachment methods
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachmentById(id: number): Promise<Attachment | undefined>;
+  getDeliveryAttachments(deliveryId: number): Promise<Attachment[]>;
+  
+  // Message methods
+  createMessage(message: InsertMessage): Promise<Message>;
+  getDeliveryMessages(deliveryId: number): Promise<Message[]>;
+  markMessagesRead(deliveryId: number, readerId: number): Promise<number>;
+  getUnreadMessageCounts(userId: number): Promise<UnreadMessageCounts>;
+  
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getUserNotifications(userId: number, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+  
+  // Trip methods
+  createTrip(trip: InsertTrip): Promise<Trip>;
+  getTripById(id: number): Promise<Trip | undefined>;
+  getCarrierTrips(carrierId: number): Promise<Trip[]>;
+  getUpcomingTrips(fromDate: string): Promise<Trip[]>;
+  updateTrip(id: number, updates: Partial<InsertTrip>): Promise<Trip | undefined>;
+  deleteTrip(id: number): Promise<boolean>;
+  
+  // Setting methods
+  getSetting(key: string): Promise<unknown | undefined>;
+  setSetting(key: string, value: unknown): Promise<Setting>;
+  
+  // Ledger methods
+  postLedgerTransaction(transaction: InsertLedgerTransaction, postings: LedgerPosting[]): Promise<LedgerTransaction>;
+  getLedgerBalance(account: LedgerAccountRef): Promise<number>;
+  getLedgerActivity(account: LedgerAccountRef, limit: number): Promise<WalletTransaction[]>;
+  
+  // Payout methods
+  createPayout(payout: InsertPayout): Promise<Payout>;
+  updatePayout(id: number, updates: Partial<Payout>): Promise<Payout | undefined>;
+  getUserPayouts(userId: number, limit: number): Promise<Payout[]>;
+  
+  // Dispute methods
+  openDispute(dispute: InsertDispute, settlement?: LedgerSettlement): Promise<Dispute | undefined>;
+  getDisputeById(id: number): Promise<Dispute | undefined>;
+  getDeliveryDisputes(deliveryId: number): Promise<Dispute[]>;
+  getDisputes(status?: Dispute["status"]): Promise<DisputeWithDelivery[]>;
+  resolveDispute(id: number, resolution: DisputeResolution, deliveryStatus: Delivery["status"], settlement?: LedgerSettlement): Promise<Dispute | undefined>;
+  hasOpenDispute(userId: number): Promise<boolean>;
+  createDisputeMessage(message: InsertDisputeMessage): Promise<DisputeMessage>;
+  getDisputeMessages(disputeId: number): Promise<DisputeMessageWithAuthor[]>;
+  
+  // Identity verification methods
+  createVerificationRequest(request: InsertVerificationRequest): Promise<VerificationRequest>;
+  getVerificationRequestById(id: number): Promise<VerificationRequest | undefined>;
+  getLatestVerificationRequest(userId: number): Promise<VerificationRequest | undefined>;
+  getVerificationRequests(status: VerificationRequest["status"]): Promise<VerificationRequestWithUser[]>;
+  reviewVerificationRequest(id: number, reviewedBy: number, approved: boolean, note: string | null): Promise<VerificationRequest | undefined>;
   
   // Review methods
   createReview(review: InsertReview): Promise<Review>;
   getUserReviews(userId: number): Promise<(Review & { reviewer: Partial<User> })[]>;
+  getReviewById(id: number): Promise<Review | undefined>;
+  searchReviews(query: string | undefined, limit: number): Promise<ReviewWithUsers[]>;
+  hideReview(id: number, reason: string | null): Promise<Review | undefined>;
   getReviewByDeliveryAndReviewer(deliveryId: number, reviewerId: number): Promise<Review | undefined>;
   
+  // Login history methods
+  createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent>;
+  getLoginEvents(userId: number, limit: number): Promise<LoginEvent[]>;
+  
   // Session store
   sessionStore: session.Store;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  deleteUserSessions(userId: number, sids: string[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
   
   constructor() {
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000, // prune expired entries every 24h
+    // Sessions survive restarts and deploys
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
     });
   }
   
@@ -60,15 +291,29 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+      
+    return updatedUser;
+  }
+  
   async getUserProfile(userId: number): Promise<Partial<User> | undefined> {
     const [user] = await db
       .select({
         id: users.id,
         username: users.username,
         fullName: users.fullName,
+        bio: users.bio,
+        preferredCities: users.preferredCities,
+        avatarUpdatedAt: users.avatarUpdatedAt,
         role: users.role,
         rating: users.rating,
         totalReviews: users.totalReviews,
+        verifiedAt: users.verifiedAt,
       })
       .from(users)
       .where(eq(users.id, userId));
@@ -76,22 +321,210 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
-  // Delivery methods
-  async getDeliveriesWithFilters(filters: Record<string, any>): Promise<DeliveryWithUser[]> {
-    let query = db
-      .select({
-        delivery: deliveries,
-        sender: {
-          id: users.id,
-          username: users.username,
-          fullName: users.fullName,
-          rating: users.rating,
-          totalReviews: users.totalReviews,
-        },
+  async getAdminUsers(): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.isAdmin, true));
+  }
+  
+  async searchUsers(query: string | undefined, limit: number): Promise<AdminUser[]> {
+    const { password, ...columns } = getTableColumns(users);
+    const pattern = `%${query ?? ""}%`;
+    
+    return await db
+      .select(columns)
+      .from(users)
+      .where(query
+        ? or(ilike(users.username, pattern), ilike(users.fullName, pattern), ilike(users.email, pattern))
+        : undefined)
+      .orderBy(desc(users.id))
+      .limit(limit);
+  }
+  
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+  }
+  
+  // Password reset methods
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return await db.transaction(async (tx) => {
+      // Only the most recent link works
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, token.userId), isNull(passwordResetTokens.usedAt)));
+        
+      const [createdToken] = await tx
+        .insert(passwordResetTokens)
+        .values(token)
+        .returning();
+        
+      return createdToken;
+    });
+  }
+  
+  async redeemPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    // Marking the token used in the same statement keeps it single-use
+    const [redeemedToken] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+      
+    return redeemedToken;
+  }
+  
+  // Email verification methods
+  async createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    return await db.transaction(async (tx) => {
+      // Only the link for the current address works
+      await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(emailVerificationTokens.userId, token.userId), isNull(emailVerificationTokens.usedAt)));
+        
+      const [createdToken] = await tx
+        .insert(emailVerificationTokens)
+        .values(token)
+        .returning();
+        
+      return createdToken;
+    });
+  }
+  
+  async redeemEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const [redeemedToken] = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(emailVerificationTokens.tokenHash, tokenHash),
+          isNull(emailVerificationTokens.usedAt),
+          gt(emailVerificationTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+      
+    return redeemedToken;
+  }
+  
+  // Two-factor authentication methods
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    const [secret] = await db
+      .select()
+      .from(twoFactorSecrets)
+      .where(eq(twoFactorSecrets.userId, userId));
+      
+    return secret;
+  }
+  
+  async saveTwoFactorSecret(userId: number, encryptedSecret: string): Promise<TwoFactorSecret> {
+    const [secret] = await db
+      .insert(twoFactorSecrets)
+      .values({ userId, encryptedSecret })
+      .onConflictDoUpdate({
+        target: twoFactorSecrets.userId,
+        set: { encryptedSecret, lastUsedStep: null, createdAt: new Date() },
       })
-      .from(deliveries)
-      .leftJoin(users, eq(deliveries.senderId, users.id))
-      .orderBy(desc(deliveries.createdAt));
+      .returning();
+      
+    return secret;
+  }
+  
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    // Conditional update so two requests can't both use the same code
+    const updated = await db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(
+        and(
+          eq(twoFactorSecrets.userId, userId),
+          or(isNull(twoFactorSecrets.lastUsedStep), lt(twoFactorSecrets.lastUsedStep, step))
+        )
+      )
+      .returning();
+      
+    return updated.length > 0;
+  }
+  
+  async enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.insertRecoveryCodes(tx, userId, recoveryCodeHashes);
+      
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+        
+      return updatedUser;
+    });
+  }
+  
+  async disableTwoFactor(userId: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+      
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: null })
+        .where(eq(users.id, userId))
+        .returning();
+        
+      return updatedUser;
+    });
+  }
+  
+  async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.insertRecoveryCodes(tx, userId, recoveryCodeHashes);
+    });
+  }
+  
+  // Old codes stop working as soon as new ones exist
+  private async insertRecoveryCodes(tx: Transaction, userId: number, recoveryCodeHashes: string[]) {
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx
+      .insert(twoFactorRecoveryCodes)
+      .values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+  }
+  
+  async redeemRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const redeemed = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(twoFactorRecoveryCodes.userId, userId),
+          eq(twoFactorRecoveryCodes.codeHash, codeHash),
+          isNull(twoFactorRecoveryCodes.usedAt)
+        )
+      )
+      .returning();
+      
+    return redeemed.length > 0;
+  }
+  
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+      
+    return result.count;
+  }
+  
+  // Delivery methods
+  async getDeliveriesWithFilters(filters: DeliveryQuery, page: DeliveryPageQuery): Promise<DeliveryPage> {
+    const carriers = alias(users, "carriers");
     
     // Apply filters
     const conditions = [];
@@ -100,29 +533,136 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(deliveries.status, filters.status));
     }
     
-    if (filters.pickupLocation) {
-      conditions.push(eq(deliveries.pickupLocation, filters.pickupLocation));
+    if (filters.pickupLocations) {
+      conditions.push(inArray(deliveries.pickupLocation, filters.pickupLocations));
+    }
+    
+    if (filters.dropLocations) {
+      conditions.push(inArray(deliveries.dropLocation, filters.dropLocations));
+    }
+    
+    if (filters.packageSizes) {
+      conditions.push(inArray(deliveries.packageSize, filters.packageSizes));
+    }
+    
+    if (filters.minFee !== undefined) {
+      conditions.push(gte(deliveries.deliveryFee, filters.minFee));
+    }
+    
+    if (filters.maxFee !== undefined) {
+      conditions.push(lte(deliveries.deliveryFee, filters.maxFee));
+    }
+    
+    if (filters.minWeight !== undefined) {
+      conditions.push(gte(deliveries.packageWeight, filters.minWeight));
+    }
+    
+    if (filters.maxWeight !== undefined) {
+      conditions.push(lte(deliveries.packageWeight, filters.maxWeight));
+    }
+    
+    // Preferred dates are stored as YYYY-MM-DD text, which sorts chronologically
+    if (filters.dateFrom) {
+      conditions.push(gte(deliveries.preferredDeliveryDate, filters.dateFrom));
+    }
+    
+    if (filters.dateTo) {
+      conditions.push(lte(deliveries.preferredDeliveryDate, filters.dateTo));
+    }
+    
+    if (filters.q) {
+      conditions.push(sql`${deliverySearchDocument} @@ websearch_to_tsquery('english', ${filters.q})`);
+    }
+    
+    const origin = searchOrigin(filters);
+    if (origin) {
+      conditions.push(...withinArea(deliveries.pickupLat, deliveries.pickupLng, origin));
+    }
+    
+    if (filters.dropNear) {
+      conditions.push(...withinArea(deliveries.dropLat, deliveries.dropLng, filters.dropNear));
+    }
+    
+    if (filters.hidden !== undefined) {
+      conditions.push(filters.hidden ? isNotNull(deliveries.hiddenAt) : isNull(deliveries.hiddenAt));
+    }
+    
+    if (filters.senderId) {
+      conditions.push(eq(deliveries.senderId, filters.senderId));
     }
     
-    if (filters.dropLocation) {
-      conditions.push(eq(deliveries.dropLocation, filters.dropLocation));
+    if (filters.excludeSenderId) {
+      conditions.push(ne(deliveries.senderId, filters.excludeSenderId));
     }
     
-    if (filters.packageSize) {
-      conditions.push(eq(deliveries.packageSize, filters.packageSize));
+    if (filters.carrierId) {
+      conditions.push(eq(deliveries.carrierId, filters.carrierId));
     }
     
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    const [{ total }] = await db
+      .select({ total: sql<number>`COUNT(*)::int` })
+      .from(deliveries)
+      .where(and(...conditions));
+    
+    // Keyset pagination: continue after the last item of the previous page
+    const { key, direction } = deliverySorts[page.sort];
+    const column = deliveries[key];
+    const compare = direction === "desc" ? lt : gt;
+    const order = direction === "desc" ? desc : asc;
+    
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor, page.sort);
+      conditions.push(
+        or(
+          compare(column, cursor.value),
+          and(eq(column, cursor.value), compare(deliveries.id, cursor.id))
+        )!
+      );
     }
     
-    const results = await query;
+    const results = await db
+      .select({
+        delivery: deliveries,
+        sender: {
+          id: users.id,
+          username: users.username,
+          fullName: users.fullName,
+          rating: users.rating,
+          totalReviews: users.totalReviews,
+          verifiedAt: users.verifiedAt,
+          avatarUpdatedAt: users.avatarUpdatedAt,
+        },
+        carrier: {
+          id: carriers.id,
+          username: carriers.username,
+          fullName: carriers.fullName,
+          rating: carriers.rating,
+          totalReviews: carriers.totalReviews,
+          verifiedAt: carriers.verifiedAt,
+          avatarUpdatedAt: carriers.avatarUpdatedAt,
+        },
+      })
+      .from(deliveries)
+      .leftJoin(users, eq(deliveries.senderId, users.id))
+      .leftJoin(carriers, eq(deliveries.carrierId, carriers.id))
+      .where(and(...conditions))
+      .orderBy(order(column), order(deliveries.id))
+      .limit(page.limit + 1); // one extra row tells us whether there is a next page
+    
+    const hasMore = results.length > page.limit;
+    const items = results.slice(0, page.limit);
+    const lastItem = items[items.length - 1];
     
     // Format results to match DeliveryWithUser type
-    return results.map(({ delivery, sender }) => ({
-      ...delivery,
-      sender,
-    }));
+    return {
+      items: items.map(({ delivery, sender, carrier }) => ({
+        ...delivery,
+        sender: sender as User,
+        carrier: carrier ? carrier as User : undefined,
+      })),
+      nextCursor: hasMore && lastItem ? encodeCursor(lastItem.delivery, page.sort) : null,
+      total,
+    };
   }
   
   async getDeliveryById(id: number): Promise<Delivery | undefined> {
@@ -134,81 +674,955 @@ export class DatabaseStorage implements IStorage {
     return delivery;
   }
   
-  async createDelivery(delivery: InsertDelivery): Promise<Delivery> {
-    const [createdDelivery] = await db
-      .insert(deliveries)
-      .values(delivery)
-      .returning();
+  async createDelivery(delivery: InsertDelivery, recipient?: Omit<InsertDeliveryRecipient, "deliveryId">): Promise<Delivery> {
+    return await db.transaction(async (tx) => {
+      const [createdDelivery] = await tx
+        .insert(deliveries)
+        .values(delivery)
+        .returning();
+        
+      if (recipient) {
+        await tx
+          .insert(deliveryRecipients)
+          .values({ ...recipient, deliveryId: createdDelivery.id });
+      }
       
-    return createdDelivery;
+      await this.recordDeliveryEvent(tx, createdDelivery.id, null, createdDelivery.status, {
+        actorId: createdDelivery.senderId,
+      });
+      
+      return createdDelivery;
+    });
   }
   
-  async updateDeliveryStatus(id: number, status: string, carrierId?: number): Promise<Delivery | undefined> {
-    const updateValues: Partial<Delivery> = { status: status as any };
-    
-    if (carrierId) {
-      updateValues.carrierId = carrierId;
-    }
-    
+  async getDeliveryRecipient(deliveryId: number): Promise<DeliveryRecipient | undefined> {
+    const [recipient] = await db
+      .select()
+      .from(deliveryRecipients)
+      .where(eq(deliveryRecipients.deliveryId, deliveryId));
+      
+    return recipient;
+  }
+  
+  async updateDeliveryStatus(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    status: DeliveryStatus, 
+    transition: DeliveryTransition, 
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    return await this.transitionDelivery(id, fromStatus, { status }, transition, settlement);
+  }
+  
+  async cancelDelivery(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    cancellation: DeliveryCancellation, 
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    return await this.transitionDelivery(id, fromStatus, {
+      status: "cancelled",
+      cancelledBy: cancellation.cancelledBy,
+      cancellationReason: cancellation.reason,
+      cancellationNote: cancellation.note ?? null,
+      cancelledAt: new Date(),
+    }, {
+      actorId: cancellation.cancelledBy,
+      note: cancellation.note,
+      metadata: { reason: cancellation.reason },
+    }, settlement);
+  }
+  
+  async releaseDelivery(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    transition: DeliveryTransition, 
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    // Put the delivery back on the market without a carrier
+    return await this.transitionDelivery(id, fromStatus, { status: "requested", carrierId: null }, transition, settlement);
+  }
+  
+  async hideDelivery(id: number, reason: string | null): Promise<Delivery | undefined> {
     const [updatedDelivery] = await db
       .update(deliveries)
-      .set(updateValues)
+      .set({ hiddenAt: reason === null ? null : new Date(), hiddenReason: reason })
       .where(eq(deliveries.id, id))
       .returning();
       
     return updatedDelivery;
   }
   
-  async getSenderDeliveries(userId: number): Promise<DeliveryWithUser[]> {
+  // Update a delivery, record the status change and post the money it moves
+  // in one transaction
+  private async transitionDelivery(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    updateValues: Partial<Delivery>, 
+    transition: DeliveryTransition,
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the row so the recorded from-status is the one being replaced
+      const [currentDelivery] = await tx
+        .select()
+        .from(deliveries)
+        .where(eq(deliveries.id, id))
+        .for("update");
+        
+      // A concurrent request got there first; its side effects already ran
+      if (!currentDelivery || currentDelivery.status !== fromStatus) return undefined;
+      
+      const [updatedDelivery] = await tx
+        .update(deliveries)
+        .set(updateValues)
+        .where(eq(deliveries.id, id))
+        .returning();
+        
+      await this.recordDeliveryEvent(tx, id, currentDelivery.status, updatedDelivery.status, transition);
+      await this.postSettlementIn(tx, settlement, currentDelivery);
+      
+      return updatedDelivery;
+    });
+  }
+  
+  private async recordDeliveryEvent(
+    tx: Transaction,
+    deliveryId: number,
+    fromStatus: Delivery["status"] | null,
+    toStatus: Delivery["status"],
+    transition: DeliveryTransition
+  ) {
+    await tx.insert(deliveryEvents).values({
+      deliveryId,
+      actorId: transition.actorId,
+      fromStatus,
+      toStatus,
+      note: transition.note ?? null,
+      metadata: transition.metadata ?? null,
+    });
+  }
+  
+  
+  
+  // Offer methods
+  async createOffer(offer: InsertOffer): Promise<Offer> {
+    const [createdOffer] = await db
+      .insert(offers)
+      .values(offer)
+      .returning();
+      
+    return createdOffer;
+  }
+  
+  async getOfferById(id: number): Promise<Offer | undefined> {
+    const [offer] = await db
+      .select()
+      .from(offers)
+      .where(eq(offers.id, id));
+      
+    return offer;
+  }
+  
+  async getDeliveryOffers(deliveryId: number): Promise<OfferWithCarrier[]> {
     const results = await db
       .select({
-        delivery: deliveries,
+        offer: offers,
         carrier: {
           id: users.id,
           username: users.username,
           fullName: users.fullName,
           rating: users.rating,
           totalReviews: users.totalReviews,
+          verifiedAt: users.verifiedAt,
+          avatarUpdatedAt: users.avatarUpdatedAt,
         },
       })
-      .from(deliveries)
-      .leftJoin(users, eq(deliveries.carrierId, users.id))
-      .where(eq(deliveries.senderId, userId))
-      .orderBy(desc(deliveries.createdAt));
+      .from(offers)
+      .leftJoin(users, eq(offers.carrierId, users.id))
+      .where(eq(offers.deliveryId, deliveryId))
+      // Best-rated carriers first, then the cheapest offer
+      .orderBy(sql`${users.rating} DESC NULLS LAST`, asc(offers.price));
       
-    // Sender deliveries already have the sender, so we just need to add the carrier
-    return results.map(({ delivery, carrier }) => ({
-      ...delivery,
-      sender: { id: userId } as User, // Set minimal sender info
-      carrier: carrier?.id ? carrier : undefined,
+    return results.map(({ offer, carrier }) => ({
+      ...offer,
+      carrier: carrier ?? {},
     }));
   }
   
-  async getCarrierDeliveries(userId: number): Promise<DeliveryWithUser[]> {
+  async getOpenOfferByCarrier(deliveryId: number, carrierId: number): Promise<Offer | undefined> {
+    const [offer] = await db
+      .select()
+      .from(offers)
+      .where(
+        and(
+          eq(offers.deliveryId, deliveryId),
+          eq(offers.carrierId, carrierId),
+          inArray(offers.status, ["pending", "countered"])
+        )
+      );
+      
+    return offer;
+  }
+  
+  async updateOffer(id: number, updates: Partial<Offer>): Promise<Offer | undefined> {
+    const [updatedOffer] = await db
+      .update(offers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(offers.id, id))
+      .returning();
+      
+    return updatedOffer;
+  }
+  
+  async withdrawOpenOffers(carrierId: number): Promise<Offer[]> {
+    return await db
+      .update(offers)
+      .set({ status: "withdrawn", updatedAt: new Date() })
+      .where(
+        and(
+          eq(offers.carrierId, carrierId),
+          inArray(offers.status, ["pending", "countered"])
+        )
+      )
+      .returning();
+  }
+  
+  async acceptOffer(offerId: number, actorId: number, escrowHold: (price: number) => LedgerTransfer): Promise<Delivery | undefined> {
+    // Assign the carrier, hold the fee, reject competing offers and record the
+    // event in one transaction
+    return await db.transaction(async (tx) => {
+      // Locked so the carrier can't withdraw, and the sender can't counter,
+      // the offer while it is being accepted
+      const [offer] = await tx
+        .select()
+        .from(offers)
+        .where(eq(offers.id, offerId))
+        .for("update");
+        
+      if (!offer || (offer.status !== "pending" && offer.status !== "countered")) return undefined;
+      
+      const price = agreedPrice(offer);
+      
+      // Only a delivery that is still requested can be assigned
+      const [acceptedDelivery] = await tx
+        .update(deliveries)
+        .set({
+          status: "accepted",
+          carrierId: offer.carrierId,
+          deliveryFee: price,
+        })
+        .where(
+          and(
+            eq(deliveries.id, offer.deliveryId),
+            eq(deliveries.status, "requested")
+          )
+        )
+        .returning();
+        
+      if (!acceptedDelivery) return undefined;
+      
+      // Throws InsufficientFundsError, undoing the assignment, if the
+      // sender's wallet no longer covers the fee
+      const hold = escrowHold(price);
+      await this.postLedgerTransactionIn(tx, hold.transaction, hold.postings);
+      
+      await tx
+        .update(offers)
+        .set({ status: "accepted", updatedAt: new Date() })
+        .where(eq(offers.id, offerId));
+        
+      await tx
+        .update(offers)
+        .set({ status: "rejected", updatedAt: new Date() })
+        .where(
+          and(
+            eq(offers.deliveryId, offer.deliveryId),
+            ne(offers.id, offerId),
+            inArray(offers.status, ["pending", "countered"])
+          )
+        );
+        
+      await this.recordDeliveryEvent(tx, acceptedDelivery.id, "requested", "accepted", {
+        actorId,
+        metadata: { offerId, carrierId: offer.carrierId, price },
+      });
+        
+      return acceptedDelivery;
+    });
+  }
+  
+  // Delivery event methods
+  async getDeliveryEvents(deliveryId: number): Promise<DeliveryEventWithActor[]> {
     const results = await db
       .select({
-        delivery: deliveries,
-        sender: {
+        event: deliveryEvents,
+        actor: {
           id: users.id,
           username: users.username,
           fullName: users.fullName,
-          rating: users.rating,
-          totalReviews: users.totalReviews,
         },
       })
-      .from(deliveries)
-      .leftJoin(users, eq(deliveries.senderId, users.id))
-      .where(eq(deliveries.carrierId, userId))
-      .orderBy(desc(deliveries.createdAt));
+      .from(deliveryEvents)
+      .leftJoin(users, eq(deliveryEvents.actorId, users.id))
+      .where(eq(deliveryEvents.deliveryId, deliveryId))
+      .orderBy(asc(deliveryEvents.createdAt), asc(deliveryEvents.id));
       
-    // Format results to match DeliveryWithUser type
-    return results.map(({ delivery, sender }) => ({
-      ...delivery,
-      sender,
-      carrier: { id: userId } as User, // Set minimal carrier info
+    return results.map(({ event, actor }) => ({
+      ...event,
+      actor,
     }));
   }
   
+  // Handoff code methods
+  async createHandoffCode(handoffCode: InsertHandoffCode): Promise<HandoffCode> {
+    const [createdCode] = await db
+      .insert(handoffCodes)
+      .values(handoffCode)
+      .returning();
+      
+    return createdCode;
+  }
+  
+  async getLatestHandoffCode(deliveryId: number, purpose: HandoffPurpose): Promise<HandoffCode | undefined> {
+    const [handoffCode] = await db
+      .select()
+      .from(handoffCodes)
+      .where(
+        and(
+          eq(handoffCodes.deliveryId, deliveryId),
+          eq(handoffCodes.purpose, purpose)
+        )
+      )
+      .orderBy(desc(handoffCodes.id))
+      .limit(1);
+      
+    return handoffCode;
+  }
+  
+  async redeemHandoffCode(id: number, usedBy: number, maxAttempts: number): Promise<HandoffCode | undefined> {
+    const [usedCode] = await db
+      .update(handoffCodes)
+      .set({ usedAt: new Date(), usedBy })
+      .where(and(eq(handoffCodes.id, id), this.handoffCodeIsActive(maxAttempts)))
+      .returning();
+      
+    return usedCode;
+  }
+  
+  async recordFailedHandoffAttempt(id: number, maxAttempts: number): Promise<HandoffCode | undefined> {
+    const [updatedCode] = await db
+      .update(handoffCodes)
+      .set({ attempts: sql`${handoffCodes.attempts} + 1` })
+      .where(and(eq(handoffCodes.id, id), this.handoffCodeIsActive(maxAttempts)))
+      .returning();
+      
+    return updatedCode;
+  }
+  
+  async restoreHandoffCode(id: number): Promise<HandoffCode | undefined> {
+    const [restoredCode] = await db
+      .update(handoffCodes)
+      .set({ usedAt: null, usedBy: null })
+      .where(eq(handoffCodes.id, id))
+      .returning();
+      
+    return restoredCode;
+  }
+  
+  private handoffCodeIsActive(maxAttempts: number) {
+    return and(
+      isNull(handoffCodes.usedAt),
+      lt(handoffCodes.attempts, maxAttempts),
+      gt(handoffCodes.expiresAt, new Date())
+    );
+  }
+  
+  // Attachment methods
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const [createdAttachment] = await db
+      .insert(attachments)
+      .values(attachment)
+      .returning();
+      
+    return createdAttachment;
+  }
+  
+  async getAttachmentById(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.id, id));
+      
+    return attachment;
+  }
+  
+  async getDeliveryAttachments(deliveryId: number): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.deliveryId, deliveryId))
+      .orderBy(asc(attachments.createdAt));
+  }
+  
+  // Message methods
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const [createdMessage] = await db
+      .insert(messages)
+      .values(message)
+      .returning();
+      
+    return createdMessage;
+  }
+  
+  async getDeliveryMessages(deliveryId: number): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(eq(messages.deliveryId, deliveryId))
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+  }
+  
+  async markMessagesRead(deliveryId: number, readerId: number): Promise<number> {
+    // Only messages written by the other party can be read by this user
+    const readMessages = await db
+      .update(messages)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(messages.deliveryId, deliveryId),
+          ne(messages.authorId, readerId),
+          isNull(messages.readAt)
+        )
+      )
+      .returning({ id: messages.id });
+      
+    return readMessages.length;
+  }
+  
+  async getUnreadMessageCounts(userId: number): Promise<UnreadMessageCounts> {
+    const results = await db
+      .select({
+        deliveryId: messages.deliveryId,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(messages)
+      .innerJoin(deliveries, eq(messages.deliveryId, deliveries.id))
+      .where(
+        and(
+          or(eq(deliveries.senderId, userId), eq(deliveries.carrierId, userId)),
+          ne(messages.authorId, userId),
+          isNull(messages.readAt)
+        )
+      )
+      .groupBy(messages.deliveryId);
+      
+    return {
+      total: results.reduce((sum, { count }) => sum + count, 0),
+      deliveries: results,
+    };
+  }
+  
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [createdNotification] = await db
+      .insert(notifications)
+      .values(notification)
+      .returning();
+      
+    return createdNotification;
+  }
+  
+  async getUserNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+      
+    return result?.count ?? 0;
+  }
+  
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(notifications.id, ids));
+    }
+    
+    const readNotifications = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+      
+    return readNotifications.length;
+  }
+  
+  // Trip methods
+  async createTrip(trip: InsertTrip): Promise<Trip> {
+    const [createdTrip] = await db
+      .insert(trips)
+      .values(trip)
+      .returning();
+      
+    return createdTrip;
+  }
+  
+  async getTripById(id: number): Promise<Trip | undefined> {
+    const [trip] = await db.select().from(trips).where(eq(trips.id, id));
+    return trip;
+  }
+  
+  async getCarrierTrips(carrierId: number): Promise<Trip[]> {
+    return await db
+      .select()
+      .from(trips)
+      .where(eq(trips.carrierId, carrierId))
+      .orderBy(asc(trips.departureFrom), asc(trips.id));
+  }
+  
+  async getUpcomingTrips(fromDate: string): Promise<Trip[]> {
+    return await db
+      .select()
+      .from(trips)
+      .where(gte(trips.departureTo, fromDate));
+  }
+  
+  async updateTrip(id: number, updates: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const [updatedTrip] = await db
+      .update(trips)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(trips.id, id))
+      .returning();
+      
+    return updatedTrip;
+  }
+  
+  async deleteTrip(id: number): Promise<boolean> {
+    const deletedTrips = await db
+      .delete(trips)
+      .where(eq(trips.id, id))
+      .returning({ id: trips.id });
+      
+    return deletedTrips.length > 0;
+  }
+  
+  // Setting methods
+  async getSetting(key: string): Promise<unknown | undefined> {
+    const [setting] = await db.select().from(settings).where(eq(settings.key, key));
+    return setting?.value;
+  }
+  
+  async setSetting(key: string, value: unknown): Promise<Setting> {
+    const [setting] = await db
+      .insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value, updatedAt: new Date() },
+      })
+      .returning();
+      
+    return setting;
+  }
+  
+  // Ledger methods
+  async postLedgerTransaction(transaction: InsertLedgerTransaction, postings: LedgerPosting[]): Promise<LedgerTransaction> {
+    return await db.transaction((tx) => this.postLedgerTransactionIn(tx, transaction, postings));
+  }
+  
+  // Post within a caller's transaction; a balance that would go negative
+  // throws and rolls all of it back
+  private async postLedgerTransactionIn(
+    tx: Transaction,
+    transaction: InsertLedgerTransaction,
+    postings: LedgerPosting[]
+  ): Promise<LedgerTransaction> {
+    assertBalanced(postings);
+    
+    const accountValues = postings
+      .map(({ account }) => ledgerAccountValues(account))
+      .filter((values, index, all) => all.findIndex(other => other.key === values.key) === index);
+      
+    await tx
+      .insert(ledgerAccounts)
+      .values(accountValues)
+      .onConflictDoNothing({ target: ledgerAccounts.key });
+      
+    // Lock the accounts in key order so concurrent transfers between the
+    // same accounts queue up instead of deadlocking
+    const accounts = await tx
+      .select()
+      .from(ledgerAccounts)
+      .where(inArray(ledgerAccounts.key, accountValues.map(({ key }) => key)))
+      .orderBy(asc(ledgerAccounts.key))
+      .for("update");
+    const accountsByKey = new Map(accounts.map(account => [account.key, account]));
+    
+    const [createdTransaction] = await tx
+      .insert(ledgerTransactions)
+      .values(transaction)
+      .returning();
+      
+    await tx.insert(ledgerEntries).values(postings.map(({ account, amount }) => ({
+      transactionId: createdTransaction.id,
+      accountId: accountsByKey.get(ledgerAccountKey(account))!.id,
+      amount,
+    })));
+    
+    // Throwing rolls the whole transaction back
+    for (const { account, amount } of postings) {
+      const ledgerAccount = accountsByKey.get(ledgerAccountKey(account))!;
+      if (amount >= 0 || !mustStayPositive(ledgerAccount.type)) continue;
+      
+      const balance = await this.accountBalance(tx, ledgerAccount.id);
+      if (balance < 0) {
+        throw new InsufficientFundsError(-balance);
+      }
+    }
+    
+    return createdTransaction;
+  }
+  
+  async getLedgerBalance(account: LedgerAccountRef): Promise<number> {
+    const [ledgerAccount] = await db
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.key, ledgerAccountKey(account)));
+      
+    return ledgerAccount ? await this.accountBalance(db, ledgerAccount.id) : 0;
+  }
+  
+  async getLedgerActivity(account: LedgerAccountRef, limit: number): Promise<WalletTransaction[]> {
+    return await this.ledgerActivity(db, account, limit);
+  }
+  
+  // Work out and post a settlement within a caller's transaction. The
+  // accounts it reads are locked, so the balances can't change before the
+  // postings are written; throwing rolls all of it back.
+  private async postSettlementIn(tx: Transaction, settlement: LedgerSettlement | undefined, delivery: Delivery) {
+    if (!settlement) return;
+    
+    const ledger: LedgerReader = {
+      getLedgerBalance: async (account) => {
+        const [ledgerAccount] = await tx
+          .select()
+          .from(ledgerAccounts)
+          .where(eq(ledgerAccounts.key, ledgerAccountKey(account)))
+          .for("update");
+          
+        return ledgerAccount ? await this.accountBalance(tx, ledgerAccount.id) : 0;
+      },
+      getLedgerActivity: (account, limit) => this.ledgerActivity(tx, account, limit),
+    };
+    
+    const transfer = await settlement(ledger, delivery);
+    if (transfer) {
+      await this.postLedgerTransactionIn(tx, transfer.transaction, transfer.postings);
+    }
+  }
+  
+  private async ledgerActivity(
+    executor: Transaction | typeof db,
+    account: LedgerAccountRef,
+    limit: number
+  ): Promise<WalletTransaction[]> {
+    return await executor
+      .select({
+        id: ledgerEntries.id,
+        transactionId: ledgerTransactions.id,
+        kind: ledgerTransactions.kind,
+        amount: ledgerEntries.amount,
+        description: ledgerTransactions.description,
+        deliveryId: ledgerTransactions.deliveryId,
+        createdAt: ledgerEntries.createdAt,
+      })
+      .from(ledgerEntries)
+      .innerJoin(ledgerAccounts, eq(ledgerEntries.accountId, ledgerAccounts.id))
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(eq(ledgerAccounts.key, ledgerAccountKey(account)))
+      .orderBy(desc(ledgerEntries.id))
+      .limit(limit);
+  }
+  
+  private async accountBalance(executor: Transaction | typeof db, accountId: number) {
+    const [result] = await executor
+      .select({ balance: sql<number>`COALESCE(SUM(${ledgerEntries.amount}), 0)::int` })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.accountId, accountId));
+      
+    return result?.balance ?? 0;
+  }
+  
+  // Payout methods
+  async createPayout(payout: InsertPayout): Promise<Payout> {
+    const [createdPayout] = await db
+      .insert(payouts)
+      .values(payout)
+      .returning();
+      
+    return createdPayout;
+  }
+  
+  async updatePayout(id: number, updates: Partial<Payout>): Promise<Payout | undefined> {
+    const [updatedPayout] = await db
+      .update(payouts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(payouts.id, id))
+      .returning();
+      
+    return updatedPayout;
+  }
+  
+  async getUserPayouts(userId: number, limit: number): Promise<Payout[]> {
+    return await db
+      .select()
+      .from(payouts)
+      .where(eq(payouts.userId, userId))
+      .orderBy(desc(payouts.id))
+      .limit(limit);
+  }
+  
+  // Dispute methods
+  async openDispute(dispute: InsertDispute, settlement?: LedgerSettlement): Promise<Dispute | undefined> {
+    // Freeze the delivery and record the dispute, the event and any payment
+    // held back together
+    return await db.transaction(async (tx) => {
+      const [delivery] = await tx
+        .select()
+        .from(deliveries)
+        .where(eq(deliveries.id, dispute.deliveryId))
+        .for("update");
+        
+      if (!delivery || !disputableStatuses.some(status => status === delivery.status)) {
+        return undefined;
+      }
+      
+      const [createdDispute] = await tx
+        .insert(disputes)
+        .values({ ...dispute, previousStatus: delivery.status })
+        .returning();
+        
+      await tx
+        .update(deliveries)
+        .set({ status: "disputed" })
+        .where(eq(deliveries.id, delivery.id));
+        
+      await this.recordDeliveryEvent(tx, delivery.id, delivery.status, "disputed", {
+        actorId: dispute.openedBy,
+        note: dispute.description,
+        metadata: { disputeId: createdDispute.id, reason: dispute.reason },
+      });
+      await this.postSettlementIn(tx, settlement, delivery);
+      
+      return createdDispute;
+    });
+  }
+  
+  async getDisputeById(id: number): Promise<Dispute | undefined> {
+    const [dispute] = await db
+      .select()
+      .from(disputes)
+      .where(eq(disputes.id, id));
+      
+    return dispute;
+  }
+  
+  async getDeliveryDisputes(deliveryId: number): Promise<Dispute[]> {
+    return await db
+      .select()
+      .from(disputes)
+      .where(eq(disputes.deliveryId, deliveryId))
+      .orderBy(desc(disputes.id));
+  }
+  
+  async getDisputes(status?: Dispute["status"]): Promise<DisputeWithDelivery[]> {
+    const results = await db
+      .select({ dispute: disputes, delivery: deliveries })
+      .from(disputes)
+      .innerJoin(deliveries, eq(disputes.deliveryId, deliveries.id))
+      .where(status ? eq(disputes.status, status) : undefined)
+      .orderBy(status === "open" ? asc(disputes.id) : desc(disputes.id));
+      
+    return results.map(({ dispute, delivery }) => ({ ...dispute, delivery }));
+  }
+  
+  async resolveDispute(
+    id: number,
+    resolution: DisputeResolution,
+    deliveryStatus: Delivery["status"],
+    settlement?: LedgerSettlement
+  ): Promise<Dispute | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only an open dispute can be resolved, and only once
+      const [resolvedDispute] = await tx
+        .update(disputes)
+        .set({
+          status: "resolved",
+          outcome: resolution.outcome,
+          senderAmount: resolution.senderAmount,
+          carrierAmount: resolution.carrierAmount,
+          resolutionNote: resolution.note,
+          resolvedBy: resolution.resolvedBy,
+          resolvedAt: new Date(),
+        })
+        .where(and(eq(disputes.id, id), eq(disputes.status, "open")))
+        .returning();
+        
+      if (!resolvedDispute) return undefined;
+      
+      const [delivery] = await tx
+        .select()
+        .from(deliveries)
+        .where(eq(deliveries.id, resolvedDispute.deliveryId))
+        .for("update");
+        
+      await tx
+        .update(deliveries)
+        .set({ status: deliveryStatus })
+        .where(eq(deliveries.id, resolvedDispute.deliveryId));
+        
+      await this.recordDeliveryEvent(tx, resolvedDispute.deliveryId, "disputed", deliveryStatus, {
+        actorId: resolution.resolvedBy,
+        note: resolution.note,
+        metadata: {
+          disputeId: id,
+          outcome: resolution.outcome,
+          senderAmount: resolution.senderAmount,
+          carrierAmount: resolution.carrierAmount,
+        },
+      });
+      await this.postSettlementIn(tx, settlement, delivery);
+      
+      return resolvedDispute;
+    });
+  }
+  
+  async hasOpenDispute(userId: number): Promise<boolean> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(disputes)
+      .innerJoin(deliveries, eq(disputes.deliveryId, deliveries.id))
+      .where(
+        and(
+          eq(disputes.status, "open"),
+          or(eq(deliveries.senderId, userId), eq(deliveries.carrierId, userId))
+        )
+      );
+      
+    return (result?.count ?? 0) > 0;
+  }
+  
+  async createDisputeMessage(message: InsertDisputeMessage): Promise<DisputeMessage> {
+    const [createdMessage] = await db
+      .insert(disputeMessages)
+      .values(message)
+      .returning();
+      
+    return createdMessage;
+  }
+  
+  async getDisputeMessages(disputeId: number): Promise<DisputeMessageWithAuthor[]> {
+    const results = await db
+      .select({
+        message: disputeMessages,
+        author: {
+          id: users.id,
+          username: users.username,
+          fullName: users.fullName,
+          isAdmin: users.isAdmin,
+        },
+      })
+      .from(disputeMessages)
+      .leftJoin(users, eq(disputeMessages.authorId, users.id))
+      .where(eq(disputeMessages.disputeId, disputeId))
+      .orderBy(asc(disputeMessages.createdAt), asc(disputeMessages.id));
+      
+    return results.map(({ message, author }) => ({ ...message, author }));
+  }
+  
+  // Identity verification methods
+  async createVerificationRequest(request: InsertVerificationRequest): Promise<VerificationRequest> {
+    const [createdRequest] = await db
+      .insert(verificationRequests)
+      .values(request)
+      .returning();
+      
+    return createdRequest;
+  }
+  
+  async getVerificationRequestById(id: number): Promise<VerificationRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(verificationRequests)
+      .where(eq(verificationRequests.id, id));
+      
+    return request;
+  }
+  
+  async getLatestVerificationRequest(userId: number): Promise<VerificationRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(verificationRequests)
+      .where(eq(verificationRequests.userId, userId))
+      .orderBy(desc(verificationRequests.id))
+      .limit(1);
+      
+    return request;
+  }
+  
+  async getVerificationRequests(status: VerificationRequest["status"]): Promise<VerificationRequestWithUser[]> {
+    const { password, ...userColumns } = getTableColumns(users);
+    const results = await db
+      .select({ request: verificationRequests, user: userColumns })
+      .from(verificationRequests)
+      .innerJoin(users, eq(verificationRequests.userId, users.id))
+      .where(eq(verificationRequests.status, status))
+      // The queue is worked oldest first
+      .orderBy(status === "pending" ? asc(verificationRequests.id) : desc(verificationRequests.id));
+      
+    return results.map(({ request, user }) => ({ ...request, user }));
+  }
+  
+  async reviewVerificationRequest(
+    id: number,
+    reviewedBy: number,
+    approved: boolean,
+    note: string | null,
+  ): Promise<VerificationRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only a pending request can be reviewed, and only once
+      const [reviewedRequest] = await tx
+        .update(verificationRequests)
+        .set({
+          status: approved ? "approved" : "rejected",
+          reviewNote: note,
+          reviewedBy,
+          reviewedAt: new Date(),
+        })
+        .where(and(eq(verificationRequests.id, id), eq(verificationRequests.status, "pending")))
+        .returning();
+        
+      if (reviewedRequest && approved) {
+        await tx
+          .update(users)
+          .set({ verifiedAt: new Date() })
+          .where(eq(users.id, reviewedRequest.userId));
+      }
+      
+      return reviewedRequest;
+    });
+  }
+  
   // Review methods
   async createReview(review: InsertReview): Promise<Review> {
     // Start a transaction to create review and update user rating
@@ -236,11 +1650,12 @@ export class DatabaseStorage implements IStorage {
           id: users.id,
           username: users.username,
           fullName: users.fullName,
+          avatarUpdatedAt: users.avatarUpdatedAt,
         },
       })
       .from(reviews)
       .leftJoin(users, eq(reviews.reviewerId, users.id))
-      .where(eq(reviews.revieweeId, userId))
+      .where(and(eq(reviews.revieweeId, userId), isNull(reviews.hiddenAt)))
       .orderBy(desc(reviews.createdAt));
       
     return reviewsWithReviewers.map(({ review, reviewer }) => ({
@@ -249,6 +1664,65 @@ export class DatabaseStorage implements IStorage {
     }));
   }
   
+  async getReviewById(id: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+  
+  async searchReviews(query: string | undefined, limit: number): Promise<ReviewWithUsers[]> {
+    const reviewers = alias(users, "reviewers");
+    const reviewees = alias(users, "reviewees");
+    const pattern = `%${query ?? ""}%`;
+    
+    const results = await db
+      .select({
+        review: reviews,
+        reviewer: {
+          id: reviewers.id,
+          username: reviewers.username,
+          fullName: reviewers.fullName,
+        },
+        reviewee: {
+          id: reviewees.id,
+          username: reviewees.username,
+          fullName: reviewees.fullName,
+        },
+      })
+      .from(reviews)
+      .leftJoin(reviewers, eq(reviews.reviewerId, reviewers.id))
+      .leftJoin(reviewees, eq(reviews.revieweeId, reviewees.id))
+      .where(query
+        ? or(
+            ilike(reviews.comment, pattern),
+            ilike(reviewers.username, pattern),
+            ilike(reviewers.fullName, pattern),
+            ilike(reviewees.username, pattern),
+            ilike(reviewees.fullName, pattern),
+          )
+        : undefined)
+      .orderBy(desc(reviews.id))
+      .limit(limit);
+      
+    return results.map(({ review, reviewer, reviewee }) => ({ ...review, reviewer, reviewee }));
+  }
+  
+  async hideReview(id: number, reason: string | null): Promise<Review | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedReview] = await tx
+        .update(reviews)
+        .set({ hiddenAt: reason === null ? null : new Date(), hiddenReason: reason })
+        .where(eq(reviews.id, id))
+        .returning();
+        
+      // Hidden reviews don't count towards the reviewee's rating
+      if (updatedReview) {
+        await this.updateUserRating(tx, updatedReview.revieweeId);
+      }
+      
+      return updatedReview;
+    });
+  }
+  
   async getReviewByDeliveryAndReviewer(deliveryId: number, reviewerId: number): Promise<Review | undefined> {
     const [review] = await db
       .select()
@@ -263,25 +1737,76 @@ export class DatabaseStorage implements IStorage {
     return review;
   }
   
-  // Helper method to recalculate and update a user's rating
-  private async updateUserRating(tx: any, userId: number) {
-    // Calculate average rating
-    const ratingResult = await tx
-      .select({
-        averageRating: sql`AVG(${reviews.rating})`,
-        totalReviews: sql`COUNT(*)`,
-      })
-      .from(reviews)
-      .where(eq(reviews.revieweeId, userId));
+  // Login history methods
+  async createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent> {
+    const [createdEvent] = await db
+      .insert(loginEvents)
+      .values(event)
+      .returning();
       
-    if (ratingResult.length > 0) {
+    return createdEvent;
+  }
+  
+  async getLoginEvents(userId: number, limit: number): Promise<LoginEvent[]> {
+    return await db
+      .select()
+      .from(loginEvents)
+      .where(eq(loginEvents.userId, userId))
+      .orderBy(desc(loginEvents.createdAt), desc(loginEvents.id))
+      .limit(limit);
+  }
+  
+  // Session methods
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const rows = await db
+      .select({ sid: sessions.sid, sess: sessions.sess })
+      .from(sessions)
+      .where(
+        and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          gt(sessions.expire, new Date())
+        )
+      );
+      
+    return rows.map(row => toStoredSession(row.sid, row.sess as SessionRecord));
+  }
+  
+  async deleteUserSessions(userId: number, sids: string[]): Promise<number> {
+    if (sids.length === 0) return 0;
+    
+    // Only ever the user's own sessions, whatever IDs are passed in
+    const deleted = await db
+      .delete(sessions)
+      .where(
+        and(
+          inArray(sessions.sid, sids),
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`
+        )
+      )
+      .returning({ sid: sessions.sid });
+      
+    return deleted.length;
+  }
+  
+  // Helper method to recalculate and update a user's rating
+  private async updateUserRating(tx: any, userId: number) {
+    // Calculate average rating over the visible reviews
+    const ratingResult = await tx
+      .select({
+        averageRating: sql`AVG(${reviews.rating})`,
+        totalReviews: sql`COUNT(*)::int`,
+      })
+      .from(reviews)
+      .where(and(eq(reviews.revieweeId, userId), isNull(reviews.hiddenAt)));
+      
+    if (ratingResult.length > 0) {
       const { averageRating, totalReviews } = ratingResult[0];
       
       // Update user's rating and totalReviews
       await tx
         .update(users)
         .set({
-          rating: Math.round(averageRating),
+          rating: averageRating === null ? null : Math.round(averageRating),
           totalReviews,
         })
         .where(eq(users.id, userId));
@@ -293,18 +1818,96 @@ export class MemStorage implements IStorage {
   private usersData: Map<number, User>;
   private deliveriesData: Map<number, Delivery>;
   private reviewsData: Map<number, Review>;
+  private offersData: Map<number, Offer>;
+  private handoffCodesData: Map<number, HandoffCode>;
+  private deliveryRecipientsData: Map<number, DeliveryRecipient>;
+  private attachmentsData: Map<number, Attachment>;
+  private messagesData: Map<number, Message>;
+  private deliveryEventsData: Map<number, DeliveryEvent>;
+  private notificationsData: Map<number, Notification>;
+  private tripsData: Map<number, Trip>;
+  private settingsData: Map<string, Setting>;
+  private ledgerAccountsData: Map<number, LedgerAccount>;
+  private ledgerTransactionsData: Map<number, LedgerTransaction>;
+  private ledgerEntriesData: Map<number, LedgerEntry>;
+  private payoutsData: Map<number, Payout>;
+  private disputesData: Map<number, Dispute>;
+  private disputeMessagesData: Map<number, DisputeMessage>;
+  private verificationRequestsData: Map<number, VerificationRequest>;
+  private passwordResetTokensData: Map<number, PasswordResetToken>;
+  private emailVerificationTokensData: Map<number, EmailVerificationToken>;
+  private twoFactorSecretsData: Map<number, TwoFactorSecret>;
+  private twoFactorRecoveryCodesData: Map<number, TwoFactorRecoveryCode>;
+  private loginEventsData: Map<number, LoginEvent>;
   sessionStore: session.Store;
   private userId: number;
   private deliveryId: number;
   private reviewId: number;
+  private offerId: number;
+  private handoffCodeId: number;
+  private attachmentId: number;
+  private messageId: number;
+  private deliveryEventId: number;
+  private notificationId: number;
+  private tripId: number;
+  private ledgerAccountId: number;
+  private ledgerTransactionId: number;
+  private ledgerEntryId: number;
+  private payoutId: number;
+  private disputeId: number;
+  private disputeMessageId: number;
+  private verificationRequestId: number;
+  private passwordResetTokenId: number;
+  private emailVerificationTokenId: number;
+  private twoFactorRecoveryCodeId: number;
+  private loginEventId: number;
   
   constructor() {
     this.usersData = new Map();
     this.deliveriesData = new Map();
     this.reviewsData = new Map();
+    this.offersData = new Map();
+    this.handoffCodesData = new Map();
+    this.deliveryRecipientsData = new Map();
+    this.attachmentsData = new Map();
+    this.messagesData = new Map();
+    this.deliveryEventsData = new Map();
+    this.notificationsData = new Map();
+    this.tripsData = new Map();
+    this.settingsData = new Map();
+    this.ledgerAccountsData = new Map();
+    this.ledgerTransactionsData = new Map();
+    this.ledgerEntriesData = new Map();
+    this.payoutsData = new Map();
+    this.disputesData = new Map();
+    this.disputeMessagesData = new Map();
+    this.verificationRequestsData = new Map();
+    this.passwordResetTokensData = new Map();
+    this.emailVerificationTokensData = new Map();
+    this.twoFactorSecretsData = new Map();
+    this.twoFactorRecoveryCodesData = new Map();
+    this.loginEventsData = new Map();
     this.userId = 1;
     this.deliveryId = 1;
     this.reviewId = 1;
+    this.offerId = 1;
+    this.handoffCodeId = 1;
+    this.attachmentId = 1;
+    this.messageId = 1;
+    this.deliveryEventId = 1;
+    this.notificationId = 1;
+    this.tripId = 1;
+    this.ledgerAccountId = 1;
+    this.ledgerTransactionId = 1;
+    this.ledgerEntryId = 1;
+    this.payoutId = 1;
+    this.disputeId = 1;
+    this.disputeMessageId = 1;
+    this.verificationRequestId = 1;
+    this.passwordResetTokenId = 1;
+    this.emailVerificationTokenId = 1;
+    this.twoFactorRecoveryCodeId = 1;
+    this.loginEventId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // prune expired entries every 24h
     });
@@ -313,6 +1916,11 @@ export class MemStorage implements IStorage {
     this.seedData();
   }
   
+  private assignSeedCarrier(deliveryId: number, carrierId: number) {
+    const delivery = this.deliveriesData.get(deliveryId)!;
+    this.deliveriesData.set(deliveryId, { ...delivery, carrierId });
+  }
+  
   private seedData() {
     // Create some sample users
     const user1 = this.createUser({
@@ -337,7 +1945,7 @@ export class MemStorage implements IStorage {
     });
     
     // Create some sample deliveries
-    const delivery1 = this.createDelivery({
+    const delivery1 = this.createDelivery(geocodeDelivery({
       senderId: 1,
       pickupLocation: "Pune",
       dropLocation: "Mumbai",
@@ -348,247 +1956,1221 @@ export class MemStorage implements IStorage {
       preferredDeliveryDate: "2023-06-22",
       preferredDeliveryTime: "Before 6:00 PM",
       deliveryFee: 30000, // $300
+    }));
+    
+    const delivery2 = this.createDelivery(geocodeDelivery({
+      senderId: 3,
+      pickupLocation: "Mumbai",
+      dropLocation: "Bangalore",
+      packageSize: "small",
+      packageWeight: 1000, // 1 kg
+      description: "Clothes",
+      preferredDeliveryDate: "2023-06-24",
+      preferredDeliveryTime: "Before 2:00 PM",
+      deliveryFee: 50000, // $500
+    }));
+    
+    const delivery3 = this.createDelivery(geocodeDelivery({
+      senderId: 1,
+      pickupLocation: "Bangalore",
+      dropLocation: "Pune",
+      packageSize: "large",
+      packageWeight: 8000, // 8 kg
+      description: "Books",
+      preferredDeliveryDate: "2023-06-23",
+      preferredDeliveryTime: "Before 8:00 PM",
+      deliveryFee: 60000, // $600
+    }));
+    
+    // Update delivery1 to be picked by carrier
+    this.assignSeedCarrier(1, 2);
+    this.updateDeliveryStatus(1, "requested", "accepted", { actorId: 1 });
+    this.updateDeliveryStatus(1, "accepted", "picked", { actorId: 2 });
+    
+    // Update delivery2 to be accepted by carrier
+    this.assignSeedCarrier(2, 2);
+    this.updateDeliveryStatus(2, "requested", "accepted", { actorId: 3 });
+    
+    // Create reviews
+    this.createReview({
+      deliveryId: 1,
+      reviewerId: 1,
+      revieweeId: 2,
+      rating: 5,
+      comment: "Excellent service!",
+    });
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.usersData.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.usersData.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.userId++;
+    const user: User = { 
+      ...insertUser, 
+      id, 
+      rating: 0, 
+      totalReviews: 0,
+      email: insertUser.email ?? null,
+      emailVerifiedAt: null,
+      emailPreferences: {},
+      isAdmin: false,
+      suspendedAt: null,
+      suspensionReason: null,
+      verifiedAt: null,
+      passwordChangedAt: null,
+      twoFactorEnabledAt: null,
+      bio: null,
+      phone: null,
+      preferredCities: [],
+      avatarUpdatedAt: null,
+    };
+    this.usersData.set(id, user);
+    return user;
+  }
+  
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.usersData.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...updates };
+    this.usersData.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async getUserProfile(userId: number): Promise<Partial<User> | undefined> {
+    const user = this.usersData.get(userId);
+    if (!user) return undefined;
+    
+    const { password, passwordChangedAt, email, emailVerifiedAt, emailPreferences, twoFactorEnabledAt, phone, ...profile } = user;
+    return profile;
+  }
+  
+  async getAdminUsers(): Promise<User[]> {
+    return Array.from(this.usersData.values()).filter(user => user.isAdmin);
+  }
+  
+  async searchUsers(query: string | undefined, limit: number): Promise<AdminUser[]> {
+    const needle = query?.toLowerCase();
+    
+    return Array.from(this.usersData.values())
+      .filter(user => !needle || [user.username, user.fullName, user.email ?? ""]
+        .some(text => text.toLowerCase().includes(needle)))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map(({ password, ...user }) => user);
+  }
+  
+  async getUsersByEmail(email: string): Promise<User[]> {
+    const needle = email.toLowerCase();
+    return Array.from(this.usersData.values())
+      .filter(user => user.email?.toLowerCase() === needle);
+  }
+  
+  // Password reset methods
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const now = new Date();
+    Array.from(this.passwordResetTokensData.values())
+      .filter(existing => existing.userId === token.userId && existing.usedAt === null)
+      .forEach(existing => { existing.usedAt = now; });
+      
+    const id = this.passwordResetTokenId++;
+    const createdToken: PasswordResetToken = {
+      ...token,
+      id,
+      usedAt: null,
+      createdAt: now,
+    };
+    this.passwordResetTokensData.set(id, createdToken);
+    return createdToken;
+  }
+  
+  async redeemPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const token = Array.from(this.passwordResetTokensData.values())
+      .find(existing => existing.tokenHash === tokenHash);
+    if (!token || token.usedAt !== null || token.expiresAt <= now) {
+      return undefined;
+    }
+    
+    token.usedAt = now;
+    return token;
+  }
+  
+  // Email verification methods
+  async createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    const now = new Date();
+    Array.from(this.emailVerificationTokensData.values())
+      .filter(existing => existing.userId === token.userId && existing.usedAt === null)
+      .forEach(existing => { existing.usedAt = now; });
+      
+    const id = this.emailVerificationTokenId++;
+    const createdToken: EmailVerificationToken = {
+      ...token,
+      id,
+      usedAt: null,
+      createdAt: now,
+    };
+    this.emailVerificationTokensData.set(id, createdToken);
+    return createdToken;
+  }
+  
+  async redeemEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const now = new Date();
+    const token = Array.from(this.emailVerificationTokensData.values())
+      .find(existing => existing.tokenHash === tokenHash);
+    if (!token || token.usedAt !== null || token.expiresAt <= now) {
+      return undefined;
+    }
+    
+    token.usedAt = now;
+    return token;
+  }
+  
+  // Two-factor authentication methods
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    return this.twoFactorSecretsData.get(userId);
+  }
+  
+  async saveTwoFactorSecret(userId: number, encryptedSecret: string): Promise<TwoFactorSecret> {
+    const secret: TwoFactorSecret = {
+      userId,
+      encryptedSecret,
+      lastUsedStep: null,
+      createdAt: new Date(),
+    };
+    this.twoFactorSecretsData.set(userId, secret);
+    return secret;
+  }
+  
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const secret = this.twoFactorSecretsData.get(userId);
+    if (!secret || (secret.lastUsedStep !== null && secret.lastUsedStep >= step)) {
+      return false;
+    }
+    
+    secret.lastUsedStep = step;
+    return true;
+  }
+  
+  async enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+    return await this.updateUser(userId, { twoFactorEnabledAt: new Date() });
+  }
+  
+  async disableTwoFactor(userId: number): Promise<User | undefined> {
+    await this.replaceRecoveryCodes(userId, []);
+    this.twoFactorSecretsData.delete(userId);
+    return await this.updateUser(userId, { twoFactorEnabledAt: null });
+  }
+  
+  async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    Array.from(this.twoFactorRecoveryCodesData.values())
+      .filter(code => code.userId === userId)
+      .forEach(code => this.twoFactorRecoveryCodesData.delete(code.id));
+      
+    recoveryCodeHashes.forEach(codeHash => {
+      const id = this.twoFactorRecoveryCodeId++;
+      this.twoFactorRecoveryCodesData.set(id, {
+        id,
+        userId,
+        codeHash,
+        usedAt: null,
+        createdAt: new Date(),
+      });
+    });
+  }
+  
+  async redeemRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const code = Array.from(this.twoFactorRecoveryCodesData.values())
+      .find(existing => existing.userId === userId && existing.codeHash === codeHash && existing.usedAt === null);
+    if (!code) return false;
+    
+    code.usedAt = new Date();
+    return true;
+  }
+  
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return Array.from(this.twoFactorRecoveryCodesData.values())
+      .filter(code => code.userId === userId && code.usedAt === null)
+      .length;
+  }
+  
+  // Delivery methods
+  async getDeliveriesWithFilters(filters: DeliveryQuery, page: DeliveryPageQuery): Promise<DeliveryPage> {
+    let deliveries = Array.from(this.deliveriesData.values());
+    
+    // Apply filters
+    if (filters.status) {
+      deliveries = deliveries.filter(d => d.status === filters.status);
+    }
+    
+    const { pickupLocations, dropLocations, packageSizes, minFee, maxFee, minWeight, maxWeight, dateFrom, dateTo, q } = filters;
+    
+    if (pickupLocations) {
+      deliveries = deliveries.filter(d => pickupLocations.includes(d.pickupLocation));
+    }
+    
+    if (dropLocations) {
+      deliveries = deliveries.filter(d => dropLocations.includes(d.dropLocation));
+    }
+    
+    if (packageSizes) {
+      deliveries = deliveries.filter(d => packageSizes.includes(d.packageSize));
+    }
+    
+    if (minFee !== undefined) {
+      deliveries = deliveries.filter(d => d.deliveryFee >= minFee);
+    }
+    
+    if (maxFee !== undefined) {
+      deliveries = deliveries.filter(d => d.deliveryFee <= maxFee);
+    }
+    
+    if (minWeight !== undefined) {
+      deliveries = deliveries.filter(d => d.packageWeight >= minWeight);
+    }
+    
+    if (maxWeight !== undefined) {
+      deliveries = deliveries.filter(d => d.packageWeight <= maxWeight);
+    }
+    
+    if (dateFrom) {
+      deliveries = deliveries.filter(d => d.preferredDeliveryDate >= dateFrom);
+    }
+    
+    if (dateTo) {
+      deliveries = deliveries.filter(d => d.preferredDeliveryDate <= dateTo);
+    }
+    
+    if (q) {
+      deliveries = deliveries.filter(d => 
+        matchesSearchQuery(`${d.description ?? ""} ${d.specialInstructions ?? ""}`, q)
+      );
+    }
+    
+    const origin = searchOrigin(filters);
+    if (origin) {
+      deliveries = deliveries.filter(d => isWithinArea(d.pickupLat, d.pickupLng, origin));
+    }
+    
+    const { dropNear } = filters;
+    if (dropNear) {
+      deliveries = deliveries.filter(d => isWithinArea(d.dropLat, d.dropLng, dropNear));
+    }
+    
+    if (filters.hidden !== undefined) {
+      deliveries = deliveries.filter(d => (d.hiddenAt !== null) === filters.hidden);
+    }
+    
+    if (filters.senderId) {
+      deliveries = deliveries.filter(d => d.senderId === filters.senderId);
+    }
+    
+    if (filters.excludeSenderId) {
+      deliveries = deliveries.filter(d => d.senderId !== filters.excludeSenderId);
+    }
+    
+    if (filters.carrierId) {
+      deliveries = deliveries.filter(d => d.carrierId === filters.carrierId);
+    }
+    
+    const total = deliveries.length;
+    
+    // Sort by the chosen column, breaking ties by id in the same direction
+    const { key, direction } = deliverySorts[page.sort];
+    const sign = direction === "desc" ? -1 : 1;
+    const compare = (valueA: string | number, idA: number, valueB: string | number, idB: number) =>
+      sign * (valueA < valueB ? -1 : valueA > valueB ? 1 : idA - idB);
+    
+    deliveries.sort((a, b) => compare(a[key], a.id, b[key], b.id));
+    
+    // Keyset pagination: continue after the last item of the previous page
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor, page.sort);
+      deliveries = deliveries.filter(d => compare(d[key], d.id, cursor.value, cursor.id) > 0);
+    }
+    
+    const hasMore = deliveries.length > page.limit;
+    deliveries = deliveries.slice(0, page.limit);
+    const lastItem = deliveries[deliveries.length - 1];
+    
+    // Add sender and carrier info
+    const items = deliveries.map(delivery => {
+      const sender = this.usersData.get(delivery.senderId);
+      const carrier = delivery.carrierId ? this.usersData.get(delivery.carrierId) : undefined;
+      
+      // Remove sensitive info from users
+      const senderSafe = sender ? {
+        id: sender.id,
+        username: sender.username,
+        fullName: sender.fullName,
+        rating: sender.rating,
+        totalReviews: sender.totalReviews,
+        verifiedAt: sender.verifiedAt,
+        avatarUpdatedAt: sender.avatarUpdatedAt,
+        role: sender.role,
+      } : undefined;
+      
+      const carrierSafe = carrier ? {
+        id: carrier.id,
+        username: carrier.username,
+        fullName: carrier.fullName,
+        rating: carrier.rating,
+        totalReviews: carrier.totalReviews,
+        verifiedAt: carrier.verifiedAt,
+        avatarUpdatedAt: carrier.avatarUpdatedAt,
+        role: carrier.role,
+      } : undefined;
+      
+      return {
+        ...delivery,
+        sender: senderSafe as User,
+        ...(carrierSafe && { carrier: carrierSafe as User }),
+      };
+    });
+    
+    return {
+      items,
+      nextCursor: hasMore && lastItem ? encodeCursor(lastItem, page.sort) : null,
+      total,
+    };
+  }
+  
+  async getDeliveryById(id: number): Promise<Delivery | undefined> {
+    return this.deliveriesData.get(id);
+  }
+  
+  async createDelivery(delivery: InsertDelivery, recipient?: Omit<InsertDeliveryRecipient, "deliveryId">): Promise<Delivery> {
+    const id = this.deliveryId++;
+    const now = new Date();
+    const createdDelivery: Delivery = { 
+      ...delivery, 
+      id, 
+      pickupLat: delivery.pickupLat ?? null,
+      pickupLng: delivery.pickupLng ?? null,
+      dropLat: delivery.dropLat ?? null,
+      dropLng: delivery.dropLng ?? null,
+      distanceKm: delivery.distanceKm ?? null,
+      verifiedCarriersOnly: delivery.verifiedCarriersOnly ?? false,
+      status: "requested", 
+      cancelledBy: null,
+      cancellationReason: null,
+      cancellationNote: null,
+      cancelledAt: null,
+      hiddenAt: null,
+      hiddenReason: null,
+      createdAt: now.toISOString() 
+    };
+    this.deliveriesData.set(id, createdDelivery);
+    if (recipient) {
+      this.deliveryRecipientsData.set(id, { ...recipient, deliveryId: id, createdAt: now });
+    }
+    this.recordDeliveryEvent(id, null, createdDelivery.status, { actorId: createdDelivery.senderId });
+    return createdDelivery;
+  }
+  
+  async getDeliveryRecipient(deliveryId: number): Promise<DeliveryRecipient | undefined> {
+    return this.deliveryRecipientsData.get(deliveryId);
+  }
+  
+  async updateDeliveryStatus(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    status: DeliveryStatus, 
+    transition: DeliveryTransition, 
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    const delivery = this.deliveriesData.get(id);
+    if (!delivery || delivery.status !== fromStatus) return undefined;
+    
+    if (settlement) {
+      await this.postSettlement(settlement, delivery);
+    }
+    
+    const updatedDelivery = { ...delivery, status };
+    this.deliveriesData.set(id, updatedDelivery);
+    this.recordDeliveryEvent(id, delivery.status, updatedDelivery.status, transition);
+    return updatedDelivery;
+  }
+  
+  async cancelDelivery(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    cancellation: DeliveryCancellation, 
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    const delivery = this.deliveriesData.get(id);
+    if (!delivery || delivery.status !== fromStatus) return undefined;
+    
+    if (settlement) {
+      await this.postSettlement(settlement, delivery);
+    }
+    
+    const cancelledDelivery: Delivery = {
+      ...delivery,
+      status: "cancelled",
+      cancelledBy: cancellation.cancelledBy,
+      cancellationReason: cancellation.reason,
+      cancellationNote: cancellation.note ?? null,
+      cancelledAt: new Date(),
+    };
+    this.deliveriesData.set(id, cancelledDelivery);
+    this.recordDeliveryEvent(id, delivery.status, "cancelled", {
+      actorId: cancellation.cancelledBy,
+      note: cancellation.note,
+      metadata: { reason: cancellation.reason },
+    });
+    return cancelledDelivery;
+  }
+  
+  async releaseDelivery(
+    id: number, 
+    fromStatus: DeliveryStatus, 
+    transition: DeliveryTransition, 
+    settlement?: LedgerSettlement
+  ): Promise<Delivery | undefined> {
+    const delivery = this.deliveriesData.get(id);
+    if (!delivery || delivery.status !== fromStatus) return undefined;
+    
+    if (settlement) {
+      await this.postSettlement(settlement, delivery);
+    }
+    
+    // Put the delivery back on the market without a carrier
+    const releasedDelivery: Delivery = {
+      ...delivery,
+      status: "requested",
+      carrierId: null,
+    };
+    this.deliveriesData.set(id, releasedDelivery);
+    this.recordDeliveryEvent(id, delivery.status, "requested", transition);
+    return releasedDelivery;
+  }
+  
+  async hideDelivery(id: number, reason: string | null): Promise<Delivery | undefined> {
+    const delivery = this.deliveriesData.get(id);
+    if (!delivery) return undefined;
+    
+    const updatedDelivery: Delivery = {
+      ...delivery,
+      hiddenAt: reason === null ? null : new Date(),
+      hiddenReason: reason,
+    };
+    this.deliveriesData.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+  
+  private recordDeliveryEvent(
+    deliveryId: number,
+    fromStatus: Delivery["status"] | null,
+    toStatus: Delivery["status"],
+    transition: DeliveryTransition
+  ) {
+    const id = this.deliveryEventId++;
+    this.deliveryEventsData.set(id, {
+      id,
+      deliveryId,
+      actorId: transition.actorId,
+      fromStatus,
+      toStatus,
+      note: transition.note ?? null,
+      metadata: transition.metadata ?? null,
+      createdAt: new Date(),
+    });
+  }
+  
+  
+  
+  // Offer methods
+  async createOffer(offer: InsertOffer): Promise<Offer> {
+    const id = this.offerId++;
+    const now = new Date();
+    const createdOffer: Offer = {
+      ...offer,
+      id,
+      note: offer.note ?? null,
+      status: "pending",
+      counterPrice: null,
+      counterNote: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.offersData.set(id, createdOffer);
+    return createdOffer;
+  }
+  
+  async getOfferById(id: number): Promise<Offer | undefined> {
+    return this.offersData.get(id);
+  }
+  
+  async getDeliveryOffers(deliveryId: number): Promise<OfferWithCarrier[]> {
+    const deliveryOffers = Array.from(this.offersData.values())
+      .filter(o => o.deliveryId === deliveryId);
+    
+    // Add carrier info
+    const offersWithCarrier = deliveryOffers.map(offer => {
+      const carrier = this.usersData.get(offer.carrierId);
+      
+      // Safe carrier info (without password)
+      const carrierSafe = carrier ? {
+        id: carrier.id,
+        username: carrier.username,
+        fullName: carrier.fullName,
+        rating: carrier.rating,
+        totalReviews: carrier.totalReviews,
+        verifiedAt: carrier.verifiedAt,
+        avatarUpdatedAt: carrier.avatarUpdatedAt,
+      } : {};
+      
+      return {
+        ...offer,
+        carrier: carrierSafe,
+      };
+    });
+    
+    // Best-rated carriers first, then the cheapest offer
+    return offersWithCarrier.sort((a, b) => {
+      const ratingA = a.carrier.rating ?? -1;
+      const ratingB = b.carrier.rating ?? -1;
+      return ratingB - ratingA || a.price - b.price;
+    });
+  }
+  
+  async getOpenOfferByCarrier(deliveryId: number, carrierId: number): Promise<Offer | undefined> {
+    return Array.from(this.offersData.values()).find(
+      o => o.deliveryId === deliveryId && o.carrierId === carrierId &&
+        (o.status === "pending" || o.status === "countered")
+    );
+  }
+  
+  async updateOffer(id: number, updates: Partial<Offer>): Promise<Offer | undefined> {
+    const offer = this.offersData.get(id);
+    if (!offer) return undefined;
+    
+    const updatedOffer = { ...offer, ...updates, updatedAt: new Date() };
+    this.offersData.set(id, updatedOffer);
+    return updatedOffer;
+  }
+  
+  async withdrawOpenOffers(carrierId: number): Promise<Offer[]> {
+    const openOffers = Array.from(this.offersData.values()).filter(
+      o => o.carrierId === carrierId && (o.status === "pending" || o.status === "countered")
+    );
+    
+    return openOffers.map(offer => {
+      const withdrawnOffer: Offer = { ...offer, status: "withdrawn", updatedAt: new Date() };
+      this.offersData.set(offer.id, withdrawnOffer);
+      return withdrawnOffer;
+    });
+  }
+  
+  async acceptOffer(offerId: number, actorId: number, escrowHold: (price: number) => LedgerTransfer): Promise<Delivery | undefined> {
+    const offer = this.offersData.get(offerId);
+    if (!offer || (offer.status !== "pending" && offer.status !== "countered")) return undefined;
+    
+    // Only a delivery that is still requested can be assigned
+    const delivery = this.deliveriesData.get(offer.deliveryId);
+    if (!delivery || delivery.status !== "requested") return undefined;
+    
+    // Checks the balance before writing, so nothing changes if it throws
+    const price = agreedPrice(offer);
+    const hold = escrowHold(price);
+    await this.postLedgerTransaction(hold.transaction, hold.postings);
+    
+    const acceptedDelivery: Delivery = {
+      ...delivery,
+      status: "accepted",
+      carrierId: offer.carrierId,
+      deliveryFee: price,
+    };
+    this.deliveriesData.set(delivery.id, acceptedDelivery);
+    
+    // Accept this offer and reject the competing ones
+    const now = new Date();
+    Array.from(this.offersData.values())
+      .filter(o => o.deliveryId === offer.deliveryId)
+      .forEach(o => {
+        if (o.id === offerId) {
+          this.offersData.set(o.id, { ...o, status: "accepted", updatedAt: now });
+        } else if (o.status === "pending" || o.status === "countered") {
+          this.offersData.set(o.id, { ...o, status: "rejected", updatedAt: now });
+        }
+      });
+    
+    this.recordDeliveryEvent(delivery.id, "requested", "accepted", {
+      actorId,
+      metadata: { offerId, carrierId: offer.carrierId, price },
+    });
+    
+    return acceptedDelivery;
+  }
+  
+  // Delivery event methods
+  async getDeliveryEvents(deliveryId: number): Promise<DeliveryEventWithActor[]> {
+    return Array.from(this.deliveryEventsData.values())
+      .filter(event => event.deliveryId === deliveryId)
+      .sort((a, b) => a.id - b.id)
+      .map(event => {
+        const actor = event.actorId ? this.usersData.get(event.actorId) : undefined;
+        
+        return {
+          ...event,
+          actor: actor ? { id: actor.id, username: actor.username, fullName: actor.fullName } : null,
+        };
+      });
+  }
+  
+  // Handoff code methods
+  async createHandoffCode(handoffCode: InsertHandoffCode): Promise<HandoffCode> {
+    const id = this.handoffCodeId++;
+    const createdCode: HandoffCode = {
+      ...handoffCode,
+      id,
+      attempts: 0,
+      usedAt: null,
+      usedBy: null,
+      createdAt: new Date(),
+    };
+    this.handoffCodesData.set(id, createdCode);
+    return createdCode;
+  }
+  
+  async getLatestHandoffCode(deliveryId: number, purpose: HandoffPurpose): Promise<HandoffCode | undefined> {
+    return Array.from(this.handoffCodesData.values())
+      .filter(c => c.deliveryId === deliveryId && c.purpose === purpose)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async redeemHandoffCode(id: number, usedBy: number, maxAttempts: number): Promise<HandoffCode | undefined> {
+    const handoffCode = this.handoffCodesData.get(id);
+    if (!handoffCode || !this.handoffCodeIsActive(handoffCode, maxAttempts)) return undefined;
+    
+    const usedCode = { ...handoffCode, usedAt: new Date(), usedBy };
+    this.handoffCodesData.set(id, usedCode);
+    return usedCode;
+  }
+  
+  async recordFailedHandoffAttempt(id: number, maxAttempts: number): Promise<HandoffCode | undefined> {
+    const handoffCode = this.handoffCodesData.get(id);
+    if (!handoffCode || !this.handoffCodeIsActive(handoffCode, maxAttempts)) return undefined;
+    
+    const updatedCode = { ...handoffCode, attempts: handoffCode.attempts + 1 };
+    this.handoffCodesData.set(id, updatedCode);
+    return updatedCode;
+  }
+  
+  async restoreHandoffCode(id: number): Promise<HandoffCode | undefined> {
+    const handoffCode = this.handoffCodesData.get(id);
+    if (!handoffCode) return undefined;
+    
+    const restoredCode = { ...handoffCode, usedAt: null, usedBy: null };
+    this.handoffCodesData.set(id, restoredCode);
+    return restoredCode;
+  }
+  
+  private handoffCodeIsActive(handoffCode: HandoffCode, maxAttempts: number) {
+    return !handoffCode.usedAt &&
+      handoffCode.attempts < maxAttempts &&
+      new Date(handoffCode.expiresAt).getTime() > Date.now();
+  }
+  
+  // Attachment methods
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const id = this.attachmentId++;
+    const createdAttachment: Attachment = {
+      ...attachment,
+      id,
+      width: attachment.width ?? null,
+      height: attachment.height ?? null,
+      createdAt: new Date(),
+    };
+    this.attachmentsData.set(id, createdAttachment);
+    return createdAttachment;
+  }
+  
+  async getAttachmentById(id: number): Promise<Attachment | undefined> {
+    return this.attachmentsData.get(id);
+  }
+  
+  async getDeliveryAttachments(deliveryId: number): Promise<Attachment[]> {
+    return Array.from(this.attachmentsData.values())
+      .filter(a => a.deliveryId === deliveryId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Message methods
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const id = this.messageId++;
+    const createdMessage: Message = {
+      ...message,
+      id,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.messagesData.set(id, createdMessage);
+    return createdMessage;
+  }
+  
+  async getDeliveryMessages(deliveryId: number): Promise<Message[]> {
+    return Array.from(this.messagesData.values())
+      .filter(m => m.deliveryId === deliveryId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async markMessagesRead(deliveryId: number, readerId: number): Promise<number> {
+    // Only messages written by the other party can be read by this user
+    const unread = Array.from(this.messagesData.values()).filter(
+      m => m.deliveryId === deliveryId && m.authorId !== readerId && !m.readAt
+    );
+    
+    const now = new Date();
+    unread.forEach(m => this.messagesData.set(m.id, { ...m, readAt: now }));
+    return unread.length;
+  }
+  
+  async getUnreadMessageCounts(userId: number): Promise<UnreadMessageCounts> {
+    const counts = new Map<number, number>();
+    
+    Array.from(this.messagesData.values()).forEach(m => {
+      const delivery = this.deliveriesData.get(m.deliveryId);
+      const isParticipant = delivery && (delivery.senderId === userId || delivery.carrierId === userId);
+      if (isParticipant && m.authorId !== userId && !m.readAt) {
+        counts.set(m.deliveryId, (counts.get(m.deliveryId) ?? 0) + 1);
+      }
     });
     
-    const delivery2 = this.createDelivery({
-      senderId: 3,
-      pickupLocation: "Mumbai",
-      dropLocation: "Bangalore",
-      packageSize: "small",
-      packageWeight: 1000, // 1 kg
-      description: "Clothes",
-      preferredDeliveryDate: "2023-06-24",
-      preferredDeliveryTime: "Before 2:00 PM",
-      deliveryFee: 50000, // $500
-    });
+    const deliveries = Array.from(counts.entries()).map(([deliveryId, count]) => ({ deliveryId, count }));
+    return {
+      total: deliveries.reduce((sum, { count }) => sum + count, 0),
+      deliveries,
+    };
+  }
+  
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const id = this.notificationId++;
+    const createdNotification: Notification = {
+      ...notification,
+      id,
+      deliveryId: notification.deliveryId ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notificationsData.set(id, createdNotification);
+    return createdNotification;
+  }
+  
+  async getUserNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notificationsData.values())
+      .filter(n => n.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notificationsData.values())
+      .filter(n => n.userId === userId && !n.readAt)
+      .length;
+  }
+  
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const unread = Array.from(this.notificationsData.values()).filter(
+      n => n.userId === userId && !n.readAt && (!ids || ids.includes(n.id))
+    );
+    
+    const now = new Date();
+    unread.forEach(n => this.notificationsData.set(n.id, { ...n, readAt: now }));
+    return unread.length;
+  }
+  
+  // Trip methods
+  async createTrip(trip: InsertTrip): Promise<Trip> {
+    const id = this.tripId++;
+    const now = new Date();
+    const createdTrip: Trip = {
+      ...trip,
+      id,
+      notes: trip.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tripsData.set(id, createdTrip);
+    return createdTrip;
+  }
+  
+  async getTripById(id: number): Promise<Trip | undefined> {
+    return this.tripsData.get(id);
+  }
+  
+  async getCarrierTrips(carrierId: number): Promise<Trip[]> {
+    return Array.from(this.tripsData.values())
+      .filter(t => t.carrierId === carrierId)
+      .sort((a, b) => a.departureFrom.localeCompare(b.departureFrom) || a.id - b.id);
+  }
+  
+  async getUpcomingTrips(fromDate: string): Promise<Trip[]> {
+    return Array.from(this.tripsData.values()).filter(t => t.departureTo >= fromDate);
+  }
+  
+  async updateTrip(id: number, updates: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const trip = this.tripsData.get(id);
+    if (!trip) return undefined;
+    
+    const updatedTrip = { ...trip, ...updates, updatedAt: new Date() };
+    this.tripsData.set(id, updatedTrip);
+    return updatedTrip;
+  }
+  
+  async deleteTrip(id: number): Promise<boolean> {
+    return this.tripsData.delete(id);
+  }
+  
+  // Setting methods
+  async getSetting(key: string): Promise<unknown | undefined> {
+    return this.settingsData.get(key)?.value;
+  }
+  
+  async setSetting(key: string, value: unknown): Promise<Setting> {
+    const setting: Setting = { key, value, updatedAt: new Date() };
+    this.settingsData.set(key, setting);
+    return setting;
+  }
+  
+  // Ledger methods
+  async postLedgerTransaction(transaction: InsertLedgerTransaction, postings: LedgerPosting[]): Promise<LedgerTransaction> {
+    assertBalanced(postings);
     
-    const delivery3 = this.createDelivery({
-      senderId: 1,
-      pickupLocation: "Bangalore",
-      dropLocation: "Pune",
-      packageSize: "large",
-      packageWeight: 8000, // 8 kg
-      description: "Books",
-      preferredDeliveryDate: "2023-06-23",
-      preferredDeliveryTime: "Before 8:00 PM",
-      deliveryFee: 60000, // $600
-    });
+    const accounts = postings.map(({ account }) => this.findOrCreateLedgerAccount(account));
     
-    // Update delivery1 to be picked by carrier
-    this.updateDeliveryStatus(1, "accepted", 2);
-    this.updateDeliveryStatus(1, "picked");
+    // Check every balance before writing anything
+    postings.forEach(({ amount }, index) => {
+      const account = accounts[index];
+      if (amount >= 0 || !mustStayPositive(account.type)) return;
+      
+      const netAmount = postings
+        .filter((_, other) => accounts[other].id === account.id)
+        .reduce((sum, posting) => sum + posting.amount, 0);
+      const balance = this.ledgerAccountBalance(account.id) + netAmount;
+      if (balance < 0) {
+        throw new InsufficientFundsError(-balance);
+      }
+    });
     
-    // Update delivery2 to be accepted by carrier
-    this.updateDeliveryStatus(2, "accepted", 2);
+    const now = new Date();
+    const createdTransaction: LedgerTransaction = {
+      id: this.ledgerTransactionId++,
+      kind: transaction.kind,
+      deliveryId: transaction.deliveryId ?? null,
+      description: transaction.description,
+      reference: transaction.reference ?? null,
+      createdAt: now,
+    };
+    this.ledgerTransactionsData.set(createdTransaction.id, createdTransaction);
     
-    // Create reviews
-    this.createReview({
-      deliveryId: 1,
-      reviewerId: 1,
-      revieweeId: 2,
-      rating: 5,
-      comment: "Excellent service!",
+    postings.forEach(({ amount }, index) => {
+      const id = this.ledgerEntryId++;
+      this.ledgerEntriesData.set(id, {
+        id,
+        transactionId: createdTransaction.id,
+        accountId: accounts[index].id,
+        amount,
+        createdAt: now,
+      });
     });
+    
+    return createdTransaction;
   }
   
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    return this.usersData.get(id);
+  // Checks the balances before writing, so nothing changes if it throws
+  private async postSettlement(settlement: LedgerSettlement, delivery: Delivery) {
+    const transfer = await settlement(this, delivery);
+    if (transfer) {
+      await this.postLedgerTransaction(transfer.transaction, transfer.postings);
+    }
   }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.usersData.values()).find(
-      (user) => user.username === username,
-    );
+  
+  async getLedgerBalance(account: LedgerAccountRef): Promise<number> {
+    const ledgerAccount = this.findLedgerAccount(account);
+    return ledgerAccount ? this.ledgerAccountBalance(ledgerAccount.id) : 0;
   }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.userId++;
-    const user: User = { ...insertUser, id, rating: 0, totalReviews: 0 };
-    this.usersData.set(id, user);
-    return user;
+  
+  async getLedgerActivity(account: LedgerAccountRef, limit: number): Promise<WalletTransaction[]> {
+    const ledgerAccount = this.findLedgerAccount(account);
+    if (!ledgerAccount) return [];
+    
+    return Array.from(this.ledgerEntriesData.values())
+      .filter(entry => entry.accountId === ledgerAccount.id)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map(entry => {
+        const transaction = this.ledgerTransactionsData.get(entry.transactionId)!;
+        return {
+          id: entry.id,
+          transactionId: transaction.id,
+          kind: transaction.kind,
+          amount: entry.amount,
+          description: transaction.description,
+          deliveryId: transaction.deliveryId,
+          createdAt: entry.createdAt,
+        };
+      });
   }
   
-  async getUserProfile(userId: number): Promise<Partial<User> | undefined> {
-    const user = this.usersData.get(userId);
-    if (!user) return undefined;
+  private findLedgerAccount(account: LedgerAccountRef): LedgerAccount | undefined {
+    const key = ledgerAccountKey(account);
+    return Array.from(this.ledgerAccountsData.values()).find(ledgerAccount => ledgerAccount.key === key);
+  }
+  
+  private findOrCreateLedgerAccount(account: LedgerAccountRef): LedgerAccount {
+    const existingAccount = this.findLedgerAccount(account);
+    if (existingAccount) return existingAccount;
     
-    const { password, ...profile } = user;
-    return profile;
+    const id = this.ledgerAccountId++;
+    const createdAccount: LedgerAccount = { ...ledgerAccountValues(account), id, createdAt: new Date() };
+    this.ledgerAccountsData.set(id, createdAccount);
+    return createdAccount;
   }
   
-  // Delivery methods
-  async getDeliveriesWithFilters(filters: Record<string, any>): Promise<DeliveryWithUser[]> {
-    let deliveries = Array.from(this.deliveriesData.values());
+  private ledgerAccountBalance(accountId: number) {
+    return Array.from(this.ledgerEntriesData.values())
+      .filter(entry => entry.accountId === accountId)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  }
+  
+  // Payout methods
+  async createPayout(payout: InsertPayout): Promise<Payout> {
+    const id = this.payoutId++;
+    const now = new Date();
+    const createdPayout: Payout = {
+      ...payout,
+      id,
+      status: "pending",
+      gatewayReference: null,
+      failureReason: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.payoutsData.set(id, createdPayout);
+    return createdPayout;
+  }
+  
+  async updatePayout(id: number, updates: Partial<Payout>): Promise<Payout | undefined> {
+    const payout = this.payoutsData.get(id);
+    if (!payout) return undefined;
     
-    // Apply filters
-    if (filters.status) {
-      deliveries = deliveries.filter(d => d.status === filters.status);
+    const updatedPayout = { ...payout, ...updates, updatedAt: new Date() };
+    this.payoutsData.set(id, updatedPayout);
+    return updatedPayout;
+  }
+  
+  async getUserPayouts(userId: number, limit: number): Promise<Payout[]> {
+    return Array.from(this.payoutsData.values())
+      .filter(payout => payout.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Dispute methods
+  async openDispute(dispute: InsertDispute, settlement?: LedgerSettlement): Promise<Dispute | undefined> {
+    const delivery = this.deliveriesData.get(dispute.deliveryId);
+    if (!delivery || !disputableStatuses.some(status => status === delivery.status)) {
+      return undefined;
     }
     
-    if (filters.pickupLocation) {
-      deliveries = deliveries.filter(d => d.pickupLocation === filters.pickupLocation);
+    if (settlement) {
+      await this.postSettlement(settlement, delivery);
     }
     
-    if (filters.dropLocation) {
-      deliveries = deliveries.filter(d => d.dropLocation === filters.dropLocation);
-    }
+    const id = this.disputeId++;
+    const createdDispute: Dispute = {
+      ...dispute,
+      id,
+      status: "open",
+      previousStatus: delivery.status,
+      outcome: null,
+      senderAmount: null,
+      carrierAmount: null,
+      resolutionNote: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+    };
+    this.disputesData.set(id, createdDispute);
+    
+    this.deliveriesData.set(delivery.id, { ...delivery, status: "disputed" });
+    this.recordDeliveryEvent(delivery.id, delivery.status, "disputed", {
+      actorId: dispute.openedBy,
+      note: dispute.description,
+      metadata: { disputeId: id, reason: dispute.reason },
+    });
+    
+    return createdDispute;
+  }
+  
+  async getDisputeById(id: number): Promise<Dispute | undefined> {
+    return this.disputesData.get(id);
+  }
+  
+  async getDeliveryDisputes(deliveryId: number): Promise<Dispute[]> {
+    return Array.from(this.disputesData.values())
+      .filter(dispute => dispute.deliveryId === deliveryId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getDisputes(status?: Dispute["status"]): Promise<DisputeWithDelivery[]> {
+    return Array.from(this.disputesData.values())
+      .filter(dispute => !status || dispute.status === status)
+      .sort((a, b) => status === "open" ? a.id - b.id : b.id - a.id)
+      .map(dispute => ({ ...dispute, delivery: this.deliveriesData.get(dispute.deliveryId)! }));
+  }
+  
+  async resolveDispute(
+    id: number,
+    resolution: DisputeResolution,
+    deliveryStatus: Delivery["status"],
+    settlement?: LedgerSettlement
+  ): Promise<Dispute | undefined> {
+    const dispute = this.disputesData.get(id);
+    if (!dispute || dispute.status !== "open") return undefined;
     
-    if (filters.packageSize) {
-      deliveries = deliveries.filter(d => d.packageSize === filters.packageSize);
+    const delivery = this.deliveriesData.get(dispute.deliveryId);
+    if (delivery && settlement) {
+      await this.postSettlement(settlement, delivery);
     }
     
-    // Sort by creation date (most recent first)
-    deliveries.sort((a, b) => {
-      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-      return dateB - dateA;
-    });
+    const resolvedDispute: Dispute = {
+      ...dispute,
+      status: "resolved",
+      outcome: resolution.outcome,
+      senderAmount: resolution.senderAmount,
+      carrierAmount: resolution.carrierAmount,
+      resolutionNote: resolution.note,
+      resolvedBy: resolution.resolvedBy,
+      resolvedAt: new Date(),
+    };
+    this.disputesData.set(id, resolvedDispute);
     
-    // Add sender and carrier info
-    return deliveries.map(delivery => {
-      const sender = this.usersData.get(delivery.senderId);
-      const carrier = delivery.carrierId ? this.usersData.get(delivery.carrierId) : undefined;
-      
-      // Remove sensitive info from users
-      const senderSafe = sender ? {
-        id: sender.id,
-        username: sender.username,
-        fullName: sender.fullName,
-        rating: sender.rating,
-        totalReviews: sender.totalReviews,
-        role: sender.role,
-      } : undefined;
-      
-      const carrierSafe = carrier ? {
-        id: carrier.id,
-        username: carrier.username,
-        fullName: carrier.fullName,
-        rating: carrier.rating,
-        totalReviews: carrier.totalReviews,
-        role: carrier.role,
-      } : undefined;
-      
-      return {
-        ...delivery,
-        sender: senderSafe as User,
-        ...(carrierSafe && { carrier: carrierSafe as User }),
-      };
+    if (delivery) {
+      this.deliveriesData.set(delivery.id, { ...delivery, status: deliveryStatus });
+    }
+    this.recordDeliveryEvent(dispute.deliveryId, "disputed", deliveryStatus, {
+      actorId: resolution.resolvedBy,
+      note: resolution.note,
+      metadata: {
+        disputeId: id,
+        outcome: resolution.outcome,
+        senderAmount: resolution.senderAmount,
+        carrierAmount: resolution.carrierAmount,
+      },
     });
+    
+    return resolvedDispute;
   }
   
-  async getDeliveryById(id: number): Promise<Delivery | undefined> {
-    return this.deliveriesData.get(id);
+  async hasOpenDispute(userId: number): Promise<boolean> {
+    return Array.from(this.disputesData.values()).some(dispute => {
+      const delivery = this.deliveriesData.get(dispute.deliveryId);
+      return dispute.status === "open" &&
+        (delivery?.senderId === userId || delivery?.carrierId === userId);
+    });
   }
   
-  async createDelivery(delivery: InsertDelivery): Promise<Delivery> {
-    const id = this.deliveryId++;
-    const now = new Date();
-    const createdDelivery: Delivery = { 
-      ...delivery, 
-      id, 
-      status: "requested", 
-      createdAt: now.toISOString() 
+  async createDisputeMessage(message: InsertDisputeMessage): Promise<DisputeMessage> {
+    const id = this.disputeMessageId++;
+    const createdMessage: DisputeMessage = {
+      ...message,
+      id,
+      createdAt: new Date(),
     };
-    this.deliveriesData.set(id, createdDelivery);
-    return createdDelivery;
+    this.disputeMessagesData.set(id, createdMessage);
+    return createdMessage;
   }
   
-  async updateDeliveryStatus(id: number, status: string, carrierId?: number): Promise<Delivery | undefined> {
-    const delivery = this.deliveriesData.get(id);
-    if (!delivery) return undefined;
-    
-    const updatedDelivery = { 
-      ...delivery, 
-      status: status as any,
-      ...(carrierId && { carrierId }),
+  async getDisputeMessages(disputeId: number): Promise<DisputeMessageWithAuthor[]> {
+    return Array.from(this.disputeMessagesData.values())
+      .filter(message => message.disputeId === disputeId)
+      .sort((a, b) => a.id - b.id)
+      .map(message => {
+        const author = this.usersData.get(message.authorId);
+        
+        return {
+          ...message,
+          author: author
+            ? { id: author.id, username: author.username, fullName: author.fullName, isAdmin: author.isAdmin }
+            : null,
+        };
+      });
+  }
+  
+  // Identity verification methods
+  async createVerificationRequest(request: InsertVerificationRequest): Promise<VerificationRequest> {
+    const id = this.verificationRequestId++;
+    const createdRequest: VerificationRequest = {
+      ...request,
+      id,
+      status: "pending",
+      reviewNote: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: new Date(),
     };
-    this.deliveriesData.set(id, updatedDelivery);
-    return updatedDelivery;
+    this.verificationRequestsData.set(id, createdRequest);
+    return createdRequest;
   }
   
-  async getSenderDeliveries(userId: number): Promise<DeliveryWithUser[]> {
-    // Get all deliveries where the user is the sender
-    const deliveries = Array.from(this.deliveriesData.values())
-      .filter(d => d.senderId === userId)
-      .sort((a, b) => {
-        const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-        const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-        return dateB - dateA;
-      });
-    
-    // Add sender and carrier info
-    return deliveries.map(delivery => {
-      const sender = this.usersData.get(delivery.senderId);
-      const carrier = delivery.carrierId ? this.usersData.get(delivery.carrierId) : undefined;
-      
-      // Remove sensitive info from users
-      const senderSafe = sender ? {
-        id: sender.id,
-        username: sender.username,
-        fullName: sender.fullName,
-        rating: sender.rating,
-        totalReviews: sender.totalReviews,
-        role: sender.role,
-      } : undefined;
-      
-      const carrierSafe = carrier ? {
-        id: carrier.id,
-        username: carrier.username,
-        fullName: carrier.fullName,
-        rating: carrier.rating,
-        totalReviews: carrier.totalReviews,
-        role: carrier.role,
-      } : undefined;
-      
-      return {
-        ...delivery,
-        sender: senderSafe as User,
-        ...(carrierSafe && { carrier: carrierSafe as User }),
-      };
-    });
+  async getVerificationRequestById(id: number): Promise<VerificationRequest | undefined> {
+    return this.verificationRequestsData.get(id);
   }
   
-  async getCarrierDeliveries(userId: number): Promise<DeliveryWithUser[]> {
-    // Get all deliveries where the user is the carrier
-    const deliveries = Array.from(this.deliveriesData.values())
-      .filter(d => d.carrierId === userId)
-      .sort((a, b) => {
-        const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-        const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-        return dateB - dateA;
+  async getLatestVerificationRequest(userId: number): Promise<VerificationRequest | undefined> {
+    return Array.from(this.verificationRequestsData.values())
+      .filter(request => request.userId === userId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async getVerificationRequests(status: VerificationRequest["status"]): Promise<VerificationRequestWithUser[]> {
+    return Array.from(this.verificationRequestsData.values())
+      .filter(request => request.status === status && this.usersData.has(request.userId))
+      .sort((a, b) => status === "pending" ? a.id - b.id : b.id - a.id)
+      .map(request => {
+        const { password, ...user } = this.usersData.get(request.userId)!;
+        return { ...request, user };
       });
+  }
+  
+  async reviewVerificationRequest(
+    id: number,
+    reviewedBy: number,
+    approved: boolean,
+    note: string | null,
+  ): Promise<VerificationRequest | undefined> {
+    const request = this.verificationRequestsData.get(id);
+    if (!request || request.status !== "pending") return undefined;
     
-    // Add sender and carrier info
-    return deliveries.map(delivery => {
-      const sender = this.usersData.get(delivery.senderId);
-      const carrier = this.usersData.get(userId);
-      
-      // Remove sensitive info from users
-      const senderSafe = sender ? {
-        id: sender.id,
-        username: sender.username,
-        fullName: sender.fullName,
-        rating: sender.rating,
-        totalReviews: sender.totalReviews,
-        role: sender.role,
-      } : undefined;
-      
-      const carrierSafe = carrier ? {
-        id: carrier.id,
-        username: carrier.username,
-        fullName: carrier.fullName,
-        rating: carrier.rating,
-        totalReviews: carrier.totalReviews,
-        role: carrier.role,
-      } : undefined;
-      
-      return {
-        ...delivery,
-        sender: senderSafe as User,
-        ...(carrierSafe && { carrier: carrierSafe as User }),
-      };
-    });
+    const reviewedRequest: VerificationRequest = {
+      ...request,
+      status: approved ? "approved" : "rejected",
+      reviewNote: note,
+      reviewedBy,
+      reviewedAt: new Date(),
+    };
+    this.verificationRequestsData.set(id, reviewedRequest);
+    
+    const user = this.usersData.get(request.userId);
+    if (user && approved) {
+      this.usersData.set(user.id, { ...user, verifiedAt: new Date() });
+    }
+    
+    return reviewedRequest;
   }
   
   // Review methods
@@ -598,6 +3180,8 @@ export class MemStorage implements IStorage {
     const createdReview: Review = { 
       ...review, 
       id, 
+      hiddenAt: null,
+      hiddenReason: null,
       createdAt: now.toISOString() 
     };
     this.reviewsData.set(id, createdReview);
@@ -611,7 +3195,7 @@ export class MemStorage implements IStorage {
   async getUserReviews(userId: number): Promise<(Review & { reviewer: Partial<User> })[]> {
     // Get all reviews for the user
     const userReviews = Array.from(this.reviewsData.values())
-      .filter(r => r.revieweeId === userId)
+      .filter(r => r.revieweeId === userId && r.hiddenAt === null)
       .sort((a, b) => {
         const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
         const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
@@ -627,6 +3211,7 @@ export class MemStorage implements IStorage {
         id: reviewer.id,
         username: reviewer.username,
         fullName: reviewer.fullName,
+        avatarUpdatedAt: reviewer.avatarUpdatedAt,
       } : undefined;
       
       return {
@@ -636,22 +3221,115 @@ export class MemStorage implements IStorage {
     });
   }
   
+  async getReviewById(id: number): Promise<Review | undefined> {
+    return this.reviewsData.get(id);
+  }
+  
+  async searchReviews(query: string | undefined, limit: number): Promise<ReviewWithUsers[]> {
+    const needle = query?.toLowerCase();
+    const summary = (user: User | undefined) =>
+      user ? { id: user.id, username: user.username, fullName: user.fullName } : null;
+    
+    return Array.from(this.reviewsData.values())
+      .map(review => ({
+        ...review,
+        reviewer: summary(this.usersData.get(review.reviewerId)),
+        reviewee: summary(this.usersData.get(review.revieweeId)),
+      }))
+      .filter(review => !needle || [
+        review.comment ?? "",
+        review.reviewer?.username ?? "",
+        review.reviewer?.fullName ?? "",
+        review.reviewee?.username ?? "",
+        review.reviewee?.fullName ?? "",
+      ].some(text => text.toLowerCase().includes(needle)))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async hideReview(id: number, reason: string | null): Promise<Review | undefined> {
+    const review = this.reviewsData.get(id);
+    if (!review) return undefined;
+    
+    const updatedReview: Review = {
+      ...review,
+      hiddenAt: reason === null ? null : new Date(),
+      hiddenReason: reason,
+    };
+    this.reviewsData.set(id, updatedReview);
+    
+    // Hidden reviews don't count towards the reviewee's rating
+    await this.updateUserRating(review.revieweeId);
+    return updatedReview;
+  }
+  
   async getReviewByDeliveryAndReviewer(deliveryId: number, reviewerId: number): Promise<Review | undefined> {
     return Array.from(this.reviewsData.values()).find(
       r => r.deliveryId === deliveryId && r.reviewerId === reviewerId
     );
   }
   
+  // Login history methods
+  async createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent> {
+    const id = this.loginEventId++;
+    const createdEvent: LoginEvent = {
+      ...event,
+      id,
+      ip: event.ip ?? null,
+      userAgent: event.userAgent ?? null,
+      createdAt: new Date(),
+    };
+    this.loginEventsData.set(id, createdEvent);
+    return createdEvent;
+  }
+  
+  async getLoginEvents(userId: number, limit: number): Promise<LoginEvent[]> {
+    return Array.from(this.loginEventsData.values())
+      .filter(event => event.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Session methods
+  private async allSessions(): Promise<Record<string, SessionRecord>> {
+    return await new Promise((resolve, reject) => {
+      this.sessionStore.all!((err, all) => {
+        if (err) return reject(err);
+        resolve((all ?? {}) as Record<string, SessionRecord>);
+      });
+    });
+  }
+  
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const all = await this.allSessions();
+    return Object.keys(all)
+      .filter(sid => all[sid].passport?.user === userId)
+      .map(sid => toStoredSession(sid, all[sid]));
+  }
+  
+  async deleteUserSessions(userId: number, sids: string[]): Promise<number> {
+    const all = await this.allSessions();
+    const owned = sids.filter(sid => all[sid]?.passport?.user === userId);
+    
+    await Promise.all(owned.map(sid => new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err) => err ? reject(err) : resolve());
+    })));
+    return owned.length;
+  }
+  
   // Helper method to recalculate and update a user's rating
   private async updateUserRating(userId: number) {
     const user = this.usersData.get(userId);
     if (!user) return;
     
-    // Get all reviews for the user
+    // Get all visible reviews for the user
     const userReviews = Array.from(this.reviewsData.values())
-      .filter(r => r.revieweeId === userId);
+      .filter(r => r.revieweeId === userId && r.hiddenAt === null);
     
-    if (userReviews.length === 0) return;
+    if (userReviews.length === 0) {
+      this.usersData.set(userId, { ...user, rating: null, totalReviews: 0 });
+      return;
+    }
     
     // Calculate average rating
     const totalRating = userReviews.reduce((sum, review) => sum + review.rating, 0);
@@ -0,0 +1,10 @@
+import { createHash, randomBytes } from "crypto";
+
+// Tokens sent in emailed links. Only the hash is stored, so a leaked
+// database can't be used to redeem them.
+export const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export function createToken() {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashToken(token) };
+}
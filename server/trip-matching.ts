@@ -0,0 +1,95 @@
+import { addDays, format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { notify, describeDelivery } from "./notifications";
+import { distanceKm } from "@shared/gazetteer";
+import { canCarry } from "@shared/policy";
+import {
+  Delivery,
+  DeliveryPage,
+  DeliveryPageQuery,
+  DeliveryQuery,
+  Trip,
+  User,
+  packageSizeEnum,
+} from "@shared/schema";
+
+// How far a pickup or drop may be from the trip's origin or destination
+const CORRIDOR_RADIUS_KM = 25;
+
+// A package can be wanted a few days after the carrier sets off, which
+// covers the journey itself
+const ARRIVAL_SLACK_DAYS = 3;
+
+const packageSizes = packageSizeEnum.enumValues;
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), "yyyy-MM-dd");
+
+// Sizes up to and including the largest the trip has room for
+function sizesThatFit(trip: Trip) {
+  return packageSizes.slice(0, packageSizes.indexOf(trip.maxPackageSize) + 1);
+}
+
+// Listing query for the requested deliveries a trip could carry: same
+// corridor, wanted during or shortly after the departure window and small
+// enough for the space left. Listings hidden by an admin never match.
+export function tripMatchQuery(trip: Trip): DeliveryQuery {
+  return {
+    status: "requested",
+    hidden: false,
+    excludeSenderId: trip.carrierId,
+    nearLat: trip.originLat,
+    nearLng: trip.originLng,
+    radiusKm: CORRIDOR_RADIUS_KM,
+    dropNear: { lat: trip.destinationLat, lng: trip.destinationLng, radiusKm: CORRIDOR_RADIUS_KM },
+    dateFrom: trip.departureFrom,
+    dateTo: shiftDate(trip.departureTo, ARRIVAL_SLACK_DAYS),
+    packageSizes: sizesThatFit(trip),
+    maxWeight: trip.maxWeight,
+  };
+}
+
+// The same rules as tripMatchQuery, for a single delivery
+export function isTripMatch(trip: Trip, delivery: Delivery) {
+  const { pickupLat, pickupLng, dropLat, dropLng } = delivery;
+  if (pickupLat === null || pickupLng === null || dropLat === null || dropLng === null) {
+    return false;
+  }
+
+  return delivery.status === "requested" &&
+    delivery.hiddenAt === null &&
+    delivery.senderId !== trip.carrierId &&
+    distanceKm({ lat: trip.originLat, lng: trip.originLng }, { lat: pickupLat, lng: pickupLng }) <= CORRIDOR_RADIUS_KM &&
+    distanceKm({ lat: trip.destinationLat, lng: trip.destinationLng }, { lat: dropLat, lng: dropLng }) <= CORRIDOR_RADIUS_KM &&
+    delivery.preferredDeliveryDate >= trip.departureFrom &&
+    delivery.preferredDeliveryDate <= shiftDate(trip.departureTo, ARRIVAL_SLACK_DAYS) &&
+    sizesThatFit(trip).includes(delivery.packageSize) &&
+    delivery.packageWeight <= trip.maxWeight;
+}
+
+export async function getTripMatches(trip: Trip, page: DeliveryPageQuery): Promise<DeliveryPage> {
+  return await storage.getDeliveriesWithFilters(tripMatchQuery(trip), page);
+}
+
+// Tell carriers with an upcoming trip on the delivery's route that it is
+// open for offers; one notification per carrier however many trips match
+export async function notifyTripMatches(delivery: Delivery) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcomingTrips = await storage.getUpcomingTrips(today);
+
+  const carrierIds = upcomingTrips
+    .filter(trip => isTripMatch(trip, delivery))
+    .map(trip => trip.carrierId)
+    .filter((carrierId, index, ids) => ids.indexOf(carrierId) === index);
+
+  // Carriers who couldn't make an offer aren't told about the delivery
+  const carriers = await Promise.all(carrierIds.map(carrierId => storage.getUser(carrierId)));
+  const eligibleCarriers = carriers.filter((carrier): carrier is User => !!carrier && canCarry(carrier, delivery));
+
+  await Promise.all(eligibleCarriers.map(carrier => notify({
+    userId: carrier.id,
+    type: 'trip_match',
+    deliveryId: delivery.id,
+    title: "New delivery on your route",
+    body: `${describeDelivery(delivery)} on ${delivery.preferredDeliveryDate} fits one of your trips.`,
+  })));
+}
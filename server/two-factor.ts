@@ -0,0 +1,144 @@
+import { randomBytes } from "crypto";
+import { Secret, TOTP } from "otpauth";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { sendMail } from "./mailer";
+import { renderTwoFactorResetEmail } from "./email-templates";
+import { publishToUsers } from "./realtime";
+import { decryptSecret, encryptSecret } from "./encryption";
+import { hashToken } from "./tokens";
+import { TwoFactorSetup, TwoFactorStatus, User } from "@shared/schema";
+
+const ISSUER = "CarryConnect";
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; message: string };
+
+const invalidCode = { ok: false as const, status: 400, message: "That code didn't work. Try the current one from your app." };
+
+const createTotp = (user: User, secret: Secret) =>
+  new TOTP({ issuer: ISSUER, label: user.username, secret });
+
+// Recovery codes look like "3f9a1-c07be"; spaces, dashes and case are
+// ignored when they are typed back in
+const normaliseRecoveryCode = (code: string) => code.toLowerCase().replace(/[^0-9a-f]/g, "");
+
+function createRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(normaliseRecoveryCode(code))) };
+}
+
+// Accept a code for the current 30-second window or either neighbour, once
+async function checkTotp(user: User, code: string) {
+  const storedSecret = await storage.getTwoFactorSecret(user.id);
+  if (!storedSecret) return false;
+
+  const totp = createTotp(user, Secret.fromBase32(decryptSecret(storedSecret.encryptedSecret)));
+  const delta = totp.validate({ token: code, window: 1 });
+  if (delta === null) return false;
+
+  return await storage.recordTwoFactorStep(user.id, totp.counter() + delta);
+}
+
+// Check a code from the authenticator app, or use up a recovery code
+export async function checkTwoFactorCode(user: User, code: string) {
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    return await checkTotp(user, trimmed);
+  }
+  return await storage.redeemRecoveryCode(user.id, hashToken(normaliseRecoveryCode(trimmed)));
+}
+
+export async function getTwoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  return {
+    enabled: user.twoFactorEnabledAt !== null,
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesLeft: user.twoFactorEnabledAt ? await storage.countRecoveryCodes(user.id) : 0,
+  };
+}
+
+// Start enrollment with a new secret; 2FA isn't on until a code confirms it
+export async function beginTwoFactorSetup(user: User): Promise<TwoFactorResult<TwoFactorSetup>> {
+  if (user.twoFactorEnabledAt) {
+    return { ok: false, status: 409, message: "Two-factor authentication is already on" };
+  }
+
+  const secret = new Secret({ size: 20 });
+  await storage.saveTwoFactorSecret(user.id, encryptSecret(secret.base32));
+
+  const qrCode = await QRCode.toDataURL(createTotp(user, secret).toString());
+  return { ok: true, value: { qrCode, secret: secret.base32 } };
+}
+
+// Turn 2FA on with a code from the freshly scanned secret. The recovery
+// codes are only ever shown in the response.
+export async function enableTwoFactor(user: User, code: string): Promise<TwoFactorResult<string[]>> {
+  if (user.twoFactorEnabledAt) {
+    return { ok: false, status: 409, message: "Two-factor authentication is already on" };
+  }
+  if (!(await storage.getTwoFactorSecret(user.id))) {
+    return { ok: false, status: 400, message: "Start the setup again to get a new QR code" };
+  }
+  if (!(await checkTotp(user, code))) {
+    return invalidCode;
+  }
+
+  const { codes, hashes } = createRecoveryCodes();
+  await storage.enableTwoFactor(user.id, hashes);
+  publishToUsers([user.id], { type: "user.updated" });
+  return { ok: true, value: codes };
+}
+
+export async function disableTwoFactor(user: User, code: string): Promise<TwoFactorResult<null>> {
+  if (!user.twoFactorEnabledAt) {
+    return { ok: false, status: 400, message: "Two-factor authentication is already off" };
+  }
+  if (!(await checkTwoFactorCode(user, code))) {
+    return invalidCode;
+  }
+
+  await storage.disableTwoFactor(user.id);
+  publishToUsers([user.id], { type: "user.updated" });
+  return { ok: true, value: null };
+}
+
+// Replace the recovery codes, e.g. after using most of them
+export async function regenerateRecoveryCodes(user: User, code: string): Promise<TwoFactorResult<string[]>> {
+  if (!user.twoFactorEnabledAt) {
+    return { ok: false, status: 400, message: "Two-factor authentication is off" };
+  }
+  if (!(await checkTwoFactorCode(user, code))) {
+    return invalidCode;
+  }
+
+  const { codes, hashes } = createRecoveryCodes();
+  await storage.replaceRecoveryCodes(user.id, hashes);
+  return { ok: true, value: codes };
+}
+
+// Support turns 2FA off for a user who lost their phone and recovery codes.
+// The user is told by email in case the request didn't come from them.
+export async function resetTwoFactor(userId: number, reason: string): Promise<TwoFactorResult<User>> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { ok: false, status: 404, message: "User not found" };
+  }
+  if (!user.twoFactorEnabledAt) {
+    return { ok: false, status: 400, message: "This user doesn't have two-factor authentication on" };
+  }
+
+  const updatedUser = await storage.disableTwoFactor(user.id) ?? user;
+  publishToUsers([user.id], { type: "user.updated" });
+
+  if (user.email && user.emailVerifiedAt) {
+    sendMail({ to: user.email, ...renderTwoFactorResetEmail(user, reason) }).catch((error) => {
+      console.error("Error sending two-factor reset email:", error);
+    });
+  }
+  return { ok: true, value: updatedUser };
+}
@@ -0,0 +1,96 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { fileStorage } from "./file-storage";
+import { normaliseImage } from "./attachments";
+import { publishToUsers } from "./realtime";
+import { notify } from "./notifications";
+import {
+  ReviewVerificationInput,
+  User,
+  VerificationDocumentType,
+  VerificationRequest,
+} from "@shared/schema";
+
+export type VerificationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; message: string };
+
+// Refresh the user's verification status and every admin's review queue
+async function publishVerificationUpdate(userId: number) {
+  const admins = await storage.getAdminUsers();
+  publishToUsers([userId, ...admins.map(admin => admin.id)], { type: "verification.updated" });
+}
+
+// Identity photos are kept without thumbnails and only ever served to admins
+async function saveIdentityImage(file: Express.Multer.File, userId: number) {
+  const { data } = await normaliseImage(file);
+  const storageKey = `verifications/${userId}/${randomBytes(16).toString("hex")}.webp`;
+  await fileStorage.save(storageKey, data);
+  return storageKey;
+}
+
+export async function submitVerification(
+  user: User,
+  documentType: VerificationDocumentType,
+  document: Express.Multer.File,
+  selfie: Express.Multer.File,
+): Promise<VerificationResult<VerificationRequest>> {
+  if (user.verifiedAt) {
+    return { ok: false, status: 409, message: "Your identity is already verified" };
+  }
+
+  const latestRequest = await storage.getLatestVerificationRequest(user.id);
+  if (latestRequest?.status === "pending") {
+    return { ok: false, status: 409, message: "Your documents are already being reviewed" };
+  }
+
+  const documentKey = await saveIdentityImage(document, user.id);
+  const selfieKey = await saveIdentityImage(selfie, user.id);
+  const request = await storage.createVerificationRequest({
+    userId: user.id,
+    documentType,
+    documentKey,
+    selfieKey,
+  });
+
+  await publishVerificationUpdate(user.id);
+  return { ok: true, value: request };
+}
+
+// Approve or reject a pending request and tell the user the outcome
+export async function reviewVerification(
+  admin: User,
+  request: VerificationRequest,
+  input: ReviewVerificationInput,
+): Promise<VerificationResult<VerificationRequest>> {
+  if (request.userId === admin.id) {
+    return { ok: false, status: 400, message: "Another admin has to review your documents" };
+  }
+
+  const reviewedRequest = await storage.reviewVerificationRequest(
+    request.id,
+    admin.id,
+    input.approved,
+    input.note || null,
+  );
+  if (!reviewedRequest) {
+    return { ok: false, status: 409, message: "This request has already been reviewed" };
+  }
+
+  await publishVerificationUpdate(request.userId);
+  await notify(input.approved
+    ? {
+      userId: request.userId,
+      type: 'verification_reviewed',
+      title: "Your identity is verified",
+      body: "Your profile and deliveries now show the verified badge.",
+    }
+    : {
+      userId: request.userId,
+      type: 'verification_reviewed',
+      title: "Your ID documents were not accepted",
+      body: `${input.note} You can upload new photos from your profile.`,
+    });
+
+  return { ok: true, value: reviewedRequest };
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "./storage";
+import { escrowAccount, gatewayAccount, LedgerTransfer, walletAccount } from "./ledger";
+import { holdDisputedPayment, refundEscrow, releaseEscrow, settleDisputedEscrow } from "./wallet";
+
+// Seeded: delivery 3 is requested by user 1; user 2 is a carrier
+const SENDER_ID = 1;
+const CARRIER_ID = 2;
+const DELIVERY_ID = 3;
+
+let storage: MemStorage;
+
+const escrowHold = (price: number): LedgerTransfer => ({
+  transaction: { kind: "escrow_hold", deliveryId: DELIVERY_ID, description: "Held for the delivery" },
+  postings: [
+    { account: walletAccount(SENDER_ID), amount: -price },
+    { account: escrowAccount(DELIVERY_ID), amount: price },
+  ],
+});
+
+const balances = async () => ({
+  sender: await storage.getLedgerBalance(walletAccount(SENDER_ID)),
+  carrier: await storage.getLedgerBalance(walletAccount(CARRIER_ID)),
+  escrow: await storage.getLedgerBalance(escrowAccount(DELIVERY_ID)),
+});
+
+async function createOffer(price: number) {
+  return await storage.createOffer({
+    deliveryId: DELIVERY_ID,
+    carrierId: CARRIER_ID,
+    price,
+    proposedPickupTime: new Date(),
+  });
+}
+
+async function acceptDelivery(price = 40000) {
+  const offer = await createOffer(price);
+  const delivery = await storage.acceptOffer(offer.id, SENDER_ID, escrowHold);
+  expect(delivery?.status).toBe("accepted");
+  return delivery!;
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  await storage.postLedgerTransaction({ kind: "top_up", description: "Wallet top-up" }, [
+    { account: gatewayAccount, amount: -50000 },
+    { account: walletAccount(SENDER_ID), amount: 50000 },
+  ]);
+});
+
+describe("acceptOffer", () => {
+  it("assigns the carrier and holds the offer's price in escrow", async () => {
+    const delivery = await acceptDelivery();
+
+    expect(delivery.carrierId).toBe(CARRIER_ID);
+    expect(await balances()).toEqual({ sender: 10000, carrier: 0, escrow: 40000 });
+  });
+
+  it("holds the counter price of a countered offer", async () => {
+    const offer = await createOffer(40000);
+    await storage.updateOffer(offer.id, { status: "countered", counterPrice: 35000 });
+
+    await storage.acceptOffer(offer.id, CARRIER_ID, escrowHold);
+
+    expect(await balances()).toEqual({ sender: 15000, carrier: 0, escrow: 35000 });
+  });
+
+  it("refuses an offer that is no longer open", async () => {
+    const offer = await createOffer(40000);
+    await storage.updateOffer(offer.id, { status: "withdrawn" });
+
+    expect(await storage.acceptOffer(offer.id, SENDER_ID, escrowHold)).toBeUndefined();
+    expect((await storage.getDeliveryById(DELIVERY_ID))?.status).toBe("requested");
+    expect(await balances()).toEqual({ sender: 50000, carrier: 0, escrow: 0 });
+  });
+
+  it("refuses a second offer once the delivery is taken", async () => {
+    const first = await createOffer(40000);
+    const second = await createOffer(30000);
+    await storage.acceptOffer(first.id, SENDER_ID, escrowHold);
+
+    expect(await storage.acceptOffer(second.id, SENDER_ID, escrowHold)).toBeUndefined();
+    expect(await balances()).toEqual({ sender: 10000, carrier: 0, escrow: 40000 });
+  });
+
+  it("leaves everything as it was when the wallet doesn't cover the price", async () => {
+    const offer = await createOffer(60000);
+
+    await expect(storage.acceptOffer(offer.id, SENDER_ID, escrowHold)).rejects.toThrow();
+    expect((await storage.getDeliveryById(DELIVERY_ID))?.status).toBe("requested");
+    expect(await balances()).toEqual({ sender: 50000, carrier: 0, escrow: 0 });
+  });
+});
+
+describe("escrow settlements", () => {
+  it("pays the carrier when the package is delivered", async () => {
+    await acceptDelivery();
+    await storage.updateDeliveryStatus(DELIVERY_ID, "accepted", "picked", { actorId: CARRIER_ID });
+    await storage.updateDeliveryStatus(DELIVERY_ID, "picked", "delivered", { actorId: CARRIER_ID }, releaseEscrow);
+
+    expect(await balances()).toEqual({ sender: 10000, carrier: 40000, escrow: 0 });
+  });
+
+  it("refunds the sender when they cancel", async () => {
+    await acceptDelivery();
+    await storage.cancelDelivery(DELIVERY_ID, "accepted", { reason: "no_longer_needed", cancelledBy: SENDER_ID }, refundEscrow);
+
+    expect(await balances()).toEqual({ sender: 50000, carrier: 0, escrow: 0 });
+  });
+
+  it("moves no money when the status changed in the meantime", async () => {
+    await acceptDelivery();
+
+    const cancelled = await storage.cancelDelivery(DELIVERY_ID, "picked", { reason: "no_longer_needed", cancelledBy: SENDER_ID }, refundEscrow);
+
+    expect(cancelled).toBeUndefined();
+    expect(await balances()).toEqual({ sender: 10000, carrier: 0, escrow: 40000 });
+  });
+
+  it("holds a delivered payment during a dispute and splits it as resolved", async () => {
+    await acceptDelivery();
+    await storage.updateDeliveryStatus(DELIVERY_ID, "accepted", "picked", { actorId: CARRIER_ID });
+    await storage.updateDeliveryStatus(DELIVERY_ID, "picked", "delivered", { actorId: CARRIER_ID }, releaseEscrow);
+
+    const dispute = await storage.openDispute({
+      deliveryId: DELIVERY_ID,
+      openedBy: SENDER_ID,
+      reason: "damaged",
+      description: "The box arrived crushed",
+    }, holdDisputedPayment);
+    expect(await balances()).toEqual({ sender: 10000, carrier: 0, escrow: 40000 });
+
+    await storage.resolveDispute(dispute!.id, {
+      outcome: "split",
+      senderAmount: 30000,
+      carrierAmount: 10000,
+      note: "Partly damaged",
+      resolvedBy: SENDER_ID,
+    }, "delivered", settleDisputedEscrow(10000));
+    expect(await balances()).toEqual({ sender: 40000, carrier: 10000, escrow: 0 });
+  });
+});
@@ -0,0 +1,197 @@
+import { storage } from "./storage";
+import { publishToUsers } from "./realtime";
+import { describeDelivery } from "./notifications";
+import { getPaymentGateway, type GatewayResult } from "./payment-gateway";
+import { escrowAccount, gatewayAccount, payoutsAccount, walletAccount, type LedgerSettlement } from "./ledger";
+import { agreedPrice } from "./pricing";
+import { Delivery, Offer, Payout, WalletSummary } from "@shared/schema";
+
+const WALLET_HISTORY_LIMIT = 50;
+
+// Far more entries than a single delivery's escrow ever gets
+const DISPUTE_HISTORY_LIMIT = 100;
+
+// The payment provider declined or couldn't complete a charge or payout
+export class PaymentFailedError extends Error {}
+
+// Withdrawals wait until the user's open disputes are resolved
+export class PayoutsFrozenError extends Error {}
+
+export function publishWalletUpdate(userIds: number[]) {
+  publishToUsers(userIds, { type: "wallet.updated" });
+}
+
+export async function getWalletSummary(userId: number): Promise<WalletSummary> {
+  const [balance, transactions] = await Promise.all([
+    storage.getLedgerBalance(walletAccount(userId)),
+    storage.getLedgerActivity(walletAccount(userId), WALLET_HISTORY_LIMIT),
+  ]);
+
+  return { balance, transactions };
+}
+
+// Charge the user through the payment gateway and credit their wallet
+export async function topUpWallet(userId: number, amount: number, description = "Wallet top-up") {
+  const result = await getPaymentGateway().charge({ userId, amount, description });
+  if (!result.ok) {
+    throw new PaymentFailedError(`Payment failed: ${result.reason}`);
+  }
+
+  const transaction = await storage.postLedgerTransaction(
+    { kind: "top_up", description, reference: result.reference },
+    [
+      { account: gatewayAccount, amount: -amount },
+      { account: walletAccount(userId), amount },
+    ],
+  );
+  publishWalletUpdate([userId]);
+  return transaction;
+}
+
+// Accept an offer, moving the agreed fee from the sender's wallet into the
+// delivery's escrow in the same transaction that assigns the carrier. The fee
+// is the offer's price when the transaction reads it; whatever the wallet
+// doesn't cover of the price seen here is charged through the gateway first
+// and stays in the wallet if the delivery was assigned or cancelled meanwhile.
+export async function acceptOfferWithEscrow(
+  delivery: Delivery,
+  offer: Offer,
+  actorId: number,
+): Promise<Delivery | undefined> {
+  const expectedPrice = agreedPrice(offer);
+  const balance = await storage.getLedgerBalance(walletAccount(delivery.senderId));
+  if (balance < expectedPrice) {
+    await topUpWallet(delivery.senderId, expectedPrice - balance, `Payment for ${describeDelivery(delivery)}`);
+  }
+
+  const acceptedDelivery = await storage.acceptOffer(offer.id, actorId, (price) => ({
+    transaction: { kind: "escrow_hold", deliveryId: delivery.id, description: `Held for ${describeDelivery(delivery)}` },
+    postings: [
+      { account: walletAccount(delivery.senderId), amount: -price },
+      { account: escrowAccount(delivery.id), amount: price },
+    ],
+  }));
+  if (acceptedDelivery) {
+    publishWalletUpdate([delivery.senderId]);
+  }
+  return acceptedDelivery;
+}
+
+// The settlements below are posted by storage together with the status
+// change they belong to; publish a wallet update once that succeeded
+
+// Pay the carrier everything held for a delivered package
+export const releaseEscrow: LedgerSettlement = async (ledger, delivery) => {
+  const held = await ledger.getLedgerBalance(escrowAccount(delivery.id));
+  if (held <= 0 || !delivery.carrierId) return undefined;
+
+  return {
+    transaction: { kind: "escrow_release", deliveryId: delivery.id, description: `Payment for ${describeDelivery(delivery)}` },
+    postings: [
+      { account: escrowAccount(delivery.id), amount: -held },
+      { account: walletAccount(delivery.carrierId), amount: held },
+    ],
+  };
+};
+
+// Return the money held for a delivery to the sender
+export const refundEscrow: LedgerSettlement = async (ledger, delivery) => {
+  const refund = await ledger.getLedgerBalance(escrowAccount(delivery.id));
+  if (refund <= 0) return undefined;
+
+  return {
+    transaction: { kind: "escrow_refund", deliveryId: delivery.id, description: `Refund for ${describeDelivery(delivery)}` },
+    postings: [
+      { account: escrowAccount(delivery.id), amount: -refund },
+      { account: walletAccount(delivery.senderId), amount: refund },
+    ],
+  };
+};
+
+// Take back a delivered package's payment from the carrier while it is
+// disputed. Only what the carrier hasn't withdrawn yet can be held.
+export const holdDisputedPayment: LedgerSettlement = async (ledger, delivery) => {
+  if (delivery.status !== "delivered" || !delivery.carrierId) return undefined;
+
+  const escrowActivity = await ledger.getLedgerActivity(escrowAccount(delivery.id), DISPUTE_HISTORY_LIMIT);
+  const released = escrowActivity
+    .filter(entry => entry.kind === "escrow_release")
+    .reduce((sum, entry) => sum - entry.amount, 0);
+  const available = await ledger.getLedgerBalance(walletAccount(delivery.carrierId));
+  const amount = Math.min(released, available);
+  if (amount <= 0) return undefined;
+
+  return {
+    transaction: { kind: "dispute_hold", deliveryId: delivery.id, description: `Held during the dispute on ${describeDelivery(delivery)}` },
+    postings: [
+      { account: walletAccount(delivery.carrierId), amount: -amount },
+      { account: escrowAccount(delivery.id), amount },
+    ],
+  };
+};
+
+// Pay out the held money as the mediator decided: the carrier's share to
+// the carrier and the rest back to the sender
+export function settleDisputedEscrow(carrierAmount: number): LedgerSettlement {
+  return async (ledger, delivery) => {
+    const held = await ledger.getLedgerBalance(escrowAccount(delivery.id));
+    if (held <= 0) return undefined;
+
+    const carrierShare = delivery.carrierId ? Math.min(carrierAmount, held) : 0;
+    const postings = [
+      { account: escrowAccount(delivery.id), amount: -held },
+      { account: walletAccount(delivery.senderId), amount: held - carrierShare },
+      ...(delivery.carrierId ? [{ account: walletAccount(delivery.carrierId), amount: carrierShare }] : []),
+    ];
+
+    return {
+      transaction: { kind: "dispute_settlement", deliveryId: delivery.id, description: `Dispute settlement for ${describeDelivery(delivery)}` },
+      postings: postings.filter(posting => posting.amount !== 0),
+    };
+  };
+}
+
+// Take the amount out of the wallet before asking the gateway to send it, so
+// it can't be spent twice; a failed payout puts it back
+export async function requestPayout(userId: number, amount: number): Promise<Payout> {
+  if (await storage.hasOpenDispute(userId)) {
+    throw new PayoutsFrozenError("Withdrawals are paused while you have an open dispute");
+  }
+
+  await storage.postLedgerTransaction(
+    { kind: "payout", description: "Withdrawal to bank account" },
+    [
+      { account: walletAccount(userId), amount: -amount },
+      { account: payoutsAccount, amount },
+    ],
+  );
+  const payout = await storage.createPayout({ userId, amount });
+
+  let result: GatewayResult;
+  try {
+    result = await getPaymentGateway().payout({ userId, payoutId: payout.id, amount });
+  } catch (error) {
+    console.error("Error sending payout:", error);
+    result = { ok: false, reason: "Payment provider unavailable" };
+  }
+
+  if (result.ok) {
+    const paidPayout = await storage.updatePayout(payout.id, {
+      status: "paid",
+      gatewayReference: result.reference,
+    });
+    publishWalletUpdate([userId]);
+    return paidPayout!;
+  }
+
+  await storage.postLedgerTransaction(
+    { kind: "payout_reversal", description: `Withdrawal failed: ${result.reason}` },
+    [
+      { account: payoutsAccount, amount: -amount },
+      { account: walletAccount(userId), amount },
+    ],
+  );
+  await storage.updatePayout(payout.id, { status: "failed", failureReason: result.reason });
+  publishWalletUpdate([userId]);
+  throw new PaymentFailedError(`Withdrawal failed: ${result.reason}`);
+}
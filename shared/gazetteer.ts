@@ -0,0 +1,166 @@
+// Offline gazetteer of Indian cities and localities used to place deliveries
+// on the map without calling an external geocoder. Names are unique, so a
+// location string can be resolved back to its coordinates.
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface Place extends Coordinates {
+  name: string;
+  state: string;
+  // Set for localities; the city they belong to
+  city?: string;
+  aliases?: string[];
+}
+
+export const places: Place[] = [
+  // Cities
+  { name: "Mumbai", state: "Maharashtra", lat: 19.076, lng: 72.8777, aliases: ["Bombay"] },
+  { name: "Pune", state: "Maharashtra", lat: 18.5204, lng: 73.8567, aliases: ["Poona"] },
+  { name: "Thane", state: "Maharashtra", lat: 19.2183, lng: 72.9781 },
+  { name: "Navi Mumbai", state: "Maharashtra", lat: 19.033, lng: 73.0297 },
+  { name: "Kalyan", state: "Maharashtra", lat: 19.2403, lng: 73.1305 },
+  { name: "Nashik", state: "Maharashtra", lat: 19.9975, lng: 73.7898 },
+  { name: "Nagpur", state: "Maharashtra", lat: 21.1458, lng: 79.0882 },
+  { name: "Aurangabad", state: "Maharashtra", lat: 19.8762, lng: 75.3433, aliases: ["Chhatrapati Sambhajinagar"] },
+  { name: "Kolhapur", state: "Maharashtra", lat: 16.705, lng: 74.2433 },
+  { name: "Satara", state: "Maharashtra", lat: 17.6805, lng: 74.0183 },
+  { name: "Lonavala", state: "Maharashtra", lat: 18.7546, lng: 73.4062 },
+  { name: "Delhi", state: "Delhi", lat: 28.6139, lng: 77.209, aliases: ["New Delhi"] },
+  { name: "Noida", state: "Uttar Pradesh", lat: 28.5355, lng: 77.391 },
+  { name: "Ghaziabad", state: "Uttar Pradesh", lat: 28.6692, lng: 77.4538 },
+  { name: "Gurugram", state: "Haryana", lat: 28.4595, lng: 77.0266, aliases: ["Gurgaon"] },
+  { name: "Faridabad", state: "Haryana", lat: 28.4089, lng: 77.3178 },
+  { name: "Bangalore", state: "Karnataka", lat: 12.9716, lng: 77.5946, aliases: ["Bengaluru"] },
+  { name: "Mysore", state: "Karnataka", lat: 12.2958, lng: 76.6394, aliases: ["Mysuru"] },
+  { name: "Mangalore", state: "Karnataka", lat: 12.9141, lng: 74.856, aliases: ["Mangaluru"] },
+  { name: "Chennai", state: "Tamil Nadu", lat: 13.0827, lng: 80.2707, aliases: ["Madras"] },
+  { name: "Coimbatore", state: "Tamil Nadu", lat: 11.0168, lng: 76.9558 },
+  { name: "Madurai", state: "Tamil Nadu", lat: 9.9252, lng: 78.1198 },
+  { name: "Hyderabad", state: "Telangana", lat: 17.385, lng: 78.4867 },
+  { name: "Visakhapatnam", state: "Andhra Pradesh", lat: 17.6868, lng: 83.2185, aliases: ["Vizag"] },
+  { name: "Vijayawada", state: "Andhra Pradesh", lat: 16.5062, lng: 80.648 },
+  { name: "Kolkata", state: "West Bengal", lat: 22.5726, lng: 88.3639, aliases: ["Calcutta"] },
+  { name: "Howrah", state: "West Bengal", lat: 22.5958, lng: 88.2636 },
+  { name: "Ahmedabad", state: "Gujarat", lat: 23.0225, lng: 72.5714 },
+  { name: "Surat", state: "Gujarat", lat: 21.1702, lng: 72.8311 },
+  { name: "Vadodara", state: "Gujarat", lat: 22.3072, lng: 73.1812, aliases: ["Baroda"] },
+  { name: "Jaipur", state: "Rajasthan", lat: 26.9124, lng: 75.7873 },
+  { name: "Lucknow", state: "Uttar Pradesh", lat: 26.8467, lng: 80.9462 },
+  { name: "Kanpur", state: "Uttar Pradesh", lat: 26.4499, lng: 80.3319 },
+  { name: "Agra", state: "Uttar Pradesh", lat: 27.1767, lng: 78.0081 },
+  { name: "Varanasi", state: "Uttar Pradesh", lat: 25.3176, lng: 82.9739, aliases: ["Banaras"] },
+  { name: "Indore", state: "Madhya Pradesh", lat: 22.7196, lng: 75.8577 },
+  { name: "Bhopal", state: "Madhya Pradesh", lat: 23.2599, lng: 77.4126 },
+  { name: "Patna", state: "Bihar", lat: 25.5941, lng: 85.1376 },
+  { name: "Ranchi", state: "Jharkhand", lat: 23.3441, lng: 85.3096 },
+  { name: "Raipur", state: "Chhattisgarh", lat: 21.2514, lng: 81.6296 },
+  { name: "Bhubaneswar", state: "Odisha", lat: 20.2961, lng: 85.8245 },
+  { name: "Guwahati", state: "Assam", lat: 26.1445, lng: 91.7362 },
+  { name: "Chandigarh", state: "Chandigarh", lat: 30.7333, lng: 76.7794 },
+  { name: "Ludhiana", state: "Punjab", lat: 30.901, lng: 75.8573 },
+  { name: "Amritsar", state: "Punjab", lat: 31.634, lng: 74.8723 },
+  { name: "Dehradun", state: "Uttarakhand", lat: 30.3165, lng: 78.0322 },
+  { name: "Panaji", state: "Goa", lat: 15.4909, lng: 73.8278, aliases: ["Panjim", "Goa"] },
+  { name: "Kochi", state: "Kerala", lat: 9.9312, lng: 76.2673, aliases: ["Cochin"] },
+  { name: "Thiruvananthapuram", state: "Kerala", lat: 8.5241, lng: 76.9366, aliases: ["Trivandrum"] },
+
+  // Pune localities
+  { name: "Pimpri", city: "Pune", state: "Maharashtra", lat: 18.6298, lng: 73.7997 },
+  { name: "Chinchwad", city: "Pune", state: "Maharashtra", lat: 18.6446, lng: 73.7908 },
+  { name: "Hinjewadi", city: "Pune", state: "Maharashtra", lat: 18.5913, lng: 73.7389 },
+  { name: "Wakad", city: "Pune", state: "Maharashtra", lat: 18.5983, lng: 73.765 },
+  { name: "Baner", city: "Pune", state: "Maharashtra", lat: 18.559, lng: 73.7868 },
+  { name: "Aundh", city: "Pune", state: "Maharashtra", lat: 18.558, lng: 73.8075 },
+  { name: "Kothrud", city: "Pune", state: "Maharashtra", lat: 18.5074, lng: 73.8077 },
+  { name: "Shivajinagar", city: "Pune", state: "Maharashtra", lat: 18.5308, lng: 73.8475 },
+  { name: "Viman Nagar", city: "Pune", state: "Maharashtra", lat: 18.5679, lng: 73.9143 },
+  { name: "Kharadi", city: "Pune", state: "Maharashtra", lat: 18.5515, lng: 73.9348 },
+  { name: "Hadapsar", city: "Pune", state: "Maharashtra", lat: 18.5089, lng: 73.926 },
+  { name: "Katraj", city: "Pune", state: "Maharashtra", lat: 18.4575, lng: 73.8677 },
+  { name: "Chakan", city: "Pune", state: "Maharashtra", lat: 18.7606, lng: 73.8636 },
+
+  // Mumbai localities
+  { name: "Colaba", city: "Mumbai", state: "Maharashtra", lat: 18.9067, lng: 72.8147 },
+  { name: "Dadar", city: "Mumbai", state: "Maharashtra", lat: 19.0178, lng: 72.8478 },
+  { name: "Bandra", city: "Mumbai", state: "Maharashtra", lat: 19.0596, lng: 72.8295 },
+  { name: "Kurla", city: "Mumbai", state: "Maharashtra", lat: 19.0726, lng: 72.8845 },
+  { name: "Andheri", city: "Mumbai", state: "Maharashtra", lat: 19.1136, lng: 72.8697 },
+  { name: "Powai", city: "Mumbai", state: "Maharashtra", lat: 19.1176, lng: 72.906 },
+  { name: "Goregaon", city: "Mumbai", state: "Maharashtra", lat: 19.1663, lng: 72.8526 },
+  { name: "Borivali", city: "Mumbai", state: "Maharashtra", lat: 19.2307, lng: 72.8567 },
+  { name: "Vashi", city: "Navi Mumbai", state: "Maharashtra", lat: 19.0771, lng: 72.9986 },
+
+  // Delhi NCR localities
+  { name: "Connaught Place", city: "Delhi", state: "Delhi", lat: 28.6315, lng: 77.2167 },
+  { name: "Chandni Chowk", city: "Delhi", state: "Delhi", lat: 28.6506, lng: 77.2303 },
+  { name: "Karol Bagh", city: "Delhi", state: "Delhi", lat: 28.6519, lng: 77.1909 },
+  { name: "Lajpat Nagar", city: "Delhi", state: "Delhi", lat: 28.5677, lng: 77.2433 },
+  { name: "Saket", city: "Delhi", state: "Delhi", lat: 28.5245, lng: 77.2066 },
+  { name: "Dwarka", city: "Delhi", state: "Delhi", lat: 28.5921, lng: 77.046 },
+  { name: "Rohini", city: "Delhi", state: "Delhi", lat: 28.7495, lng: 77.0565 },
+
+  // Bangalore localities
+  { name: "Indiranagar", city: "Bangalore", state: "Karnataka", lat: 12.9784, lng: 77.6408 },
+  { name: "Koramangala", city: "Bangalore", state: "Karnataka", lat: 12.9352, lng: 77.6245 },
+  { name: "Jayanagar", city: "Bangalore", state: "Karnataka", lat: 12.925, lng: 77.5938 },
+  { name: "Whitefield", city: "Bangalore", state: "Karnataka", lat: 12.9698, lng: 77.75 },
+  { name: "Marathahalli", city: "Bangalore", state: "Karnataka", lat: 12.9569, lng: 77.7011 },
+  { name: "Electronic City", city: "Bangalore", state: "Karnataka", lat: 12.8452, lng: 77.6602 },
+  { name: "Hebbal", city: "Bangalore", state: "Karnataka", lat: 13.0358, lng: 77.597 },
+  { name: "Yelahanka", city: "Bangalore", state: "Karnataka", lat: 13.1007, lng: 77.5963 },
+
+  // Chennai localities
+  { name: "T Nagar", city: "Chennai", state: "Tamil Nadu", lat: 13.0418, lng: 80.2341, aliases: ["Thyagaraya Nagar"] },
+  { name: "Anna Nagar", city: "Chennai", state: "Tamil Nadu", lat: 13.085, lng: 80.2101 },
+  { name: "Adyar", city: "Chennai", state: "Tamil Nadu", lat: 13.0012, lng: 80.2565 },
+  { name: "Guindy", city: "Chennai", state: "Tamil Nadu", lat: 13.0067, lng: 80.2206 },
+  { name: "Velachery", city: "Chennai", state: "Tamil Nadu", lat: 12.9815, lng: 80.218 },
+  { name: "Tambaram", city: "Chennai", state: "Tamil Nadu", lat: 12.9249, lng: 80.1 },
+
+  // Hyderabad localities
+  { name: "Secunderabad", city: "Hyderabad", state: "Telangana", lat: 17.4399, lng: 78.4983 },
+  { name: "Banjara Hills", city: "Hyderabad", state: "Telangana", lat: 17.4156, lng: 78.4347 },
+  { name: "Madhapur", city: "Hyderabad", state: "Telangana", lat: 17.4483, lng: 78.3915 },
+  { name: "Hitech City", city: "Hyderabad", state: "Telangana", lat: 17.4435, lng: 78.3772, aliases: ["HITEC City"] },
+  { name: "Gachibowli", city: "Hyderabad", state: "Telangana", lat: 17.4401, lng: 78.3489 },
+  { name: "Kukatpally", city: "Hyderabad", state: "Telangana", lat: 17.4948, lng: 78.3996 },
+  { name: "LB Nagar", city: "Hyderabad", state: "Telangana", lat: 17.3457, lng: 78.5522 },
+
+  // Kolkata localities
+  { name: "Park Street", city: "Kolkata", state: "West Bengal", lat: 22.553, lng: 88.352 },
+  { name: "Salt Lake", city: "Kolkata", state: "West Bengal", lat: 22.58, lng: 88.4137, aliases: ["Bidhannagar"] },
+];
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const placesByName = new Map<string, Place>();
+places.forEach((place) => {
+  [place.name, ...(place.aliases ?? [])].forEach((name) => placesByName.set(normalize(name), place));
+});
+
+// Look a place up by its name or an alias. Labels such as "Pimpri, Pune"
+// resolve too, since only the part before the comma is used.
+export function findPlace(name: string): Place | undefined {
+  return placesByName.get(normalize(name.split(",")[0]));
+}
+
+export function placeLabel(place: Place) {
+  return `${place.name}, ${place.city ?? place.state}`;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle (haversine) distance; road distance is usually longer
+export function distanceKm(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
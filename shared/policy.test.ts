@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  canAcceptOffer,
+  canCreateDelivery,
+  canFollowDelivery,
+  canMakeOffer,
+  canSetDeliveryStatus,
+} from "./policy";
+
+const sender = { id: 1, role: "sender" as const, isAdmin: false, emailVerifiedAt: new Date(), verifiedAt: null };
+const carrier = { id: 2, role: "carrier" as const, isAdmin: false, emailVerifiedAt: new Date(), verifiedAt: null };
+const admin = { id: 3, role: "sender" as const, isAdmin: true, emailVerifiedAt: new Date(), verifiedAt: null };
+const delivery = { senderId: 1, carrierId: 2, verifiedCarriersOnly: false };
+
+describe("canCreateDelivery", () => {
+  it("needs the sender role and a verified email address", () => {
+    expect(canCreateDelivery(sender).ok).toBe(true);
+    expect(canCreateDelivery(carrier).ok).toBe(false);
+    expect(canCreateDelivery({ ...sender, emailVerifiedAt: null }).ok).toBe(false);
+  });
+});
+
+describe("canFollowDelivery", () => {
+  it("lets the parties and admins follow a delivery", () => {
+    expect(canFollowDelivery(sender, delivery)).toBe(true);
+    expect(canFollowDelivery(carrier, delivery)).toBe(true);
+    expect(canFollowDelivery(admin, delivery)).toBe(true);
+    expect(canFollowDelivery({ id: 4, isAdmin: false }, delivery)).toBe(false);
+  });
+});
+
+describe("canSetDeliveryStatus", () => {
+  it("leaves pickup and delivery to the carrier and cancelling to the sender", () => {
+    expect(canSetDeliveryStatus(carrier, delivery, "picked").ok).toBe(true);
+    expect(canSetDeliveryStatus(sender, delivery, "picked").ok).toBe(false);
+    expect(canSetDeliveryStatus(carrier, delivery, "delivered").ok).toBe(true);
+    expect(canSetDeliveryStatus(sender, delivery, "cancelled").ok).toBe(true);
+    expect(canSetDeliveryStatus(carrier, delivery, "cancelled").ok).toBe(false);
+  });
+
+  it("refuses anyone outside the delivery", () => {
+    expect(canSetDeliveryStatus({ id: 4 }, delivery, "picked").ok).toBe(false);
+  });
+});
+
+describe("offers", () => {
+  it("stops senders offering on their own delivery and unverified carriers on restricted ones", () => {
+    expect(canMakeOffer(carrier, delivery).ok).toBe(true);
+    expect(canMakeOffer({ ...sender, role: "both" }, delivery).ok).toBe(false);
+    expect(canMakeOffer(carrier, { ...delivery, verifiedCarriersOnly: true }).ok).toBe(false);
+    expect(canMakeOffer({ ...carrier, verifiedAt: new Date() }, { ...delivery, verifiedCarriersOnly: true }).ok).toBe(true);
+  });
+
+  it("lets the sender accept an offer and the carrier accept a counter-offer", () => {
+    const offer = { carrierId: 2, status: "pending" as const };
+    expect(canAcceptOffer(sender, delivery, offer).ok).toBe(true);
+    expect(canAcceptOffer(carrier, delivery, offer).ok).toBe(false);
+    expect(canAcceptOffer(carrier, delivery, { ...offer, status: "countered" }).ok).toBe(true);
+    expect(canAcceptOffer(sender, delivery, { ...offer, status: "countered" }).ok).toBe(false);
+  });
+});
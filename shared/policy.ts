@@ -0,0 +1,157 @@
+// Who may do what, shared by the API routes and the UI so buttons are only
+// shown for actions the server will allow. Roles decide what new work a user
+// can take on; deliveries and offers they are already part of stay theirs to
+// finish, even after switching roles.
+import type { AttachmentKind, Delivery, DeliveryStatus, Offer, Trip, User } from "./schema";
+
+export type PolicyCheck =
+  | { ok: true }
+  | { ok: false; message: string };
+
+type PolicyUser = Pick<User, "id" | "role" | "isAdmin" | "emailVerifiedAt" | "verifiedAt">;
+type PartyDelivery = Pick<Delivery, "senderId" | "carrierId">;
+
+const allow: PolicyCheck = { ok: true };
+const deny = (message: string): PolicyCheck => ({ ok: false, message });
+
+// "both" counts as either role
+export function hasRole(user: Pick<User, "role">, role: "sender" | "carrier") {
+  return user.role === role || user.role === "both";
+}
+
+export function isDeliveryParty(user: Pick<User, "id">, delivery: PartyDelivery) {
+  return user.id === delivery.senderId || user.id === delivery.carrierId;
+}
+
+// The parties plus the mediators, who see photos, disputes and hidden listings
+export function canFollowDelivery(user: Pick<User, "id" | "isAdmin">, delivery: PartyDelivery) {
+  return user.isAdmin || isDeliveryParty(user, delivery);
+}
+
+export function canModerate(user: Pick<User, "isAdmin">) {
+  return user.isAdmin;
+}
+
+// Deliveries
+
+// Senders need a verified address, so there is always someone to contact
+// about their packages
+export function canCreateDelivery(user: PolicyUser): PolicyCheck {
+  if (!hasRole(user, "sender")) {
+    return deny("Add the sender role to your profile to create deliveries");
+  }
+  if (user.emailVerifiedAt === null) {
+    return deny("Verify your email address before creating a delivery");
+  }
+  return allow;
+}
+
+// Whether a carrier may take on the delivery. Senders can limit their
+// deliveries to carriers whose identity an admin has checked.
+export function canCarry(
+  carrier: Pick<User, "role" | "verifiedAt">,
+  delivery: Pick<Delivery, "verifiedCarriersOnly">,
+) {
+  return hasRole(carrier, "carrier") && (!delivery.verifiedCarriersOnly || carrier.verifiedAt !== null);
+}
+
+// Which party moves a delivery to the status. Whether the move fits the
+// delivery's current status is checked by the route.
+export function canSetDeliveryStatus(
+  user: Pick<User, "id">,
+  delivery: PartyDelivery,
+  status: DeliveryStatus,
+): PolicyCheck {
+  if (!isDeliveryParty(user, delivery)) {
+    return deny("Forbidden: Not associated with this delivery");
+  }
+
+  switch (status) {
+    case "picked":
+      return user.id === delivery.carrierId ? allow : deny("Only carriers can mark as picked");
+    case "delivered":
+      return user.id === delivery.carrierId ? allow : deny("Only carriers can mark as delivered");
+    case "requested":
+      return user.id === delivery.carrierId ? allow : deny("Only the assigned carrier can release a delivery");
+    case "cancelled":
+      return user.id === delivery.senderId ? allow : deny("Only the sender can cancel a delivery");
+    default:
+      return allow;
+  }
+}
+
+export function canManageHandoffCodes(user: Pick<User, "id">, delivery: PartyDelivery): PolicyCheck {
+  return user.id === delivery.senderId ? allow : deny("Only the sender can manage handoff codes");
+}
+
+export function canAddAttachment(user: Pick<User, "id">, delivery: PartyDelivery, kind: AttachmentKind): PolicyCheck {
+  switch (kind) {
+    case "package_photo":
+      return user.id === delivery.senderId ? allow : deny("Only the sender can add package photos");
+    case "dispute_evidence":
+      return isDeliveryParty(user, delivery) ? allow : deny("Only the sender or the carrier can add evidence");
+    default:
+      return user.id === delivery.carrierId ? allow : deny("Only the carrier can add proof of delivery");
+  }
+}
+
+// The private thread between the sender and the assigned carrier
+export function canMessage(user: Pick<User, "id">, delivery: PartyDelivery): PolicyCheck {
+  return delivery.carrierId !== null && isDeliveryParty(user, delivery)
+    ? allow
+    : deny("Forbidden: Not associated with this delivery");
+}
+
+export function canReview(user: Pick<User, "id">, delivery: PartyDelivery): PolicyCheck {
+  return isDeliveryParty(user, delivery)
+    ? allow
+    : deny("Only participants in the delivery can leave reviews");
+}
+
+// Offers
+
+export function canMakeOffer(user: PolicyUser, delivery: Pick<Delivery, "senderId" | "verifiedCarriersOnly">): PolicyCheck {
+  if (user.id === delivery.senderId) {
+    return deny("You cannot make an offer on your own delivery");
+  }
+  if (!hasRole(user, "carrier")) {
+    return deny("Add the carrier role to your profile to make offers");
+  }
+  if (!canCarry(user, delivery)) {
+    return deny("Only verified carriers can make offers on this delivery");
+  }
+  return allow;
+}
+
+export function canCounterOffer(user: Pick<User, "id">, delivery: PartyDelivery): PolicyCheck {
+  return user.id === delivery.senderId ? allow : deny("Only the sender can counter an offer");
+}
+
+// The sender accepts a pending offer, the carrier accepts a counter-offer
+export function canAcceptOffer(
+  user: Pick<User, "id">,
+  delivery: PartyDelivery,
+  offer: Pick<Offer, "carrierId" | "status">,
+): PolicyCheck {
+  if (offer.status === "pending" && user.id !== delivery.senderId) {
+    return deny("Only the sender can accept this offer");
+  }
+  if (offer.status === "countered" && user.id !== offer.carrierId) {
+    return deny("Only the carrier can accept a counter-offer");
+  }
+  return allow;
+}
+
+export function canWithdrawOffer(user: Pick<User, "id">, offer: Pick<Offer, "carrierId">): PolicyCheck {
+  return user.id === offer.carrierId ? allow : deny("Only the carrier can withdraw this offer");
+}
+
+// Trips
+
+export function canPostTrip(user: Pick<User, "role">): PolicyCheck {
+  return hasRole(user, "carrier") ? allow : deny("Only carriers can post trips");
+}
+
+export function canManageTrip(user: Pick<User, "id">, trip: Pick<Trip, "carrierId">): PolicyCheck {
+  return user.id === trip.carrierId ? allow : deny("Only the carrier can manage this trip");
+}
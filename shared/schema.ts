@@ -1,12 +1,104 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, jsonb, json, varchar, index, doublePrecision, real } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { findPlace, type Coordinates } from "./gazetteer";
 
 // Define package size enum
 export const packageSizeEnum = pgEnum('package_size', ['small', 'medium', 'large']);
 
 // Define delivery status enum
-export const deliveryStatusEnum = pgEnum('delivery_status', ['requested', 'accepted', 'picked', 'delivered']);
+export const deliveryStatusEnum = pgEnum('delivery_status', ['requested', 'accepted', 'picked', 'delivered', 'cancelled', 'disputed']);
+
+// Define cancellation reason enum
+export const cancellationReasonEnum = pgEnum('cancellation_reason', [
+  'no_longer_needed',
+  'found_alternative',
+  'schedule_changed',
+  'carrier_unresponsive',
+  'other',
+]);
+
+// Define offer status enum
+export const offerStatusEnum = pgEnum('offer_status', ['pending', 'countered', 'accepted', 'rejected', 'withdrawn']);
+
+// Define handoff code purpose enum
+export const handoffPurposeEnum = pgEnum('handoff_purpose', ['pickup', 'dropoff']);
+
+// Define attachment kind enum
+export const attachmentKindEnum = pgEnum('attachment_kind', ['package_photo', 'proof_of_delivery', 'dispute_evidence']);
+
+// Define dispute enums
+export const disputeReasonEnum = pgEnum('dispute_reason', [
+  'damaged',
+  'not_delivered',
+  'wrong_item',
+  'not_picked_up',
+  'payment',
+  'other',
+]);
+export const disputeStatusEnum = pgEnum('dispute_status', ['open', 'resolved']);
+export const disputeOutcomeEnum = pgEnum('dispute_outcome', ['refund_sender', 'pay_carrier', 'split']);
+
+// Define identity verification enums
+export const verificationDocumentTypeEnum = pgEnum('verification_document_type', ['aadhaar', 'pan', 'passport', 'driving_licence', 'voter_id']);
+export const verificationStatusEnum = pgEnum('verification_status', ['pending', 'approved', 'rejected']);
+
+// Define notification type enum
+export const notificationTypeEnum = pgEnum('notification_type', [
+  'offer_received',
+  'offer_countered',
+  'offer_accepted',
+  'offer_rejected',
+  'delivery_picked',
+  'delivery_delivered',
+  'delivery_cancelled',
+  'delivery_released',
+  'review_received',
+  'trip_match',
+  'dispute_opened',
+  'dispute_message',
+  'dispute_resolved',
+  'moderation_notice',
+  'verification_reviewed',
+  'account_locked',
+]);
+
+// How a sign-in attempt on an existing account went
+export const loginOutcomeEnum = pgEnum('login_outcome', ['success', 'wrong_password', 'wrong_code', 'blocked']);
+
+// Notification types that can also be sent by email, as chosen on the profile
+// page. Account security notices are always emailed.
+export const emailNotificationTypes = [
+  'offer_received',
+  'offer_countered',
+  'offer_accepted',
+  'delivery_picked',
+  'delivery_delivered',
+  'delivery_cancelled',
+  'delivery_released',
+  'review_received',
+  'trip_match',
+  'dispute_opened',
+  'dispute_resolved',
+  'verification_reviewed',
+] as const;
+
+// Define ledger enums
+export const ledgerAccountTypeEnum = pgEnum('ledger_account_type', ['wallet', 'escrow', 'gateway', 'payouts']);
+export const ledgerTransactionKindEnum = pgEnum('ledger_transaction_kind', [
+  'top_up',
+  'escrow_hold',
+  'escrow_release',
+  'escrow_refund',
+  'payout',
+  'payout_reversal',
+  'dispute_hold',
+  'dispute_settlement',
+]);
+
+// Define payout status enum
+export const payoutStatusEnum = pgEnum('payout_status', ['pending', 'paid', 'failed']);
 
 // Define user roles enum
 export const userRoleEnum = pgEnum('user_role', ['sender', 'carrier', 'both']);
@@ -16,10 +108,28 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  passwordChangedAt: timestamp("password_changed_at"), // sessions from before this are signed out
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"), // sign-in also needs a TOTP or recovery code
   fullName: text("full_name").notNull(),
+  bio: text("bio"),
+  phone: text("phone"), // private; never part of the public profile
+  // Cities the user usually sends from or travels through
+  preferredCities: jsonb("preferred_cities").$type<string[]>().notNull().default([]),
+  avatarUpdatedAt: timestamp("avatar_updated_at"), // set while the user has an avatar
   role: userRoleEnum("role").notNull().default('both'),
+  isAdmin: boolean("is_admin").notNull().default(false), // marketplace staff, e.g. dispute mediators
+  suspendedAt: timestamp("suspended_at"), // suspended users can't sign in
+  suspensionReason: text("suspension_reason"),
+  verifiedAt: timestamp("verified_at"), // identity documents approved by an admin
   rating: integer("rating"),
   totalReviews: integer("total_reviews").default(0),
+  email: text("email"),
+  emailVerifiedAt: timestamp("email_verified_at"), // cleared whenever the address changes
+  // Email opt-outs per notification type; a missing type means "send"
+  emailPreferences: jsonb("email_preferences")
+    .$type<Partial<Record<(typeof notificationTypeEnum.enumValues)[number], boolean>>>()
+    .notNull()
+    .default({}),
 });
 
 // Deliveries table
@@ -29,6 +139,12 @@ export const deliveries = pgTable("deliveries", {
   carrierId: integer("carrier_id").references(() => users.id),
   pickupLocation: text("pickup_location").notNull(),
   dropLocation: text("drop_location").notNull(),
+  // Coordinates resolved from the gazetteer when the delivery is created
+  pickupLat: doublePrecision("pickup_lat"),
+  pickupLng: doublePrecision("pickup_lng"),
+  dropLat: doublePrecision("drop_lat"),
+  dropLng: doublePrecision("drop_lng"),
+  distanceKm: real("distance_km"), // straight-line pickup to drop distance
   packageSize: packageSizeEnum("package_size").notNull(),
   packageWeight: integer("package_weight").notNull(), // weight in grams
   description: text("description"),
@@ -37,8 +153,22 @@ export const deliveries = pgTable("deliveries", {
   preferredDeliveryTime: text("preferred_delivery_time").notNull(),
   status: deliveryStatusEnum("status").notNull().default('requested'),
   deliveryFee: integer("delivery_fee").notNull(), // fee in cents
+  verifiedCarriersOnly: boolean("verified_carriers_only").notNull().default(false),
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  cancellationReason: cancellationReasonEnum("cancellation_reason"),
+  cancellationNote: text("cancellation_note"),
+  cancelledAt: timestamp("cancelled_at"),
+  hiddenAt: timestamp("hidden_at"), // hidden by an admin from public listings
+  hiddenReason: text("hidden_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Full-text search over the free-text fields; must match deliverySearchDocument in storage
+  index("deliveries_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', coalesce(${table.description}, '') || ' ' || coalesce(${table.specialInstructions}, ''))`
+  ),
+  index("deliveries_pickup_coords_idx").on(table.pickupLat, table.pickupLng),
+]);
 
 // Reviews table
 export const reviews = pgTable("reviews", {
@@ -48,49 +178,876 @@ export const reviews = pgTable("reviews", {
   revieweeId: integer("reviewee_id").references(() => users.id).notNull(),
   rating: integer("rating").notNull(),
   comment: text("comment"),
+  hiddenAt: timestamp("hidden_at"), // hidden by an admin; no longer counts towards the rating
+  hiddenReason: text("hidden_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Offers table (carrier bids on a requested delivery)
+export const offers = pgTable("offers", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id).notNull(),
+  carrierId: integer("carrier_id").references(() => users.id).notNull(),
+  price: integer("price").notNull(), // price in cents
+  proposedPickupTime: timestamp("proposed_pickup_time").notNull(),
+  note: text("note"),
+  status: offerStatusEnum("status").notNull().default('pending'),
+  counterPrice: integer("counter_price"), // sender's counter-offer in cents
+  counterNote: text("counter_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Handoff codes table (one-time codes proving pickup and drop-off)
+export const handoffCodes = pgTable("handoff_codes", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id).notNull(),
+  purpose: handoffPurposeEnum("purpose").notNull(),
+  code: text("code").notNull(),
+  attempts: integer("attempts").notNull().default(0), // failed verification attempts
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Who receives a delivery at the drop location. Kept apart from deliveries so
+// listings never show it; the drop-off code is emailed here.
+export const deliveryRecipients = pgTable("delivery_recipients", {
+  deliveryId: integer("delivery_id").references(() => deliveries.id).primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Attachments table (photos stored through the file storage driver)
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id).notNull(),
+  uploaderId: integer("uploader_id").references(() => users.id).notNull(),
+  kind: attachmentKindEnum("kind").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // size in bytes
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Messages table (private thread between sender and carrier of a delivery)
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id).notNull(),
+  authorId: integer("author_id").references(() => users.id).notNull(),
+  body: text("body").notNull(),
+  readAt: timestamp("read_at"), // when the other party read it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Delivery events table - one row per status transition, written together
+// with the status change itself
+export const deliveryEvents = pgTable("delivery_events", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id).notNull(),
+  actorId: integer("actor_id").references(() => users.id), // null for system transitions
+  fromStatus: deliveryStatusEnum("from_status"), // null for the creation event
+  toStatus: deliveryStatusEnum("to_status").notNull(),
+  note: text("note"),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Notifications table
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  type: notificationTypeEnum("type").notNull(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Trips table (a carrier's planned journey with room for packages)
+export const trips = pgTable("trips", {
+  id: serial("id").primaryKey(),
+  carrierId: integer("carrier_id").references(() => users.id).notNull(),
+  origin: text("origin").notNull(),
+  destination: text("destination").notNull(),
+  originLat: doublePrecision("origin_lat").notNull(),
+  originLng: doublePrecision("origin_lng").notNull(),
+  destinationLat: doublePrecision("destination_lat").notNull(),
+  destinationLng: doublePrecision("destination_lng").notNull(),
+  departureFrom: text("departure_from").notNull(), // YYYY-MM-DD
+  departureTo: text("departure_to").notNull(), // YYYY-MM-DD
+  maxPackageSize: packageSizeEnum("max_package_size").notNull(),
+  maxWeight: integer("max_weight").notNull(), // weight in grams
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Marketplace settings such as the pricing rate card, one JSON value per key
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Disputes table - opening one freezes the delivery and its escrow until an
+// admin resolves it
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id).notNull(),
+  openedBy: integer("opened_by").references(() => users.id).notNull(),
+  reason: disputeReasonEnum("reason").notNull(),
+  description: text("description").notNull(),
+  status: disputeStatusEnum("status").notNull().default('open'),
+  previousStatus: deliveryStatusEnum("previous_status").notNull(), // delivery status before the dispute
+  outcome: disputeOutcomeEnum("outcome"),
+  senderAmount: integer("sender_amount"), // refunded to the sender, in cents
+  carrierAmount: integer("carrier_amount"), // paid to the carrier, in cents
+  resolutionNote: text("resolution_note"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Dispute messages table (thread between the sender, the carrier and the mediator)
+export const disputeMessages = pgTable("dispute_messages", {
+  id: serial("id").primaryKey(),
+  disputeId: integer("dispute_id").references(() => disputes.id).notNull(),
+  authorId: integer("author_id").references(() => users.id).notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Express sessions, written by connect-pg-simple. Declared here so schema
+// pushes keep the table; the layout is the one connect-pg-simple expects.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// Sign-in attempts on existing accounts, shown to the user as their login history
+export const loginEvents = pgTable("login_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  outcome: loginOutcomeEnum("outcome").notNull(),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("login_events_user_idx").on(table.userId, table.createdAt),
+]);
+
+// Password reset tokens. Only a hash of the token is stored; the token
+// itself is only ever in the emailed link.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set when redeemed or replaced by a newer token
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Email verification tokens, bound to the address they were sent to so a
+// link stops working once the user changes their email
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set when redeemed or replaced by a newer token
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// TOTP secrets, encrypted at rest. A row without twoFactorEnabledAt on the
+// user is an enrollment that hasn't been confirmed with a code yet.
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: integer("user_id").references(() => users.id).primaryKey(),
+  encryptedSecret: text("encrypted_secret").notNull(),
+  lastUsedStep: integer("last_used_step"), // codes can't be replayed within their window
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes for signing in without the authenticator app
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("two_factor_recovery_codes_user_idx").on(table.userId),
+]);
+
+// Identity verification requests: an ID document and a selfie reviewed by an admin
+export const verificationRequests = pgTable("verification_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  documentType: verificationDocumentTypeEnum("document_type").notNull(),
+  documentKey: text("document_key").notNull(), // file storage keys, never served publicly
+  selfieKey: text("selfie_key").notNull(),
+  status: verificationStatusEnum("status").notNull().default('pending'),
+  reviewNote: text("review_note"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("verification_requests_user_idx").on(table.userId),
+]);
+
+// Ledger accounts: a wallet per user, an escrow per delivery and the
+// gateway and payouts accounts where money enters and leaves the platform
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // e.g. "wallet:12", "escrow:45", "gateway"
+  type: ledgerAccountTypeEnum("type").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  deliveryId: integer("delivery_id").references(() => deliveries.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Ledger transactions group entries that sum to zero
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: serial("id").primaryKey(),
+  kind: ledgerTransactionKindEnum("kind").notNull(),
+  deliveryId: integer("delivery_id").references(() => deliveries.id),
+  description: text("description").notNull(),
+  reference: text("reference"), // payment gateway reference, if any
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Ledger entries - positive amounts credit the account, negative debit it
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => ledgerTransactions.id).notNull(),
+  accountId: integer("account_id").references(() => ledgerAccounts.id).notNull(),
+  amount: integer("amount").notNull(), // amount in cents
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ledger_entries_account_idx").on(table.accountId),
+]);
+
+// Payouts table (withdrawals from a wallet through the payment gateway)
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  amount: integer("amount").notNull(), // amount in cents
+  status: payoutStatusEnum("status").notNull().default('pending'),
+  gatewayReference: text("gateway_reference"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Create Zod schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   rating: true,
   totalReviews: true,
+  emailVerifiedAt: true,
+  emailPreferences: true,
+  isAdmin: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  verifiedAt: true,
+  passwordChangedAt: true,
+  twoFactorEnabledAt: true,
+  bio: true,
+  phone: true,
+  preferredCities: true,
+  avatarUpdatedAt: true,
 });
 
 export const insertDeliverySchema = createInsertSchema(deliveries).omit({
   id: true,
   carrierId: true,
   status: true,
+  cancelledBy: true,
+  cancellationReason: true,
+  cancellationNote: true,
+  cancelledAt: true,
+  hiddenAt: true,
+  hiddenReason: true,
   createdAt: true,
 });
 
 export const insertReviewSchema = createInsertSchema(reviews).omit({
   id: true,
+  hiddenAt: true,
+  hiddenReason: true,
+  createdAt: true,
+});
+
+export const insertOfferSchema = createInsertSchema(offers).omit({
+  id: true,
+  status: true,
+  counterPrice: true,
+  counterNote: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertHandoffCodeSchema = createInsertSchema(handoffCodes).omit({
+  id: true,
+  attempts: true,
+  usedAt: true,
+  usedBy: true,
+  createdAt: true,
+});
+
+export const insertDeliveryRecipientSchema = createInsertSchema(deliveryRecipients).omit({
+  createdAt: true,
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertDeliveryEventSchema = createInsertSchema(deliveryEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertTripSchema = createInsertSchema(trips).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDisputeSchema = createInsertSchema(disputes).omit({
+  id: true,
+  status: true,
+  previousStatus: true,
+  outcome: true,
+  senderAmount: true,
+  carrierAmount: true,
+  resolutionNote: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  createdAt: true,
+});
+
+export const insertDisputeMessageSchema = createInsertSchema(disputeMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertEmailVerificationTokenSchema = createInsertSchema(emailVerificationTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertLoginEventSchema = createInsertSchema(loginEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVerificationRequestSchema = createInsertSchema(verificationRequests).omit({
+  id: true,
+  status: true,
+  reviewNote: true,
+  reviewedBy: true,
+  reviewedAt: true,
   createdAt: true,
 });
 
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  status: true,
+  gatewayReference: true,
+  failureReason: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Location schema for form validation
 export const locationSchema = z.object({
   name: z.string().min(1, "Location is required"),
 });
 
-// Extended schema for create delivery form
-export const createDeliverySchema = insertDeliverySchema.extend({
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+const knownPlace = (requiredMessage: string) => z.string()
+  .min(1, requiredMessage)
+  .refine((name) => !!findPlace(name), "Choose a location from the list");
+
+// Extended schema for create delivery form. Coordinates and distance are
+// worked out by the server.
+export const createDeliverySchema = insertDeliverySchema.omit({
+  pickupLat: true,
+  pickupLng: true,
+  dropLat: true,
+  dropLng: true,
+  distanceKm: true,
+}).extend({
   packageWeight: z.number().min(1, "Weight must be at least 1 gram"),
   deliveryFee: z.number().min(1, "Fee must be at least 1 cent"),
-  pickupLocation: z.string().min(1, "Pickup location is required"),
-  dropLocation: z.string().min(1, "Drop location is required"),
+  pickupLocation: knownPlace("Pickup location is required"),
+  dropLocation: knownPlace("Drop location is required"),
+  preferredDeliveryDate: isoDate,
   packageSize: z.enum(["small", "medium", "large"]),
+  // Optional; when set, the recipient is emailed the drop-off code
+  recipient: z.object({
+    name: z.string().trim().min(1, "Recipient name is required").max(100, "Name must be at most 100 characters"),
+    email: z.string().trim().email("Enter a valid email address"),
+  }).optional(),
+});
+
+// Schema for cancelling a delivery (sender) or releasing it (carrier)
+export const cancelDeliverySchema = z.object({
+  reason: z.enum(cancellationReasonEnum.enumValues),
+  note: z.string().max(500, "Note must be at most 500 characters").optional(),
+});
+
+// Schema for a carrier submitting or revising an offer
+export const createOfferSchema = z.object({
+  price: z.number().int().min(1, "Price must be at least 1 cent"),
+  proposedPickupTime: z.coerce.date(),
+  note: z.string().max(500, "Note must be at most 500 characters").optional(),
+});
+
+// Schema for a sender countering an offer
+export const counterOfferSchema = z.object({
+  price: z.number().int().min(1, "Price must be at least 1 cent"),
+  note: z.string().max(500, "Note must be at most 500 characters").optional(),
+});
+
+// Schema for posting a chat message
+export const createMessageSchema = z.object({
+  body: z.string().trim().min(1, "Message cannot be empty").max(2000, "Message must be at most 2000 characters"),
+});
+
+// Schema for marking notifications as read; no ids marks all of them
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int()).optional(),
+});
+
+// Schema for the email notification settings on the profile page
+export const updateEmailPreferencesSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").nullable(),
+  emailPreferences: z.record(z.enum(emailNotificationTypes), z.boolean()),
+});
+
+// Comma-separated query string value such as "Pune,Mumbai"
+const commaSeparated = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  (value) => typeof value === "string"
+    ? value.split(",").map((part) => part.trim()).filter(Boolean)
+    : value,
+  z.array(item).min(1).max(20),
+);
+
+// Schema for the search filters of delivery listings. Fees are in cents and
+// weights in grams, like the columns they filter.
+export const deliveryFiltersSchema = z.object({
+  status: z.enum(deliveryStatusEnum.enumValues).optional(),
+  pickupLocations: commaSeparated(z.string()).optional(),
+  dropLocations: commaSeparated(z.string()).optional(),
+  packageSizes: commaSeparated(z.enum(packageSizeEnum.enumValues)).optional(),
+  minFee: z.coerce.number().int().min(0).optional(),
+  maxFee: z.coerce.number().int().min(0).optional(),
+  minWeight: z.coerce.number().int().min(0).optional(),
+  maxWeight: z.coerce.number().int().min(0).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  // Pickup within radiusKm of a gazetteer place or of the given coordinates
+  near: z.string().trim().min(1).optional(),
+  nearLat: z.coerce.number().min(-90).max(90).optional(),
+  nearLng: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().max(2000).optional(),
+})
+  .refine((filters) => filters.minFee === undefined || filters.maxFee === undefined || filters.minFee <= filters.maxFee, {
+    message: "Minimum fee cannot be more than the maximum fee",
+    path: ["minFee"],
+  })
+  .refine((filters) => filters.minWeight === undefined || filters.maxWeight === undefined || filters.minWeight <= filters.maxWeight, {
+    message: "Minimum weight cannot be more than the maximum weight",
+    path: ["minWeight"],
+  })
+  .refine((filters) => !filters.dateFrom || !filters.dateTo || filters.dateFrom <= filters.dateTo, {
+    message: "Start date cannot be after the end date",
+    path: ["dateFrom"],
+  })
+  .refine((filters) => !filters.near || !!findPlace(filters.near), {
+    message: "Unknown location",
+    path: ["near"],
+  })
+  .refine((filters) => (filters.nearLat === undefined) === (filters.nearLng === undefined), {
+    message: "Both latitude and longitude are required",
+    path: ["nearLat"],
+  })
+  .refine((filters) => {
+    const hasOrigin = !!filters.near || filters.nearLat !== undefined;
+    return hasOrigin === (filters.radiusKm !== undefined);
+  }, {
+    message: "A radius needs a place or coordinates to search around, and the other way round",
+    path: ["radiusKm"],
+  });
+
+// Schema for creating or editing a trip; coordinates come from the gazetteer
+export const tripFormSchema = z.object({
+  origin: knownPlace("Origin is required"),
+  destination: knownPlace("Destination is required"),
+  departureFrom: isoDate,
+  departureTo: isoDate,
+  maxPackageSize: z.enum(packageSizeEnum.enumValues),
+  maxWeight: z.number().int().min(1, "Weight must be at least 1 gram"),
+  notes: z.string().max(500, "Notes must be at most 500 characters").optional(),
+})
+  .refine((trip) => trip.departureFrom <= trip.departureTo, {
+    message: "The departure window must end after it starts",
+    path: ["departureTo"],
+  })
+  .refine((trip) => findPlace(trip.origin)?.name !== findPlace(trip.destination)?.name, {
+    message: "Destination must differ from the origin",
+    path: ["destination"],
+  });
+
+// Pricing rate card; money is in cents and weights in grams like the
+// delivery columns
+export const rateCardSchema = z.object({
+  baseFee: z.number().int().min(0),
+  perKm: z.number().int().min(0),
+  // Weight up to this is covered by the base fee
+  includedWeight: z.number().int().min(0),
+  perKg: z.number().int().min(0),
+  sizeMultipliers: z.object({
+    small: z.number().positive(),
+    medium: z.number().positive(),
+    large: z.number().positive(),
+  }),
+  // Surcharges for short notice, e.g. { withinDays: 1, multiplier: 1.5 }
+  // applies to deliveries wanted today or tomorrow
+  urgency: z.array(z.object({
+    withinDays: z.number().int().min(0),
+    multiplier: z.number().positive(),
+  })).max(10),
+  // The suggested range is the estimate plus or minus this fraction
+  rangeSpread: z.number().min(0).max(1),
+  // Accepted fees, relative to the estimate and in absolute terms
+  floorRatio: z.number().positive().max(1),
+  ceilingRatio: z.number().min(1),
+  minFee: z.number().int().min(1),
+  maxFee: z.number().int().min(1),
+}).refine((rateCard) => rateCard.minFee <= rateCard.maxFee, {
+  message: "Minimum fee cannot be more than the maximum fee",
+  path: ["minFee"],
+});
+
+// Schema for a fee estimate request, made while the sender fills the form
+export const feeEstimateRequestSchema = z.object({
+  pickupLocation: knownPlace("Pickup location is required"),
+  dropLocation: knownPlace("Drop location is required"),
+  packageSize: z.enum(packageSizeEnum.enumValues),
+  packageWeight: z.number().int().min(1, "Weight must be at least 1 gram"),
+  preferredDeliveryDate: isoDate,
+});
+
+// A dispute can be opened once a carrier is assigned, including after delivery
+export const disputableStatuses = ['accepted', 'picked', 'delivered'] as const;
+
+// Schema for opening a dispute on a delivery
+export const openDisputeSchema = z.object({
+  reason: z.enum(disputeReasonEnum.enumValues),
+  description: z.string().trim()
+    .min(10, "Describe what went wrong in at least 10 characters")
+    .max(2000, "Description must be at most 2000 characters"),
+});
+
+// Schema for a mediator closing a dispute; a split names the carrier's share
+// and the sender gets the rest
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum(disputeOutcomeEnum.enumValues),
+  carrierAmount: z.number().int().min(0, "Amount can't be negative").optional(),
+  note: z.string().trim()
+    .min(1, "Explain the decision to both parties")
+    .max(2000, "Note must be at most 2000 characters"),
+}).refine((data) => data.outcome !== "split" || data.carrierAmount !== undefined, {
+  message: "Enter the carrier's share for a split",
+  path: ["carrierAmount"],
+});
+
+// Schema for the search box of the admin user and review lists
+export const adminSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+});
+
+// Filters of the admin delivery list: the public filters plus hidden listings
+export const adminDeliveryFiltersSchema = deliveryFiltersSchema.and(z.object({
+  hidden: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+}));
+
+const moderationReason = z.string().trim()
+  .min(3, "Give a reason of at least 3 characters")
+  .max(500, "Reason must be at most 500 characters");
+
+// Schema for suspending a user or lifting the suspension
+export const suspendUserSchema = z.object({
+  suspended: z.boolean(),
+  reason: moderationReason.optional(),
+}).refine((data) => !data.suspended || !!data.reason, {
+  message: "Give a reason for the suspension",
+  path: ["reason"],
+});
+
+// Schema for hiding a delivery listing or review, or showing it again
+export const hideContentSchema = z.object({
+  hidden: z.boolean(),
+  reason: moderationReason.optional(),
+}).refine((data) => !data.hidden || !!data.reason, {
+  message: "Give a reason for hiding it",
+  path: ["reason"],
+});
+
+// Schema for an admin overriding a delivery's status. Disputed deliveries
+// are settled through the dispute instead.
+export const forceDeliveryStatusSchema = z.object({
+  status: z.enum(['requested', 'accepted', 'picked', 'delivered', 'cancelled']),
+  reason: moderationReason,
+});
+
+// Schema for granting or revoking admin access
+export const updateAdminAccessSchema = z.object({
+  isAdmin: z.boolean(),
+});
+
+// Schema for editing the profile; only the fields sent are changed
+export const updateProfileSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required").max(100, "Full name must be at most 100 characters"),
+  bio: z.string().trim().max(500, "Bio must be at most 500 characters")
+    .transform((bio) => bio || null)
+    .nullable(),
+  phone: z.string().trim()
+    .regex(/^(\+?[0-9][0-9 -]{6,18}[0-9])?$/, "Enter a valid phone number")
+    .transform((phone) => phone || null)
+    .nullable(),
+  preferredCities: z.array(z.string().refine((name) => !!findPlace(name), "Choose cities from the list"))
+    .max(10, "Choose at most 10 cities")
+    // Stored under their gazetteer names, once each
+    .transform((names) => Array.from(new Set(names.map((name) => findPlace(name)!.name)))),
+  role: z.enum(userRoleEnum.enumValues),
+}).partial();
+
+// Schema for changing the password while signed in
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: z.string()
+    .min(6, "Password must be at least 6 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+// Schema for signing up; an email address is required so the account can be
+// verified and recovered
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+// Schema for redeeming the token from an email verification link
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "The verification link is incomplete"),
+});
+
+// Schema for a code from the authenticator app
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+// Schema for the second sign-in step and for confirming changes to 2FA,
+// which also accept a recovery code
+export const twoFactorChallengeSchema = z.object({
+  code: z.string().trim().min(6, "Enter a code").max(20),
+});
+
+// Schema for an admin turning off a user's 2FA, e.g. when they lost their phone
+export const resetTwoFactorSchema = z.object({
+  reason: moderationReason,
+});
+
+// Schema for asking for a password reset link
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+// Schema for choosing a new password with the token from the emailed link
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "The reset link is incomplete"),
+  password: z.string()
+    .min(6, "Password must be at least 6 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+// Schema for the form fields sent along with the ID document and selfie
+export const submitVerificationSchema = z.object({
+  documentType: z.enum(verificationDocumentTypeEnum.enumValues),
+});
+
+// Schema for an admin approving or rejecting a verification request. The
+// user sees the note, so a rejection has to say what to fix.
+export const reviewVerificationSchema = z.object({
+  approved: z.boolean(),
+  note: z.string().trim().max(500, "Note must be at most 500 characters").optional(),
+}).refine((data) => data.approved || (data.note?.length ?? 0) >= 3, {
+  message: "Tell the user why the documents were rejected",
+  path: ["note"],
+});
+
+// Schema for filtering the verification queue
+export const verificationQueueQuerySchema = z.object({
+  status: z.enum(verificationStatusEnum.enumValues).default('pending'),
+});
+
+// Schema for adding money to a wallet, in cents
+export const walletTopUpSchema = z.object({
+  amount: z.number().int()
+    .min(10000, "Top up at least ₹100")
+    .max(10000000, "Top up at most ₹1,00,000 at a time"),
+});
+
+// Schema for withdrawing wallet money, in cents
+export const payoutRequestSchema = z.object({
+  amount: z.number().int()
+    .min(10000, "Withdraw at least ₹100")
+    .max(10000000, "Withdraw at most ₹1,00,000 at a time"),
+});
+
+// Sort options for delivery listings
+export const deliverySortOptions = ['newest', 'highest_fee', 'soonest_date', 'lightest'] as const;
+
+// Schema for the pagination and sort query parameters of delivery listings
+export const deliveryPageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  cursor: z.string().optional(),
+  sort: z.enum(deliverySortOptions).default('newest'),
 });
 
 // Define types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = User["role"];
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type Delivery = typeof deliveries.$inferSelect;
 export type InsertDelivery = z.infer<typeof insertDeliverySchema>;
+export type DeliveryStatus = Delivery["status"];
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type HandoffCode = typeof handoffCodes.$inferSelect;
+export type InsertHandoffCode = z.infer<typeof insertHandoffCodeSchema>;
+export type HandoffPurpose = HandoffCode["purpose"];
+export type DeliveryRecipient = typeof deliveryRecipients.$inferSelect;
+export type InsertDeliveryRecipient = z.infer<typeof insertDeliveryRecipientSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type AttachmentKind = Attachment["kind"];
+export type Message = typeof messages.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Offer = typeof offers.$inferSelect;
+export type InsertOffer = z.infer<typeof insertOfferSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationType = Notification["type"];
+export type Trip = typeof trips.$inferSelect;
+export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type Setting = typeof settings.$inferSelect;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerAccountType = LedgerAccount["type"];
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type LedgerTransactionKind = LedgerTransaction["kind"];
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type Dispute = typeof disputes.$inferSelect;
+export type InsertDispute = z.infer<typeof insertDisputeSchema>;
+export type DisputeMessage = typeof disputeMessages.$inferSelect;
+export type InsertDisputeMessage = z.infer<typeof insertDisputeMessageSchema>;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type InsertEmailVerificationToken = z.infer<typeof insertEmailVerificationTokenSchema>;
+export type RegisterUserInput = z.infer<typeof registerUserSchema>;
+export type LoginEvent = typeof loginEvents.$inferSelect;
+export type InsertLoginEvent = z.infer<typeof insertLoginEventSchema>;
+export type LoginOutcome = (typeof loginOutcomeEnum.enumValues)[number];
+
+// Login history entry with the browser and OS read from the user agent
+export type LoginHistoryEntry = Omit<LoginEvent, "userAgent"> & { device: string };
+
+// A signed-in session of the user. The id is derived from the session ID,
+// which is never sent to the browser in the clear.
+export type ActiveSession = {
+  id: string;
+  device: string;
+  ip: string | null;
+  signedInAt: number | null;
+  lastSeenAt: number | null;
+  current: boolean;
+};
+
+// The parts of a stored session needed to list it
+export type StoredSession = {
+  sid: string;
+  userAgent: string | null;
+  ip: string | null;
+  authenticatedAt: number | null;
+  lastSeenAt: number | null;
+};
+
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+
+// /api/login answers with this instead of the user when a code is needed
+export type TwoFactorChallenge = { twoFactorRequired: true };
+
+// Enrollment details shown once on the profile page
+export type TwoFactorSetup = {
+  qrCode: string; // data: URL of the otpauth:// link
+  secret: string; // base32, for typing into the app by hand
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesLeft: number;
+};
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetConfirmInput = z.infer<typeof passwordResetConfirmSchema>;
+export type VerificationRequest = typeof verificationRequests.$inferSelect;
+export type InsertVerificationRequest = z.infer<typeof insertVerificationRequestSchema>;
+export type VerificationDocumentType = VerificationRequest["documentType"];
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+export type DeliveryEvent = typeof deliveryEvents.$inferSelect;
+export type InsertDeliveryEvent = z.infer<typeof insertDeliveryEventSchema>;
 
 // Define new types for delivery with sender/carrier info
 export type DeliveryWithUser = Delivery & {
@@ -98,4 +1055,168 @@ export type DeliveryWithUser = Delivery & {
   carrier?: User;
 };
 
+export type DeliveryFilters = z.infer<typeof deliveryFiltersSchema>;
+
+// Listing filters plus the ones only the server sets, e.g. for dashboards
+// and trip matching
+export type DeliveryQuery = DeliveryFilters & {
+  // true lists only hidden deliveries, false only visible ones
+  hidden?: boolean;
+  senderId?: number;
+  excludeSenderId?: number;
+  carrierId?: number;
+  dropNear?: Coordinates & { radiusKm: number };
+};
+
+// A carrier's trip with the number of requested deliveries it could carry
+export type TripWithMatches = Trip & {
+  matchCount: number;
+};
+
+export type DeliverySort = (typeof deliverySortOptions)[number];
+export type DeliveryPageQuery = z.infer<typeof deliveryPageQuerySchema>;
+
+// One page of a delivery listing; pass nextCursor back to get the next page
+export type DeliveryPage = {
+  items: DeliveryWithUser[];
+  nextCursor: string | null;
+  total: number;
+};
+
 export type CreateDeliveryInput = z.infer<typeof createDeliverySchema>;
+export type TripFormInput = z.infer<typeof tripFormSchema>;
+export type RateCard = z.infer<typeof rateCardSchema>;
+export type FeeEstimateRequest = z.infer<typeof feeEstimateRequestSchema>;
+
+// Suggested fee for a delivery and the range the server accepts, in cents
+export type FeeEstimate = {
+  suggested: number;
+  low: number;
+  high: number;
+  floor: number;
+  ceiling: number;
+  distanceKm: number;
+};
+
+export type OpenDisputeInput = z.infer<typeof openDisputeSchema>;
+export type DisputeReason = OpenDisputeInput["reason"];
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
+export type DisputeOutcome = ResolveDisputeInput["outcome"];
+
+// How the held money was divided when a dispute was closed
+export type DisputeResolution = {
+  outcome: DisputeOutcome;
+  senderAmount: number;
+  carrierAmount: number;
+  note: string;
+  resolvedBy: number;
+};
+
+export type AdminDeliveryFilters = z.infer<typeof adminDeliveryFiltersSchema>;
+export type SuspendUserInput = z.infer<typeof suspendUserSchema>;
+export type HideContentInput = z.infer<typeof hideContentSchema>;
+export type ForceDeliveryStatusInput = z.infer<typeof forceDeliveryStatusSchema>;
+
+// A user as listed in the admin console, without the password hash
+export type AdminUser = Omit<User, "password">;
+
+export type ReviewWithUsers = Review & {
+  reviewer: Partial<User> | null;
+  reviewee: Partial<User> | null;
+};
+
+export type ReviewVerificationInput = z.infer<typeof reviewVerificationSchema>;
+
+export type VerificationRequestWithUser = VerificationRequest & {
+  user: AdminUser;
+};
+
+// A user's own verification request; the file keys stay on the server
+export type OwnVerificationRequest = Omit<VerificationRequest, "documentKey" | "selfieKey">;
+
+export type DisputeWithDelivery = Dispute & {
+  delivery: Delivery;
+};
+
+export type DisputeMessageWithAuthor = DisputeMessage & {
+  author: Partial<User> | null;
+};
+
+export type WalletTopUpInput = z.infer<typeof walletTopUpSchema>;
+export type PayoutRequestInput = z.infer<typeof payoutRequestSchema>;
+
+// Side of a ledger transaction to post, before accounts are resolved
+export type InsertLedgerTransaction = Pick<LedgerTransaction, "kind" | "description"> &
+  Partial<Pick<LedgerTransaction, "deliveryId" | "reference">>;
+
+// One line of a wallet's history: the entry on the wallet and what caused it
+export type WalletTransaction = {
+  id: number;
+  transactionId: number;
+  kind: LedgerTransactionKind;
+  amount: number;
+  description: string;
+  deliveryId: number | null;
+  createdAt: Date;
+};
+
+export type WalletSummary = {
+  balance: number;
+  transactions: WalletTransaction[];
+};
+export type CreateOfferInput = z.infer<typeof createOfferSchema>;
+export type CounterOfferInput = z.infer<typeof counterOfferSchema>;
+
+export type OfferWithCarrier = Offer & {
+  carrier: Partial<User>;
+};
+
+export type DeliveryEventWithActor = DeliveryEvent & {
+  actor: Partial<User> | null;
+};
+
+// Handoff code as the sender sees it, with where the drop-off code was emailed
+export type HandoffCodeWithRecipient = HandoffCode & {
+  sentTo: string | null;
+};
+
+// Who caused a status change and why, recorded as a delivery event
+export type DeliveryTransition = {
+  actorId: number | null;
+  note?: string | null;
+  metadata?: Record<string, unknown>;
+};
+
+export type CreateMessageInput = z.infer<typeof createMessageSchema>;
+
+export type UnreadMessageCounts = {
+  total: number;
+  deliveries: { deliveryId: number; count: number }[];
+};
+
+export type UpdateEmailPreferencesInput = z.infer<typeof updateEmailPreferencesSchema>;
+
+export type NotificationList = {
+  notifications: Notification[];
+  unreadCount: number;
+};
+
+export type CancelDeliveryInput = z.infer<typeof cancelDeliverySchema>;
+export type CancellationReason = CancelDeliveryInput["reason"];
+
+export type DeliveryCancellation = CancelDeliveryInput & {
+  cancelledBy: number;
+};
+
+// Events pushed to signed-in clients over the /ws WebSocket. They only name
+// what changed; clients refetch the data through the regular API.
+export type RealtimeEvent =
+  | { type: "delivery.created"; deliveryId: number }
+  | { type: "delivery.updated"; deliveryId: number }
+  | { type: "offers.updated"; deliveryId: number }
+  | { type: "messages.updated"; deliveryId: number }
+  | { type: "disputes.updated"; deliveryId: number }
+  | { type: "notifications.updated" }
+  | { type: "verification.updated" }
+  | { type: "user.updated" }
+  | { type: "wallet.updated" };
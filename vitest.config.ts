@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Tests run against MemStorage; the database module only needs a URL to
+    // load and never connects
+    env: { DATABASE_URL: "postgres://localhost/test" },
+  },
+});